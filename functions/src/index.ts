@@ -0,0 +1,48 @@
+// Cloud Functions for the shop. Each export wraps a handler from
+// src/lib/serverFunctions.ts in an Admin SDK transaction, so production runs
+// the same code the memory backend runs locally. The app calls them through
+// supabase.rpc(name, params).
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, Transaction as AdminTransaction } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { SERVER_FUNCTIONS } from '../../src/lib/serverFunctions';
+import type { Transaction, WithId } from '../../src/lib/backend';
+
+initializeApp();
+const db = getFirestore();
+
+function adapt(t: AdminTransaction): Transaction {
+  return {
+    async get<T extends WithId>(table: string, id: string) {
+      const snap = await t.get(db.collection(table).doc(id));
+      return snap.exists ? ({ id: snap.id, ...snap.data() } as T) : null;
+    },
+    set(table, id, data) {
+      t.set(db.collection(table).doc(id), data);
+    },
+    update(table, id, data) {
+      t.update(db.collection(table).doc(id), data);
+    },
+    delete(table, id) {
+      t.delete(db.collection(table).doc(id));
+    },
+    newId(table) {
+      return db.collection(table).doc().id;
+    },
+  };
+}
+
+function callable(name: string) {
+  const handler = SERVER_FUNCTIONS[name];
+  return onCall(async (request) => {
+    const caller = request.auth ? { id: request.auth.uid, email: request.auth.token.email ?? null } : null;
+    try {
+      return await db.runTransaction((t) => handler(adapt(t), caller, request.data ?? {}));
+    } catch (err) {
+      console.error(`${name} failed`, err);
+      throw new HttpsError('internal', err instanceof Error ? err.message : 'Server function failed');
+    }
+  });
+}
+
+export const verify_delivery_pin = callable('verify_delivery_pin');
@@ -0,0 +1,35 @@
+import { Order } from '../lib/supabase';
+import { addressLines } from '../lib/addresses';
+
+type Props = {
+  order: Pick<Order, 'delivery_address' | 'delivery_address_details'>;
+  className?: string;
+};
+
+/**
+ * An order's delivery address. Orders placed with the address book render
+ * from their stored fields; older ones fall back to the free-text block.
+ */
+export function AddressDetails({ order, className = 'text-sm text-gray-900' }: Props) {
+  const details = order.delivery_address_details;
+  if (!details) {
+    return <p className={`${className} whitespace-pre-line`}>{order.delivery_address}</p>;
+  }
+
+  const [first, ...rest] = addressLines(details);
+  return (
+    <div className={className}>
+      {details.label && (
+        <span className="inline-block text-xs font-medium text-gray-600 bg-gray-100 px-2 py-0.5 rounded-full mb-1">
+          {details.label}
+        </span>
+      )}
+      <p className="font-medium">{first}</p>
+      {rest.map((line) => (
+        <p key={line}>{line}</p>
+      ))}
+    </div>
+  );
+}
+
+export default AddressDetails;
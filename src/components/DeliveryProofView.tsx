@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { Order } from '../lib/supabase';
+import { formatDistance } from '../lib/location';
+import { proofDistanceKm } from '../lib/deliveryProof';
+import ImageModal from './ImageModal';
+import { Camera, MapPin } from 'lucide-react';
+
+type Props = {
+  order: Pick<Order, 'latitude' | 'longitude' | 'delivery_proof'>;
+};
+
+/** The doorstep photo, signature and GPS point the rider recorded on delivery. */
+export function DeliveryProofView({ order }: Props) {
+  const [modal, setModal] = useState<{ src: string; alt: string } | null>(null);
+  const proof = order.delivery_proof;
+  if (!proof) return null;
+
+  const offsetKm = proofDistanceKm(order);
+
+  return (
+    <div className="p-4 bg-white rounded-2xl border border-gray-100 shadow-sm">
+      <p className="text-xs text-gray-500 uppercase tracking-wider flex items-center gap-1 mb-2">
+        <Camera className="w-3.5 h-3.5" />
+        Proof of Delivery
+      </p>
+      <div className="flex gap-3">
+        <button onClick={() => setModal({ src: proof.photo_url, alt: 'Doorstep photo' })} className="flex-shrink-0">
+          <img src={proof.photo_url} alt="Doorstep photo" className="w-24 h-24 object-cover rounded-xl border border-gray-200" />
+        </button>
+        {proof.signature_url && (
+          <button onClick={() => setModal({ src: proof.signature_url!, alt: 'Signature' })} className="flex-shrink-0">
+            <img src={proof.signature_url} alt="Signature" className="w-32 h-24 object-contain rounded-xl border border-gray-200 bg-white" />
+          </button>
+        )}
+        <div className="text-xs text-gray-600 space-y-1">
+          <p>{new Date(proof.captured_at).toLocaleString()}</p>
+          {proof.location ? (
+            <p className="flex items-start gap-1">
+              <MapPin className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+              <span>
+                {proof.location.latitude.toFixed(5)}, {proof.location.longitude.toFixed(5)}
+                {offsetKm !== null && <> · {formatDistance(offsetKm)} from the address</>}
+              </span>
+            </p>
+          ) : (
+            <p className="text-gray-400">No GPS fix was available at the door</p>
+          )}
+          {!proof.signature_url && <p className="text-gray-400">Not signed</p>}
+        </div>
+      </div>
+      {modal && <ImageModal src={modal.src} alt={modal.alt} onClose={() => setModal(null)} />}
+    </div>
+  );
+}
+
+export default DeliveryProofView;
@@ -0,0 +1,82 @@
+import { Clock, UserCheck } from 'lucide-react';
+import { Order } from '../lib/supabase';
+import { ORDER_STATUS_LABELS, OrderStatusEvent, statusHistory } from '../lib/orderStatus';
+
+type Props = {
+  order: Pick<Order, 'status' | 'created_at' | 'customer_id' | 'status_history'>;
+  // Optional id → display name lookup for actors and riders
+  names?: Record<string, string | undefined>;
+  title?: string;
+};
+
+const ROLE_LABELS: Record<OrderStatusEvent['actor_role'], string> = {
+  owner: 'Shop',
+  customer: 'Customer',
+  delivery: 'Delivery partner',
+};
+
+const DOT_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-500',
+  confirmed: 'bg-blue-500',
+  accepted: 'bg-blue-500',
+  preparing: 'bg-purple-500',
+  ready: 'bg-emerald-500',
+  out_for_delivery: 'bg-indigo-500',
+  delivered: 'bg-green-600',
+  cancelled: 'bg-red-500',
+};
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function describe(event: OrderStatusEvent, names: Record<string, string | undefined>) {
+  if (event.type === 'assignment') {
+    if (!event.delivery_boy_id) return 'Delivery partner unassigned';
+    return `Assigned to ${names[event.delivery_boy_id] || 'delivery partner'}`;
+  }
+  return ORDER_STATUS_LABELS[event.status] ?? event.status;
+}
+
+export function OrderTimeline({ order, names = {}, title = 'Order Timeline' }: Props) {
+  const events = statusHistory(order);
+  if (events.length === 0) return null;
+
+  return (
+    <div className="p-3 bg-white rounded-lg border border-gray-100">
+      <p className="text-xs text-gray-500 uppercase tracking-wider flex items-center gap-1 mb-2">
+        <Clock className="w-3.5 h-3.5" />
+        {title}
+      </p>
+      <ol className="border-l border-gray-200 ml-1.5 space-y-3">
+        {events.map((event, i) => {
+          const actor = (event.actor_id && names[event.actor_id]) || ROLE_LABELS[event.actor_role] || event.actor_role;
+          return (
+            <li key={`${event.at}-${i}`} className="relative pl-4">
+              <span
+                className={`absolute -left-1.5 top-1 w-3 h-3 rounded-full border-2 border-white ${
+                  event.type === 'assignment' ? 'bg-gray-400' : DOT_COLORS[event.status] || 'bg-gray-400'
+                }`}
+              />
+              <p className="text-sm font-medium text-gray-900 flex items-center gap-1">
+                {event.type === 'assignment' && <UserCheck className="w-3.5 h-3.5 text-gray-500" />}
+                {describe(event, names)}
+              </p>
+              <p className="text-xs text-gray-500">
+                {formatTime(event.at)} · by {actor}
+              </p>
+              {event.note && <p className="text-xs text-gray-600 mt-0.5">{event.note}</p>}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+export default OrderTimeline;
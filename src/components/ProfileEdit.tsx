@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { AddressBook } from './customer/AddressBook';
 
 export default function ProfileEdit({ onClose }: { onClose: () => void }) {
   const { profile, updateProfile, updateAuth, user } = useAuth();
@@ -10,6 +11,8 @@ export default function ProfileEdit({ onClose }: { onClose: () => void }) {
   const [password, setPassword] = useState('');
   const [passwordConfirm, setPasswordConfirm] = useState('');
   const [loading, setLoading] = useState(false);
+  // Customers keep structured addresses in their address book instead
+  const usesAddressBook = profile?.role === 'customer' && !!user;
 
   const handleSave = async () => {
     if (password && password !== passwordConfirm) {
@@ -25,7 +28,7 @@ export default function ProfileEdit({ onClose }: { onClose: () => void }) {
       }
 
       // Update profile fields
-      await updateProfile({ full_name: fullName, phone, address });
+      await updateProfile(usesAddressBook ? { full_name: fullName, phone } : { full_name: fullName, phone, address });
       onClose();
     } catch (err) {
       console.error('Profile update failed', err);
@@ -38,7 +41,7 @@ export default function ProfileEdit({ onClose }: { onClose: () => void }) {
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       <div className="fixed inset-0 bg-black opacity-30" onClick={onClose}></div>
-      <div className="bg-white rounded-lg shadow-lg p-6 z-10 w-full max-w-md">
+      <div className="bg-white rounded-lg shadow-lg p-6 z-10 w-full max-w-md max-h-[90vh] overflow-y-auto">
         <h3 className="text-lg font-semibold mb-4">Edit RegistHandicraft & Profile</h3>
         <div className="space-y-3">
           <div>
@@ -62,10 +65,17 @@ export default function ProfileEdit({ onClose }: { onClose: () => void }) {
             <label className="block text-sm text-gray-700 mb-1">Phone</label>
             <input value={phone} onChange={(e) => setPhone(e.target.value)} className="w-full px-3 py-2 border rounded" />
           </div>
-          <div>
-            <label className="block text-sm text-gray-700 mb-1">Address</label>
-            <textarea value={address} onChange={(e) => setAddress(e.target.value)} className="w-full px-3 py-2 border rounded" />
-          </div>
+          {usesAddressBook ? (
+            <div>
+              <label className="block text-sm text-gray-700 mb-1">Saved addresses</label>
+              <AddressBook customerId={user!.id} />
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm text-gray-700 mb-1">Address</label>
+              <textarea value={address} onChange={(e) => setAddress(e.target.value)} className="w-full px-3 py-2 border rounded" />
+            </div>
+          )}
         </div>
         <div className="mt-4 flex justify-end gap-2">
           <button onClick={onClose} className="px-4 py-2 rounded bg-gray-100">Cancel</button>
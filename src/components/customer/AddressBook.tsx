@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  ADDRESS_LABELS,
+  Address,
+  AddressInput,
+  EMPTY_ADDRESS,
+  addressError,
+  addressLines,
+  deleteAddress,
+  fetchAddresses,
+  hasAddressCoordinates,
+  saveAddress,
+  setDefaultAddress,
+} from '../../lib/addresses';
+import { getCurrentPosition } from '../../lib/location';
+import { describePinCode, lookupPinCode } from '../../lib/pinCodes';
+import { MapPin, Navigation, Pencil, Plus, Star, Trash2 } from 'lucide-react';
+
+type Editing = { id?: string; input: AddressInput };
+
+const toInput = (address: Address): AddressInput => ({
+  house_no: address.house_no,
+  street: address.street,
+  area: address.area,
+  city: address.city,
+  pin_code: address.pin_code,
+  nearby: address.nearby,
+  latitude: address.latitude,
+  longitude: address.longitude,
+  label: address.label,
+  is_default: address.is_default,
+});
+
+/** The customer's saved delivery addresses, edited in place inside ProfileEdit. */
+export function AddressBook({ customerId }: { customerId: string }) {
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setAddresses(await fetchAddresses(customerId));
+    } catch (error) {
+      console.error('Error loading addresses:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const update = (fields: Partial<AddressInput>) => {
+    setEditing((prev) => (prev ? { ...prev, input: { ...prev.input, ...fields } } : prev));
+  };
+
+  const fillCurrentLocation = async () => {
+    setLocating(true);
+    try {
+      const position = await getCurrentPosition();
+      update({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+    } catch (error: unknown) {
+      console.error('Error getting location:', error);
+      alert(error instanceof Error ? error.message : 'Failed to get location. Please enable GPS.');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  // Every action reloads so the default badge always matches what was stored
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setSaving(true);
+    try {
+      await action();
+      await load();
+      return true;
+    } catch (error: unknown) {
+      console.error(failure, error);
+      alert(error instanceof Error ? error.message : failure);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const invalid = addressError(editing.input);
+    if (invalid) {
+      alert(invalid);
+      return;
+    }
+    if (await run(() => saveAddress(customerId, editing.input, editing.id), 'Failed to save address')) {
+      setEditing(null);
+    }
+  };
+
+  const handleDelete = (address: Address) => {
+    if (!confirm(`Delete your ${address.label} address? Past orders keep the address they were sent to.`)) return;
+    run(() => deleteAddress(customerId, address.id), 'Failed to delete address');
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading addresses...</p>;
+  }
+
+  const inputClass = 'w-full px-3 py-2 border rounded';
+
+  return (
+    <div className="space-y-2">
+      {addresses.length === 0 && !editing && (
+        <p className="text-sm text-gray-500">No saved addresses yet. Addresses you use at checkout are saved here.</p>
+      )}
+
+      {addresses.map((address) => (
+        <div key={address.id} className="border rounded p-3 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold text-gray-900">{address.label}</span>
+            {address.is_default && (
+              <span className="text-xs text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded-full">Default</span>
+            )}
+            {hasAddressCoordinates(address) && <MapPin className="w-3.5 h-3.5 text-gray-400" aria-label="Location saved" />}
+            <div className="ml-auto flex items-center gap-1">
+              {!address.is_default && (
+                <button
+                  type="button"
+                  onClick={() => run(() => setDefaultAddress(customerId, address.id), 'Failed to update default address')}
+                  disabled={saving}
+                  className="p-1 text-gray-500 hover:text-emerald-600"
+                  title="Make default"
+                >
+                  <Star className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setEditing({ id: address.id, input: toInput(address) })}
+                disabled={saving}
+                className="p-1 text-gray-500 hover:text-blue-600"
+                title="Edit"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(address)}
+                disabled={saving}
+                className="p-1 text-gray-500 hover:text-red-600"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          {addressLines(address).map((line) => (
+            <p key={line} className="text-gray-600">{line}</p>
+          ))}
+        </div>
+      ))}
+
+      {editing ? (
+        <div className="border rounded p-3 space-y-2 bg-gray-50">
+          <div className="flex gap-2">
+            {ADDRESS_LABELS.map((label) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => update({ label })}
+                className={`px-3 py-1 rounded-full text-sm border ${
+                  editing.input.label === label ? 'bg-emerald-600 text-white border-emerald-600' : 'bg-white text-gray-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <input value={editing.input.house_no} onChange={(e) => update({ house_no: e.target.value })} className={inputClass} placeholder="House/Flat/Shop No (optional)" />
+          <input value={editing.input.street} onChange={(e) => update({ street: e.target.value })} className={inputClass} placeholder="Street/Road Name" />
+          <input value={editing.input.area} onChange={(e) => update({ area: e.target.value })} className={inputClass} placeholder="Area/Landmark (optional)" />
+          <div className="grid grid-cols-2 gap-2">
+            <input value={editing.input.city} onChange={(e) => update({ city: e.target.value })} className={inputClass} placeholder="Village/City" />
+            <input
+              value={editing.input.pin_code}
+              onChange={(e) => {
+                const pin = e.target.value.replace(/\D/g, '');
+                const city = lookupPinCode(pin)?.city;
+                update({ pin_code: pin, ...(city && !editing.input.city.trim() ? { city } : {}) });
+              }}
+              className={inputClass}
+              placeholder="PIN Code"
+              maxLength={6}
+            />
+          </div>
+          {lookupPinCode(editing.input.pin_code) && (
+            <p className="text-xs text-gray-500">{describePinCode(lookupPinCode(editing.input.pin_code)!)}</p>
+          )}
+          <input value={editing.input.nearby} onChange={(e) => update({ nearby: e.target.value })} className={inputClass} placeholder="Nearby Location (optional)" />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <button
+              type="button"
+              onClick={fillCurrentLocation}
+              disabled={locating}
+              className="flex items-center gap-1 px-3 py-1 rounded bg-white border text-gray-700 disabled:opacity-50"
+            >
+              <Navigation className="w-4 h-4" />
+              {locating ? 'Locating...' : 'Use current location'}
+            </button>
+            {hasAddressCoordinates(editing.input) && (
+              <span className="text-xs text-gray-500 font-mono">
+                {editing.input.latitude!.toFixed(5)}, {editing.input.longitude!.toFixed(5)}
+              </span>
+            )}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!editing.input.is_default}
+              onChange={(e) => update({ is_default: e.target.checked })}
+            />
+            Use as my default address
+          </label>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setEditing(null)} className="px-3 py-1 rounded bg-gray-100">
+              Cancel
+            </button>
+            <button type="button" onClick={handleSave} disabled={saving} className="px-3 py-1 rounded bg-emerald-600 text-white">
+              {saving ? 'Saving...' : 'Save Address'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setEditing({ input: { ...EMPTY_ADDRESS, label: ADDRESS_LABELS[0] } })}
+          className="flex items-center gap-1 text-sm text-emerald-700 hover:text-emerald-800 font-medium"
+        >
+          <Plus className="w-4 h-4" />
+          Add address
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default AddressBook;
@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { Order } from '../../lib/supabase';
+import { confirmPayment, paymentProviderId, startPayment } from '../../lib/payments';
+import { MOCK_PROVIDER_ID } from '../../lib/mockPaymentProvider';
+import { AlertCircle, CreditCard, Lock } from 'lucide-react';
+
+type Props = {
+  order: Pick<Order, 'id' | 'order_number' | 'total_amount' | 'status' | 'created_at' | 'payment_reference'>;
+  onPaid: () => void;
+};
+
+// "4242424242424242" → "4242 4242 4242 4242"
+const formatCardNumber = (value: string) =>
+  value.replace(/\D/g, '').slice(0, 19).replace(/(\d{4})(?=\d)/g, '$1 ');
+
+const formatExpiry = (value: string) => {
+  const digits = value.replace(/\D/g, '').slice(0, 4);
+  return digits.length > 2 ? `${digits.slice(0, 2)}/${digits.slice(2)}` : digits;
+};
+
+/** Collects the card for an `awaiting_payment` order and hands the order to the shop once it is paid. */
+export function CardPaymentForm({ order, onPaid }: Props) {
+  const [number, setNumber] = useState('');
+  const [expiry, setExpiry] = useState('');
+  const [cvc, setCvc] = useState('');
+  const [name, setName] = useState('');
+  const [ready, setReady] = useState(false);
+  const [paying, setPaying] = useState(false);
+  const [failure, setFailure] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        await startPayment(order);
+        setReady(true);
+      } catch (error: unknown) {
+        console.error('Error starting payment:', error);
+        setFailure(error instanceof Error ? error.message : 'Could not start the payment');
+      }
+    })();
+  }, [order]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (paying) return;
+    setPaying(true);
+    setFailure(null);
+    try {
+      await confirmPayment(order.id, { number, expiry, cvc, name });
+      onPaid();
+    } catch (error: unknown) {
+      console.error('Error confirming payment:', error);
+      setFailure(error instanceof Error ? error.message : 'Payment failed');
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 border-2 border-gray-200 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent font-mono';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">Order {order.order_number}</span>
+        <span className="text-xl font-bold text-gray-900">₹{order.total_amount.toFixed(2)}</span>
+      </div>
+
+      <div className="relative">
+        <CreditCard className="w-5 h-5 text-gray-400 absolute left-4 top-1/2 -translate-y-1/2" />
+        <input
+          value={number}
+          onChange={(e) => setNumber(formatCardNumber(e.target.value))}
+          className={`${inputClass} pl-12`}
+          placeholder="Card number"
+          inputMode="numeric"
+          autoComplete="cc-number"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <input
+          value={expiry}
+          onChange={(e) => setExpiry(formatExpiry(e.target.value))}
+          className={inputClass}
+          placeholder="MM/YY"
+          inputMode="numeric"
+          autoComplete="cc-exp"
+        />
+        <input
+          value={cvc}
+          onChange={(e) => setCvc(e.target.value.replace(/\D/g, '').slice(0, 4))}
+          className={inputClass}
+          placeholder="CVC"
+          inputMode="numeric"
+          autoComplete="cc-csc"
+        />
+      </div>
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className={`${inputClass} font-sans`}
+        placeholder="Name on card (optional)"
+        autoComplete="cc-name"
+      />
+
+      {paymentProviderId() === MOCK_PROVIDER_ID && (
+        <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-3 py-2">
+          Test mode: no money is taken. Use 4242 4242 4242 4242 with any future date and CVC; 4000 0000 0000 0002 is declined.
+        </p>
+      )}
+
+      {failure && (
+        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-xl px-3 py-2 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {failure}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={!ready || paying}
+        className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white font-semibold py-3 rounded-2xl shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Lock className="w-4 h-4" />
+        {paying ? 'Processing...' : `Pay ₹${order.total_amount.toFixed(2)}`}
+      </button>
+    </form>
+  );
+}
+
+export default CardPaymentForm;
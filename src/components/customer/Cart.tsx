@@ -18,6 +18,8 @@ import {
 } from 'lucide-react';
 import ImageModal from '../ImageModal';
 import { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { checkCoupon, couponLinesFromCart, normalizeCouponCode } from '../../lib/coupons';
 
 type CartProps = {
   onCheckout: () => void;
@@ -25,13 +27,26 @@ type CartProps = {
 };
 
 export function Cart({ onCheckout, isLoading = false }: CartProps) {
-  const { cart, removeFromCart, updateQuantity, totalAmount, clearCart } = useCart();
+  const {
+    cart,
+    removeFromCart,
+    updateQuantity,
+    totalAmount,
+    clearCart,
+    couponCode: appliedCoupon,
+    setCouponCode: setAppliedCoupon,
+    couponQuote,
+    couponError,
+    discountAmount,
+  } = useCart();
+  const { user } = useAuth();
   const [modal, setModal] = useState<{ src: string; alt?: string } | null>(null);
   const [removingItem, setRemovingItem] = useState<string | null>(null);
   const [showClearConfirmation, setShowClearConfirmation] = useState(false);
   const [animateItems, setAnimateItems] = useState<Record<string, boolean>>({});
-  const [couponApplied, setCouponApplied] = useState(false);
-  const [couponCode, setCouponCode] = useState('');
+  const [couponCode, setCouponCode] = useState(appliedCoupon ?? '');
+  const [checkingCoupon, setCheckingCoupon] = useState(false);
+  const couponApplied = appliedCoupon !== null;
 
   // Animate items on mount
   useEffect(() => {
@@ -68,15 +83,27 @@ export function Cart({ onCheckout, isLoading = false }: CartProps) {
     }
   };
 
-  const applyCoupon = () => {
-    if (couponCode.trim().toLowerCase() === 'welcome10') {
-      setCouponApplied(true);
-      alert('🎉 Coupon applied! 10% discount on your order!');
-    } else {
-      alert('❌ Invalid coupon code. Please try again.');
+  const applyCoupon = async () => {
+    if (checkingCoupon) return;
+    setCheckingCoupon(true);
+    try {
+      const quote = await checkCoupon(couponCode, couponLinesFromCart(cart), user?.id);
+      setAppliedCoupon(quote.code);
+      setCouponCode(quote.code);
+      alert(`🎉 Coupon applied! You save ₹${quote.discount.toFixed(2)} on your order!`);
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`❌ ${msg || 'Invalid coupon code. Please try again.'}`);
+    } finally {
+      setCheckingCoupon(false);
     }
   };
 
+  const removeCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponCode('');
+  };
+
   if (cart.length === 0) {
     return (
       <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-2xl p-8 sm:p-16 text-center border border-white/20 relative overflow-hidden">
@@ -295,23 +322,29 @@ export function Cart({ onCheckout, isLoading = false }: CartProps) {
                 <input
                   type="text"
                   value={couponCode}
-                  onChange={(e) => setCouponCode(e.target.value)}
+                  onChange={(e) => setCouponCode(normalizeCouponCode(e.target.value))}
                   placeholder="Enter coupon code"
                   className="flex-1 px-3 sm:px-4 py-2 sm:py-2.5 text-sm border-2 border-gray-200 rounded-xl sm:rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all bg-white/50 backdrop-blur-sm"
                   disabled={couponApplied}
                 />
                 <button
-                  onClick={applyCoupon}
-                  disabled={couponApplied}
+                  onClick={couponApplied ? removeCoupon : applyCoupon}
+                  disabled={checkingCoupon || (!couponApplied && !couponCode.trim())}
                   className="px-4 sm:px-6 py-2 sm:py-2.5 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold rounded-xl sm:rounded-2xl hover:shadow-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base whitespace-nowrap"
                 >
-                  {couponApplied ? 'Applied!' : 'Apply'}
+                  {checkingCoupon ? 'Checking...' : couponApplied ? 'Remove' : 'Apply'}
                 </button>
               </div>
-              {couponApplied && (
+              {couponQuote && (
                 <span className="text-xs sm:text-sm text-emerald-600 font-medium flex items-center gap-1">
                   <Sparkles className="w-3 h-3 sm:w-4 sm:h-4" />
-                  10% discount applied
+                  {couponQuote.code}: ₹{couponQuote.discount.toFixed(2)} off
+                </span>
+              )}
+              {couponApplied && couponError && (
+                <span className="text-xs sm:text-sm text-red-600 font-medium flex items-center gap-1">
+                  <AlertCircle className="w-3 h-3 sm:w-4 sm:h-4" />
+                  {couponError}
                 </span>
               )}
             </div>
@@ -338,7 +371,7 @@ export function Cart({ onCheckout, isLoading = false }: CartProps) {
                     {cart.reduce((acc, item) => acc + item.quantity, 0)}
                   </p>
                 </div>
-                {couponApplied && (
+                {discountAmount > 0 && (
                   <>
                     <div className="hidden sm:block w-px h-12 bg-gray-300" />
                     <div>
@@ -347,7 +380,7 @@ export function Cart({ onCheckout, isLoading = false }: CartProps) {
                         Discount
                       </span>
                       <p className="text-base sm:text-xl font-bold text-emerald-600">
-                        -₹{(totalAmount * 0.1).toFixed(2)}
+                        -₹{discountAmount.toFixed(2)}
                       </p>
                     </div>
                   </>
@@ -372,7 +405,7 @@ export function Cart({ onCheckout, isLoading = false }: CartProps) {
                     <span className="truncate">Proceed to Checkout</span>
                     <ArrowRight className="w-4 h-4 sm:w-5 sm:h-5 group-hover:translate-x-2 transition-transform duration-300 flex-shrink-0" />
                     <span className="text-[10px] sm:text-xs bg-white/20 px-1.5 sm:px-2 py-0.5 rounded-full whitespace-nowrap">
-                      ₹{(couponApplied ? totalAmount * 0.9 : totalAmount).toFixed(2)}
+                      ₹{(totalAmount - discountAmount).toFixed(2)}
                     </span>
                   </>
                 )}
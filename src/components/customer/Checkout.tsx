@@ -1,7 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useCart } from '../../contexts/CartContext';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase, ShopLocation } from '../../lib/supabase';
+import { Order, ShopLocation } from '../../lib/supabase';
 import { 
   ArrowLeft, 
   MapPin, 
@@ -23,9 +23,47 @@ import {
   Wallet,
   Zap,
   ShoppingBag,
-  Heart
+  Heart,
+  Smartphone
 } from 'lucide-react';
-import { calculateDistance, getCurrentPosition, formatDistance } from '../../lib/location';
+import { getCurrentPosition, formatDistance } from '../../lib/location';
+import {
+  deliveryQuote,
+  deliveryQuoteError,
+  deliverySettings,
+  deliveryZones,
+  describeDeliverySettings,
+  describeDeliveryZones,
+  formatTime,
+  hasShopCoordinates,
+  pinCodeQuote,
+} from '../../lib/shop';
+import { closedMessage, formatOpening, shopStatus } from '../../lib/businessHours';
+import {
+  DeliverySlot,
+  SlotAvailability,
+  fetchAvailableSlots,
+  formatSlot,
+  formatSlotDay,
+  slotWindows,
+} from '../../lib/deliverySlots';
+import { PaymentMethod, cardPaymentsEnabled } from '../../lib/payments';
+import { CardPaymentForm } from './CardPaymentForm';
+import { UpiPaymentPanel } from './UpiPaymentPanel';
+import { shopUpiVpa } from '../../lib/upi';
+import { newCheckoutKey, placeOrder } from '../../lib/checkout';
+import {
+  ADDRESS_LABELS,
+  Address,
+  AddressFields,
+  EMPTY_ADDRESS,
+  addressLines,
+  addressSnapshot,
+  fetchAddresses,
+  formatAddress,
+  parseLegacyAddress,
+} from '../../lib/addresses';
+import { describePinCode, lookupPinCode, pinCodeError } from '../../lib/pinCodes';
 import { AuthForm } from '../AuthForm';
 
 type CheckoutProps = {
@@ -42,11 +80,12 @@ type FormErrors = {
 };
 
 export function Checkout({ shopLocation, onBack }: CheckoutProps) {
-  const { cart, totalAmount, clearCart } = useCart();
+  const { cart, totalAmount, clearCart, couponCode, couponQuote, couponError, discountAmount, setCouponCode } = useCart();
   const { profile, user } = useAuth();
   const [fullName, setFullName] = useState(profile?.full_name || '');
   const [phone, setPhone] = useState(profile?.phone || '');
   const [loading, setLoading] = useState(false);
+  const checkoutKeyRef = useRef<string | null>(null);
   const [latitude, setLatitude] = useState<number | null>(null);
   const [longitude, setLongitude] = useState<number | null>(null);
   const [houseNo, setHouseNo] = useState('');
@@ -55,36 +94,109 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
   const [villageName, setVillageName] = useState('');
   const [pinCode, setPinCode] = useState('');
   const [nearbyLocation, setNearbyLocation] = useState('');
-  const [distance, setDistance] = useState<number | null>(null);
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  // A saved address, or null while entering a new one
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [addressLabel, setAddressLabel] = useState<string>(ADDRESS_LABELS[0]);
+  const [saveNewAddress, setSaveNewAddress] = useState(true);
+  // The city last filled in from a PIN, so typing another PIN can replace it
+  const autofilledCityRef = useRef('');
   const [gettingLocation, setGettingLocation] = useState(false);
   const [errors, setErrors] = useState<FormErrors>({});
   const [orderPlaced, setOrderPlaced] = useState(false);
-  const [orderDetails, setOrderDetails] = useState<{ number: string; pin: string } | null>(null);
+  const [orderDetails, setOrderDetails] = useState<{
+    number: string;
+    pin: string;
+    total: number;
+    processAfter: string | null;
+    slot: DeliverySlot | null;
+  } | null>(null);
   const [touched, setTouched] = useState<Record<string, boolean>>({});
-  const [paymentMethod, setPaymentMethod] = useState<'cod' | 'card'>('cod');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cod');
+  // A prepaid order that has been placed but not paid for yet
+  const [unpaidOrder, setUnpaidOrder] = useState<Order | null>(null);
+  // UPI is only offered once the owner has set a VPA
+  const upiVpa = shopUpiVpa(shopLocation);
+  const [awaitingVerification, setAwaitingVerification] = useState(false);
   const [agreeToTerms, setAgreeToTerms] = useState(false);
+  // Only offered when the owner has set up delivery slots
+  const offersSlots = slotWindows(shopLocation).length > 0;
+  const [slots, setSlots] = useState<SlotAvailability[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null);
+
+  // Same quote placeOrder() will charge; null until both locations are known.
+  // Shops with zones can also place the customer by PIN code before GPS is shared.
+  const delivery = !hasShopCoordinates(shopLocation)
+    ? null
+    : latitude !== null && longitude !== null
+      ? deliveryQuote(shopLocation, latitude, longitude, totalAmount - discountAmount)
+      : pinCodeQuote(shopLocation, pinCode, totalAmount - discountAmount);
+  const deliveryFee = delivery?.fee ?? 0;
+  const deliveryProblem = delivery ? deliveryQuoteError(shopLocation!, delivery, totalAmount - discountAmount) : null;
+  const settings = deliverySettings(shopLocation);
+  const zones = deliveryZones(shopLocation);
+  const status = shopStatus(shopLocation);
+  // Closed for the night is fine, the order waits for the next opening; paused is not
+  const ordersBlocked = !status.open && !status.nextOpen;
+  const pinInfo = lookupPinCode(pinCode);
+  const pinProblem = pinCode.length === 6 ? pinCodeError(shopLocation, pinCode) : null;
+
+  const loadSlots = useCallback(async () => {
+    if (!offersSlots) return;
+    setSlotsLoading(true);
+    try {
+      const available = await fetchAvailableSlots(shopLocation);
+      setSlots(available);
+      // Drop a choice that has since filled up or started
+      setSelectedSlotId((current) => (available.some((a) => a.slot.id === current) ? current : null));
+    } catch (error) {
+      console.error('Error loading delivery slots:', error);
+    } finally {
+      setSlotsLoading(false);
+    }
+  }, [offersSlots, shopLocation]);
 
-  // Load address from profile if available
   useEffect(() => {
-    if (profile?.address) {
-      const lines = profile.address.split('\n');
-      const parsed: Record<string, string> = {};
-      lines.forEach(line => {
-        const colonIndex = line.indexOf(':');
-        if (colonIndex > 0) {
-          const key = line.substring(0, colonIndex).trim();
-          const value = line.substring(colonIndex + 1).trim();
-          parsed[key] = value;
+    loadSlots();
+  }, [loadSlots]);
+
+  const fillAddress = (fields: AddressFields) => {
+    setHouseNo(fields.house_no);
+    setStreetName(fields.street);
+    setAreaLandmark(fields.area);
+    setVillageName(fields.city);
+    setPinCode(fields.pin_code);
+    setNearbyLocation(fields.nearby);
+    setLatitude(fields.latitude);
+    setLongitude(fields.longitude);
+  };
+
+  const selectAddress = (address: Address | null) => {
+    setSelectedAddressId(address?.id ?? null);
+    fillAddress(address ?? EMPTY_ADDRESS);
+  };
+
+  // Start from the default address; customers without a book get the single
+  // address older versions of checkout kept on their profile
+  useEffect(() => {
+    if (!user) return;
+    (async () => {
+      try {
+        const saved = await fetchAddresses(user.id);
+        setAddresses(saved);
+        if (saved.length > 0) {
+          setSelectedAddressId(saved[0].id);
+          fillAddress(saved[0]);
+          return;
         }
-      });
-      setHouseNo(parsed['House/Flat/Shop No'] || '');
-      setStreetName(parsed['Street/Road Name'] || '');
-      setAreaLandmark(parsed['Area/Landmark'] || '');
-      setVillageName(parsed['Village/City'] || '');
-      setPinCode(parsed['PIN Code'] || '');
-      setNearbyLocation(parsed['Nearby Location'] || '');
-    }
-  }, [profile]);
+      } catch (error) {
+        console.error('Error loading addresses:', error);
+      }
+      const legacy = parseLegacyAddress(profile?.address);
+      if (legacy) fillAddress(legacy);
+    })();
+  }, [user, profile?.address]);
 
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {};
@@ -110,8 +222,9 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
       isValid = false;
     }
 
-    if (!pinCode.trim() || !/^[0-9]{6}$/.test(pinCode)) {
-      newErrors.pinCode = 'Please enter a valid 6-digit PIN code';
+    const pinMessage = pinCodeError(shopLocation, pinCode);
+    if (pinMessage) {
+      newErrors.pinCode = pinMessage;
       isValid = false;
     }
 
@@ -119,6 +232,16 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
     return isValid;
   };
 
+  const handlePinCodeChange = (value: string) => {
+    const pin = value.replace(/\D/g, '');
+    setPinCode(pin);
+    const city = lookupPinCode(pin)?.city;
+    if (city && (!villageName.trim() || villageName === autofilledCityRef.current)) {
+      setVillageName(city);
+      autofilledCityRef.current = city;
+    }
+  };
+
   const handleFieldTouch = (field: string) => {
     setTouched({ ...touched, [field]: true });
   };
@@ -136,6 +259,13 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
       return;
     }
 
+    // A saved address's fields are not on screen, so its PIN problem has to be spelled out
+    const savedPinProblem = selectedAddressId !== null ? pinCodeError(shopLocation, pinCode) : null;
+    if (savedPinProblem) {
+      alert(`${savedPinProblem}. Please choose or add another address.`);
+      return;
+    }
+
     if (!validateForm()) {
       const allTouched: Record<string, boolean> = {};
       Object.keys(errors).forEach(key => allTouched[key] = true);
@@ -143,72 +273,94 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
       return;
     }
 
+    if (ordersBlocked) {
+      alert(closedMessage(status) ?? 'The shop is not taking orders right now');
+      return;
+    }
+
+    if (hasShopCoordinates(shopLocation) && !delivery) {
+      alert('Please tap "Get My Location" so we can check that we deliver to your address');
+      return;
+    }
+
+    if (deliveryProblem) {
+      alert(deliveryProblem);
+      return;
+    }
+
+    if (offersSlots && !selectedSlotId) {
+      alert('Please choose a delivery slot');
+      return;
+    }
+
+    if (couponCode && couponError) {
+      alert(`${couponError}. Remove coupon ${couponCode} to continue.`);
+      return;
+    }
+
+    if (loading) return;
     setLoading(true);
+    // Reused until an order goes through, so retrying after a network error
+    // cannot create the same order twice
+    if (!checkoutKeyRef.current) checkoutKeyRef.current = newCheckoutKey();
     try {
-      const orderNumber = `ORD${Date.now().toString().slice(-8)}`;
-      const deliveryPin = Math.floor(100000 + Math.random() * 900000).toString();
-
-      const fullAddress = [
-        houseNo && `🏠 House/Flat/Shop: ${houseNo}`,
-        streetName && `📍 Street: ${streetName}`,
-        areaLandmark && `🏷️ Area/Landmark: ${areaLandmark}`,
-        villageName && `🏘️ Village/City: ${villageName}`,
-        pinCode && `📮 PIN: ${pinCode}`,
-        nearbyLocation && `📌 Nearby: ${nearbyLocation}`,
-        latitude && longitude && `🌐 GPS: ${latitude.toFixed(6)}, ${longitude.toFixed(6)}`
-      ].filter(Boolean).join('\n');
+      const addressFields: AddressFields = {
+        house_no: houseNo,
+        street: streetName,
+        area: areaLandmark,
+        city: villageName,
+        pin_code: pinCode,
+        nearby: nearbyLocation,
+        latitude,
+        longitude,
+      };
+      const savedAddress = addresses.find((a) => a.id === selectedAddressId) ?? null;
 
       const payload = {
-        order_number: orderNumber,
         customer_id: user.id,
         customer_name: fullName,
         customer_phone: phone,
-        delivery_address: fullAddress,
-        total_amount: totalAmount,
-        status: 'pending',
-        delivery_pin: deliveryPin,
+        delivery_address: formatAddress(addressFields),
+        delivery_address_details: addressSnapshot(addressFields, savedAddress),
         payment_method: paymentMethod,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
-        ...(latitude !== null && longitude !== null && distance !== null
-          ? { latitude, longitude, distance_km: distance }
-          : {}),
+        ...(latitude !== null && longitude !== null ? { latitude, longitude } : {}),
       };
 
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert(payload);
-      const order = orderData ? orderData[0] : null;
-
-      if (orderError) throw orderError;
-      if (!order) throw new Error('Failed to create order');
-
-      const orderItems = cart.map((item) => ({
-        order_id: order.id,
-        item_id: item.item.id,
-        variant_id: item.variant.id,
-        item_name: item.item.name,
-        quantity_unit: item.variant.quantity_unit,
-        quantity: item.quantity,
-        price: item.variant.price,
-        subtotal: item.variant.price * item.quantity,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
-
-      if (profile && fullAddress !== profile.address) {
-        await supabase
-          .from('profiles')
-          .update({ address: fullAddress })
-          .eq('id', user.id);
-      }
+      const { order, pin } = await placeOrder({
+        key: checkoutKeyRef.current,
+        order: payload,
+        items: cart.map((item) => ({
+          item_id: item.item.id,
+          variant_id: item.variant.id,
+          item_name: item.item.name,
+          quantity_unit: item.variant.quantity_unit,
+          quantity: item.quantity,
+          price: item.variant.price,
+          subtotal: item.variant.price * item.quantity,
+        })),
+        couponCode,
+        deliverySlotId: offersSlots ? selectedSlotId : null,
+        saveAddress:
+          !savedAddress && saveNewAddress ? { label: addressLabel, isDefault: addresses.length === 0 } : undefined,
+      });
+      checkoutKeyRef.current = null;
 
-      setOrderDetails({ number: orderNumber, pin: deliveryPin });
-      setOrderPlaced(true);
+      // A retried submit gets back the order that was already placed
+      setOrderDetails({
+        number: order.order_number,
+        pin: pin ?? '',
+        total: order.total_amount,
+        processAfter: order.process_after ?? null,
+        slot: order.delivery_slot ?? null,
+      });
+      // The stock is reserved either way; a card order waits here for payment
+      if (order.status === 'awaiting_payment') {
+        setUnpaidOrder(order);
+      } else {
+        setOrderPlaced(true);
+      }
       clearCart();
 
       try {
@@ -223,6 +375,8 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
       const msg = error instanceof Error ? error.message : String(error);
       console.error('Error placing order:', error);
       alert(msg || 'Failed to place order');
+      // The chosen slot may have filled up in the meantime
+      loadSlots();
     } finally {
       setLoading(false);
     }
@@ -237,13 +391,6 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
 
       setLatitude(lat);
       setLongitude(lng);
-
-      if (shopLocation) {
-        const dist = calculateDistance(shopLocation.latitude, shopLocation.longitude, lat, lng);
-        setDistance(dist);
-      } else {
-        setDistance(null);
-      }
     } catch (error: unknown) {
       const msg = error instanceof Error ? error.message : String(error);
       console.error('Error getting location:', error);
@@ -287,6 +434,48 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
     );
   }
 
+  if (unpaidOrder && !orderPlaced) {
+    const paysByUpi = unpaidOrder.payment_method === 'upi' && upiVpa;
+    return (
+      <div className="max-w-md mx-auto px-4">
+        <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-2xl border border-white/20 overflow-hidden">
+          <div className="bg-gradient-to-r from-purple-600 via-pink-600 to-orange-500 px-6 py-6">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <CreditCard className="w-6 h-6" />
+              Complete your payment
+            </h2>
+            <p className="text-white/80 text-sm mt-1">The shop starts on your order as soon as it is paid.</p>
+          </div>
+          <div className="p-6 space-y-4">
+            {paysByUpi ? (
+              <UpiPaymentPanel
+                order={unpaidOrder}
+                vpa={paysByUpi}
+                payeeName={shopLocation?.shop_name}
+                onSubmitted={() => {
+                  setUnpaidOrder(null);
+                  setAwaitingVerification(true);
+                  setOrderPlaced(true);
+                }}
+              />
+            ) : (
+              <CardPaymentForm
+                order={unpaidOrder}
+                onPaid={() => {
+                  setUnpaidOrder(null);
+                  setOrderPlaced(true);
+                }}
+              />
+            )}
+            <button type="button" onClick={onBack} className="w-full text-sm text-gray-500 hover:text-gray-700">
+              Pay later from My Orders
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (orderPlaced && orderDetails) {
     return (
       <div className="max-w-3xl mx-auto px-4">
@@ -308,7 +497,16 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
             <h2 className="text-4xl font-bold text-gray-900 mb-2 bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
               Order Placed Successfully! 🎉
             </h2>
-            <p className="text-gray-600 text-lg mb-6">Thank you for your order! We'll notify you when it's ready.</p>
+            {awaitingVerification && (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-4 py-2 mb-4 max-w-md mx-auto">
+                We've sent your UPI reference to the shop. Your order goes ahead once they have matched it with the payment.
+              </p>
+            )}
+            <p className="text-gray-600 text-lg mb-6">
+              {orderDetails.processAfter
+                ? `Thank you for your order! The shop is closed right now and will start on it ${formatOpening(new Date(orderDetails.processAfter))}.`
+                : "Thank you for your order! We'll notify you when it's ready."}
+            </p>
             
             <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 mb-6 max-w-md mx-auto border border-gray-200 shadow-lg">
               <div className="space-y-3">
@@ -322,9 +520,15 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
                     {orderDetails.pin}
                   </span>
                 </div>
+                {orderDetails.slot && (
+                  <div className="flex justify-between items-center pt-3 border-t border-gray-200">
+                    <span className="text-gray-600">Delivery</span>
+                    <span className="font-medium text-gray-900 text-right">{formatSlot(orderDetails.slot)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between items-center pt-3 border-t border-gray-200">
                   <span className="text-gray-600">Total Amount</span>
-                  <span className="text-2xl font-bold text-gray-900">₹{totalAmount.toFixed(2)}</span>
+                  <span className="text-2xl font-bold text-gray-900">₹{orderDetails.total.toFixed(2)}</span>
                 </div>
               </div>
             </div>
@@ -378,6 +582,15 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
             </div>
 
             <form onSubmit={handleSubmit} className="p-6 space-y-6">
+              {!status.open && (
+                <div className={`flex items-start gap-2 p-4 rounded-2xl border-2 text-sm font-medium ${
+                  ordersBlocked ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'
+                }`}>
+                  <Clock className="w-5 h-5 flex-shrink-0" />
+                  <span>{closedMessage(status)}</span>
+                </div>
+              )}
+
               {/* Personal Information */}
               <div className="space-y-4">
                 <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wider flex items-center gap-2 bg-gradient-to-r from-purple-100 to-pink-100 px-4 py-2 rounded-xl">
@@ -443,125 +656,204 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
                   Delivery Address
                 </h3>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1.5">
-                    House/Flat/Shop No
-                  </label>
-                  <input
-                    type="text"
-                    value={houseNo}
-                    onChange={(e) => setHouseNo(e.target.value)}
-                    className="w-full px-4 py-3 border-2 border-gray-200 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm hover:border-purple-300"
-                    placeholder="e.g., 123, A-45, Shop #8 (optional)"
-                  />
-                </div>
+                {addresses.length > 0 && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {addresses.map((address) => (
+                      <button
+                        key={address.id}
+                        type="button"
+                        onClick={() => selectAddress(address)}
+                        className={`p-4 rounded-2xl border-2 text-left transition-all duration-200 ${
+                          selectedAddressId === address.id
+                            ? 'border-purple-500 bg-purple-50 shadow-lg shadow-purple-200'
+                            : 'border-gray-200 bg-white/50 hover:border-purple-300'
+                        }`}
+                      >
+                        <span className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                          {address.label}
+                          {address.is_default && (
+                            <span className="text-xs font-medium text-purple-600 bg-purple-100 px-2 py-0.5 rounded-full">Default</span>
+                          )}
+                        </span>
+                        {addressLines(address).map((line) => (
+                          <span key={line} className="block text-xs text-gray-600 mt-0.5">{line}</span>
+                        ))}
+                        {pinCodeError(shopLocation, address.pin_code) && (
+                          <span className="block text-xs text-red-600 mt-1">{pinCodeError(shopLocation, address.pin_code)}</span>
+                        )}
+                      </button>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => selectAddress(null)}
+                      className={`p-4 rounded-2xl border-2 border-dashed text-sm font-medium transition-all duration-200 ${
+                        selectedAddressId === null
+                          ? 'border-purple-500 bg-purple-50 text-purple-600'
+                          : 'border-gray-300 text-gray-600 hover:border-purple-300'
+                      }`}
+                    >
+                      + Add a new address
+                    </button>
+                  </div>
+                )}
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1.5">
-                    Street/Road Name <span className="text-red-500">*</span>
-                  </label>
-                  <input
-                    type="text"
-                    required
-                    value={streetName}
-                    onChange={(e) => setStreetName(e.target.value)}
-                    onBlur={() => handleFieldTouch('streetName')}
-                    className={`w-full px-4 py-3 border-2 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm ${
-                      touched.streetName && errors.streetName ? 'border-red-300 bg-red-50' : 'border-gray-200 hover:border-purple-300'
-                    }`}
-                    placeholder="Enter street name"
-                  />
-                  {touched.streetName && errors.streetName && (
-                    <p className="mt-1.5 text-sm text-red-600 flex items-center gap-1">
-                      <AlertCircle className="w-4 h-4" />
-                      {errors.streetName}
-                    </p>
-                  )}
-                </div>
+                {selectedAddressId === null && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                        House/Flat/Shop No
+                      </label>
+                      <input
+                        type="text"
+                        value={houseNo}
+                        onChange={(e) => setHouseNo(e.target.value)}
+                        className="w-full px-4 py-3 border-2 border-gray-200 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm hover:border-purple-300"
+                        placeholder="e.g., 123, A-45, Shop #8 (optional)"
+                      />
+                    </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1.5">
-                    Area/Landmark
-                  </label>
-                  <input
-                    type="text"
-                    value={areaLandmark}
-                    onChange={(e) => setAreaLandmark(e.target.value)}
-                    className="w-full px-4 py-3 border-2 border-gray-200 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm hover:border-purple-300"
-                    placeholder="e.g., Near temple, Opposite school (optional)"
-                  />
-                </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                        Street/Road Name <span className="text-red-500">*</span>
+                      </label>
+                      <input
+                        type="text"
+                        required
+                        value={streetName}
+                        onChange={(e) => setStreetName(e.target.value)}
+                        onBlur={() => handleFieldTouch('streetName')}
+                        className={`w-full px-4 py-3 border-2 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm ${
+                          touched.streetName && errors.streetName ? 'border-red-300 bg-red-50' : 'border-gray-200 hover:border-purple-300'
+                        }`}
+                        placeholder="Enter street name"
+                      />
+                      {touched.streetName && errors.streetName && (
+                        <p className="mt-1.5 text-sm text-red-600 flex items-center gap-1">
+                          <AlertCircle className="w-4 h-4" />
+                          {errors.streetName}
+                        </p>
+                      )}
+                    </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1.5">
-                    Village/City Name <span className="text-red-500">*</span>
-                  </label>
-                  <input
-                    type="text"
-                    required
-                    value={villageName}
-                    onChange={(e) => setVillageName(e.target.value)}
-                    onBlur={() => handleFieldTouch('villageName')}
-                    className={`w-full px-4 py-3 border-2 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm ${
-                      touched.villageName && errors.villageName ? 'border-red-300 bg-red-50' : 'border-gray-200 hover:border-purple-300'
-                    }`}
-                    placeholder="Enter village or city name"
-                  />
-                  {touched.villageName && errors.villageName && (
-                    <p className="mt-1.5 text-sm text-red-600 flex items-center gap-1">
-                      <AlertCircle className="w-4 h-4" />
-                      {errors.villageName}
-                    </p>
-                  )}
-                </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                        Area/Landmark
+                      </label>
+                      <input
+                        type="text"
+                        value={areaLandmark}
+                        onChange={(e) => setAreaLandmark(e.target.value)}
+                        className="w-full px-4 py-3 border-2 border-gray-200 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm hover:border-purple-300"
+                        placeholder="e.g., Near temple, Opposite school (optional)"
+                      />
+                    </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1.5">
-                    PIN Code <span className="text-red-500">*</span>
-                  </label>
-                  <input
-                    type="text"
-                    required
-                    pattern="[0-9]{6}"
-                    value={pinCode}
-                    onChange={(e) => setPinCode(e.target.value.replace(/\D/g, ''))}
-                    onBlur={() => handleFieldTouch('pinCode')}
-                    className={`w-full px-4 py-3 border-2 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm ${
-                      touched.pinCode && errors.pinCode ? 'border-red-300 bg-red-50' : 'border-gray-200 hover:border-purple-300'
-                    }`}
-                    placeholder="Enter 6-digit PIN code"
-                    maxLength={6}
-                  />
-                  {touched.pinCode && errors.pinCode && (
-                    <p className="mt-1.5 text-sm text-red-600 flex items-center gap-1">
-                      <AlertCircle className="w-4 h-4" />
-                      {errors.pinCode}
-                    </p>
-                  )}
-                </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                        Village/City Name <span className="text-red-500">*</span>
+                      </label>
+                      <input
+                        type="text"
+                        required
+                        value={villageName}
+                        onChange={(e) => setVillageName(e.target.value)}
+                        onBlur={() => handleFieldTouch('villageName')}
+                        className={`w-full px-4 py-3 border-2 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm ${
+                          touched.villageName && errors.villageName ? 'border-red-300 bg-red-50' : 'border-gray-200 hover:border-purple-300'
+                        }`}
+                        placeholder="Enter village or city name"
+                      />
+                      {touched.villageName && errors.villageName && (
+                        <p className="mt-1.5 text-sm text-red-600 flex items-center gap-1">
+                          <AlertCircle className="w-4 h-4" />
+                          {errors.villageName}
+                        </p>
+                      )}
+                    </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1.5">
-                    Nearby Location
-                  </label>
-                  <input
-                    type="text"
-                    value={nearbyLocation}
-                    onChange={(e) => setNearbyLocation(e.target.value)}
-                    className="w-full px-4 py-3 border-2 border-gray-200 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm hover:border-purple-300"
-                    placeholder="e.g., Near temple, school, etc. (optional)"
-                  />
-                </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                        PIN Code <span className="text-red-500">*</span>
+                      </label>
+                      <input
+                        type="text"
+                        required
+                        pattern="[0-9]{6}"
+                        value={pinCode}
+                        onChange={(e) => handlePinCodeChange(e.target.value)}
+                        onBlur={() => handleFieldTouch('pinCode')}
+                        className={`w-full px-4 py-3 border-2 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm ${
+                          touched.pinCode && errors.pinCode ? 'border-red-300 bg-red-50' : 'border-gray-200 hover:border-purple-300'
+                        }`}
+                        placeholder="Enter 6-digit PIN code"
+                        maxLength={6}
+                      />
+                      {(pinProblem || (touched.pinCode && errors.pinCode)) ? (
+                        <p className="mt-1.5 text-sm text-red-600 flex items-center gap-1">
+                          <AlertCircle className="w-4 h-4" />
+                          {pinProblem || errors.pinCode}
+                        </p>
+                      ) : pinInfo && (
+                        <p className="mt-1.5 text-xs text-gray-500 flex items-center gap-1">
+                          <MapPin className="w-3 h-3 text-purple-400" />
+                          {describePinCode(pinInfo)}
+                        </p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                        Nearby Location
+                      </label>
+                      <input
+                        type="text"
+                        value={nearbyLocation}
+                        onChange={(e) => setNearbyLocation(e.target.value)}
+                        className="w-full px-4 py-3 border-2 border-gray-200 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm hover:border-purple-300"
+                        placeholder="e.g., Near temple, school, etc. (optional)"
+                      />
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium text-gray-700">Save as</span>
+                      {ADDRESS_LABELS.map((label) => (
+                        <button
+                          key={label}
+                          type="button"
+                          onClick={() => setAddressLabel(label)}
+                          className={`px-3 py-1 rounded-full text-sm border-2 transition-all duration-200 ${
+                            addressLabel === label
+                              ? 'border-purple-500 bg-purple-50 text-purple-600'
+                              : 'border-gray-200 text-gray-600 hover:border-purple-300'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                      <label className="flex items-center gap-2 text-sm text-gray-600 ml-auto">
+                        <input
+                          type="checkbox"
+                          checked={saveNewAddress}
+                          onChange={(e) => setSaveNewAddress(e.target.checked)}
+                          className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                        />
+                        Save to my addresses
+                      </label>
+                    </div>
+                  </>
+                )}
 
                 <div className="pt-2">
-                  <div className="flex items-center gap-3 mb-3">
-                    <div className="flex-1 h-px bg-gradient-to-r from-transparent via-gray-300 to-transparent" />
-                    <span className="text-xs font-medium text-gray-400 uppercase tracking-wider flex items-center gap-1">
-                      <Navigation className="w-3 h-3 text-purple-400" />
-                      OR
-                    </span>
-                    <div className="flex-1 h-px bg-gradient-to-r from-transparent via-gray-300 to-transparent" />
-                  </div>
+                  {selectedAddressId === null && (
+                    <div className="flex items-center gap-3 mb-3">
+                      <div className="flex-1 h-px bg-gradient-to-r from-transparent via-gray-300 to-transparent" />
+                      <span className="text-xs font-medium text-gray-400 uppercase tracking-wider flex items-center gap-1">
+                        <Navigation className="w-3 h-3 text-purple-400" />
+                        OR
+                      </span>
+                      <div className="flex-1 h-px bg-gradient-to-r from-transparent via-gray-300 to-transparent" />
+                    </div>
+                  )}
                   
                   <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
                     <MapPin className="w-4 h-4 text-purple-500" />
@@ -588,13 +880,33 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
                     </button>
                     <button
                       type="button"
-                      onClick={() => { setLatitude(null); setLongitude(null); setDistance(null); }}
+                      onClick={() => { setLatitude(null); setLongitude(null); }}
                       className="flex items-center gap-2 bg-gray-50 hover:bg-gray-100 text-gray-700 px-6 py-3 rounded-2xl font-medium transition-all duration-200 border-2 border-gray-200 hover:border-gray-300"
                     >
                       Clear Location
                     </button>
                   </div>
 
+                  {!hasShopCoordinates(shopLocation) && (
+                    <p className="mt-3 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-3 py-2 flex items-center gap-1">
+                      <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                      The shop hasn't set its location yet, so delivery charges will be confirmed by the shop.
+                    </p>
+                  )}
+
+                  {delivery?.approximate && (
+                    <p
+                      className={`mt-3 text-xs rounded-xl px-3 py-2 flex items-center gap-1 border ${
+                        delivery.zone ? 'text-emerald-700 bg-emerald-50 border-emerald-200' : 'text-red-700 bg-red-50 border-red-200'
+                      }`}
+                    >
+                      <MapPin className="w-3 h-3 flex-shrink-0" />
+                      {delivery.zone
+                        ? `PIN ${pinCode} is in our ${delivery.zone.name} delivery zone. Share your location for an exact check.`
+                        : deliveryProblem}
+                    </p>
+                  )}
+
                   {latitude && longitude && (
                     <div className="mt-4 p-4 bg-gradient-to-br from-purple-50 to-pink-50 rounded-2xl border-2 border-purple-200">
                       <div className="flex items-start gap-3">
@@ -604,16 +916,21 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
                           <p className="text-xs text-gray-500 mt-0.5 font-mono">
                             {latitude.toFixed(6)}, {longitude.toFixed(6)}
                           </p>
-                          {distance !== null && (
+                          {delivery && (
                             <div className="mt-2 flex items-center gap-2">
                               <span className="text-sm font-medium text-gray-700">Distance from shop:</span>
-                              <span className={`text-sm font-bold ${distance <= 5 ? 'text-emerald-600' : 'text-red-600'}`}>
-                                {formatDistance(distance)}
+                              <span className={`text-sm font-bold ${delivery.serviceable ? 'text-emerald-600' : 'text-red-600'}`}>
+                                {formatDistance(delivery.distanceKm)}
                               </span>
-                              {distance > 5 && (
+                              {delivery.zone && (
+                                <span className="text-xs text-emerald-700 ml-2 bg-emerald-50 px-2 py-1 rounded-full">
+                                  {delivery.zone.name}
+                                </span>
+                              )}
+                              {!delivery.serviceable && (
                                 <span className="text-xs text-red-600 flex items-center gap-1 ml-2 bg-red-50 px-2 py-1 rounded-full">
                                   <AlertCircle className="w-3 h-3" />
-                                  Outside delivery radius
+                                  {zones.length > 0 ? 'Outside delivery zones' : 'Outside delivery radius'}
                                 </span>
                               )}
                             </div>
@@ -625,6 +942,57 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
                 </div>
               </div>
 
+              {/* Delivery Slot */}
+              {offersSlots && (
+                <div className="space-y-4">
+                  <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wider flex items-center gap-2 bg-gradient-to-r from-emerald-100 to-blue-100 px-4 py-2 rounded-xl">
+                    <Clock className="w-4 h-4 text-emerald-500" />
+                    Delivery Time
+                  </h3>
+
+                  {slotsLoading && slots.length === 0 ? (
+                    <p className="text-sm text-gray-500 flex items-center gap-2">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Loading delivery slots...
+                    </p>
+                  ) : slots.length === 0 ? (
+                    <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-xl px-3 py-2 flex items-center gap-2">
+                      <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                      All delivery slots for the next few days are full. Please check back later.
+                    </p>
+                  ) : (
+                    [...new Set(slots.map((a) => a.slot.date))].map((date) => (
+                      <div key={date}>
+                        <p className="text-xs font-medium text-gray-500 mb-2">{formatSlotDay(date)}</p>
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                          {slots
+                            .filter((a) => a.slot.date === date)
+                            .map(({ slot, capacity, booked }) => (
+                              <button
+                                key={slot.id}
+                                type="button"
+                                onClick={() => setSelectedSlotId(slot.id)}
+                                className={`p-3 rounded-2xl border-2 text-left transition-all duration-200 ${
+                                  selectedSlotId === slot.id
+                                    ? 'border-purple-500 bg-purple-50 shadow-lg shadow-purple-200'
+                                    : 'border-gray-200 bg-white/50 hover:border-purple-300'
+                                }`}
+                              >
+                                <span className={`block text-sm font-medium ${selectedSlotId === slot.id ? 'text-purple-600' : 'text-gray-700'}`}>
+                                  {formatTime(slot.start)} – {formatTime(slot.end)}
+                                </span>
+                                {capacity !== null && capacity - booked <= 3 && (
+                                  <span className="block text-xs text-orange-600 mt-0.5">Only {capacity - booked} left</span>
+                                )}
+                              </button>
+                            ))}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+
               {/* Payment Method */}
               <div className="space-y-4">
                 <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wider flex items-center gap-2 bg-gradient-to-r from-yellow-100 to-orange-100 px-4 py-2 rounded-xl">
@@ -632,7 +1000,7 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
                   Payment Method
                 </h3>
                 
-                <div className="grid grid-cols-2 gap-3">
+                <div className={`grid gap-3 ${['grid-cols-1', 'grid-cols-2', 'grid-cols-3'][(cardPaymentsEnabled() ? 1 : 0) + (upiVpa ? 1 : 0)]}`}>
                   <button
                     type="button"
                     onClick={() => setPaymentMethod('cod')}
@@ -649,22 +1017,42 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
                       </span>
                     </div>
                   </button>
-                  <button
-                    type="button"
-                    onClick={() => setPaymentMethod('card')}
-                    className={`p-4 rounded-2xl border-2 transition-all duration-200 ${
-                      paymentMethod === 'card'
-                        ? 'border-purple-500 bg-purple-50 shadow-lg shadow-purple-200'
-                        : 'border-gray-200 bg-white/50 hover:border-purple-300'
-                    }`}
-                  >
-                    <div className="flex flex-col items-center gap-2">
-                      <CreditCard className={`w-6 h-6 ${paymentMethod === 'card' ? 'text-purple-600' : 'text-gray-400'}`} />
-                      <span className={`text-sm font-medium ${paymentMethod === 'card' ? 'text-purple-600' : 'text-gray-600'}`}>
-                        Card Payment
-                      </span>
-                    </div>
-                  </button>
+                  {cardPaymentsEnabled() && (
+                    <button
+                      type="button"
+                      onClick={() => setPaymentMethod('card')}
+                      className={`p-4 rounded-2xl border-2 transition-all duration-200 ${
+                        paymentMethod === 'card'
+                          ? 'border-purple-500 bg-purple-50 shadow-lg shadow-purple-200'
+                          : 'border-gray-200 bg-white/50 hover:border-purple-300'
+                      }`}
+                    >
+                      <div className="flex flex-col items-center gap-2">
+                        <CreditCard className={`w-6 h-6 ${paymentMethod === 'card' ? 'text-purple-600' : 'text-gray-400'}`} />
+                        <span className={`text-sm font-medium ${paymentMethod === 'card' ? 'text-purple-600' : 'text-gray-600'}`}>
+                          Card Payment
+                        </span>
+                      </div>
+                    </button>
+                  )}
+                  {upiVpa && (
+                    <button
+                      type="button"
+                      onClick={() => setPaymentMethod('upi')}
+                      className={`p-4 rounded-2xl border-2 transition-all duration-200 ${
+                        paymentMethod === 'upi'
+                          ? 'border-purple-500 bg-purple-50 shadow-lg shadow-purple-200'
+                          : 'border-gray-200 bg-white/50 hover:border-purple-300'
+                      }`}
+                    >
+                      <div className="flex flex-col items-center gap-2">
+                        <Smartphone className={`w-6 h-6 ${paymentMethod === 'upi' ? 'text-purple-600' : 'text-gray-400'}`} />
+                        <span className={`text-sm font-medium ${paymentMethod === 'upi' ? 'text-purple-600' : 'text-gray-600'}`}>
+                          UPI
+                        </span>
+                      </div>
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -695,7 +1083,7 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
 
               <button
                 type="submit"
-                disabled={loading || cart.length === 0 || !agreeToTerms}
+                disabled={loading || cart.length === 0 || !agreeToTerms || ordersBlocked}
                 className="w-full bg-gradient-to-r from-purple-500 via-pink-500 to-orange-500 hover:from-purple-600 hover:via-pink-600 hover:to-orange-600 text-white font-bold py-4 rounded-2xl transition-all duration-300 transform hover:scale-[1.02] hover:shadow-2xl hover:shadow-purple-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 text-lg flex items-center justify-center gap-3"
               >
                 {loading ? (
@@ -706,7 +1094,7 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
                 ) : (
                   <>
                     <Sparkles className="w-5 h-5" />
-                    Place Order
+                    {paymentMethod === 'cod' ? 'Place Order' : 'Continue to Payment'}
                     <Sparkles className="w-5 h-5" />
                   </>
                 )}
@@ -757,17 +1145,43 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
                   <span className="text-sm text-gray-600">Subtotal</span>
                   <span className="text-sm font-medium text-gray-900">₹{totalAmount.toFixed(2)}</span>
                 </div>
+                {couponCode && (
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm text-gray-600 flex items-center gap-1">
+                      <Gift className="w-3 h-3 text-emerald-500" />
+                      Coupon {couponCode}
+                      <button
+                        type="button"
+                        onClick={() => setCouponCode(null)}
+                        className="text-xs text-gray-400 hover:text-red-600 underline ml-1"
+                      >
+                        remove
+                      </button>
+                    </span>
+                    {couponQuote ? (
+                      <span className="text-sm font-medium text-emerald-600">-₹{discountAmount.toFixed(2)}</span>
+                    ) : (
+                      <span className="text-xs text-red-600">{couponError ?? 'Checking...'}</span>
+                    )}
+                  </div>
+                )}
                 <div className="flex justify-between items-center mb-2">
                   <span className="text-sm text-gray-600 flex items-center gap-1">
                     <Truck className="w-3 h-3 text-purple-400" />
                     Delivery Fee
                   </span>
-                  <span className="text-sm font-medium text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full">Free</span>
+                  {!delivery ? (
+                    <span className="text-xs text-gray-500">Share location</span>
+                  ) : deliveryFee > 0 ? (
+                    <span className="text-sm font-medium text-gray-900">₹{deliveryFee.toFixed(2)}</span>
+                  ) : (
+                    <span className="text-sm font-medium text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full">Free</span>
+                  )}
                 </div>
                 <div className="flex justify-between items-center pt-3 mt-2 border-t-2 border-gray-200">
                   <span className="text-base font-bold text-gray-900">Total</span>
                   <span className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
-                    ₹{totalAmount.toFixed(2)}
+                    ₹{(totalAmount - discountAmount + deliveryFee).toFixed(2)}
                   </span>
                 </div>
               </div>
@@ -775,7 +1189,7 @@ export function Checkout({ shopLocation, onBack }: CheckoutProps) {
               <div className="mt-4 p-3 bg-gradient-to-br from-purple-50 to-pink-50 rounded-2xl border-2 border-purple-100">
                 <p className="text-xs text-purple-800 flex items-start gap-2">
                   <CheckCircle className="w-4 h-4 flex-shrink-0 mt-0.5 text-purple-500" />
-                  <span>Free delivery within 5 km radius</span>
+                  <span>{zones.length > 0 ? describeDeliveryZones(zones) : describeDeliverySettings(settings)}</span>
                 </p>
               </div>
 
@@ -25,6 +25,7 @@ import {
   Home
 } from 'lucide-react';
 import ImageModal from '../ImageModal';
+import { availableStock, stockLabel } from '../../lib/stock';
 
 type ItemsListProps = {
   items: (Item & { category: Category; variants: ItemVariant[] })[];
@@ -61,7 +62,7 @@ const categoryIcons: Record<string, any> = {
 };
 
 export function ItemsList({ items, loading }: ItemsListProps) {
-  const { addToCart } = useCart();
+  const { addToCart, cart } = useCart();
   const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({});
   const [quantities, setQuantities] = useState<Record<string, number>>({});
   const [modal, setModal] = useState<{ src: string; alt?: string } | null>(null);
@@ -82,6 +83,20 @@ export function ItemsList({ items, loading }: ItemsListProps) {
       return;
     }
 
+    const left = availableStock(variant);
+    if (left !== null) {
+      const inCart = cart.find((c) => c.variant.id === variant.id)?.quantity ?? 0;
+      if (inCart + quantity > left) {
+        showToast(
+          left === 0
+            ? `${item.name} is out of stock`
+            : `Only ${left} left of ${item.name}${inCart > 0 ? ` (${inCart} already in cart)` : ''}`,
+          'error'
+        );
+        return;
+      }
+    }
+
     addToCart({ item, variant, quantity });
     
     showToast(`Added ${quantity} × ${item.name} to cart! 🎉`, 'success', item.id);
@@ -192,6 +207,9 @@ export function ItemsList({ items, loading }: ItemsListProps) {
           const selectedVariant = item.variants.find((v) => v.id === selectedVariantId);
           const quantity = quantities[item.id] || 1;
           const hasVariants = item.variants && item.variants.length > 0;
+          const left = selectedVariant ? availableStock(selectedVariant) : null;
+          const soldOut = left === 0;
+          const stockBadge = selectedVariant ? stockLabel(selectedVariant) : null;
           const isAdded = addedItems[getItemKey(item.id, selectedVariantId || '')];
           const isWishlisted = wishlist[item.id];
           const isHovered = hoveredItem === item.id;
@@ -313,6 +331,7 @@ export function ItemsList({ items, loading }: ItemsListProps) {
                         {item.variants.map((variant) => (
                           <option key={variant.id} value={variant.id}>
                             {variant.quantity_unit} — ₹{variant.price.toFixed(2)}
+                            {availableStock(variant) === 0 ? ' (out of stock)' : ''}
                           </option>
                         ))}
                       </select>
@@ -323,6 +342,13 @@ export function ItemsList({ items, loading }: ItemsListProps) {
                     </div>
                   )}
 
+                  {stockBadge && (
+                    <p className={`text-xs font-semibold flex items-center gap-1 ${soldOut ? 'text-red-600' : 'text-amber-600'}`}>
+                      <AlertCircle className="w-3.5 h-3.5" />
+                      {stockBadge}
+                    </p>
+                  )}
+
                   {/* Quantity & Price */}
                   <div className="flex items-center justify-between pt-2">
                     <div>
@@ -353,7 +379,8 @@ export function ItemsList({ items, loading }: ItemsListProps) {
                               [item.id]: quantity + 1,
                             })
                           }
-                          className="w-8 h-8 flex items-center justify-center rounded-xl hover:bg-white transition-all duration-200"
+                          className="w-8 h-8 flex items-center justify-center rounded-xl hover:bg-white transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed"
+                          disabled={left !== null && quantity >= left}
                         >
                           <Plus className="w-4 h-4 text-gray-700" />
                         </button>
@@ -371,9 +398,9 @@ export function ItemsList({ items, loading }: ItemsListProps) {
                   {/* Add to Cart Button */}
                   <button
                     onClick={() => handleAddToCart(item)}
-                    disabled={!hasVariants}
+                    disabled={!hasVariants || soldOut}
                     className={`w-full py-3.5 rounded-2xl font-bold transition-all duration-300 flex items-center justify-center gap-2 ${
-                      hasVariants
+                      hasVariants && !soldOut
                         ? isAdded
                           ? 'bg-gradient-to-r from-emerald-100 to-teal-100 text-emerald-700 border-2 border-emerald-300'
                           : `bg-gradient-to-r from-purple-500 via-pink-500 to-orange-500 hover:from-purple-600 hover:via-pink-600 hover:to-orange-600 text-white hover:shadow-2xl hover:shadow-purple-200 transform hover:scale-[1.02]`
@@ -388,8 +415,8 @@ export function ItemsList({ items, loading }: ItemsListProps) {
                     ) : (
                       <>
                         <Plus className="w-5 h-5" />
-                        Add to Cart
-                        {hasVariants && (
+                        {soldOut ? 'Out of Stock' : 'Add to Cart'}
+                        {hasVariants && !soldOut && (
                           <Sparkles className="w-3.5 h-3.5 opacity-80" />
                         )}
                       </>
@@ -397,7 +424,7 @@ export function ItemsList({ items, loading }: ItemsListProps) {
                   </button>
 
                   {/* Quick Add */}
-                  {hasVariants && (
+                  {hasVariants && !soldOut && (
                     <button
                       onClick={() => quickAddToCart(item)}
                       className="w-full text-xs text-gray-500 hover:text-purple-600 font-medium transition-colors py-1.5 flex items-center justify-center gap-1 group-hover:bg-purple-50 rounded-xl transition-all duration-300"
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import ConfirmModal from '../ConfirmModal';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase, Order, OrderItem } from '../../lib/supabase';
+import { supabase, Order, OrderItem, ShopLocation } from '../../lib/supabase';
 import { 
   Package, 
   MapPin, 
@@ -27,6 +27,19 @@ import {
   TrendingUp
 } from 'lucide-react';
 import { formatDistance } from '../../lib/location';
+import { ORDER_STATUS_LABELS, canTransition, transitionOrder } from '../../lib/orderStatus';
+import { OrderTimeline } from '../OrderTimeline';
+import { AddressDetails } from '../AddressDetails';
+import { DeliveryProofView } from '../DeliveryProofView';
+import { loadCustomerPins } from '../../lib/deliveryPin';
+import { describePayment, isPaymentSettled } from '../../lib/payments';
+import { CardPaymentForm } from './CardPaymentForm';
+import { UpiPaymentPanel } from './UpiPaymentPanel';
+import { RiderTracker } from './RiderTracker';
+import { isTracked } from '../../lib/riderTracking';
+import { FAILURE_REASONS, lastAttempt } from '../../lib/deliveryAttempts';
+import { shopUpiVpa } from '../../lib/upi';
+import { fetchShopLocation } from '../../lib/shop';
 
 type OrderWithItems = Order & { order_items: OrderItem[] };
 
@@ -39,8 +52,17 @@ type OrderNotification = {
 type ExpandedOrders = Record<string, boolean>;
 
 const STATUS_CONFIG = {
+  awaiting_payment: {
+    label: ORDER_STATUS_LABELS.awaiting_payment,
+    icon: AlertCircle,
+    color: 'text-orange-600',
+    bg: 'bg-orange-100',
+    border: 'border-orange-200',
+    progress: 'w-1/12',
+    gradient: 'from-orange-400 to-red-500'
+  },
   pending: {
-    label: 'Pending',
+    label: ORDER_STATUS_LABELS.pending,
     icon: Clock,
     color: 'text-yellow-600',
     bg: 'bg-yellow-100',
@@ -49,7 +71,16 @@ const STATUS_CONFIG = {
     gradient: 'from-yellow-400 to-orange-500'
   },
   confirmed: {
-    label: 'Confirmed',
+    label: ORDER_STATUS_LABELS.confirmed,
+    icon: CheckCircle,
+    color: 'text-blue-600',
+    bg: 'bg-blue-100',
+    border: 'border-blue-200',
+    progress: 'w-1/3',
+    gradient: 'from-blue-400 to-indigo-500'
+  },
+  accepted: {
+    label: ORDER_STATUS_LABELS.accepted,
     icon: CheckCircle,
     color: 'text-blue-600',
     bg: 'bg-blue-100',
@@ -58,25 +89,43 @@ const STATUS_CONFIG = {
     gradient: 'from-blue-400 to-indigo-500'
   },
   preparing: {
-    label: 'Preparing',
+    label: ORDER_STATUS_LABELS.preparing,
     icon: Package,
     color: 'text-purple-600',
     bg: 'bg-purple-100',
     border: 'border-purple-200',
-    progress: 'w-3/4',
+    progress: 'w-2/3',
     gradient: 'from-purple-400 to-pink-500'
   },
   ready: {
-    label: 'Ready for Pickup',
-    icon: TruckIcon,
+    label: ORDER_STATUS_LABELS.ready,
+    icon: Package,
     color: 'text-emerald-600',
     bg: 'bg-emerald-100',
     border: 'border-emerald-200',
-    progress: 'w-full',
+    progress: 'w-3/4',
     gradient: 'from-emerald-400 to-teal-500'
   },
+  out_for_delivery: {
+    label: ORDER_STATUS_LABELS.out_for_delivery,
+    icon: TruckIcon,
+    color: 'text-indigo-600',
+    bg: 'bg-indigo-100',
+    border: 'border-indigo-200',
+    progress: 'w-5/6',
+    gradient: 'from-indigo-400 to-blue-500'
+  },
+  delivery_failed: {
+    label: ORDER_STATUS_LABELS.delivery_failed,
+    icon: AlertCircle,
+    color: 'text-orange-600',
+    bg: 'bg-orange-100',
+    border: 'border-orange-200',
+    progress: 'w-5/6',
+    gradient: 'from-orange-400 to-amber-500'
+  },
   delivered: {
-    label: 'Delivered',
+    label: ORDER_STATUS_LABELS.delivered,
     icon: CheckCircle,
     color: 'text-green-600',
     bg: 'bg-green-100',
@@ -85,7 +134,7 @@ const STATUS_CONFIG = {
     gradient: 'from-green-400 to-emerald-500'
   },
   cancelled: {
-    label: 'Cancelled',
+    label: ORDER_STATUS_LABELS.cancelled,
     icon: XCircle,
     color: 'text-red-600',
     bg: 'bg-red-100',
@@ -102,9 +151,15 @@ export function OrderHistory() {
   const [refreshing, setRefreshing] = useState(false);
   const [expandedOrders, setExpandedOrders] = useState<ExpandedOrders>({});
   const [copiedPin, setCopiedPin] = useState<string | null>(null);
+  // Delivery PINs live outside the order documents; keyed by order id
+  const [pins, setPins] = useState<Record<string, string>>({});
   const [orderNotifications, setOrderNotifications] = useState<Record<string, OrderNotification>>({});
   const [selectedOrder, setSelectedOrder] = useState<OrderWithItems | null>(null);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
+  // Order whose card form is open
+  const [payingOrderId, setPayingOrderId] = useState<string | null>(null);
+  // For the UPI payee on unpaid UPI orders
+  const [shop, setShop] = useState<ShopLocation | null>(null);
   const [stats, setStats] = useState({
     total: 0,
     delivered: 0,
@@ -128,12 +183,16 @@ export function OrderHistory() {
         .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
 
       setOrders(sortedOrders as OrderWithItems[]);
+      setPins(await loadCustomerPins(user.id).catch((err) => {
+        console.error('Error loading delivery PINs:', err);
+        return {};
+      }));
       
       // Update stats
       const statsData = {
         total: sortedOrders.length,
         delivered: sortedOrders.filter(o => o.status === 'delivered').length,
-        pending: sortedOrders.filter(o => o.status === 'pending' || o.status === 'confirmed' || o.status === 'preparing' || o.status === 'ready').length,
+        pending: sortedOrders.filter(o => o.status !== 'delivered' && o.status !== 'cancelled').length,
         cancelled: sortedOrders.filter(o => o.status === 'cancelled').length
       };
       setStats(statsData);
@@ -184,6 +243,34 @@ export function OrderHistory() {
     return config.progress || 'w-0';
   };
 
+  const customerContext = { role: 'customer' as const, actorId: user?.id };
+
+  const requestCancel = (order: OrderWithItems) => {
+    setSelectedOrder(order);
+    setShowConfirmModal(true);
+  };
+
+  const cancelSelectedOrder = async () => {
+    if (!selectedOrder) return;
+    setShowConfirmModal(false);
+    try {
+      const cancelled = await transitionOrder(selectedOrder.id, 'cancelled', customerContext);
+      if (cancelled.refund_error) alert('Your order was cancelled. The shop will refund your payment directly.');
+      await loadOrders();
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      alert(error instanceof Error ? error.message : 'Failed to cancel order');
+    } finally {
+      setSelectedOrder(null);
+    }
+  };
+
+  useEffect(() => {
+    fetchShopLocation()
+      .then(setShop)
+      .catch((error) => console.error('Error loading shop:', error));
+  }, []);
+
   useEffect(() => {
     loadOrders();
 
@@ -192,9 +279,10 @@ export function OrderHistory() {
     };
 
     window.addEventListener('order_placed', handleOrderUpdate);
+    window.addEventListener('order_updated', handleOrderUpdate);
     
     const handleStorage = (e: StorageEvent) => {
-      if (e.key === 'order_placed_at') {
+      if (e.key === 'order_placed_at' || e.key === 'order_updated_at') {
         loadOrders();
       }
     };
@@ -202,6 +290,7 @@ export function OrderHistory() {
 
     return () => {
       window.removeEventListener('order_placed', handleOrderUpdate);
+      window.removeEventListener('order_updated', handleOrderUpdate);
       window.removeEventListener('storage', handleStorage);
     };
   }, [loadOrders]);
@@ -340,6 +429,8 @@ export function OrderHistory() {
           const StatusIcon = statusConfig.icon;
           const isExpanded = expandedOrders[order.id] || false;
           const totalItems = order.order_items.reduce((sum, item) => sum + item.quantity, 0);
+          // Older orders still carry the PIN on the order itself
+          const deliveryPin = pins[order.id] ?? order.delivery_pin ?? null;
           const notification = orderNotifications[order.id];
 
           return (
@@ -392,15 +483,15 @@ export function OrderHistory() {
 
                   {/* Expand/Collapse & Actions */}
                   <div className="flex items-center gap-2 ml-auto sm:ml-0">
-                    {order.delivery_pin && (
+                    {deliveryPin && (
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
-                          copyDeliveryPin(order.delivery_pin!);
+                          copyDeliveryPin(deliveryPin!);
                         }}
                         className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-100/80 hover:bg-purple-100 rounded-xl transition-all duration-300 text-xs font-medium text-gray-700 hover:text-purple-700 backdrop-blur-sm"
                       >
-                        {copiedPin === order.delivery_pin ? (
+                        {copiedPin === deliveryPin ? (
                           <>
                             <Check className="w-3.5 h-3.5 text-emerald-600" />
                             Copied
@@ -433,12 +524,7 @@ export function OrderHistory() {
                 <div className="mt-4">
                   <div className="w-full h-2 bg-gray-100/80 rounded-full overflow-hidden backdrop-blur-sm">
                     <div 
-                      className={`h-full rounded-full transition-all duration-1000 ease-out bg-gradient-to-r ${statusConfig.gradient}`}
-                      style={{ width: order.status === 'cancelled' ? '0%' : 
-                               order.status === 'pending' ? '25%' :
-                               order.status === 'confirmed' ? '50%' :
-                               order.status === 'preparing' ? '75%' :
-                               order.status === 'ready' || order.status === 'delivered' ? '100%' : '0%' }}
+                      className={`h-full rounded-full transition-all duration-1000 ease-out bg-gradient-to-r ${statusConfig.gradient} ${getStatusProgress(order.status)}`}
                     />
                   </div>
                 </div>
@@ -488,6 +574,19 @@ export function OrderHistory() {
                           </span>
                         </div>
                       ))}
+                      {order.delivery_fee != null && (
+                        <div className="flex items-center justify-between p-3 bg-white rounded-2xl border border-gray-100">
+                          <div className="flex items-center gap-3 min-w-0 flex-1">
+                            <span className="text-sm font-bold text-purple-600 bg-purple-50 px-2.5 py-1 rounded-xl">
+                              <TruckIcon className="w-4 h-4" />
+                            </span>
+                            <p className="text-sm font-medium text-gray-900">Delivery fee</p>
+                          </div>
+                          <span className="text-sm font-semibold text-gray-900 whitespace-nowrap ml-2 bg-gray-50 px-3 py-1 rounded-xl">
+                            {order.delivery_fee > 0 ? `₹${order.delivery_fee.toFixed(2)}` : 'Free'}
+                          </span>
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -501,6 +600,14 @@ export function OrderHistory() {
                       <p className="text-xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
                         ₹{order.total_amount.toFixed(2)}
                       </p>
+                      {order.coupon_code && (
+                        <p className="text-xs text-emerald-600 mt-0.5">
+                          {order.coupon_code} saved ₹{(order.discount_amount ?? 0).toFixed(2)}
+                        </p>
+                      )}
+                      {describePayment(order) && (
+                        <p className="text-xs text-gray-500 mt-0.5">{describePayment(order)}</p>
+                      )}
                     </div>
                     <div className="bg-gradient-to-br from-white to-gray-50 rounded-2xl p-4 text-center border border-gray-100 shadow-sm">
                       <p className="text-xs text-gray-500 uppercase tracking-wider flex items-center justify-center gap-1">
@@ -529,27 +636,47 @@ export function OrderHistory() {
                         <MapPin className="w-3.5 h-3.5 text-purple-400" />
                         Delivery Address
                       </p>
-                      <p className="text-sm text-gray-700 whitespace-pre-line leading-relaxed">
-                        {order.delivery_address}
-                      </p>
+                      <AddressDetails order={order} className="text-sm text-gray-700 leading-relaxed" />
+                    </div>
+                  )}
+
+                  {/* Failed delivery */}
+                  {order.status === 'delivery_failed' && lastAttempt(order) && (
+                    <div className="mt-3 p-4 bg-gradient-to-r from-orange-50 to-amber-50 border border-orange-200 rounded-2xl">
+                      <div className="flex items-start gap-2">
+                        <AlertCircle className="w-5 h-5 text-orange-600 flex-shrink-0 mt-0.5" />
+                        <div className="text-sm">
+                          <p className="font-semibold text-orange-800">
+                            We couldn't deliver this order: {FAILURE_REASONS[lastAttempt(order)!.reason] ?? lastAttempt(order)!.reason}
+                          </p>
+                          <p className="text-gray-700">The shop will contact you to arrange another delivery.</p>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Rider location */}
+                  {isTracked(order) && (
+                    <div className="mt-3">
+                      <RiderTracker order={order} />
                     </div>
                   )}
 
                   {/* Delivery PIN */}
-                  {order.delivery_pin && (
+                  {deliveryPin && (
                     <div className="mt-3 p-3 bg-gradient-to-br from-purple-50 to-pink-50 rounded-2xl border border-purple-200 flex items-center justify-between">
                       <div className="flex items-center gap-2">
                         <Gift className="w-4 h-4 text-purple-500" />
                         <span className="text-xs text-gray-600 font-medium">Delivery PIN:</span>
                         <span className="font-mono font-bold text-purple-600 text-sm tracking-wider bg-white px-3 py-1 rounded-xl">
-                          {order.delivery_pin}
+                          {deliveryPin}
                         </span>
                       </div>
                       <button
-                        onClick={() => copyDeliveryPin(order.delivery_pin!)}
+                        onClick={() => copyDeliveryPin(deliveryPin!)}
                         className="text-purple-600 hover:text-purple-700 text-xs font-medium flex items-center gap-1 bg-white px-3 py-1.5 rounded-xl hover:shadow-md transition-all duration-300"
                       >
-                        {copiedPin === order.delivery_pin ? (
+                        {copiedPin === deliveryPin ? (
                           <>
                             <Check className="w-3.5 h-3.5" />
                             Copied
@@ -563,6 +690,81 @@ export function OrderHistory() {
                       </button>
                     </div>
                   )}
+
+                  {/* Proof of delivery */}
+                  {order.delivery_proof && (
+                    <div className="mt-3">
+                      <DeliveryProofView order={order} />
+                    </div>
+                  )}
+
+                  {/* Status Timeline */}
+                  <div className="mt-3">
+                    <OrderTimeline
+                      order={order}
+                      names={user ? { [user.id]: 'You' } : {}}
+                    />
+                  </div>
+
+                  {/* Unpaid order */}
+                  {order.status === 'awaiting_payment' && order.payment_method === 'upi' && order.payment_status === 'failed' && !order.payment_reference && (
+                    <p className="mt-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-2xl px-4 py-2 flex items-center gap-2">
+                      <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                      The shop could not find your UPI payment. Check the reference number or pay again.
+                    </p>
+                  )}
+                  {order.status === 'awaiting_payment' && (
+                    order.payment_reference ? (
+                      <p className="mt-3 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-2xl px-4 py-2">
+                        UPI reference <span className="font-mono font-semibold">{order.payment_reference}</span> sent. Waiting for the shop to confirm your payment.
+                      </p>
+                    ) : payingOrderId === order.id ? (
+                      <div className="mt-3 p-4 rounded-2xl border-2 border-purple-100 bg-white">
+                        {order.payment_method === 'upi' ? (
+                          shopUpiVpa(shop) ? (
+                            <UpiPaymentPanel
+                              order={order}
+                              vpa={shopUpiVpa(shop)!}
+                              payeeName={shop?.shop_name}
+                              onSubmitted={() => {
+                                setPayingOrderId(null);
+                                loadOrders();
+                              }}
+                            />
+                          ) : (
+                            <p className="text-sm text-gray-600">The shop no longer accepts UPI. Please cancel this order and order again.</p>
+                          )
+                        ) : (
+                          <CardPaymentForm
+                            order={order}
+                            onPaid={() => {
+                              setPayingOrderId(null);
+                              loadOrders();
+                            }}
+                          />
+                        )}
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => setPayingOrderId(order.id)}
+                        className="mt-3 w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-2xl text-sm font-medium"
+                      >
+                        <Receipt className="w-4 h-4" />
+                        Complete Payment
+                      </button>
+                    )
+                  )}
+
+                  {/* Cancel Order */}
+                  {canTransition(order, 'cancelled', customerContext) && (
+                    <button
+                      onClick={() => requestCancel(order)}
+                      className="mt-3 w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-white text-red-600 border border-red-200 rounded-2xl text-sm font-medium hover:bg-red-50 transition-all duration-300"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      Cancel Order
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -571,12 +773,17 @@ export function OrderHistory() {
       </div>
 
       {/* Confirm Modal */}
-      {showConfirmModal && selectedOrder && (
+      {selectedOrder && (
         <ConfirmModal
-          title="Order Details"
-          message={`Order #${selectedOrder.order_number}`}
-          onConfirm={() => setShowConfirmModal(false)}
-          onCancel={() => setShowConfirmModal(false)}
+          open={showConfirmModal}
+          title="Cancel this order?"
+          description={`Order #${selectedOrder.order_number} will be cancelled${
+            isPaymentSettled(selectedOrder.payment_status) ? ' and your payment refunded' : ''
+          }. This cannot be undone.`}
+          confirmLabel="Cancel Order"
+          cancelLabel="Keep Order"
+          onConfirm={cancelSelectedOrder}
+          onCancel={() => { setShowConfirmModal(false); setSelectedOrder(null); }}
         />
       )}
 
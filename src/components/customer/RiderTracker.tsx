@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { supabase, Order } from '../../lib/supabase';
+import { formatDistance } from '../../lib/location';
+import { LocationFix, trackingEstimate } from '../../lib/riderTracking';
+import { Bike } from 'lucide-react';
+
+type Props = {
+  order: Pick<Order, 'id' | 'customer_id' | 'latitude' | 'longitude' | 'status' | 'rider_location'>;
+};
+
+// Keeps "updated 2 min ago" and the stale check current between fixes
+const TICK_MS = 30_000;
+
+const minutesAgo = (at: string, now: Date) => Math.max(0, Math.round((now.getTime() - new Date(at).getTime()) / 60_000));
+
+/** How far the rider is from the customer, kept current over the realtime channel. */
+export function RiderTracker({ order }: Props) {
+  const [fix, setFix] = useState<LocationFix | null>(order.rider_location ?? null);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    setFix(order.rider_location ?? null);
+  }, [order.rider_location]);
+
+  useEffect(() => {
+    const refresh = async () => {
+      const { data, error } = await supabase.from<Order>('orders').select('*').eq('id', order.id).maybeSingle();
+      if (error) {
+        console.error('Error refreshing rider location:', error);
+        return;
+      }
+      setFix(data?.rider_location ?? null);
+      setNow(new Date());
+    };
+
+    const channel = supabase
+      .channel()
+      .on('postgres_changes', { table: 'orders', filter: `customer_id=eq.${order.customer_id}` }, () => {
+        refresh();
+      })
+      .subscribe();
+    const tick = window.setInterval(() => setNow(new Date()), TICK_MS);
+
+    return () => {
+      supabase.removeChannel(channel);
+      clearInterval(tick);
+    };
+  }, [order.id, order.customer_id]);
+
+  if (!fix) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500 bg-gray-50 rounded-xl px-4 py-3">
+        <Bike className="w-4 h-4" />
+        Waiting for your delivery partner's location...
+      </div>
+    );
+  }
+
+  const estimate = trackingEstimate(order, fix, now);
+  const ago = minutesAgo(fix.at, now);
+
+  return (
+    <div className={`flex items-center gap-3 rounded-xl px-4 py-3 ${estimate.stale ? 'bg-gray-50' : 'bg-indigo-50'}`}>
+      <Bike className={`w-5 h-5 flex-shrink-0 ${estimate.stale ? 'text-gray-400' : 'text-indigo-600'}`} />
+      <div className="text-sm">
+        {estimate.distanceKm < 0.1 ? (
+          <p className="font-semibold text-gray-900">Your delivery partner is nearby</p>
+        ) : (
+          <p className="font-semibold text-gray-900">
+            {formatDistance(estimate.distanceKm)} away · about {estimate.minutes} min
+          </p>
+        )}
+        <p className="text-xs text-gray-500">
+          {estimate.stale
+            ? `Last seen ${ago} min ago; the estimate may be out of date`
+            : ago === 0
+              ? 'Updated just now'
+              : `Updated ${ago} min ago`}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default RiderTracker;
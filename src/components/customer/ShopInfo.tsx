@@ -0,0 +1,70 @@
+import { ShopLocation } from '../../lib/supabase';
+import { WEEKDAYS, formatDayHours, hasShopCoordinates, openingHours } from '../../lib/shop';
+import { closedMessage, shopStatus } from '../../lib/businessHours';
+import { AlertCircle, Clock, MapPin, Phone } from 'lucide-react';
+
+type ShopInfoProps = {
+  shop: ShopLocation | null;
+};
+
+/**
+ * Shop contact details and today's hours, or a notice when the owner has not
+ * set the shop up yet. A closed shop is announced above either.
+ */
+export function ShopInfo({ shop }: ShopInfoProps) {
+  const closed = closedMessage(shopStatus(shop));
+  return (
+    <>
+      {closed && (
+        <div className="bg-red-50/90 backdrop-blur-sm border border-red-200 rounded-2xl px-4 py-3 mb-4 flex items-start gap-3">
+          <Clock className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800 font-medium">{closed}</p>
+        </div>
+      )}
+      <ShopDetails shop={shop} />
+    </>
+  );
+}
+
+function ShopDetails({ shop }: ShopInfoProps) {
+  // Read before the guard below narrows `shop` away in the fallback branch
+  const phone = shop?.phone;
+  if (!hasShopCoordinates(shop)) {
+    return (
+      <div className="bg-amber-50/90 backdrop-blur-sm border border-amber-200 rounded-2xl px-4 py-3 mb-6 flex items-start gap-3">
+        <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-amber-800">
+          <p className="font-semibold">The shop's delivery details are still being set up</p>
+          <p>
+            You can place orders as usual. Delivery distance and charges can't be worked out yet, so the shop will
+            confirm them with you{phone ? ` — or call ${phone}` : ''}.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const today = new Date().getDay();
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 px-4 py-3 mb-6 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-700">
+      {shop.shop_name && <span className="font-semibold text-gray-900">{shop.shop_name}</span>}
+      {shop.address && (
+        <span className="flex items-center gap-1 min-w-0">
+          <MapPin className="w-4 h-4 text-purple-400 flex-shrink-0" />
+          <span className="truncate">{shop.address}</span>
+        </span>
+      )}
+      {shop.phone && (
+        <a href={`tel:${shop.phone}`} className="flex items-center gap-1 hover:text-purple-600">
+          <Phone className="w-4 h-4 text-purple-400" />
+          {shop.phone}
+        </a>
+      )}
+      <span className="flex items-center gap-1">
+        <Clock className="w-4 h-4 text-purple-400" />
+        {WEEKDAYS[today]}: {formatDayHours(openingHours(shop)[today])}
+      </span>
+    </div>
+  );
+}
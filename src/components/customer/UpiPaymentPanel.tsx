@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { Order } from '../../lib/supabase';
+import { submitUpiReference, upiPayLink } from '../../lib/upi';
+import { AlertCircle, Smartphone } from 'lucide-react';
+
+type Props = {
+  order: Pick<Order, 'id' | 'order_number' | 'total_amount'>;
+  vpa: string;
+  payeeName?: string | null;
+  onSubmitted: (order: Order) => void;
+};
+
+/** QR code and intent link for paying the shop's VPA, then the UTR box. */
+export function UpiPaymentPanel({ order, vpa, payeeName, onSubmitted }: Props) {
+  const link = upiPayLink({ vpa, payeeName, amount: order.total_amount, orderNumber: order.order_number });
+  const [qr, setQr] = useState<string | null>(null);
+  const [reference, setReference] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [failure, setFailure] = useState<string | null>(null);
+
+  useEffect(() => {
+    QRCode.toDataURL(link, { margin: 1, width: 220 })
+      .then(setQr)
+      .catch((error: unknown) => console.error('Error drawing UPI QR code:', error));
+  }, [link]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (submitting) return;
+    setSubmitting(true);
+    setFailure(null);
+    try {
+      onSubmitted(await submitUpiReference(order.id, reference));
+    } catch (error: unknown) {
+      console.error('Error submitting UPI reference:', error);
+      setFailure(error instanceof Error ? error.message : 'Failed to submit the reference number');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">Order {order.order_number}</span>
+        <span className="text-xl font-bold text-gray-900">₹{order.total_amount.toFixed(2)}</span>
+      </div>
+
+      <div className="flex flex-col items-center gap-2">
+        {qr ? (
+          <img src={qr} alt={`UPI QR code for ₹${order.total_amount.toFixed(2)}`} className="w-52 h-52 rounded-xl border border-gray-200" />
+        ) : (
+          <div className="w-52 h-52 rounded-xl border border-gray-200 bg-gray-50" />
+        )}
+        <p className="text-sm text-gray-600">
+          Scan with any UPI app, or pay <span className="font-mono font-semibold text-gray-900">{vpa}</span>
+        </p>
+        <a
+          href={link}
+          className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold sm:hidden"
+        >
+          <Smartphone className="w-4 h-4" />
+          Open UPI app
+        </a>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">UTR / Reference number</label>
+        <input
+          value={reference}
+          onChange={(e) => setReference(e.target.value.replace(/[^\d\s]/g, ''))}
+          className="w-full px-4 py-3 border-2 border-gray-200 rounded-2xl focus:ring-2 focus:ring-purple-500 focus:border-transparent font-mono"
+          placeholder="12-digit number shown after paying"
+          inputMode="numeric"
+          maxLength={16}
+        />
+        <p className="text-xs text-gray-500 mt-1">The shop starts on your order once it has matched this with the payment.</p>
+      </div>
+
+      {failure && (
+        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-xl px-3 py-2 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {failure}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={submitting || !reference.trim()}
+        className="w-full bg-gradient-to-r from-purple-600 to-pink-600 text-white font-semibold py-3 rounded-2xl shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {submitting ? 'Submitting...' : "I've paid, submit reference"}
+      </button>
+    </form>
+  );
+}
+
+export default UpiPaymentPanel;
@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchShopLocation } from '../../lib/shop';
+import { DeliveryEarning, earningsByPeriod, fetchRiderEarnings, riderPay, summarizeEarnings } from '../../lib/riderEarnings';
+import { IndianRupee } from 'lucide-react';
+
+type Props = {
+  riderId: string;
+};
+
+const PERIODS = { day: 7, week: 4 } as const;
+
+const dayLabel = (key: string) =>
+  new Date(`${key}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' });
+
+/** What the rider earned by day or week, and how much the shop still owes them. */
+export function EarningsPanel({ riderId }: Props) {
+  const [unit, setUnit] = useState<keyof typeof PERIODS>('day');
+  const [lines, setLines] = useState<DeliveryEarning[]>([]);
+  const [unpaid, setUnpaid] = useState<DeliveryEarning[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      const earnings = await fetchRiderEarnings(riderId, riderPay(await fetchShopLocation()));
+      setUnpaid(earnings.unpaid);
+      setLines([...earnings.unpaid, ...earnings.paid]);
+    } catch (error) {
+      console.error('Error loading earnings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [riderId]);
+
+  useEffect(() => {
+    load();
+    window.addEventListener('order_updated', load);
+    return () => window.removeEventListener('order_updated', load);
+  }, [load]);
+
+  if (loading) return null;
+
+  const periods = earningsByPeriod(lines, unit, PERIODS[unit]);
+  const owed = summarizeEarnings(unpaid);
+  const best = Math.max(1, ...periods.map((p) => p.summary.total));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-md border border-gray-100 p-4 mb-6">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-2">
+          <IndianRupee className="w-5 h-5 text-emerald-600" />
+          <h3 className="font-semibold text-gray-900">Earnings</h3>
+        </div>
+        <div className="flex rounded-lg bg-gray-100 p-0.5 text-sm">
+          {(Object.keys(PERIODS) as (keyof typeof PERIODS)[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => setUnit(key)}
+              className={`px-3 py-1 rounded-md font-medium ${unit === key ? 'bg-white shadow text-gray-900' : 'text-gray-500'}`}
+            >
+              {key === 'day' ? 'Daily' : 'Weekly'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div className="rounded-xl bg-emerald-50 px-3 py-2">
+          <p className="text-xs text-emerald-700">{unit === 'day' ? 'Today' : 'This week'}</p>
+          <p className="text-lg font-bold text-gray-900">₹{periods[0].summary.total.toFixed(2)}</p>
+          <p className="text-xs text-gray-500">
+            {periods[0].summary.deliveries} deliveries · {periods[0].summary.km.toFixed(1)} km
+          </p>
+        </div>
+        <div className="rounded-xl bg-amber-50 px-3 py-2">
+          <p className="text-xs text-amber-700">Not paid yet</p>
+          <p className="text-lg font-bold text-gray-900">₹{owed.total.toFixed(2)}</p>
+          <p className="text-xs text-gray-500">{owed.deliveries} deliveries</p>
+        </div>
+      </div>
+
+      <ul className="space-y-1.5">
+        {periods.map((period) => (
+          <li key={period.from} className="flex items-center gap-3 text-sm">
+            <span className="w-32 flex-shrink-0 text-gray-600">
+              {unit === 'day' ? dayLabel(period.from) : `${dayLabel(period.from)} –`}
+            </span>
+            <div className="flex-1 h-2 rounded-full bg-gray-100 overflow-hidden">
+              <div className="h-full bg-emerald-500" style={{ width: `${(period.summary.total / best) * 100}%` }} />
+            </div>
+            <span className="w-20 text-right font-medium text-gray-900">₹{period.summary.total.toFixed(0)}</span>
+            {period.summary.peakBonus > 0 && (
+              <span className="text-xs text-amber-600" title="Peak bonus included">
+                +₹{period.summary.peakBonus.toFixed(0)} peak
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default EarningsPanel;
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { FAILURE_REASONS, FailureReason, failedAttemptError } from '../../lib/deliveryAttempts';
+
+type Props = {
+  // Attempts the order has left, counting this one
+  attemptsLeft: number;
+  onSubmit: (input: { reason: FailureReason; note: string }) => Promise<void>;
+  onCancel: () => void;
+};
+
+/** Why the rider could not hand the order over. */
+export function FailedAttemptForm({ attemptsLeft, onSubmit, onCancel }: Props) {
+  const [reason, setReason] = useState<FailureReason | ''>('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const invalid = failedAttemptError({ reason, note });
+    if (invalid) {
+      alert(invalid);
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSubmit({ reason: reason as FailureReason, note });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 p-3 rounded-xl bg-orange-50 border border-orange-200 space-y-2">
+      <p className="text-sm font-semibold text-orange-800">Why couldn't you deliver?</p>
+      <div className="space-y-1">
+        {(Object.keys(FAILURE_REASONS) as FailureReason[]).map((key) => (
+          <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              name="failure-reason"
+              value={key}
+              checked={reason === key}
+              onChange={() => setReason(key)}
+              className="w-4 h-4 text-orange-600 border-gray-300 focus:ring-orange-500"
+            />
+            {FAILURE_REASONS[key]}
+          </label>
+        ))}
+      </div>
+      <input
+        type="text"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder={reason === 'customer_rescheduled' ? 'When does the customer want it?' : 'Details for the shop'}
+        className="w-full px-3 py-2 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent text-sm"
+      />
+      <p className="text-xs text-gray-600">
+        {attemptsLeft <= 1
+          ? 'This is the last attempt; the shop will return the order to stock.'
+          : `The shop can re-schedule it ${attemptsLeft - 1} more time${attemptsLeft - 1 === 1 ? '' : 's'}.`}
+      </p>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="flex-1 px-4 py-2 rounded-xl bg-white border border-gray-200 text-gray-700 font-semibold hover:bg-gray-50 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving || !reason}
+          className="flex-1 px-4 py-2 rounded-xl bg-orange-600 hover:bg-orange-700 text-white font-semibold disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Record Attempt'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default FailedAttemptForm;
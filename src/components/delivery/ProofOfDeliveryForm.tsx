@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react';
+import { compressPhoto, signatureBlob } from '../../lib/deliveryProof';
+import { SignaturePad, SignaturePadHandle } from './SignaturePad';
+import { Camera, Eraser, PenLine } from 'lucide-react';
+
+export type ProofInput = {
+  pin: string;
+  photo: Blob;
+  signature: Blob | null;
+};
+
+type Props = {
+  onConfirm: (input: ProofInput) => Promise<void>;
+  onCancel: () => void;
+};
+
+/** Doorstep photo, optional signature and the customer's PIN for one delivery. */
+export function ProofOfDeliveryForm({ onConfirm, onCancel }: Props) {
+  const [photo, setPhoto] = useState<Blob | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [compressing, setCompressing] = useState(false);
+  const [withSignature, setWithSignature] = useState(false);
+  const [signed, setSigned] = useState(false);
+  const [pin, setPin] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const pad = useRef<SignaturePadHandle>(null);
+
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview);
+    };
+  }, [preview]);
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setCompressing(true);
+    try {
+      const compressed = await compressPhoto(file);
+      setPhoto(compressed);
+      setPreview(URL.createObjectURL(compressed));
+    } catch (error) {
+      console.error('Error preparing delivery photo:', error);
+      alert(error instanceof Error ? error.message : 'Could not use that photo');
+    } finally {
+      setCompressing(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!photo) {
+      alert('Please take a photo of the parcel at the door');
+      return;
+    }
+    const canvas = pad.current?.canvas();
+    setSubmitting(true);
+    try {
+      const signature = withSignature && signed && canvas ? await signatureBlob(canvas) : null;
+      await onConfirm({ pin: pin.trim(), photo, signature });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 p-3 rounded-xl bg-white border border-emerald-200 space-y-3">
+      <div>
+        <p className="text-sm font-semibold text-gray-800 mb-2">Doorstep photo</p>
+        {preview ? (
+          <img src={preview} alt="Delivered parcel" className="w-full max-h-48 object-cover rounded-xl mb-2" />
+        ) : null}
+        <label className="flex items-center justify-center gap-2 w-full px-4 py-2 rounded-xl border-2 border-dashed border-emerald-300 text-emerald-700 text-sm font-medium cursor-pointer hover:bg-emerald-50">
+          <Camera className="w-4 h-4" />
+          {compressing ? 'Preparing photo...' : preview ? 'Retake photo' : 'Take photo'}
+          <input type="file" accept="image/*" capture="environment" onChange={handlePhoto} className="hidden" />
+        </label>
+      </div>
+
+      <div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={withSignature}
+            onChange={(e) => {
+              setWithSignature(e.target.checked);
+              setSigned(false);
+            }}
+            className="w-4 h-4 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+          />
+          <PenLine className="w-4 h-4" />
+          Customer signature (optional)
+        </label>
+        {withSignature && (
+          <div className="mt-2">
+            <SignaturePad ref={pad} onChange={setSigned} />
+            <button
+              type="button"
+              onClick={() => pad.current?.clear()}
+              className="mt-1 flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+            >
+              <Eraser className="w-3.5 h-3.5" />
+              Clear
+            </button>
+          </div>
+        )}
+      </div>
+
+      <input
+        type="text"
+        inputMode="numeric"
+        value={pin}
+        onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+        placeholder="Delivery PIN from the customer"
+        className="w-full px-3 py-2 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-transparent font-mono tracking-wider"
+      />
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={submitting}
+          className="flex-1 px-4 py-2 rounded-xl bg-gray-100 text-gray-700 font-semibold hover:bg-gray-200 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={submitting || compressing || !photo || !pin.trim()}
+          className="flex-1 px-4 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-700 text-white font-semibold disabled:opacity-50"
+        >
+          {submitting ? 'Uploading...' : 'Confirm Delivery'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default ProofOfDeliveryForm;
@@ -0,0 +1,154 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Order } from '../../lib/supabase';
+import { fetchShopLocation, hasShopCoordinates } from '../../lib/shop';
+import { formatDistance } from '../../lib/location';
+import { ROUTE_STATUSES, RouteStop, applyStopOrder, hasCoordinates, measureRoute, planRoute } from '../../lib/routePlanner';
+import { ArrowDown, ArrowUp, Navigation, RotateCcw, Store } from 'lucide-react';
+
+type Props = {
+  riderId: string;
+  orders: Order[];
+};
+
+type OrderStop = RouteStop & { order: Order };
+
+// The rider's own arrangement survives a reload until the set of stops changes
+const storageKey = (riderId: string) => `route_order_${riderId}`;
+
+function loadSavedOrder(riderId: string): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(riderId)) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+/** The rider's accepted orders as a sequence of stops from the shop. */
+export function RoutePlanner({ riderId, orders }: Props) {
+  const [start, setStart] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [sequence, setSequence] = useState<string[]>(() => loadSavedOrder(riderId));
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const shop = await fetchShopLocation();
+        if (hasShopCoordinates(shop)) setStart({ latitude: shop.latitude, longitude: shop.longitude });
+      } catch (error) {
+        console.error('Error loading shop location for the route:', error);
+      }
+    })();
+  }, []);
+
+  const stops = useMemo<OrderStop[]>(
+    () =>
+      orders
+        .filter((o) => ROUTE_STATUSES.includes(o.status) && o.delivery_boy_id === riderId && hasCoordinates(o))
+        .map((o) => ({ id: o.id, latitude: o.latitude, longitude: o.longitude, order: o })),
+    [orders, riderId]
+  );
+
+  const ordered = useMemo(
+    () => (start ? applyStopOrder(stops, sequence) ?? planRoute(start, stops) : stops),
+    [start, stops, sequence]
+  );
+
+  const saveSequence = (ids: string[]) => {
+    setSequence(ids);
+    try {
+      localStorage.setItem(storageKey(riderId), JSON.stringify(ids));
+    } catch {
+      // the arrangement just won't survive a reload
+    }
+  };
+
+  const move = (index: number, by: -1 | 1) => {
+    const ids = ordered.map((s) => s.id);
+    [ids[index], ids[index + by]] = [ids[index + by], ids[index]];
+    saveSequence(ids);
+  };
+
+  const replan = () => {
+    if (start) saveSequence(planRoute(start, stops).map((s) => s.id));
+  };
+
+  if (stops.length === 0) return null;
+
+  if (!start) {
+    return (
+      <div className="bg-white rounded-2xl shadow-md border border-gray-100 p-4 mb-6 text-sm text-gray-500">
+        The shop has not set its location, so your route cannot be planned.
+      </div>
+    );
+  }
+
+  const route = measureRoute(start, ordered);
+  const planned = planRoute(start, stops);
+  const isPlanned = planned.every((s, i) => s.id === ordered[i].id);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-md border border-gray-100 p-4 mb-6">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-2">
+          <Navigation className="w-5 h-5 text-emerald-600" />
+          <h3 className="font-semibold text-gray-900">Your Route</h3>
+          <span className="text-sm text-gray-500">
+            {stops.length} stop{stops.length === 1 ? '' : 's'} · {formatDistance(route.totalKm)}
+          </span>
+        </div>
+        {!isPlanned && (
+          <button
+            onClick={replan}
+            className="flex items-center gap-1 text-sm font-medium text-emerald-700 hover:text-emerald-800"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Shortest order
+          </button>
+        )}
+      </div>
+
+      <ol className="space-y-2">
+        <li className="flex items-center gap-3 text-sm text-gray-600">
+          <span className="w-7 h-7 rounded-full bg-gray-100 flex items-center justify-center">
+            <Store className="w-4 h-4" />
+          </span>
+          Shop
+        </li>
+        {route.legs.map(({ stop, distanceKm }, i) => (
+          <li key={stop.id} className="flex items-center gap-3 rounded-xl border border-gray-100 px-3 py-2">
+            <span className="w-7 h-7 flex-shrink-0 rounded-full bg-emerald-100 text-emerald-700 text-sm font-bold flex items-center justify-center">
+              {i + 1}
+            </span>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">
+                #{stop.order.order_number} · {stop.order.customer_name}
+              </p>
+              <p className="text-xs text-gray-500 truncate">{stop.order.delivery_address}</p>
+            </div>
+            <span className="text-xs font-medium text-gray-600 whitespace-nowrap">+{formatDistance(distanceKm)}</span>
+            <div className="flex flex-col">
+              <button
+                onClick={() => move(i, -1)}
+                disabled={i === 0}
+                className="p-0.5 text-gray-500 hover:text-emerald-600 disabled:opacity-30"
+                aria-label="Move stop up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => move(i, 1)}
+                disabled={i === route.legs.length - 1}
+                className="p-0.5 text-gray-500 hover:text-emerald-600 disabled:opacity-30"
+                aria-label="Move stop down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export default RoutePlanner;
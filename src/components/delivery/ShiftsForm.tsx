@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { DayHours, WEEKDAYS } from '../../lib/shop';
+import { DEFAULT_SHIFT, RiderDuty, hasSchedule, saveShifts } from '../../lib/riderDuty';
+
+type Props = {
+  riderId: string;
+  duty: RiderDuty | null;
+  onSaved: (duty: RiderDuty) => void;
+};
+
+/** The rider's weekly shifts; without a schedule only the on-duty switch counts. */
+export function ShiftsForm({ riderId, duty, onSaved }: Props) {
+  const [scheduled, setScheduled] = useState(hasSchedule(duty));
+  const [shifts, setShifts] = useState<(DayHours | null)[]>(
+    hasSchedule(duty) ? duty!.shifts! : WEEKDAYS.map(() => ({ ...DEFAULT_SHIFT }))
+  );
+  const [saving, setSaving] = useState(false);
+
+  const setDay = (day: number, value: DayHours | null) => {
+    setShifts((prev) => prev.map((s, i) => (i === day ? value : s)));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      onSaved(await saveShifts(riderId, scheduled ? shifts : null));
+      alert('Shifts saved');
+    } catch (error) {
+      console.error('Error saving shifts:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save shifts');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={scheduled}
+          onChange={(e) => setScheduled(e.target.checked)}
+          className="w-4 h-4 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+        />
+        Only give me orders during my shifts
+      </label>
+
+      {scheduled && (
+        <div className="border border-gray-200 rounded-xl divide-y divide-gray-100">
+          {WEEKDAYS.map((day, i) => {
+            const shift = shifts[i];
+            return (
+              <div key={day} className="flex flex-wrap items-center gap-3 px-3 py-2">
+                <span className="w-28 text-sm font-medium text-gray-800">{day}</span>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={shift !== null}
+                    onChange={(e) => setDay(i, e.target.checked ? { ...DEFAULT_SHIFT } : null)}
+                    className="w-4 h-4 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+                  />
+                  Working
+                </label>
+                {shift ? (
+                  <div className="flex items-center gap-2 text-sm">
+                    <input
+                      type="time"
+                      value={shift.open}
+                      onChange={(e) => setDay(i, { ...shift, open: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded"
+                    />
+                    <span className="text-gray-500">to</span>
+                    <input
+                      type="time"
+                      value={shift.close}
+                      onChange={(e) => setDay(i, { ...shift, close: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded"
+                    />
+                  </div>
+                ) : (
+                  <span className="text-sm text-gray-400">Day off</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-xl font-semibold transition-colors disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save Shifts'}
+      </button>
+    </form>
+  );
+}
+
+export default ShiftsForm;
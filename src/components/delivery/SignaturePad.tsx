@@ -0,0 +1,91 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+
+export type SignaturePadHandle = {
+  canvas: () => HTMLCanvasElement | null;
+  clear: () => void;
+};
+
+type Props = {
+  onChange: (signed: boolean) => void;
+};
+
+const HEIGHT = 160;
+
+function paintBlank(canvas: HTMLCanvasElement) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.lineWidth = 2.5;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = '#111827';
+}
+
+/** A finger-drawn signature on a white canvas. */
+export const SignaturePad = forwardRef<SignaturePadHandle, Props>(function SignaturePad({ onChange }, ref) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  const context = () => canvasRef.current?.getContext('2d') ?? null;
+
+  // Size the drawing surface to the rendered width so strokes land under the finger
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = canvas.clientWidth;
+    canvas.height = HEIGHT;
+    paintBlank(canvas);
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    canvas: () => canvasRef.current,
+    clear: () => {
+      if (canvasRef.current) paintBlank(canvasRef.current);
+      onChange(false);
+    },
+  }));
+
+  const point = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const start = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = context();
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = point(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const move = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = context();
+    if (!drawing.current || !ctx) return;
+    const { x, y } = point(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const end = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(true);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={start}
+      onPointerMove={move}
+      onPointerUp={end}
+      onPointerLeave={end}
+      className="w-full rounded-xl border-2 border-dashed border-gray-300 bg-white touch-none"
+      style={{ height: HEIGHT }}
+    />
+  );
+});
+
+export default SignaturePad;
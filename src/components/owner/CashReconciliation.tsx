@@ -0,0 +1,266 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Profile } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  CashBalance,
+  CashCollection,
+  CashSettlement,
+  fetchCashBalances,
+  fetchCashCollections,
+  fetchCashSettlements,
+  settleCash,
+} from '../../lib/cashCollection';
+import { Wallet, History, AlertCircle } from 'lucide-react';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// "+₹20.00" / "-₹15.00"
+const formatDifference = (value: number) => `${value < 0 ? '-' : '+'}₹${Math.abs(value).toFixed(2)}`;
+
+/** Cash each delivery person is holding, and settling it when they hand it over. */
+export function CashReconciliation() {
+  const { user } = useAuth();
+  const [riders, setRiders] = useState<Profile[]>([]);
+  const [balances, setBalances] = useState<Record<string, CashBalance>>({});
+  const [settlements, setSettlements] = useState<CashSettlement[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [collections, setCollections] = useState<CashCollection[]>([]);
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [ridersRes, balanceRows, settlementRows] = await Promise.all([
+        supabase.from<Profile>('profiles').select('id, full_name, phone').eq('role', 'delivery').get(),
+        fetchCashBalances(),
+        fetchCashSettlements(),
+      ]);
+      if (ridersRes.error) throw ridersRes.error;
+      setRiders(ridersRes.data ?? []);
+      setBalances(Object.fromEntries(balanceRows.map((b) => [b.id, b])));
+      setSettlements(settlementRows);
+    } catch (error) {
+      console.error('Error loading cash balances:', error);
+      alert('Failed to load cash balances');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+    // Riders record collections from their own dashboard
+    window.addEventListener('order_updated', loadData);
+    return () => window.removeEventListener('order_updated', loadData);
+  }, [loadData]);
+
+  useEffect(() => {
+    if (!selected) return;
+    (async () => {
+      try {
+        setCollections(await fetchCashCollections(selected, { unsettledOnly: true }));
+      } catch (error) {
+        console.error('Error loading cash collections:', error);
+      }
+    })();
+    setAmount((balances[selected]?.balance ?? 0).toFixed(2));
+    setNote('');
+  }, [selected, balances]);
+
+  const riderName = (id: string) => riders.find((r) => r.id === id)?.full_name || 'Former delivery user';
+
+  const handleSettle = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || saving) return;
+    const due = balances[selected]?.balance ?? 0;
+    const received = Number(amount);
+    if (received < due && !note.trim()) {
+      alert(`₹${(due - received).toFixed(2)} will stay on ${riderName(selected)}'s balance. Add a note saying why.`);
+      return;
+    }
+    setSaving(true);
+    try {
+      await settleCash(selected, { amount: received, note }, { role: 'owner', actorId: user?.id });
+      await loadData();
+    } catch (error) {
+      console.error('Error settling cash:', error);
+      alert(error instanceof Error ? error.message : 'Failed to settle cash');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-gray-600">Loading cash balances...</div>
+      </div>
+    );
+  }
+
+  const totalInHand = Object.values(balances).reduce((sum, b) => sum + b.balance, 0);
+  const selectedBalance = selected ? balances[selected]?.balance ?? 0 : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">Cash with delivery staff</p>
+        <p className="text-xl font-bold text-amber-600">₹{totalInHand.toFixed(2)}</p>
+      </div>
+
+      {riders.length === 0 ? (
+        <p className="text-sm text-gray-500">No delivery users yet</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {riders.map((rider) => {
+            const balance = balances[rider.id];
+            const isSelected = selected === rider.id;
+            return (
+              <button
+                key={rider.id}
+                onClick={() => setSelected(isSelected ? null : rider.id)}
+                className={`text-left rounded-xl p-4 border-2 transition-colors ${
+                  isSelected ? 'border-amber-400 bg-amber-50' : 'border-gray-100 bg-white hover:border-amber-200'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900 truncate">{rider.full_name || 'Unnamed'}</p>
+                    <p className="text-xs text-gray-500">{rider.phone}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-lg font-bold text-gray-900">₹{(balance?.balance ?? 0).toFixed(2)}</p>
+                    <p className="text-xs text-gray-500">in hand</p>
+                  </div>
+                </div>
+                {balance && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Collected ₹{balance.collected_total.toFixed(2)} · Settled ₹{balance.settled_total.toFixed(2)}
+                  </p>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-white rounded-xl border border-gray-100 p-5 space-y-4">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-amber-600" />
+            Settle with {riderName(selected)}
+          </h3>
+
+          {collections.length === 0 ? (
+            <p className="text-sm text-gray-500">No collections since the last settlement</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 text-sm">
+              {collections.map((c) => (
+                <li key={c.id} className="py-2 flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-mono text-gray-900">#{c.order_number}</p>
+                    <p className="text-xs text-gray-500">{formatDate(c.collected_at)}</p>
+                    {c.note && <p className="text-xs text-gray-600 mt-0.5">“{c.note}”</p>}
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className="font-semibold text-gray-900">₹{c.amount_collected.toFixed(2)}</p>
+                    {c.difference !== 0 && (
+                      <p className={`text-xs font-medium ${c.difference < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                        {formatDifference(c.difference)} vs ₹{c.amount_due.toFixed(2)} due
+                      </p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {selectedBalance > 0 ? (
+            <form onSubmit={handleSettle} className="grid grid-cols-1 sm:grid-cols-3 gap-3 pt-3 border-t border-gray-100">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Cash received (₹)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  max={selectedBalance}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Note</label>
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Needed when less is handed over"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+                />
+              </div>
+              <div className="flex items-end">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="w-full bg-amber-500 hover:bg-amber-600 text-white px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Settling...' : 'Settle Cash'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <p className="text-sm text-gray-500 flex items-center gap-2">
+              <AlertCircle className="w-4 h-4" />
+              Nothing to settle
+            </p>
+          )}
+        </div>
+      )}
+
+      <div>
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-3">
+          <History className="w-5 h-5 text-gray-500" />
+          Settlement History
+        </h3>
+        {settlements.length === 0 ? (
+          <p className="text-sm text-gray-500">No settlements yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                  <th className="py-2 pr-3">When</th>
+                  <th className="py-2 pr-3">Delivery person</th>
+                  <th className="py-2 pr-3 text-right">Due</th>
+                  <th className="py-2 pr-3 text-right">Received</th>
+                  <th className="py-2 pr-3 text-right">Carried forward</th>
+                  <th className="py-2">Note</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {settlements
+                  .filter((s) => !selected || s.delivery_boy_id === selected)
+                  .map((s) => (
+                    <tr key={s.id}>
+                      <td className="py-2 pr-3 whitespace-nowrap text-gray-600">{formatDate(s.created_at)}</td>
+                      <td className="py-2 pr-3 text-gray-900">{riderName(s.delivery_boy_id)}</td>
+                      <td className="py-2 pr-3 text-right text-gray-600">₹{s.expected.toFixed(2)}</td>
+                      <td className="py-2 pr-3 text-right font-semibold text-gray-900">₹{s.amount.toFixed(2)}</td>
+                      <td className={`py-2 pr-3 text-right ${s.carried_forward > 0 ? 'text-red-600' : 'text-gray-400'}`}>
+                        ₹{s.carried_forward.toFixed(2)}
+                      </td>
+                      <td className="py-2 text-gray-600">{s.note || '—'}</td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
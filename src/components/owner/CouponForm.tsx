@@ -0,0 +1,309 @@
+import { useState } from 'react';
+import { supabase, Item, Category } from '../../lib/supabase';
+import { Coupon, CouponType, normalizeCouponCode } from '../../lib/coupons';
+import { X } from 'lucide-react';
+
+type CouponFormProps = {
+  coupon: Coupon | null;
+  categories: Category[];
+  items: Item[];
+  onClose: () => void;
+};
+
+// Blank inputs map to null, i.e. "no limit"
+const parseOptional = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? Math.max(0, n) : null;
+};
+
+const formatOptional = (value: number | null | undefined): string => (value == null ? '' : value.toString());
+
+// <input type="date"> works in local days; the coupon stores ISO instants
+const toDateInput = (iso?: string | null) => (iso ? iso.slice(0, 10) : '');
+const startOfDayIso = (date: string) => (date ? new Date(`${date}T00:00:00`).toISOString() : null);
+const endOfDayIso = (date: string) => (date ? new Date(`${date}T23:59:59.999`).toISOString() : null);
+
+export function CouponForm({ coupon, categories, items, onClose }: CouponFormProps) {
+  const [code, setCode] = useState(coupon?.code || '');
+  const [description, setDescription] = useState(coupon?.description || '');
+  const [type, setType] = useState<CouponType>(coupon?.type || 'percent');
+  const [value, setValue] = useState(coupon ? coupon.value.toString() : '');
+  const [maxDiscount, setMaxDiscount] = useState(formatOptional(coupon?.max_discount));
+  const [minOrderValue, setMinOrderValue] = useState(formatOptional(coupon?.min_order_value));
+  const [startsAt, setStartsAt] = useState(toDateInput(coupon?.starts_at));
+  const [expiresAt, setExpiresAt] = useState(toDateInput(coupon?.expires_at));
+  const [usageLimit, setUsageLimit] = useState(formatOptional(coupon?.usage_limit));
+  const [perCustomerLimit, setPerCustomerLimit] = useState(formatOptional(coupon?.per_customer_limit));
+  const [categoryIds, setCategoryIds] = useState<string[]>(coupon?.category_ids ?? []);
+  const [itemIds, setItemIds] = useState<string[]>(coupon?.item_ids ?? []);
+  const [active, setActive] = useState(coupon?.active ?? true);
+  const [loading, setLoading] = useState(false);
+
+  const toggle = (list: string[], id: string) => (list.includes(id) ? list.filter((x) => x !== id) : [...list, id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const id = normalizeCouponCode(code);
+    const amount = parseFloat(value);
+    if (!id || !/^[A-Z0-9_-]+$/.test(id)) {
+      alert('Coupon code may only contain letters, digits, "-" and "_"');
+      return;
+    }
+    if (!Number.isFinite(amount) || amount <= 0 || (type === 'percent' && amount > 100)) {
+      alert(type === 'percent' ? 'Enter a percentage between 1 and 100' : 'Enter a discount amount above 0');
+      return;
+    }
+    if (startsAt && expiresAt && expiresAt < startsAt) {
+      alert('The expiry date must be after the start date');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (!coupon) {
+        const { data: existing, error: readError } = await supabase
+          .from<Coupon>('coupons')
+          .select('id')
+          .eq('id', id)
+          .maybeSingle();
+        if (readError) throw readError;
+        if (existing) throw new Error(`A coupon with code ${id} already exists`);
+      }
+
+      const now = new Date().toISOString();
+      // used_count is maintained by checkout, so an edit never touches it
+      const row: Partial<Coupon> = {
+        id,
+        code: id,
+        description: description.trim(),
+        type,
+        value: amount,
+        max_discount: type === 'percent' ? parseOptional(maxDiscount) : null,
+        min_order_value: parseOptional(minOrderValue),
+        starts_at: startOfDayIso(startsAt),
+        expires_at: endOfDayIso(expiresAt),
+        usage_limit: parseOptional(usageLimit),
+        per_customer_limit: parseOptional(perCustomerLimit),
+        category_ids: categoryIds,
+        item_ids: itemIds,
+        active,
+        updated_at: now,
+        ...(coupon ? {} : { used_count: 0, created_at: now }),
+      };
+
+      const res = await supabase.from<Coupon>('coupons').upsert(row, { onConflict: 'id' }).get();
+      if (res.error) throw res.error;
+
+      alert(coupon ? 'Coupon updated successfully!' : 'Coupon added successfully!');
+      onClose();
+    } catch (error: unknown) {
+      console.error('Error saving coupon:', error);
+      const msg = error instanceof Error ? error.message : JSON.stringify(error);
+      alert(msg || 'Failed to save coupon');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">
+          {coupon ? `Edit Coupon ${coupon.code}` : 'Add New Coupon'}
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <X className="w-6 h-6 text-gray-600" />
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Code</label>
+            <input
+              type="text"
+              required
+              value={code}
+              onChange={(e) => setCode(normalizeCouponCode(e.target.value))}
+              disabled={!!coupon}
+              className={`${inputClass} font-mono disabled:bg-gray-100`}
+              placeholder="e.g., DIWALI20"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClass}
+              placeholder="Shown to the owner only"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Discount Type</label>
+            <select value={type} onChange={(e) => setType(e.target.value as CouponType)} className={inputClass}>
+              <option value="percent">Percentage off</option>
+              <option value="flat">Flat amount off (₹)</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {type === 'percent' ? 'Percentage' : 'Amount (₹)'}
+            </label>
+            <input
+              type="number"
+              required
+              min="0"
+              step="0.01"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          {type === 'percent' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Maximum Discount (₹)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={maxDiscount}
+                onChange={(e) => setMaxDiscount(e.target.value)}
+                className={inputClass}
+                placeholder="No cap"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Order Value (₹)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={minOrderValue}
+              onChange={(e) => setMinOrderValue(e.target.value)}
+              className={inputClass}
+              placeholder="No minimum"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Valid From</label>
+            <input type="date" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} className={inputClass} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Expires On</label>
+            <input type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} className={inputClass} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Total Uses</label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={usageLimit}
+              onChange={(e) => setUsageLimit(e.target.value)}
+              className={inputClass}
+              placeholder="Unlimited"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Uses per Customer</label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={perCustomerLimit}
+              onChange={(e) => setPerCustomerLimit(e.target.value)}
+              className={inputClass}
+              placeholder="Unlimited"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Applies To <span className="text-gray-400 font-normal">(leave everything unticked for the whole cart)</span>
+          </label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="border border-gray-200 rounded-lg p-3 max-h-48 overflow-y-auto">
+              <p className="text-xs font-semibold text-gray-500 uppercase mb-2">Categories</p>
+              {categories.map((cat) => (
+                <label key={cat.id} className="flex items-center gap-2 text-sm text-gray-700 py-0.5">
+                  <input
+                    type="checkbox"
+                    checked={categoryIds.includes(cat.id)}
+                    onChange={() => setCategoryIds((prev) => toggle(prev, cat.id))}
+                    className="w-4 h-4 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+                  />
+                  {cat.name}
+                </label>
+              ))}
+            </div>
+            <div className="border border-gray-200 rounded-lg p-3 max-h-48 overflow-y-auto">
+              <p className="text-xs font-semibold text-gray-500 uppercase mb-2">Items</p>
+              {items.map((it) => (
+                <label key={it.id} className="flex items-center gap-2 text-sm text-gray-700 py-0.5">
+                  <input
+                    type="checkbox"
+                    checked={itemIds.includes(it.id)}
+                    onChange={() => setItemIds((prev) => toggle(prev, it.id))}
+                    className="w-4 h-4 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+                  />
+                  {it.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="couponActive"
+            checked={active}
+            onChange={(e) => setActive(e.target.checked)}
+            className="w-4 h-4 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+          />
+          <label htmlFor="couponActive" className="text-sm font-medium text-gray-700">
+            Active
+          </label>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={loading}
+            className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white font-semibold py-3 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Saving...' : coupon ? 'Update Coupon' : 'Add Coupon'}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-3 border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Item, Category } from '../../lib/supabase';
+import { Coupon } from '../../lib/coupons';
+import { Plus, Edit, Trash2, Tag } from 'lucide-react';
+import { CouponForm } from './CouponForm';
+
+function couponSummary(coupon: Coupon) {
+  const off = coupon.type === 'percent' ? `${coupon.value}% off` : `₹${coupon.value} off`;
+  const cap = coupon.type === 'percent' && coupon.max_discount != null ? ` (up to ₹${coupon.max_discount})` : '';
+  const min = coupon.min_order_value != null ? ` on orders over ₹${coupon.min_order_value}` : '';
+  return off + cap + min;
+}
+
+function couponState(coupon: Coupon, now: Date): { label: string; className: string } {
+  if (!coupon.active) return { label: 'Inactive', className: 'bg-gray-100 text-gray-600' };
+  if (coupon.expires_at && new Date(coupon.expires_at) <= now) return { label: 'Expired', className: 'bg-red-100 text-red-700' };
+  if (coupon.starts_at && new Date(coupon.starts_at) > now) return { label: 'Scheduled', className: 'bg-blue-100 text-blue-700' };
+  if (coupon.usage_limit != null && coupon.used_count >= coupon.usage_limit) {
+    return { label: 'Used up', className: 'bg-amber-100 text-amber-700' };
+  }
+  return { label: 'Active', className: 'bg-emerald-100 text-emerald-700' };
+}
+
+export function CouponsManagement() {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [couponsRes, categoriesRes, itemsRes] = await Promise.all([
+        supabase.from<Coupon>('coupons').select('*').order('created_at', { ascending: false }).get(),
+        supabase.from<Category>('categories').select('*').order('name').get(),
+        supabase.from<Item>('items').select('*').order('name').get(),
+      ]);
+      if (couponsRes.error) throw couponsRes.error;
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (itemsRes.error) throw itemsRes.error;
+      setCoupons(couponsRes.data ?? []);
+      setCategories(categoriesRes.data ?? []);
+      setItems(itemsRes.data ?? []);
+    } catch (error) {
+      console.error('Error loading coupons:', error);
+      alert('Failed to load coupons');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}? Orders that used it keep their discount.`)) return;
+
+    try {
+      const delRes = await supabase.from('coupons').delete().eq('id', coupon.id).get();
+      if (delRes.error) throw delRes.error;
+      await loadData();
+    } catch (error) {
+      console.error('Error deleting coupon:', error);
+      alert('Failed to delete coupon');
+    }
+  };
+
+  const toggleActive = async (coupon: Coupon) => {
+    try {
+      const res = await supabase
+        .from<Coupon>('coupons')
+        .update({ active: !coupon.active, updated_at: new Date().toISOString() })
+        .eq('id', coupon.id)
+        .get();
+      if (res.error) throw res.error;
+      setCoupons((prev) => prev.map((c) => (c.id === coupon.id ? { ...c, active: !c.active } : c)));
+    } catch (error) {
+      console.error('Error updating coupon:', error);
+      alert('Failed to update coupon');
+    }
+  };
+
+  const handleFormClose = () => {
+    setShowForm(false);
+    setEditingCoupon(null);
+    loadData();
+  };
+
+  const scopeLabel = (coupon: Coupon) => {
+    const names = [
+      ...(coupon.category_ids ?? []).map((id) => categories.find((c) => c.id === id)?.name ?? 'Deleted category'),
+      ...(coupon.item_ids ?? []).map((id) => items.find((i) => i.id === id)?.name ?? 'Deleted item'),
+    ];
+    return names.length > 0 ? names.join(', ') : 'Whole cart';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-gray-600">Loading coupons...</div>
+      </div>
+    );
+  }
+
+  if (showForm) {
+    return <CouponForm coupon={editingCoupon} categories={categories} items={items} onClose={handleFormClose} />;
+  }
+
+  const now = new Date();
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-6 gap-4">
+        <h2 className="text-2xl font-bold text-gray-900">Coupons</h2>
+        <button
+          onClick={() => setShowForm(true)}
+          className="w-full sm:w-auto flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+          Add New Coupon
+        </button>
+      </div>
+
+      {coupons.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+          <Tag className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No coupons yet</h3>
+          <p className="text-gray-600">Create a coupon to offer customers a discount at checkout</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {coupons.map((coupon) => {
+            const state = couponState(coupon, now);
+            return (
+              <div key={coupon.id} className="bg-white rounded-xl shadow-sm p-6 hover:shadow-md transition-shadow">
+                <div className="flex items-start justify-between mb-2">
+                  <div>
+                    <h3 className="text-lg font-bold font-mono text-gray-900">{coupon.code}</h3>
+                    <p className="text-sm text-gray-600">{couponSummary(coupon)}</p>
+                  </div>
+                  <span className={`px-2 py-1 text-xs font-semibold rounded-full ${state.className}`}>{state.label}</span>
+                </div>
+                {coupon.description && <p className="text-sm text-gray-500 mb-3">{coupon.description}</p>}
+                <dl className="text-xs text-gray-600 space-y-1 mb-4">
+                  <div className="flex justify-between gap-2">
+                    <dt>Applies to</dt>
+                    <dd className="text-right text-gray-900">{scopeLabel(coupon)}</dd>
+                  </div>
+                  <div className="flex justify-between gap-2">
+                    <dt>Used</dt>
+                    <dd className="text-gray-900">
+                      {coupon.used_count}
+                      {coupon.usage_limit != null ? ` / ${coupon.usage_limit}` : ''}
+                      {coupon.per_customer_limit != null ? ` · ${coupon.per_customer_limit} per customer` : ''}
+                    </dd>
+                  </div>
+                  {(coupon.starts_at || coupon.expires_at) && (
+                    <div className="flex justify-between gap-2">
+                      <dt>Valid</dt>
+                      <dd className="text-gray-900">
+                        {coupon.starts_at ? new Date(coupon.starts_at).toLocaleDateString() : 'now'} –{' '}
+                        {coupon.expires_at ? new Date(coupon.expires_at).toLocaleDateString() : 'no expiry'}
+                      </dd>
+                    </div>
+                  )}
+                </dl>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => toggleActive(coupon)}
+                    className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+                  >
+                    {coupon.active ? 'Deactivate' : 'Activate'}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditingCoupon(coupon);
+                      setShowForm(true);
+                    }}
+                    className="flex items-center justify-center gap-1 bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+                  >
+                    <Edit className="w-4 h-4" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(coupon)}
+                    className="flex items-center justify-center bg-red-50 hover:bg-red-100 text-red-600 px-3 py-2 rounded-lg transition-colors"
+                    aria-label={`Delete ${coupon.code}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
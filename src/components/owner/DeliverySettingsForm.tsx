@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { ShopLocation } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  deliverySettings,
+  deliveryZones,
+  describeDeliverySettings,
+  fetchShopLocation,
+  hasShopCoordinates,
+  saveShopLocation,
+} from '../../lib/shop';
+import { AlertCircle } from 'lucide-react';
+
+// Blank inputs map to null, i.e. "no limit"
+const parseOptional = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? Math.max(0, n) : null;
+};
+
+const formatOptional = (value: number | null): string => (value === null ? '' : value.toString());
+
+export function DeliverySettingsForm() {
+  const { user } = useAuth();
+  const [shop, setShop] = useState<ShopLocation | null>(null);
+  const [radiusKm, setRadiusKm] = useState('');
+  const [freeWithinKm, setFreeWithinKm] = useState('');
+  const [feePerKm, setFeePerKm] = useState('');
+  const [freeAbove, setFreeAbove] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const current = await fetchShopLocation();
+        const settings = deliverySettings(current);
+        setShop(current);
+        setRadiusKm(formatOptional(settings.radiusKm));
+        setFreeWithinKm(settings.freeWithinKm.toString());
+        setFeePerKm(settings.feePerKm.toString());
+        setFreeAbove(formatOptional(settings.freeAboveAmount));
+      } catch (error) {
+        console.error('Error loading delivery settings:', error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      setShop(
+        await saveShopLocation(user.id, {
+          delivery_radius_km: parseOptional(radiusKm),
+          free_delivery_within_km: parseOptional(freeWithinKm) ?? 0,
+          delivery_fee_per_km: parseOptional(feePerKm) ?? 0,
+          free_delivery_above: parseOptional(freeAbove),
+        })
+      );
+      alert('Delivery charges saved');
+    } catch (error: unknown) {
+      console.error('Error saving delivery settings:', error);
+      const msg = error instanceof Error ? error.message : JSON.stringify(error);
+      alert(msg || 'Failed to save delivery charges');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-gray-600 py-6 text-center">Loading delivery charges...</div>;
+  }
+
+  const preview = deliverySettings({
+    delivery_radius_km: parseOptional(radiusKm),
+    free_delivery_within_km: parseOptional(freeWithinKm) ?? 0,
+    delivery_fee_per_km: parseOptional(feePerKm) ?? 0,
+    free_delivery_above: parseOptional(freeAbove),
+  });
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {!hasShopCoordinates(shop) && (
+        <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          The shop's coordinates are not set, so distances cannot be measured and delivery stays free.
+        </p>
+      )}
+
+      {deliveryZones(shop).length > 0 && (
+        <p className="text-sm text-blue-700 bg-blue-50 border border-blue-200 rounded-lg px-3 py-2 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          Your delivery zones below replace the radius and per-km charges. Free delivery on larger orders still applies.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Delivery Radius (km)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={radiusKm}
+            onChange={(e) => setRadiusKm(e.target.value)}
+            className={inputClass}
+            placeholder="No limit"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Free Delivery Within (km)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={freeWithinKm}
+            onChange={(e) => setFreeWithinKm(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Charge per Extra km (₹)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={feePerKm}
+            onChange={(e) => setFeePerKm(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Free Delivery on Orders Over (₹)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={freeAbove}
+            onChange={(e) => setFreeAbove(e.target.value)}
+            className={inputClass}
+            placeholder="Never"
+          />
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600">Customers see: {describeDeliverySettings(preview)}</p>
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="bg-blue-600 hover:bg-blue-700 text-white font-semibold px-6 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {saving ? 'Saving...' : 'Save Delivery Charges'}
+      </button>
+    </form>
+  );
+}
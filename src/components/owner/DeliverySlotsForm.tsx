@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { fetchShopLocation, formatTime, saveShopLocation } from '../../lib/shop';
+import {
+  DEFAULT_SLOT_WINDOW,
+  SLOT_DAYS_AHEAD,
+  SlotWindow,
+  slotWindows,
+  slotWindowsError,
+} from '../../lib/deliverySlots';
+import { Plus, Trash2 } from 'lucide-react';
+
+// The cap is edited as text so it can be cleared; blank means no cap
+type SlotRow = { start: string; end: string; capacity: string };
+
+const toRow = (w: SlotWindow): SlotRow => ({
+  start: w.start,
+  end: w.end,
+  capacity: w.capacity === null ? '' : w.capacity.toString(),
+});
+
+const toWindow = (row: SlotRow): SlotWindow => ({
+  start: row.start,
+  end: row.end,
+  capacity: row.capacity.trim() === '' ? null : Number(row.capacity),
+});
+
+// A new row starts where the last one ends and lasts two hours
+function nextRow(rows: SlotRow[]): SlotRow {
+  const last = rows[rows.length - 1];
+  if (!last) return toRow(DEFAULT_SLOT_WINDOW);
+  const [h, m] = last.end.split(':').map(Number);
+  const endHour = Math.min(h + 2, 23);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return { start: last.end, end: `${pad(endHour)}:${pad(endHour === 23 ? 59 : m)}`, capacity: last.capacity };
+}
+
+export function DeliverySlotsForm() {
+  const { user } = useAuth();
+  const [rows, setRows] = useState<SlotRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setRows(slotWindows(await fetchShopLocation()).map(toRow));
+      } catch (error) {
+        console.error('Error loading delivery slots:', error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const updateRow = (index: number, field: keyof SlotRow, value: string) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const windows = rows.map(toWindow);
+    const invalid = slotWindowsError(windows);
+    if (invalid) {
+      alert(invalid);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveShopLocation(user.id, {
+        delivery_slots: [...windows].sort((a, b) => a.start.localeCompare(b.start)),
+      });
+      setRows(slotWindows(saved).map(toRow));
+      alert('Delivery slots saved');
+    } catch (error: unknown) {
+      console.error('Error saving delivery slots:', error);
+      const msg = error instanceof Error ? error.message : JSON.stringify(error);
+      alert(msg || 'Failed to save delivery slots');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-gray-600 py-6 text-center">Loading delivery slots...</div>;
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {rows.length === 0
+          ? 'No slots: customers cannot choose a delivery time and orders go out as they come in.'
+          : `Customers pick one of these windows for today or the next ${SLOT_DAYS_AHEAD - 1} days. Slots that have started or are full are hidden.`}
+      </p>
+
+      {rows.length > 0 && (
+        <div className="space-y-2">
+          <div className="hidden sm:grid grid-cols-[1fr_1fr_1fr_auto] gap-3 text-xs font-medium text-gray-500 uppercase">
+            <span>From</span>
+            <span>To</span>
+            <span>Max orders</span>
+            <span className="w-9" />
+          </div>
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-2 sm:grid-cols-[1fr_1fr_1fr_auto] gap-3 items-center">
+              <input
+                type="time"
+                value={row.start}
+                onChange={(e) => updateRow(index, 'start', e.target.value)}
+                className={inputClass}
+                aria-label="Slot starts"
+              />
+              <input
+                type="time"
+                value={row.end}
+                onChange={(e) => updateRow(index, 'end', e.target.value)}
+                className={inputClass}
+                aria-label="Slot ends"
+              />
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={row.capacity}
+                onChange={(e) => updateRow(index, 'capacity', e.target.value)}
+                className={inputClass}
+                placeholder="No limit"
+                aria-label="Maximum orders"
+              />
+              <button
+                type="button"
+                onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg justify-self-end"
+                title={`Remove the ${row.start ? formatTime(row.start) : 'new'} slot`}
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={() => setRows((prev) => [...prev, nextRow(prev)])}
+          className="flex items-center gap-2 border border-gray-300 text-gray-700 hover:bg-gray-50 font-medium px-4 py-2 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Slot
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-blue-600 hover:bg-blue-700 text-white font-semibold px-6 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save Delivery Slots'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,313 @@
+import { useState, useEffect } from 'react';
+import { ShopLocation } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  DeliveryZone,
+  deliveryZones,
+  deliveryZonesError,
+  fetchShopLocation,
+  hasShopCoordinates,
+  saveShopLocation,
+} from '../../lib/shop';
+import { GeoPoint, getCurrentPosition, polygonsFromGeoJSON } from '../../lib/location';
+import { Navigation, Plus, Trash2, Upload } from 'lucide-react';
+
+// Corners are edited as "lat, lng" lines so they can be pasted from any map;
+// fee and minimum as text so they can be cleared
+type ZoneRow = { id: string; name: string; corners: string; fee: string; minOrder: string };
+
+const ZONE_COLOURS = ['#7c3aed', '#db2777', '#059669', '#2563eb', '#d97706'];
+
+const newZoneId = () => `zone-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const formatCorners = (polygon: GeoPoint[]) =>
+  polygon.map((p) => `${p.lat.toFixed(6)}, ${p.lng.toFixed(6)}`).join('\n');
+
+const parseCorners = (text: string): GeoPoint[] =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [lat, lng] = line.split(/[\s,]+/).map(Number);
+      return { lat, lng };
+    });
+
+const toRow = (zone: DeliveryZone): ZoneRow => ({
+  id: zone.id,
+  name: zone.name,
+  corners: formatCorners(zone.polygon),
+  fee: zone.fee.toString(),
+  minOrder: zone.min_order === null ? '' : zone.min_order.toString(),
+});
+
+const toZone = (row: ZoneRow): DeliveryZone => ({
+  id: row.id,
+  name: row.name.trim(),
+  polygon: parseCorners(row.corners),
+  fee: row.fee.trim() === '' ? 0 : Number(row.fee),
+  min_order: row.minOrder.trim() === '' ? null : Number(row.minOrder),
+});
+
+const emptyRow = (count: number): ZoneRow => ({
+  id: newZoneId(),
+  name: `Zone ${count + 1}`,
+  corners: '',
+  fee: '0',
+  minOrder: '',
+});
+
+/** Outline of every zone, scaled to fit, with the shop as a dot. */
+function ZonesPreview({ zones, shop }: { zones: DeliveryZone[]; shop: ShopLocation | null }) {
+  const drawable = zones.filter((z) => z.polygon.length >= 3 && z.polygon.every((p) => Number.isFinite(p.lat) && Number.isFinite(p.lng)));
+  if (drawable.length === 0) return null;
+
+  const points = drawable.flatMap((z) => z.polygon);
+  if (hasShopCoordinates(shop)) points.push({ lat: shop.latitude, lng: shop.longitude });
+  const minLat = Math.min(...points.map((p) => p.lat));
+  const maxLat = Math.max(...points.map((p) => p.lat));
+  const minLng = Math.min(...points.map((p) => p.lng));
+  const maxLng = Math.max(...points.map((p) => p.lng));
+  const span = Math.max(maxLat - minLat, maxLng - minLng) || 1;
+  const size = 240;
+  const pad = 10;
+  // North up; longitude to the right
+  const x = (p: GeoPoint) => pad + ((p.lng - minLng) / span) * (size - 2 * pad);
+  const y = (p: GeoPoint) => size - pad - ((p.lat - minLat) / span) * (size - 2 * pad);
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="w-60 h-60 bg-gray-50 border border-gray-200 rounded-lg">
+      {drawable.map((zone, i) => (
+        <polygon
+          key={zone.id}
+          points={zone.polygon.map((p) => `${x(p)},${y(p)}`).join(' ')}
+          fill={ZONE_COLOURS[i % ZONE_COLOURS.length]}
+          fillOpacity={0.15}
+          stroke={ZONE_COLOURS[i % ZONE_COLOURS.length]}
+          strokeWidth={1.5}
+        >
+          <title>{zone.name}</title>
+        </polygon>
+      ))}
+      {hasShopCoordinates(shop) && (
+        <circle cx={x({ lat: shop.latitude, lng: shop.longitude })} cy={y({ lat: shop.latitude, lng: shop.longitude })} r={4} fill="#111827">
+          <title>Shop</title>
+        </circle>
+      )}
+    </svg>
+  );
+}
+
+export function DeliveryZonesForm() {
+  const { user } = useAuth();
+  const [shop, setShop] = useState<ShopLocation | null>(null);
+  const [rows, setRows] = useState<ZoneRow[]>([]);
+  const [geoJson, setGeoJson] = useState('');
+  const [locatingId, setLocatingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const current = await fetchShopLocation();
+        setShop(current);
+        setRows(deliveryZones(current).map(toRow));
+      } catch (error) {
+        console.error('Error loading delivery zones:', error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const updateRow = (id: string, fields: Partial<ZoneRow>) => {
+    setRows((prev) => prev.map((row) => (row.id === id ? { ...row, ...fields } : row)));
+  };
+
+  // Walking the boundary with a phone is the simplest way to draw a zone
+  const addCurrentLocation = async (row: ZoneRow) => {
+    setLocatingId(row.id);
+    try {
+      const position = await getCurrentPosition();
+      const corner = `${position.coords.latitude.toFixed(6)}, ${position.coords.longitude.toFixed(6)}`;
+      updateRow(row.id, { corners: row.corners.trim() ? `${row.corners.trim()}\n${corner}` : corner });
+    } catch (error: unknown) {
+      console.error('Error getting location:', error);
+      alert(error instanceof Error ? error.message : 'Failed to get location. Please enable GPS.');
+    } finally {
+      setLocatingId(null);
+    }
+  };
+
+  const importGeoJson = (text: string) => {
+    try {
+      const imported = polygonsFromGeoJSON(text);
+      setRows((prev) => [
+        ...prev,
+        ...imported.map((p, i) => ({
+          ...emptyRow(prev.length + i),
+          ...(p.name ? { name: p.name } : {}),
+          corners: formatCorners(p.polygon),
+        })),
+      ]);
+      setGeoJson('');
+    } catch (error: unknown) {
+      console.error('Error importing GeoJSON:', error);
+      alert(error instanceof Error ? `Could not import GeoJSON: ${error.message}` : 'Could not import GeoJSON');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importGeoJson(await file.text());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const zones = rows.map(toZone);
+    const invalid = deliveryZonesError(zones);
+    if (invalid) {
+      alert(invalid);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveShopLocation(user.id, { delivery_zones: zones });
+      setShop(saved);
+      setRows(deliveryZones(saved).map(toRow));
+      alert('Delivery zones saved');
+    } catch (error: unknown) {
+      console.error('Error saving delivery zones:', error);
+      const msg = error instanceof Error ? error.message : JSON.stringify(error);
+      alert(msg || 'Failed to save delivery zones');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-gray-600 py-6 text-center">Loading delivery zones...</div>;
+  }
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {rows.length === 0
+          ? 'No zones: delivery follows the radius and per-km charges above.'
+          : 'Customers must be inside one of these zones and pay its fee; the radius and per-km charges above no longer apply. Free delivery on larger orders still does.'}
+      </p>
+
+      {rows.map((row) => (
+        <div key={row.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Zone Name</label>
+              <input value={row.name} onChange={(e) => updateRow(row.id, { name: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Delivery Fee (₹)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={row.fee}
+                onChange={(e) => updateRow(row.id, { fee: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Minimum Order (₹)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={row.minOrder}
+                onChange={(e) => updateRow(row.id, { minOrder: e.target.value })}
+                className={inputClass}
+                placeholder="None"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Corners (one "latitude, longitude" per line)</label>
+            <textarea
+              value={row.corners}
+              onChange={(e) => updateRow(row.id, { corners: e.target.value })}
+              rows={4}
+              className={`${inputClass} font-mono text-sm`}
+              placeholder={'20.301000, 85.810000\n20.301000, 85.840000\n20.280000, 85.840000'}
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <button
+              type="button"
+              onClick={() => addCurrentLocation(row)}
+              disabled={locatingId !== null}
+              className="flex items-center gap-1 px-3 py-1 rounded bg-gray-100 text-gray-700 disabled:opacity-50"
+            >
+              <Navigation className="w-4 h-4" />
+              {locatingId === row.id ? 'Locating...' : 'Add my current location'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setRows((prev) => prev.filter((r) => r.id !== row.id))}
+              className="ml-auto flex items-center gap-1 px-3 py-1 rounded text-red-600 hover:bg-red-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              Remove zone
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <ZonesPreview zones={rows.map(toZone)} shop={shop} />
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => setRows((prev) => [...prev, emptyRow(prev.length)])}
+          className="flex items-center gap-1 text-sm text-blue-700 hover:text-blue-800 font-medium"
+        >
+          <Plus className="w-4 h-4" />
+          Add zone
+        </button>
+        <label className="flex items-center gap-1 text-sm text-blue-700 hover:text-blue-800 font-medium cursor-pointer">
+          <Upload className="w-4 h-4" />
+          Import GeoJSON file
+          <input type="file" accept=".geojson,.json,application/geo+json,application/json" onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+
+      <div>
+        <textarea
+          value={geoJson}
+          onChange={(e) => setGeoJson(e.target.value)}
+          rows={2}
+          className={`${inputClass} font-mono text-xs`}
+          placeholder="...or paste GeoJSON (Polygon, MultiPolygon, Feature or FeatureCollection)"
+        />
+        {geoJson.trim() && (
+          <button type="button" onClick={() => importGeoJson(geoJson)} className="mt-2 px-3 py-1 rounded bg-gray-100 text-sm text-gray-700">
+            Import pasted GeoJSON
+          </button>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="bg-blue-600 hover:bg-blue-700 text-white font-semibold px-6 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {saving ? 'Saving...' : 'Save Delivery Zones'}
+      </button>
+    </form>
+  );
+}
@@ -12,9 +12,18 @@ type VariantInput = {
   id?: string;
   quantity_unit: string;
   price: string;
-  stock?: number | string;
+  // Blank means stock is not tracked for this variant
+  stock?: string;
 };
 
+// Blank input maps to null (untracked); anything else to a non-negative integer
+const parseStock = (value?: string): number | null => {
+  if (value === undefined || value.trim() === '') return null;
+  return Math.max(0, parseInt(value, 10) || 0);
+};
+
+const formatStock = (value: unknown): string => (typeof value === 'number' ? value.toString() : '');
+
 export function ItemForm({ item, categories, onClose }: ItemFormProps) {
   const [name, setName] = useState(item?.name || '');
   const [description, setDescription] = useState(item?.description || '');
@@ -38,13 +47,13 @@ export function ItemForm({ item, categories, onClose }: ItemFormProps) {
 
   // debug log removed
       if (error) throw error;
-      const docs = (data || []) as Array<{ id?: string; quantity_unit: string; price: number; stock?: number }>;
+      const docs = (data || []) as Array<{ id?: string; quantity_unit: string; price: number; stock?: number | null }>;
       setVariants(
         docs.map((v) => ({
           id: v.id,
           quantity_unit: v.quantity_unit,
           price: v.price.toString(),
-          stock: (v.stock ?? 0).toString(),
+          stock: formatStock(v.stock),
         }))
       );
 
@@ -80,7 +89,7 @@ export function ItemForm({ item, categories, onClose }: ItemFormProps) {
         item_id: item.id,
         quantity_unit: v.quantity_unit,
         price: v.price,
-        stock: v.stock ?? 0,
+        stock: typeof v.stock === 'number' ? v.stock : null,
       }));
       const { error } = await supabase.from('item_variants').insert(rows);
       if (error) throw error;
@@ -98,7 +107,7 @@ export function ItemForm({ item, categories, onClose }: ItemFormProps) {
     if (item) {
       // If the item already contains variants (joined), use them immediately.
       if ((item as any).variants && Array.isArray((item as any).variants) && (item as any).variants.length > 0) {
-        setVariants((item as any).variants.map((v: any) => ({ id: v.id, quantity_unit: v.quantity_unit, price: (v.price ?? '').toString(), stock: ((v.stock ?? 0) as number).toString() })));
+        setVariants((item as any).variants.map((v: any) => ({ id: v.id, quantity_unit: v.quantity_unit, price: (v.price ?? '').toString(), stock: formatStock(v.stock) })));
       } else {
         loadVariants();
       }
@@ -255,7 +264,7 @@ export function ItemForm({ item, categories, onClose }: ItemFormProps) {
           item_id: itemId,
           quantity_unit: v.quantity_unit,
           price: parseFloat(v.price),
-          stock: parseInt((v.stock ?? '0') as string, 10) || 0,
+          stock: parseStock(v.stock),
         }));
 
       const existingVariants = variants
@@ -265,66 +274,17 @@ export function ItemForm({ item, categories, onClose }: ItemFormProps) {
           item_id: itemId,
           quantity_unit: v.quantity_unit,
           price: parseFloat(v.price),
-          stock: parseInt((v.stock ?? '0') as string, 10) || 0,
+          stock: parseStock(v.stock),
         }));
 
-      // Helper that attempts an insert and retries without `stock` if the
-      // PostgREST schema cache doesn't include the column (PGRST204).
-  const tryInsertWithStockFallback = async (rows: Array<Record<string, unknown>>) => {
-        try {
-          const res = await supabase.from('item_variants').insert(rows);
-          if (res.error) throw res.error;
-        } catch (err: unknown) {
-          const msg = err instanceof Error ? err.message : JSON.stringify(err);
-          // PostgREST returns PGRST204 when a requested column is missing from cache
-          if (msg.includes("Could not find the 'stock' column") || msg.includes('PGRST204')) {
-            // retry without stock property
-            const rowsNoStock = rows.map((r) => {
-              const copy = { ...r } as Record<string, unknown>;
-              delete copy.stock;
-              return copy;
-            });
-            const retryRes = await supabase.from('item_variants').insert(rowsNoStock);
-            if (retryRes.error) throw retryRes.error;
-            // Inform the owner that stock values were not saved because the DB
-            // schema/cache doesn't include the `stock` column yet.
-            alert('Item saved, but stock values were not stored because the database schema is missing the `stock` column or the REST schema cache is stale. Please apply migHandicrafts and restart/redeploy your Supabase project to enable stock tracking.');
-          } else {
-            throw err;
-          }
-        }
-      };
-
-      // Helper that attempts an upsert and retries without `stock` on the same error
-  const tryUpsertWithStockFallback = async (rows: Array<Record<string, unknown>>) => {
-        try {
-          const upRes = await supabase.from('item_variants').upsert(rows, { onConflict: 'id' }).get();
-          if (upRes.error) throw upRes.error;
-        } catch (err: unknown) {
-          const msg = err instanceof Error ? err.message : JSON.stringify(err);
-          if (msg.includes("Could not find the 'stock' column") || msg.includes('PGRST204')) {
-            const rowsNoStock = rows.map((r) => {
-              const copy = { ...r } as Record<string, unknown>;
-              delete copy.stock;
-              return copy;
-            });
-            const retryUp = await supabase.from('item_variants').upsert(rowsNoStock, { onConflict: 'id' }).get();
-            if (retryUp.error) throw retryUp.error;
-            alert('Item updated, but stock values were not saved because the database schema is missing the `stock` column or the REST schema cache is stale. Please apply migHandicrafts and restart/redeploy your Supabase project to enable stock tracking.');
-          } else {
-            throw err;
-          }
-        }
-      };
-
-      // Insert new variants with fallback
       if (newVariants.length > 0) {
-        await tryInsertWithStockFallback(newVariants);
+        const insRes = await supabase.from('item_variants').insert(newVariants);
+        if (insRes.error) throw insRes.error;
       }
 
-      // Upsert existing variants (id present) with fallback
       if (existingVariants.length > 0) {
-        await tryUpsertWithStockFallback(existingVariants);
+        const upRes = await supabase.from('item_variants').upsert(existingVariants, { onConflict: 'id' }).get();
+        if (upRes.error) throw upRes.error;
       }
 
       alert(item ? 'Item updated successfully!' : 'Item added successfully!');
@@ -442,7 +402,7 @@ export function ItemForm({ item, categories, onClose }: ItemFormProps) {
         <div>
           <div className="flex items-center justify-between mb-4">
             <label className="block text-sm font-medium text-gray-700">
-              Quantity Units & Prices
+              Quantity Units, Prices & Stock
             </label>
             <button
               type="button"
@@ -477,6 +437,16 @@ export function ItemForm({ item, categories, onClose }: ItemFormProps) {
                   className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
                   placeholder="Price"
                 />
+                <input
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={variant.stock ?? ''}
+                  onChange={(e) => updateVariant(index, 'stock', e.target.value)}
+                  className="w-28 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                  placeholder="Stock"
+                  title="Units on hand. Leave blank to sell without tracking stock."
+                />
                 {variants.length > 1 && (
                   <button
                     type="button"
@@ -239,9 +239,12 @@ export function ItemsManagement() {
                     {(item.variants || []).map((variant) => (
                       <span
                         key={variant.id}
-                        className="px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded-full"
+                        className={`px-3 py-1 text-sm rounded-full ${
+                          variant.stock === 0 ? 'bg-red-50 text-red-700' : 'bg-gray-100 text-gray-700'
+                        }`}
                       >
                         {variant.quantity_unit} - ₹{variant.price}
+                        {typeof variant.stock === 'number' && ` · ${variant.stock} in stock`}
                       </span>
                     ))}
                   </div>
@@ -1,20 +1,54 @@
-import { useState, useEffect, useCallback } from 'react';
+import { Fragment, useState, useEffect, useCallback } from 'react';
 import ConfirmModal from '../ConfirmModal';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase, Order, OrderItem } from '../../lib/supabase';
 import { sortOrdersByDate } from '../../utils/orders';
-import { Package, MapPin, Phone, User, Clock, CheckCircle, XCircle, TruckIcon } from 'lucide-react';
+import { Package, MapPin, Phone, User, Clock, CheckCircle, XCircle, TruckIcon, AlertTriangle } from 'lucide-react';
 import { formatDistance } from '../../lib/location';
+import {
+  ORDER_STATUSES,
+  ORDER_STATUS_LABELS,
+  OrderStatus,
+  TERMINAL_STATUSES,
+  assignRider,
+  canTransition,
+  nextStatuses,
+  transitionOrder,
+  visibleToShop,
+} from '../../lib/orderStatus';
+import { describePayment, expireUnpaidOrders, markRefundedByHand, paidOnline } from '../../lib/payments';
+import { awaitingUpiVerification, rejectUpiPayment, verifyUpiPayment } from '../../lib/upi';
+import { OrderTimeline } from '../OrderTimeline';
+import { AddressDetails } from '../AddressDetails';
+import { DeliveryProofView } from '../DeliveryProofView';
+import { updateOrderQuantities } from '../../lib/checkout';
+import { deliverWithPin } from '../../lib/deliveryPin';
+import { formatOpening } from '../../lib/businessHours';
+import { SlotAvailability, fetchAvailableSlots, formatSlot, slotGroupLabel, sortOrdersBySlot } from '../../lib/deliverySlots';
+import { ACCEPT_STATUSES, RiderCandidate, assignOnAccept, assignmentStrategies, autoAssignOrder, loadRiderCandidates, shopAssignmentStrategy } from '../../lib/assignment';
+import { describeAvailability } from '../../lib/riderDuty';
+import { fetchShopLocation, saveShopLocation } from '../../lib/shop';
+import { FAILURE_REASONS, MAX_DELIVERY_ATTEMPTS, attemptCount, attemptsLeft, rescheduleDelivery, returnToStock } from '../../lib/deliveryAttempts';
 
 export function OrdersManagement() {
+  const { user } = useAuth();
   const [orders, setOrders] = useState<(Order & { order_items: OrderItem[] })[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'pending' | 'accepted' | 'delivered' | 'cancelled'>('all');
+  const [filter, setFilter] = useState<'all' | OrderStatus>('all');
 
   // Edit-quantities state: which order is being edited, current edited quantities, and variant stock map
   const [editingOrderId, setEditingOrderId] = useState<string | null>(null);
   const [editedQuantities, setEditedQuantities] = useState<Record<string, number>>({});
 
+  // Id of the shop's auto-assignment strategy; '' while assignment is manual
+  const [strategyId, setStrategyId] = useState('');
+  // Availability and current load per rider, for the assignment dropdown
+  const [riderStatus, setRiderStatus] = useState<Record<string, RiderCandidate>>({});
+
+  // Open slots a failed delivery can be re-scheduled into, and the one picked per order ('' for none)
+  const [rescheduleSlots, setRescheduleSlots] = useState<SlotAvailability[]>([]);
+  const [rescheduleSlotIds, setRescheduleSlotIds] = useState<Record<string, string>>({});
+
   const [deliveryBoys, setDeliveryBoys] = useState<{ id: string; full_name: string; phone?: string }[]>([]);
   // cache for profile names fetched on-demand when an order references a delivery_boy_id
   const [profileCache, setProfileCache] = useState<Record<string, { full_name?: string; phone?: string }>>({});
@@ -41,15 +75,51 @@ const loadOrders = useCallback(async () => {
     if (res.error) throw res.error;
     
     // Always sort by newest first, regardless of database order
-    const sortedOrders = sortOrdersByDate(res.data || []);
+    // Prepaid orders only reach the shop once they are paid or have a UPI reference to check
+    const sortedOrders = sortOrdersByDate((res.data || []).filter((order) => visibleToShop(order as Order)));
     setOrders(sortedOrders);
+
+    // Prepaid orders nobody paid for give their stock, coupon use and slot back
+    try {
+      await expireUnpaidOrders((res.data || []) as Order[], { role: 'owner', actorId: user?.id });
+    } catch (expiryError) {
+      console.error('Error expiring unpaid orders:', expiryError);
+    }
+
+    try {
+      setRiderStatus(Object.fromEntries((await loadRiderCandidates()).map((c) => [c.id, c])));
+    } catch (riderError) {
+      console.error('Error loading delivery staff availability:', riderError);
+    }
   } catch (error) {
     console.error('Error loading orders:', error);
     alert('Failed to load orders');
   } finally {
     setLoading(false);
   }
-}, [loadDeliveryBoys]);
+}, [loadDeliveryBoys, user?.id]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setStrategyId(shopAssignmentStrategy(await fetchShopLocation())?.id ?? '');
+      } catch (error) {
+        console.error('Error loading assignment setting:', error);
+      }
+    })();
+  }, []);
+
+  const hasFailedOrders = orders.some((order) => order.status === 'delivery_failed');
+  useEffect(() => {
+    if (!hasFailedOrders) return;
+    (async () => {
+      try {
+        setRescheduleSlots(await fetchAvailableSlots(await fetchShopLocation()));
+      } catch (error) {
+        console.error('Error loading delivery slots:', error);
+      }
+    })();
+  }, [hasFailedOrders, orders]);
 
   useEffect(() => {
     loadOrders();
@@ -103,22 +173,91 @@ const loadOrders = useCallback(async () => {
   }, [loadOrders]);
 
 
-  const updateOrderStatus = async (orderId: string, status: Order['status']) => {
+  const ownerContext = { role: 'owner' as const, actorId: user?.id };
+
+  // id → name lookup for the order timelines
+  const actorNames: Record<string, string | undefined> = {
+    ...Object.fromEntries(deliveryBoys.map((db) => [db.id, db.full_name || db.phone])),
+    ...(user ? { [user.id]: 'You' } : {}),
+  };
+
+  const updateOrderStatus = async (orderId: string, status: OrderStatus) => {
     try {
-      // if cancelling, also clear any assigned delivery boy so they don't see the cancelled order
-      const payload: Record<string, unknown> = { status };
-      if (status === 'cancelled') {
-        (payload as Record<string, unknown>).delivery_boy_id = null;
+      // the transition module also clears the assigned delivery boy on cancel
+      const updated = await transitionOrder(orderId, status, ownerContext);
+      if (updated.refund_error) alert(`The order was cancelled, but the refund still has to be made: ${updated.refund_error}`);
+      if (strategyId && ACCEPT_STATUSES.includes(status) && !updated.delivery_boy_id) {
+        try {
+          const rider = await assignOnAccept(updated, ownerContext);
+          if (!rider) alert('No delivery person is available right now. Please assign one by hand.');
+        } catch (assignError) {
+          console.error('Error auto-assigning order:', assignError);
+          alert('The order was accepted but could not be assigned automatically. Please assign a delivery person by hand.');
+        }
       }
-
-      const upd = await supabase.from('orders').update(payload).eq('id', orderId).get();
-      if (upd.error) throw upd.error;
       await loadOrders();
     } catch (error) {
       console.error('Error updating order status:', error);
-      alert('Failed to update order status');
+      alert(error instanceof Error ? error.message : 'Failed to update order status');
+    }
+  };
+  const verifyUpi = async (order: Order) => {
+    if (!confirm(`Mark ₹${order.total_amount.toFixed(2)} as received with UTR ${order.payment_reference}? The order moves to Pending.`)) return;
+    try {
+      await verifyUpiPayment(order.id, ownerContext);
+      await loadOrders();
+    } catch (error) {
+      console.error('Error verifying UPI payment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to verify payment');
+    }
+  };
+
+  const rejectUpi = async (order: Order) => {
+    if (!confirm(`No payment found for UTR ${order.payment_reference}? The customer will be asked to check it or pay again.`)) return;
+    try {
+      await rejectUpiPayment(order.id);
+      await loadOrders();
+    } catch (error) {
+      console.error('Error rejecting UPI payment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update payment');
+    }
+  };
+
+  const confirmManualRefund = async (order: Order) => {
+    if (!confirm(`Have you refunded ₹${order.total_amount.toFixed(2)} for order #${order.order_number} to the customer?`)) return;
+    try {
+      await markRefundedByHand(order.id);
+      await loadOrders();
+    } catch (error) {
+      console.error('Error recording refund:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record the refund');
+    }
+  };
+
+  const rescheduleFailed = async (order: Order) => {
+    const note = prompt(rescheduleSlotIds[order.id] ? 'Anything the rider should know for the next attempt? (optional)' : 'When should it go out again? This note is shown to the rider (optional):', '');
+    if (note === null) return;
+    try {
+      await rescheduleDelivery(order.id, note, ownerContext, rescheduleSlotIds[order.id] || null);
+      await loadOrders();
+    } catch (error) {
+      console.error('Error re-scheduling delivery:', error);
+      alert(error instanceof Error ? error.message : 'Failed to re-schedule the delivery');
+    }
+  };
+
+  const returnFailed = async (order: Order) => {
+    if (!confirm(`Return order #${order.order_number} to stock? It will be cancelled and its items restocked.`)) return;
+    try {
+      const returned = await returnToStock(order.id, ownerContext);
+      if (returned.refund_error) alert(`The order was returned to stock, but the refund still has to be made: ${returned.refund_error}`);
+      await loadOrders();
+    } catch (error) {
+      console.error('Error returning order to stock:', error);
+      alert(error instanceof Error ? error.message : 'Failed to return the order to stock');
     }
   };
+
   useEffect(() => {
     // initial load and listen for cross-tab / component events to refresh list
     loadDeliveryBoys();
@@ -177,21 +316,50 @@ const loadOrders = useCallback(async () => {
           }
         }, [profileCache, deliveryBoys]);
 
-  const assignDeliveryBoy = async (orderId: string, deliveryBoyId: string | null) => {
+  const changeAssignmentStrategy = async (id: string) => {
+    if (!user) return;
+    const previous = strategyId;
+    setStrategyId(id);
     try {
-  const res = await supabase.from('orders').update({ delivery_boy_id: deliveryBoyId }).eq('id', orderId).get();
-  if (res.error) throw res.error;
-      await loadOrders();
-      // notify other tabs/components that an order was updated/assigned
-      try {
-        localStorage.setItem('order_updated_at', Date.now().toString());
-        window.dispatchEvent(new CustomEvent('order_updated'));
-      } catch {
-        // ignore signaling errors
+      await saveShopLocation(user.id, { assignment_strategy: id || null });
+    } catch (error) {
+      console.error('Error saving assignment setting:', error);
+      setStrategyId(previous);
+      alert(error instanceof Error ? error.message : 'Failed to save assignment setting');
+    }
+  };
+
+  const assignDeliveryBoy = async (order: Order, deliveryBoyId: string | null) => {
+    let reason: string | undefined;
+    // Taking an order off a rider needs a reason for the order's log
+    if (order.delivery_boy_id && order.delivery_boy_id !== deliveryBoyId) {
+      const answer = prompt(deliveryBoyId ? 'Reason for reassigning this order?' : 'Reason for unassigning this order?');
+      if (answer === null) return;
+      if (!answer.trim()) {
+        alert('Please give a reason');
+        return;
       }
+      reason = answer.trim();
+    }
+    try {
+      await assignRider(order.id, deliveryBoyId, ownerContext, reason);
+      await loadOrders();
     } catch (err) {
       console.error('Failed to assign delivery boy', err);
-      alert('Failed to assign delivery boy');
+      alert(err instanceof Error ? err.message : 'Failed to assign delivery boy');
+    }
+  };
+
+  const autoAssign = async (order: Order) => {
+    const strategy = assignmentStrategies().find((s) => s.id === strategyId);
+    if (!strategy) return;
+    try {
+      const rider = await autoAssignOrder(order, strategy, ownerContext);
+      if (!rider) alert('No other delivery person is available right now');
+      await loadOrders();
+    } catch (err) {
+      console.error('Failed to auto-assign order', err);
+      alert(err instanceof Error ? err.message : 'Failed to assign delivery boy');
     }
   };
 
@@ -201,8 +369,6 @@ const loadOrders = useCallback(async () => {
     const qtys: Record<string, number> = {};
     order.order_items.forEach((it) => { qtys[it.id] = it.quantity; });
     setEditedQuantities(qtys);
-
-    // Owner edit: we do not enforce or fetch variant stock here. Owner can set quantities arbitrarily.
   };
 
   const cancelEditing = () => {
@@ -218,40 +384,19 @@ const loadOrders = useCallback(async () => {
   const saveEditedQuantities = async (order: Order & { order_items: OrderItem[] }) => {
     if (!editingOrderId) return;
     try {
-      // Build updates for order_items: cap quantities to variantStock where available
-      const updates: Array<{ id: string; quantity: number; subtotal: number }> = [];
-      let newTotal = 0;
+      // The rows, the stock and the totals are re-read and written together
+      const updated = await updateOrderQuantities(order.id, editedQuantities);
       const changes: Array<{ item_id: string; item_name: string; oldQty: number; newQty: number }> = [];
-      for (const it of order.order_items) {
-    const requested = editedQuantities[it.id] ?? it.quantity;
-    // Owners may override stock limits; do not cap by variantStock when editing as owner
-    const finalQty = requested;
-        const subtotal = finalQty * it.price;
-        updates.push({ id: it.id, quantity: finalQty, subtotal });
-        newTotal += subtotal;
-        if (finalQty !== it.quantity) {
-          changes.push({ item_id: it.id, item_name: it.item_name, oldQty: it.quantity, newQty: finalQty });
+      for (const it of updated.order_items) {
+        const before = order.order_items.find((o) => o.id === it.id);
+        if (before && before.quantity !== it.quantity) {
+          changes.push({ item_id: it.id, item_name: it.item_name, oldQty: before.quantity, newQty: it.quantity });
         }
       }
-
-      // perform updates in a transaction-like manner: update each order_item and then order total
-      for (const u of updates) {
-  const res = (await supabase.from('order_items').update({ quantity: u.quantity, subtotal: u.subtotal }).eq('id', u.id).select('id,quantity,subtotal')) as { data?: unknown; error?: unknown };
-  if (res.error) throw res.error;
-      }
-
-  const resOrderUpdate = (await supabase.from('orders').update({ total_amount: newTotal }).eq('id', order.id).select('id,total_amount')) as { data?: unknown; error?: unknown };
-  if (resOrderUpdate.error) throw resOrderUpdate.error;
+      const newTotal = updated.total_amount;
 
       // Update local state immediately so owner UI reflects changes without waiting for reload
-      setOrders((prev) => prev.map((o) => {
-        if (o.id !== order.id) return o;
-        const updatedItems = o.order_items.map((it) => {
-          const upd = updates.find((u) => u.id === it.id);
-          return upd ? { ...it, quantity: upd.quantity, subtotal: upd.subtotal } : it;
-        });
-        return { ...o, order_items: updatedItems, total_amount: newTotal };
-      }));
+      setOrders((prev) => prev.map((o) => (o.id === order.id ? { ...o, ...updated } : o)));
 
       // reload orders in background and signal other tabs with a detailed payload including server-side order
       let serverOrder: unknown = null;
@@ -277,27 +422,32 @@ const loadOrders = useCallback(async () => {
       cancelEditing();
     } catch (e) {
       let msg = '';
-      try { msg = JSON.stringify(e); } catch { msg = String(e); }
+      if (e instanceof Error) msg = e.message;
+      else try { msg = JSON.stringify(e); } catch { msg = String(e); }
       console.error('Failed to save edited quantities', msg);
       alert('Failed to save quantities: ' + (msg || 'unknown error'));
     }
   };
   // End edit-quantities helpers
 
-  const tryMarkDeliveredWithPin = async (orderId: string, expectedPin?: string | null) => {
+  const tryMarkDeliveredWithPin = async (orderId: string) => {
     const pin = prompt('Enter 6-digit delivery PIN to confirm delivery');
     if (!pin) return;
-    if (expectedPin && pin !== expectedPin) {
-      alert('PIN mismatch');
-      return;
+    try {
+      await deliverWithPin(orderId, pin, ownerContext);
+      await loadOrders();
+    } catch (error) {
+      console.error('Error confirming delivery with PIN:', error);
+      alert(error instanceof Error ? error.message : 'Failed to confirm delivery');
     }
-
-    await updateOrderStatus(orderId, 'delivered');
   };
 
-  const filteredOrders = filter === 'all'
+  // Booked slots come first, earliest first, under a heading per slot
+  const filteredOrders = sortOrdersBySlot(filter === 'all'
     ? orders
-    : orders.filter((order) => order.status === filter);
+    : orders.filter((order) => order.status === filter));
+  const showSlotHeadings = filteredOrders.some((order) => order.delivery_slot);
+  const failedCount = orders.filter((order) => order.status === 'delivery_failed').length;
 
   const getStatusColor = (status: Order['status']) => {
     switch (status) {
@@ -310,8 +460,16 @@ const loadOrders = useCallback(async () => {
         } catch {
           // ignore signaling errors
         }
+      case 'confirmed':
       case 'accepted':
         return 'bg-blue-100 text-blue-700';
+      case 'preparing':
+        return 'bg-purple-100 text-purple-700';
+      case 'ready':
+      case 'out_for_delivery':
+        return 'bg-indigo-100 text-indigo-700';
+      case 'delivery_failed':
+        return 'bg-orange-100 text-orange-700';
       case 'delivered':
         return 'bg-emerald-100 text-emerald-700';
       case 'cancelled':
@@ -325,8 +483,15 @@ const loadOrders = useCallback(async () => {
     switch (status) {
       case 'pending':
         return <Clock className="w-5 h-5" />;
+      case 'confirmed':
       case 'accepted':
+      case 'preparing':
+        return <Package className="w-5 h-5" />;
+      case 'ready':
+      case 'out_for_delivery':
         return <TruckIcon className="w-5 h-5" />;
+      case 'delivery_failed':
+        return <AlertTriangle className="w-5 h-5" />;
       case 'delivered':
         return <CheckCircle className="w-5 h-5" />;
       case 'cancelled':
@@ -349,7 +514,7 @@ const loadOrders = useCallback(async () => {
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-6 gap-4">
         <h2 className="text-2xl font-bold text-gray-900">Orders</h2>
         <div className="flex flex-wrap gap-2 w-full sm:w-auto">
-          {(['all', 'pending', 'accepted', 'delivered', 'cancelled'] as const).map((status) => (
+          {(['all', ...ORDER_STATUSES] as const).map((status) => (
             <button
               key={status}
               onClick={() => setFilter(status)}
@@ -359,227 +524,444 @@ const loadOrders = useCallback(async () => {
                   : 'bg-white text-gray-700 hover:bg-gray-50'
               }`}
             >
-              {status}
+              {status === 'all' ? status : ORDER_STATUS_LABELS[status]}
             </button>
           ))}
         </div>
       </div>
 
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 mb-6 px-4 py-3 bg-white rounded-xl shadow-sm">
+        <label htmlFor="assignment-strategy" className="text-sm font-medium text-gray-700 whitespace-nowrap">
+          On accept, assign a delivery person
+        </label>
+        <select
+          id="assignment-strategy"
+          value={strategyId}
+          onChange={(e) => changeAssignmentStrategy(e.target.value)}
+          className="border rounded px-3 py-2 text-sm"
+        >
+          <option value="">Manually</option>
+          {assignmentStrategies().map((strategy) => (
+            <option key={strategy.id} value={strategy.id}>Automatically: {strategy.label}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500">
+          {assignmentStrategies().find((s) => s.id === strategyId)?.description ?? 'Pick a delivery person for each order yourself'}
+        </p>
+      </div>
+
+      {failedCount > 0 && filter !== 'delivery_failed' && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6 px-4 py-3 rounded-xl bg-orange-50 border border-orange-200">
+          <p className="flex items-center gap-2 text-sm font-semibold text-orange-800">
+            <AlertTriangle className="w-5 h-5" />
+            {failedCount} deliver{failedCount === 1 ? 'y' : 'ies'} failed and need{failedCount === 1 ? 's' : ''} to be re-scheduled or returned
+          </p>
+          <button
+            onClick={() => setFilter('delivery_failed')}
+            className="px-4 py-2 rounded-lg bg-orange-600 hover:bg-orange-700 text-white text-sm font-semibold"
+          >
+            Show {failedCount === 1 ? 'it' : 'them'}
+          </button>
+        </div>
+      )}
+
       {/* delivery users count hidden in production */}
 
       {filteredOrders.length === 0 ? (
         <div className="bg-white rounded-xl shadow-sm p-12 text-center">
           <Package className="w-16 h-16 text-gray-400 mx-auto mb-4" />
           <h3 className="text-xl font-semibold text-gray-900 mb-2">
-            No {filter !== 'all' ? filter : ''} orders
+            No {filter !== 'all' ? ORDER_STATUS_LABELS[filter].toLowerCase() : ''} orders
           </h3>
           <p className="text-gray-600">
             {filter === 'all'
               ? 'Orders will appear here when customers place them'
-              : `No ${filter} orders at the moment`}
+              : `No ${ORDER_STATUS_LABELS[filter].toLowerCase()} orders at the moment`}
           </p>
         </div>
       ) : (
         <div className="space-y-4">
-          {filteredOrders.map((order) => (
-            <div
-              key={order.id}
-              className="bg-white rounded-xl shadow-sm p-6 hover:shadow-md transition-shadow"
-            >
-              <div className="flex flex-col sm:flex-row items-start justify-between mb-4 gap-4">
-                <div>
-                  <div className="flex flex-wrap items-center gap-3 mb-2">
-                    <h3 className="text-lg font-bold text-gray-900">
-                      Order #{order.order_number}
-                    </h3>
-                    <span
-                      className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm font-semibold ${getStatusColor(
-                        order.status
-                      )}`}
-                    >
-                      {getStatusIcon(order.status)}
-                      {order.status.toUpperCase()}
-                    </span>
-                  </div>
-                  <p className="text-sm text-gray-500">
-                    {order.created_at 
-                      ? new Date(order.created_at).toLocaleString('en-US', {
-                          year: 'numeric',
-                          month: 'short',
-                          day: 'numeric',
-                          hour: '2-digit',
-                          minute: '2-digit',
-                          hour12: true
-                        })
-                      : 'Processing...'}
-                  </p>
-                </div>
-                <div className="sm:text-right w-full sm:w-auto">
-                  <p className="text-2xl font-bold text-emerald-600">
-                    ₹{order.total_amount.toFixed(2)}
-                  </p>
-                </div>
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-                <div className="flex items-start gap-3">
-                  <User className="w-5 h-5 text-gray-400 mt-1" />
+          {filteredOrders.map((order, index) => (
+            <Fragment key={order.id}>
+              {showSlotHeadings &&
+                (index === 0 || filteredOrders[index - 1].delivery_slot?.id !== order.delivery_slot?.id) && (
+                  <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700 uppercase tracking-wider pt-2">
+                    <Clock className="w-4 h-4 text-emerald-600" />
+                    {slotGroupLabel(order)}
+                  </h3>
+                )}
+              <div className="bg-white rounded-xl shadow-sm p-6 hover:shadow-md transition-shadow">
+                <div className="flex flex-col sm:flex-row items-start justify-between mb-4 gap-4">
                   <div>
-                    <p className="text-sm font-medium text-gray-700">Customer</p>
-                    <p className="text-sm text-gray-900">{order.customer_name}</p>
-                  </div>
-                </div>
-                <div className="flex items-start gap-3">
-                  <Phone className="w-5 h-5 text-gray-400 mt-1" />
-                  <div>
-                    <p className="text-sm font-medium text-gray-700">Phone</p>
-                    <p className="text-sm text-gray-900">{order.customer_phone}</p>
+                    <div className="flex flex-wrap items-center gap-3 mb-2">
+                      <h3 className="text-lg font-bold text-gray-900">
+                        Order #{order.order_number}
+                      </h3>
+                      <span
+                        className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm font-semibold ${getStatusColor(
+                          order.status
+                        )}`}
+                      >
+                        {getStatusIcon(order.status)}
+                        {ORDER_STATUS_LABELS[order.status]?.toUpperCase() ?? order.status}
+                      </span>
+                      {order.delivery_slot && (
+                        <span className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold bg-emerald-100 text-emerald-800">
+                          <Clock className="w-3 h-3" />
+                          {formatSlot(order.delivery_slot)}
+                        </span>
+                      )}
+                      {order.placed_outside_hours && (
+                        <span
+                          className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold bg-amber-100 text-amber-800"
+                          title="Placed while the shop was closed"
+                        >
+                          <Clock className="w-3 h-3" />
+                          Outside hours
+                          {order.process_after && ` · start ${formatOpening(new Date(order.process_after))}`}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {order.created_at 
+                        ? new Date(order.created_at).toLocaleString('en-US', {
+                            year: 'numeric',
+                            month: 'short',
+                            day: 'numeric',
+                            hour: '2-digit',
+                            minute: '2-digit',
+                            hour12: true
+                          })
+                        : 'Processing...'}
+                    </p>
                   </div>
-                </div>
-                <div className="flex items-start gap-3">
-                  <MapPin className="w-5 h-5 text-gray-400 mt-1" />
-                  <div>
-                    <p className="text-sm font-medium text-gray-700">Delivery Address</p>
-                    <p className="text-sm text-gray-900">{order.delivery_address}</p>
-                    <p className="text-xs text-gray-500 mt-1">
-                      Distance: {order.distance_km ? formatDistance(order.distance_km) : 'Not available'}
+                  <div className="sm:text-right w-full sm:w-auto">
+                    <p className="text-2xl font-bold text-emerald-600">
+                      ₹{order.total_amount.toFixed(2)}
                     </p>
+                    {describePayment(order) && (
+                      <p className="text-xs font-medium text-gray-500">{describePayment(order)}</p>
+                    )}
                   </div>
                 </div>
-              </div>
 
-              <div className="border-t pt-4 mb-4">
-                <p className="text-sm font-semibold text-gray-700 mb-3">Order Items:</p>
-                <div className="space-y-2">
-                  {order.order_items.map((item) => (
-                    <div
-                      key={item.id}
-                      className="flex items-center justify-between py-2 px-3 bg-gray-50 rounded-lg"
-                    >
-                      <div>
-                        <p className="font-medium text-gray-900">{item.item_name}</p>
-                        <p className="text-sm text-gray-600">
-                          {item.quantity_unit} × {
-                            editingOrderId === order.id ? (
-                              <input
-                                type="number"
-                                min={0}
-                                value={editedQuantities[item.id] ?? item.quantity}
-                                onChange={(e) => changeEditedQuantity(item.id, Number(e.target.value))}
-                                className="w-20 border rounded px-2 py-1"
-                              />
-                            ) : (
-                              item.quantity
-                            )
-                          }
-                        </p>
-                        {/* when owner edits, do not display available stock */}
-                      </div>
-                      <p className="font-semibold text-gray-900">
-                        ₹{(editingOrderId === order.id ? ((editedQuantities[item.id] ?? item.quantity) * item.price) : item.subtotal).toFixed(2)}
+                {awaitingUpiVerification(order) && (
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4 px-4 py-3 rounded-lg bg-orange-50 border border-orange-200">
+                    <div className="text-sm">
+                      <p className="font-semibold text-orange-800">UPI payment to verify</p>
+                      <p className="text-gray-700">
+                        Check your bank for ₹{order.total_amount.toFixed(2)} with UTR{' '}
+                        <span className="font-mono font-semibold">{order.payment_reference}</span>
                       </p>
                     </div>
-                  ))}
-                </div>
-              </div>
-
-              {order.status !== 'delivered' && (
-                <div className="px-3 sm:px-6 pb-6">
-                  <div className="flex flex-col sm:flex-row items-start gap-4 mb-3">
-                    <div className="w-full sm:w-auto">
-                      <p className="text-sm text-gray-600">Delivery PIN</p>
-                      <p className="font-mono text-lg text-gray-900">{order.delivery_pin ?? '—'}</p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => verifyUpi(order)}
+                        className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold"
+                      >
+                        Verify Payment
+                      </button>
+                      <button
+                        onClick={() => rejectUpi(order)}
+                        className="px-4 py-2 rounded-lg bg-white border border-red-200 text-red-600 hover:bg-red-50 text-sm font-semibold"
+                      >
+                        Not Received
+                      </button>
                     </div>
+                  </div>
+                )}
 
-                    <div className="flex-1 w-full">
-                      <label className="block text-sm text-gray-600">Assign Delivery Boy</label>
-                      <select
-                        value={order.delivery_boy_id ?? ''}
-                        onChange={(e) => assignDeliveryBoy(order.id, e.target.value || null)}
-                        className="mt-1 w-full border rounded px-3 py-2"
-                      >
-                        <option value="">Unassigned</option>
-                        {deliveryBoys.map((db) => (
-                          <option key={db.id} value={db.id}>{db.full_name || db.phone}</option>
-                        ))}
-                      </select>
-                      {order.delivery_boy_id && (
-                        <div className="mt-2 text-sm text-gray-700">
-                          Assigned to: {
-                            deliveryBoys.find(db => db.id === order.delivery_boy_id)?.full_name ||
-                            deliveryBoys.find(db => db.id === order.delivery_boy_id)?.phone ||
-                            'Unknown'
-                          }
-                        </div>
-                      )}
+                {order.refund_error && (
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200">
+                    <div className="text-sm">
+                      <p className="font-semibold text-red-800">Refund due: ₹{order.total_amount.toFixed(2)}</p>
+                      <p className="text-gray-700">{order.refund_error}</p>
                     </div>
+                    <button
+                      onClick={() => confirmManualRefund(order)}
+                      className="px-4 py-2 rounded-lg bg-white border border-red-200 text-red-600 hover:bg-red-50 text-sm font-semibold"
+                    >
+                      Mark Refunded
+                    </button>
+                  </div>
+                )}
 
-                    <div className="w-full sm:w-48">
+                {order.status === 'delivery_failed' && (
+                  <div className="mb-4 px-4 py-3 rounded-lg bg-orange-50 border border-orange-200">
+                    <p className="font-semibold text-orange-800 text-sm mb-2">
+                      Delivery failed · attempt {attemptCount(order)} of {MAX_DELIVERY_ATTEMPTS}
+                    </p>
+                    <ul className="space-y-1 mb-3 text-sm text-gray-700">
+                      {(order.delivery_attempts ?? []).map((attempt, i) => (
+                        <li key={attempt.at}>
+                          {i + 1}. {FAILURE_REASONS[attempt.reason] ?? attempt.reason}
+                          {attempt.note && <span className="text-gray-500"> — {attempt.note}</span>}
+                          <span className="text-xs text-gray-400"> · {new Date(attempt.at).toLocaleString()}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    {rescheduleSlots.length > 0 && attemptsLeft(order) > 0 && (
+                      <label className="block mb-3 text-sm text-gray-700">
+                        Next delivery slot
+                        <select
+                          value={rescheduleSlotIds[order.id] ?? ''}
+                          onChange={(e) => setRescheduleSlotIds((prev) => ({ ...prev, [order.id]: e.target.value }))}
+                          className="mt-1 block w-full sm:w-auto border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                        >
+                          <option value="">No slot</option>
+                          {rescheduleSlots.map(({ slot }) => (
+                            <option key={slot.id} value={slot.id}>{formatSlot(slot)}</option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
+                    <div className="flex flex-col sm:flex-row gap-2">
                       <button
-                        onClick={() => tryMarkDeliveredWithPin(order.id, order.delivery_pin)}
-                        className="w-full bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg"
+                        onClick={() => rescheduleFailed(order)}
+                        disabled={attemptsLeft(order) === 0}
+                        title={attemptsLeft(order) === 0 ? 'No delivery attempts left' : undefined}
+                        className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        Deliver (PIN)
+                        Re-schedule ({attemptsLeft(order)} attempt{attemptsLeft(order) === 1 ? '' : 's'} left)
                       </button>
+                      <button
+                        onClick={() => returnFailed(order)}
+                        className="px-4 py-2 rounded-lg bg-white border border-red-200 text-red-600 hover:bg-red-50 text-sm font-semibold"
+                      >
+                        Return to Stock
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                  <div className="flex items-start gap-3">
+                    <User className="w-5 h-5 text-gray-400 mt-1" />
+                    <div>
+                      <p className="text-sm font-medium text-gray-700">Customer</p>
+                      <p className="text-sm text-gray-900">{order.customer_name}</p>
                     </div>
                   </div>
-                  <div className="flex gap-3 mt-4">
-                    {editingOrderId === order.id ? (
-                      <>
+                  <div className="flex items-start gap-3">
+                    <Phone className="w-5 h-5 text-gray-400 mt-1" />
+                    <div>
+                      <p className="text-sm font-medium text-gray-700">Phone</p>
+                      <p className="text-sm text-gray-900">{order.customer_phone}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-start gap-3">
+                    <MapPin className="w-5 h-5 text-gray-400 mt-1" />
+                    <div>
+                      <p className="text-sm font-medium text-gray-700">Delivery Address</p>
+                      <AddressDetails order={order} />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Distance: {order.distance_km ? formatDistance(order.distance_km) : 'Not available'}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="border-t pt-4 mb-4">
+                  <p className="text-sm font-semibold text-gray-700 mb-3">Order Items:</p>
+                  <div className="space-y-2">
+                    {order.order_items.map((item) => (
+                      <div
+                        key={item.id}
+                        className="flex items-center justify-between py-2 px-3 bg-gray-50 rounded-lg"
+                      >
+                        <div>
+                          <p className="font-medium text-gray-900">{item.item_name}</p>
+                          <p className="text-sm text-gray-600">
+                            {item.quantity_unit} × {
+                              editingOrderId === order.id ? (
+                                <input
+                                  type="number"
+                                  min={0}
+                                  value={editedQuantities[item.id] ?? item.quantity}
+                                  onChange={(e) => changeEditedQuantity(item.id, Number(e.target.value))}
+                                  className="w-20 border rounded px-2 py-1"
+                                />
+                              ) : (
+                                item.quantity
+                              )
+                            }
+                          </p>
+                          {/* when owner edits, do not display available stock */}
+                        </div>
+                        <p className="font-semibold text-gray-900">
+                          ₹{(editingOrderId === order.id ? ((editedQuantities[item.id] ?? item.quantity) * item.price) : item.subtotal).toFixed(2)}
+                        </p>
+                      </div>
+                    ))}
+                    {order.coupon_code && (
+                      <div className="flex items-center justify-between py-2 px-3 bg-emerald-50 rounded-lg">
+                        <p className="font-medium text-emerald-800">Coupon {order.coupon_code}</p>
+                        <p className="font-semibold text-emerald-700">-₹{(order.discount_amount ?? 0).toFixed(2)}</p>
+                      </div>
+                    )}
+                    {order.delivery_fee != null && (
+                      <div className="flex items-center justify-between py-2 px-3 bg-gray-50 rounded-lg">
+                        <p className="font-medium text-gray-900">Delivery fee</p>
+                        <p className="font-semibold text-gray-900">
+                          {order.delivery_fee > 0 ? `₹${order.delivery_fee.toFixed(2)}` : 'Free'}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {order.delivery_proof && (
+                  <div className="mb-4">
+                    <DeliveryProofView order={order} />
+                  </div>
+                )}
+
+                <div className="mb-4">
+                  <OrderTimeline
+                    order={order}
+                    names={{ ...actorNames, [order.customer_id]: order.customer_name }}
+                  />
+                </div>
+
+                {!TERMINAL_STATUSES.includes(order.status) && (
+                  <div className="px-3 sm:px-6 pb-6">
+                    <div className="flex flex-col sm:flex-row items-start gap-4 mb-3">
+                      <div className="flex-1 w-full">
+                        <label className="block text-sm text-gray-600">Assign Delivery Boy</label>
+                        <select
+                          value={order.delivery_boy_id ?? ''}
+                          onChange={(e) => assignDeliveryBoy(order, e.target.value || null)}
+                          className="mt-1 w-full border rounded px-3 py-2"
+                        >
+                          <option value="">Unassigned</option>
+                          {deliveryBoys
+                            .filter((db) => riderStatus[db.id]?.availability.available || db.id === order.delivery_boy_id)
+                            .map((db) => {
+                              const status = riderStatus[db.id];
+                              const load = status ? ` · ${status.active_orders} active` : '';
+                              const away = status && !status.availability.available ? ` (${describeAvailability(status.availability)})` : '';
+                              return (
+                                <option key={db.id} value={db.id}>{db.full_name || db.phone}{load}{away}</option>
+                              );
+                            })}
+                        </select>
+                        {!deliveryBoys.some((db) => riderStatus[db.id]?.availability.available) && (
+                          <p className="mt-1 text-xs text-amber-700">No delivery staff are on duty right now</p>
+                        )}
+                        {order.delivery_boy_id && (
+                          <div className="mt-2 text-sm text-gray-700">
+                            Assigned to: {
+                              deliveryBoys.find(db => db.id === order.delivery_boy_id)?.full_name ||
+                              deliveryBoys.find(db => db.id === order.delivery_boy_id)?.phone ||
+                              'Unknown'
+                            }
+                          </div>
+                        )}
+                        {strategyId && (
+                          <button
+                            onClick={() => autoAssign(order)}
+                            className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+                          >
+                            {order.delivery_boy_id ? 'Reassign automatically' : 'Assign automatically'}
+                          </button>
+                        )}
+                      </div>
+
+                      <div className="w-full sm:w-48">
                         <button
-                          onClick={() => saveEditedQuantities(order)}
-                          className="flex-1 flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
+                          onClick={() => tryMarkDeliveredWithPin(order.id)}
+                          className="w-full bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg"
                         >
-                          Save Changes
+                          Deliver (PIN)
                         </button>
+                      </div>
+                    </div>
+                    <div className="flex gap-3 mt-4">
+                      {editingOrderId === order.id ? (
+                        <>
+                          <button
+                            onClick={() => saveEditedQuantities(order)}
+                            className="flex-1 flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
+                          >
+                            Save Changes
+                          </button>
+                          <button
+                            onClick={cancelEditing}
+                            className="flex-1 flex items-center justify-center gap-2 bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-lg font-semibold transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      ) : paidOnline(order) ? (
+                        <p className="text-sm text-gray-500">Paid online, so quantities cannot be changed</p>
+                      ) : (
+                        <button
+                          onClick={() => startEditingOrder(order)}
+                          className="flex-1 flex items-center justify-center gap-2 bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
+                        >
+                          Edit Quantities
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {(order.status === 'pending') && (
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <button
+                      onClick={() => updateOrderStatus(order.id, 'accepted')}
+                      className="flex-1 flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
+                    >
+                      <CheckCircle className="w-5 h-5" />
+                      Accept Order
+                    </button>
+                    <button
+                      onClick={() => updateOrderStatus(order.id, 'cancelled')}
+                      className="flex-1 flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
+                    >
+                      <XCircle className="w-5 h-5" />
+                      Cancel Order
+                    </button>
+                  </div>
+                )}
+
+                {order.status !== 'pending' && order.status !== 'delivery_failed' && nextStatuses(order, ownerContext).some((s) => s !== 'delivered' && s !== 'cancelled') && (
+                  <div className="flex flex-col sm:flex-row gap-3 mb-3">
+                    {nextStatuses(order, ownerContext)
+                      .filter((s) => s !== 'delivered' && s !== 'cancelled')
+                      .map((next) => (
                         <button
-                          onClick={cancelEditing}
-                          className="flex-1 flex items-center justify-center gap-2 bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-lg font-semibold transition-colors"
+                          key={next}
+                          onClick={() => updateOrderStatus(order.id, next)}
+                          className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
                         >
-                          Cancel
+                          {getStatusIcon(next)}
+                          Mark {ORDER_STATUS_LABELS[next]}
                         </button>
-                      </>
-                    ) : (
+                      ))}
+                    {canTransition(order, 'cancelled', ownerContext) && (
                       <button
-                        onClick={() => startEditingOrder(order)}
-                        className="flex-1 flex items-center justify-center gap-2 bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
+                        onClick={() => updateOrderStatus(order.id, 'cancelled')}
+                        className="flex-1 flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
                       >
-                        Edit Quantities
+                        <XCircle className="w-5 h-5" />
+                        Cancel Order
                       </button>
                     )}
                   </div>
-                </div>
-              )}
+                )}
 
-              {(order.status === 'pending') && (
-                <div className="flex flex-col sm:flex-row gap-3">
+                {order.status !== 'pending' && canTransition(order, 'delivered', ownerContext) && (
                   <button
-                    onClick={() => updateOrderStatus(order.id, 'accepted')}
-                    className="flex-1 flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
+                    onClick={() => updateOrderStatus(order.id, 'delivered')}
+                    className="w-full flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
                   >
                     <CheckCircle className="w-5 h-5" />
-                    Accept Order
+                    Mark as Delivered
                   </button>
-                  <button
-                    onClick={() => updateOrderStatus(order.id, 'cancelled')}
-                    className="flex-1 flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
-                  >
-                    <XCircle className="w-5 h-5" />
-                    Cancel Order
-                  </button>
-                </div>
-              )}
-
-              {(!order.delivery_boy_id && order.status === 'accepted') && (
-                <button
-                  onClick={() => updateOrderStatus(order.id, 'delivered')}
-                  className="w-full flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
-                >
-                  <CheckCircle className="w-5 h-5" />
-                  Mark as Delivered
-                </button>
-              )}
-            </div>
+                )}
+              </div>
+            </Fragment>
           ))}
         </div>
       )}
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { fetchShopLocation, formatTime, saveShopLocation } from '../../lib/shop';
+import { PeakWindow, RiderPay, riderPay, riderPayError } from '../../lib/riderEarnings';
+import { Plus, Trash2 } from 'lucide-react';
+
+const DEFAULT_PEAK_WINDOW: PeakWindow = { start: '18:00', end: '21:00' };
+
+export function RiderPayForm() {
+  const { user } = useAuth();
+  const [perDelivery, setPerDelivery] = useState('');
+  const [perKm, setPerKm] = useState('');
+  const [peakBonus, setPeakBonus] = useState('');
+  const [windows, setWindows] = useState<PeakWindow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const show = (pay: RiderPay) => {
+    setPerDelivery(pay.per_delivery.toString());
+    setPerKm(pay.per_km.toString());
+    setPeakBonus(pay.peak_bonus.toString());
+    setWindows(pay.peak_windows);
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        show(riderPay(await fetchShopLocation()));
+      } catch (error) {
+        console.error('Error loading rider pay:', error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const updateWindow = (index: number, field: keyof PeakWindow, value: string) => {
+    setWindows((prev) => prev.map((w, i) => (i === index ? { ...w, [field]: value } : w)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const pay: RiderPay = {
+      per_delivery: parseFloat(perDelivery || '0'),
+      per_km: parseFloat(perKm || '0'),
+      peak_bonus: parseFloat(peakBonus || '0'),
+      peak_windows: [...windows].sort((a, b) => a.start.localeCompare(b.start)),
+    };
+    const invalid = riderPayError(pay);
+    if (invalid) {
+      alert(invalid);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      show(riderPay(await saveShopLocation(user.id, { rider_pay: pay })));
+      alert('Rider pay saved');
+    } catch (error: unknown) {
+      console.error('Error saving rider pay:', error);
+      const msg = error instanceof Error ? error.message : JSON.stringify(error);
+      alert(msg || 'Failed to save rider pay');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-gray-600 py-6 text-center">Loading rider pay...</div>;
+  }
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Per Delivery (₹)</label>
+          <input type="number" min="0" step="0.5" value={perDelivery} onChange={(e) => setPerDelivery(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Per km (₹)</label>
+          <input type="number" min="0" step="0.5" value={perKm} onChange={(e) => setPerKm(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Peak Bonus (₹)</label>
+          <input type="number" min="0" step="0.5" value={peakBonus} onChange={(e) => setPeakBonus(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-1">Peak Windows</p>
+        <p className="text-sm text-gray-500 mb-2">
+          Orders booked for a slot starting in one of these windows, or delivered in one when no slot was booked, earn the peak bonus.
+        </p>
+        {windows.length === 0 && <p className="text-sm text-gray-500 italic mb-2">No peak windows; the bonus is never paid.</p>}
+        <div className="space-y-2">
+          {windows.map((w, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-3 items-center">
+              <input
+                type="time"
+                value={w.start}
+                onChange={(e) => updateWindow(index, 'start', e.target.value)}
+                className={inputClass}
+                aria-label="Peak starts"
+              />
+              <input
+                type="time"
+                value={w.end}
+                onChange={(e) => updateWindow(index, 'end', e.target.value)}
+                className={inputClass}
+                aria-label="Peak ends"
+              />
+              <button
+                type="button"
+                onClick={() => setWindows((prev) => prev.filter((_, i) => i !== index))}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                title={`Remove the ${w.start ? formatTime(w.start) : 'new'} peak window`}
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={() => setWindows((prev) => [...prev, { ...DEFAULT_PEAK_WINDOW }])}
+          className="flex items-center gap-2 border border-gray-300 text-gray-700 hover:bg-gray-50 font-medium px-4 py-2 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Peak Window
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-blue-600 hover:bg-blue-700 text-white font-semibold px-6 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save Rider Pay'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,304 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Profile } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { fetchShopLocation } from '../../lib/shop';
+import {
+  DeliveryEarning,
+  RiderPay,
+  RiderPayout,
+  earningsBetween,
+  fetchRiderEarnings,
+  fetchRiderPayouts,
+  markPayoutPaid,
+  riderPay,
+  statementRows,
+  summarizeEarnings,
+} from '../../lib/riderEarnings';
+import { downloadCsv } from '../../utils/csv';
+import { Download, History, IndianRupee } from 'lucide-react';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// For file names: "asha-kumar"
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'rider';
+
+/** Unpaid deliveries per rider, payout statements and marking them paid. */
+export function RiderPayouts() {
+  const { user } = useAuth();
+  const [riders, setRiders] = useState<Profile[]>([]);
+  const [pay, setPay] = useState<RiderPay | null>(null);
+  const [unpaid, setUnpaid] = useState<Record<string, DeliveryEarning[]>>({});
+  const [payouts, setPayouts] = useState<RiderPayout[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  // Statement period as YYYY-MM-DD; blank means open-ended
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [ridersRes, shop, payoutRows] = await Promise.all([
+        supabase.from<Profile>('profiles').select('id, full_name, phone').eq('role', 'delivery').get(),
+        fetchShopLocation(),
+        fetchRiderPayouts(),
+      ]);
+      if (ridersRes.error) throw ridersRes.error;
+      const rates = riderPay(shop);
+      const riderRows = ridersRes.data ?? [];
+      const earnings = await Promise.all(riderRows.map((r) => fetchRiderEarnings(r.id, rates)));
+      setRiders(riderRows);
+      setPay(rates);
+      setPayouts(payoutRows);
+      setUnpaid(Object.fromEntries(riderRows.map((r, i) => [r.id, earnings[i].unpaid])));
+    } catch (error) {
+      console.error('Error loading rider earnings:', error);
+      alert('Failed to load rider earnings');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+    window.addEventListener('order_updated', loadData);
+    return () => window.removeEventListener('order_updated', loadData);
+  }, [loadData]);
+
+  useEffect(() => {
+    setNote('');
+  }, [selected]);
+
+  const riderName = (id: string) => riders.find((r) => r.id === id)?.full_name || 'Former delivery user';
+
+  const statement = selected
+    ? earningsBetween(unpaid[selected] ?? [], from || '0000-00-00', to || '9999-99-99')
+    : [];
+  const statementTotal = summarizeEarnings(statement);
+
+  const exportStatement = () => {
+    if (!selected) return;
+    const period = from || to ? `${from || 'start'}-to-${to || 'today'}` : 'unpaid';
+    downloadCsv(`statement-${slug(riderName(selected))}-${period}.csv`, statementRows(statement));
+  };
+
+  const exportPayout = (payout: RiderPayout) => {
+    downloadCsv(
+      `payout-${slug(riderName(payout.delivery_boy_id))}-${payout.paid_at.slice(0, 10)}.csv`,
+      statementRows(payout.lines)
+    );
+  };
+
+  const handleMarkPaid = async () => {
+    if (!selected || !pay || saving || statement.length === 0) return;
+    if (!confirm(`Mark ₹${statementTotal.total.toFixed(2)} for ${statement.length} deliveries as paid to ${riderName(selected)}?`)) return;
+    setSaving(true);
+    try {
+      await markPayoutPaid(selected, statement.map((l) => l.order_id), { pay, note }, { role: 'owner', actorId: user?.id });
+      await loadData();
+    } catch (error) {
+      console.error('Error recording payout:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record the payout');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-gray-600">Loading rider earnings...</div>
+      </div>
+    );
+  }
+
+  const totalOwed = Object.values(unpaid).reduce((sum, lines) => sum + summarizeEarnings(lines).total, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm text-gray-600">Owed to delivery staff</p>
+          {pay && (
+            <p className="text-xs text-gray-500">
+              ₹{pay.per_delivery} per delivery + ₹{pay.per_km}/km
+              {pay.peak_bonus > 0 && pay.peak_windows.length > 0 && ` + ₹${pay.peak_bonus} peak bonus`}
+            </p>
+          )}
+        </div>
+        <p className="text-xl font-bold text-emerald-600">₹{totalOwed.toFixed(2)}</p>
+      </div>
+
+      {riders.length === 0 ? (
+        <p className="text-sm text-gray-500">No delivery users yet</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {riders.map((rider) => {
+            const summary = summarizeEarnings(unpaid[rider.id] ?? []);
+            const isSelected = selected === rider.id;
+            return (
+              <button
+                key={rider.id}
+                onClick={() => setSelected(isSelected ? null : rider.id)}
+                className={`text-left rounded-xl p-4 border-2 transition-colors ${
+                  isSelected ? 'border-emerald-400 bg-emerald-50' : 'border-gray-100 bg-white hover:border-emerald-200'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900 truncate">{rider.full_name || 'Unnamed'}</p>
+                    <p className="text-xs text-gray-500">{rider.phone}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-lg font-bold text-gray-900">₹{summary.total.toFixed(2)}</p>
+                    <p className="text-xs text-gray-500">unpaid</p>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  {summary.deliveries} deliveries · {summary.km.toFixed(1)} km
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-white rounded-xl border border-gray-100 p-5 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3">
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+              <IndianRupee className="w-5 h-5 text-emerald-600" />
+              Statement for {riderName(selected)}
+            </h3>
+            <div className="flex items-end gap-2 text-sm">
+              <label className="text-xs text-gray-600">
+                From
+                <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="block px-2 py-1 border border-gray-300 rounded" />
+              </label>
+              <label className="text-xs text-gray-600">
+                To
+                <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="block px-2 py-1 border border-gray-300 rounded" />
+              </label>
+            </div>
+          </div>
+
+          {statement.length === 0 ? (
+            <p className="text-sm text-gray-500">No unpaid deliveries in this period</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                    <th className="py-2 pr-3">Order</th>
+                    <th className="py-2 pr-3">Delivered</th>
+                    <th className="py-2 pr-3 text-right">km</th>
+                    <th className="py-2 pr-3 text-right">Base</th>
+                    <th className="py-2 pr-3 text-right">Distance</th>
+                    <th className="py-2 pr-3 text-right">Peak</th>
+                    <th className="py-2 text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {statement.map((line) => (
+                    <tr key={line.order_id}>
+                      <td className="py-2 pr-3 font-mono text-gray-900">#{line.order_number}</td>
+                      <td className="py-2 pr-3 whitespace-nowrap text-gray-600">{formatDate(line.delivered_at)}</td>
+                      <td className="py-2 pr-3 text-right text-gray-600">{line.distance_km.toFixed(1)}</td>
+                      <td className="py-2 pr-3 text-right text-gray-600">₹{line.base.toFixed(2)}</td>
+                      <td className="py-2 pr-3 text-right text-gray-600">₹{line.distance_pay.toFixed(2)}</td>
+                      <td className="py-2 pr-3 text-right text-gray-600">{line.peak_bonus > 0 ? `₹${line.peak_bonus.toFixed(2)}` : '—'}</td>
+                      <td className="py-2 text-right font-semibold text-gray-900">₹{line.total.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t border-gray-200 font-semibold">
+                    <td className="py-2 pr-3" colSpan={2}>{statementTotal.deliveries} deliveries</td>
+                    <td className="py-2 pr-3 text-right">{statementTotal.km.toFixed(1)}</td>
+                    <td className="py-2 pr-3" colSpan={2} />
+                    <td className="py-2 pr-3 text-right">₹{statementTotal.peakBonus.toFixed(2)}</td>
+                    <td className="py-2 text-right text-emerald-700">₹{statementTotal.total.toFixed(2)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 pt-3 border-t border-gray-100">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note, e.g. paid by UPI"
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+            />
+            <button
+              onClick={exportStatement}
+              disabled={statement.length === 0}
+              className="flex items-center justify-center gap-2 border border-gray-300 text-gray-700 hover:bg-gray-50 px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              Export CSV
+            </button>
+            <button
+              onClick={handleMarkPaid}
+              disabled={saving || statement.length === 0}
+              className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Mark as Paid'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-3">
+          <History className="w-5 h-5 text-gray-500" />
+          Payout History
+        </h3>
+        {payouts.length === 0 ? (
+          <p className="text-sm text-gray-500">No payouts yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                  <th className="py-2 pr-3">Paid</th>
+                  <th className="py-2 pr-3">Delivery person</th>
+                  <th className="py-2 pr-3 text-right">Deliveries</th>
+                  <th className="py-2 pr-3 text-right">Amount</th>
+                  <th className="py-2 pr-3">Note</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {payouts
+                  .filter((p) => !selected || p.delivery_boy_id === selected)
+                  .map((p) => (
+                    <tr key={p.id}>
+                      <td className="py-2 pr-3 whitespace-nowrap text-gray-600">{formatDate(p.paid_at)}</td>
+                      <td className="py-2 pr-3 text-gray-900">{riderName(p.delivery_boy_id)}</td>
+                      <td className="py-2 pr-3 text-right text-gray-600">{p.deliveries}</td>
+                      <td className="py-2 pr-3 text-right font-semibold text-gray-900">₹{p.total.toFixed(2)}</td>
+                      <td className="py-2 pr-3 text-gray-600">{p.note || '—'}</td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => exportPayout(p)}
+                          className="inline-flex items-center gap-1 text-xs font-medium text-emerald-700 hover:text-emerald-800"
+                        >
+                          <Download className="w-3.5 h-3.5" />
+                          CSV
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
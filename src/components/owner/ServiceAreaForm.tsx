@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { fetchShopLocation, saveShopLocation } from '../../lib/shop';
+import { describePinCode, lookupPinCode, parsePinCodeList, serviceablePinCodes } from '../../lib/pinCodes';
+import { AlertCircle } from 'lucide-react';
+
+export function ServiceAreaForm() {
+  const { user } = useAuth();
+  const [text, setText] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setText(serviceablePinCodes(await fetchShopLocation()).join(', '));
+      } catch (error) {
+        console.error('Error loading serviceable PIN codes:', error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const { pins, invalid } = parsePinCodeList(text);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (invalid.length > 0) {
+      alert(`Not valid PIN codes: ${invalid.join(', ')}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveShopLocation(user.id, { serviceable_pin_codes: pins });
+      setText(serviceablePinCodes(saved).join(', '));
+      alert('Serviceable PIN codes saved');
+    } catch (error: unknown) {
+      console.error('Error saving serviceable PIN codes:', error);
+      const msg = error instanceof Error ? error.message : JSON.stringify(error);
+      alert(msg || 'Failed to save serviceable PIN codes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-gray-600 py-6 text-center">Loading service area...</div>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Serviceable PIN Codes</label>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={3}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+          placeholder="e.g. 751001, 751002, 751007"
+        />
+        <p className="text-sm text-gray-600 mt-1">
+          {pins.length === 0
+            ? 'Leave empty to accept any PIN code within the delivery radius.'
+            : `Checkout only accepts these ${pins.length} PIN code${pins.length === 1 ? '' : 's'}.`}
+        </p>
+      </div>
+
+      {invalid.length > 0 && (
+        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          Not valid PIN codes: {invalid.join(', ')}
+        </p>
+      )}
+
+      {pins.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {pins.map((pin) => (
+            <span key={pin} className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded-full">
+              <span className="font-mono font-semibold">{pin}</span> · {describePinCode(lookupPinCode(pin)!)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="bg-blue-600 hover:bg-blue-700 text-white font-semibold px-6 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {saving ? 'Saving...' : 'Save Service Area'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,373 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { getCurrentPosition } from '../../lib/location';
+import { DayHours, WEEKDAYS, fetchShopLocation, openingHours, saveShopLocation } from '../../lib/shop';
+import { ShopHoliday, closedMessage, localDateKey, shopStatus } from '../../lib/businessHours';
+import { isUpiVpa } from '../../lib/upi';
+import { Loader2, MapPin, Navigation, PauseCircle, PlayCircle, Trash2 } from 'lucide-react';
+
+type ShopSettingsProps = {
+  // Called after a successful save so sibling panels can reload the record
+  onSaved?: () => void;
+};
+
+const parseCoordinate = (value: string, limit: number): number | null => {
+  const n = parseFloat(value);
+  return value.trim() !== '' && Number.isFinite(n) && Math.abs(n) <= limit ? n : null;
+};
+
+export function ShopSettings({ onSaved }: ShopSettingsProps) {
+  const { user, profile } = useAuth();
+  const [shopName, setShopName] = useState('');
+  const [address, setAddress] = useState('');
+  const [phone, setPhone] = useState('');
+  const [upiVpa, setUpiVpa] = useState('');
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [hours, setHours] = useState<(DayHours | null)[]>(openingHours(null));
+  const [holidays, setHolidays] = useState<ShopHoliday[]>([]);
+  const [newHoliday, setNewHoliday] = useState<ShopHoliday>({ date: '', note: '' });
+  const [paused, setPaused] = useState(false);
+  const [togglingPause, setTogglingPause] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const shop = await fetchShopLocation();
+        setShopName(shop?.shop_name ?? '');
+        setAddress(shop?.address ?? '');
+        setPhone(shop?.phone ?? profile?.phone ?? '');
+        setUpiVpa(shop?.upi_vpa ?? '');
+        setLatitude(Number.isFinite(shop?.latitude) ? String(shop!.latitude) : '');
+        setLongitude(Number.isFinite(shop?.longitude) ? String(shop!.longitude) : '');
+        setHours(openingHours(shop));
+        setHolidays(shop?.holidays ?? []);
+        setPaused(!!shop?.orders_paused);
+      } catch (error) {
+        console.error('Error loading shop settings:', error);
+        alert('Failed to load shop settings');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [profile?.phone]);
+
+  const fillCurrentLocation = async () => {
+    setLocating(true);
+    try {
+      const position = await getCurrentPosition();
+      setLatitude(position.coords.latitude.toFixed(6));
+      setLongitude(position.coords.longitude.toFixed(6));
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.error('Error getting location:', error);
+      alert(msg || 'Failed to get location. Please enable GPS.');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  // Saved straight away, unlike the rest of the form, so it works as an emergency stop
+  const togglePause = async () => {
+    if (!user) return;
+    setTogglingPause(true);
+    try {
+      await saveShopLocation(user.id, { orders_paused: !paused });
+      setPaused(!paused);
+      onSaved?.();
+    } catch (error: unknown) {
+      console.error('Error updating pause switch:', error);
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(msg || 'Failed to update the shop');
+    } finally {
+      setTogglingPause(false);
+    }
+  };
+
+  const addHoliday = () => {
+    if (!newHoliday.date) return;
+    if (holidays.some((h) => h.date === newHoliday.date)) {
+      alert('That date is already a holiday');
+      return;
+    }
+    const note = newHoliday.note?.trim();
+    setHolidays((prev) =>
+      [...prev, { date: newHoliday.date, ...(note ? { note } : {}) }].sort((a, b) => a.date.localeCompare(b.date))
+    );
+    setNewHoliday({ date: '', note: '' });
+  };
+
+  const setDay = (day: number, value: DayHours | null) => {
+    setHours((prev) => prev.map((h, i) => (i === day ? value : h)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const lat = parseCoordinate(latitude, 90);
+    const lng = parseCoordinate(longitude, 180);
+    if (lat === null || lng === null) {
+      alert('Enter a latitude between -90 and 90 and a longitude between -180 and 180, or use your current location');
+      return;
+    }
+    if (phone.trim() && !/^[0-9]{10}$/.test(phone.trim())) {
+      alert('Please enter a valid 10-digit phone number');
+      return;
+    }
+    if (upiVpa.trim() && !isUpiVpa(upiVpa)) {
+      alert('Please enter a valid UPI ID, e.g. shopname@okaxis');
+      return;
+    }
+    const badDay = hours.findIndex((h) => h && h.close <= h.open);
+    if (badDay >= 0) {
+      alert(`${WEEKDAYS[badDay]}: closing time must be after opening time`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveShopLocation(user.id, {
+        shop_name: shopName.trim(),
+        address: address.trim(),
+        phone: phone.trim(),
+        upi_vpa: upiVpa.trim() || null,
+        latitude: lat,
+        longitude: lng,
+        opening_hours: hours,
+        // Past holidays are dropped on save
+        holidays: holidays.filter((h) => h.date >= localDateKey(new Date())),
+      });
+      alert('Shop settings saved');
+      onSaved?.();
+    } catch (error: unknown) {
+      console.error('Error saving shop settings:', error);
+      const msg = error instanceof Error ? error.message : JSON.stringify(error);
+      alert(msg || 'Failed to save shop settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-gray-600 py-6 text-center">Loading shop settings...</div>;
+  }
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+  const status = shopStatus({ opening_hours: hours, holidays, orders_paused: paused });
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div
+        className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border px-4 py-3 ${
+          paused ? 'bg-red-50 border-red-200' : 'bg-emerald-50 border-emerald-200'
+        }`}
+      >
+        <div className="text-sm">
+          <p className={`font-semibold ${paused ? 'text-red-800' : 'text-emerald-800'}`}>
+            {paused ? 'Orders are paused' : status.open ? 'Open and taking orders' : 'Closed, taking orders for later'}
+          </p>
+          <p className="text-gray-600">{closedMessage(status) ?? 'Customers can order and you will see new orders straight away.'}</p>
+        </div>
+        <button
+          type="button"
+          onClick={togglePause}
+          disabled={togglingPause}
+          className={`flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-semibold text-white transition-colors disabled:opacity-50 ${
+            paused ? 'bg-emerald-600 hover:bg-emerald-700' : 'bg-red-600 hover:bg-red-700'
+          }`}
+        >
+          {paused ? <PlayCircle className="w-4 h-4" /> : <PauseCircle className="w-4 h-4" />}
+          {paused ? 'Resume Orders' : 'Pause Orders'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Shop Name</label>
+          <input
+            type="text"
+            value={shopName}
+            onChange={(e) => setShopName(e.target.value)}
+            className={inputClass}
+            placeholder="e.g., JJ Handicraft"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Contact Phone</label>
+          <input
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value.replace(/\D/g, ''))}
+            maxLength={10}
+            className={inputClass}
+            placeholder="10-digit phone number"
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-2">UPI ID</label>
+          <input
+            type="text"
+            value={upiVpa}
+            onChange={(e) => setUpiVpa(e.target.value.trim())}
+            className={inputClass}
+            placeholder="e.g. shopname@okaxis"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Customers can pay this UPI ID at checkout; you confirm each payment from the Orders tab. Leave empty to turn UPI off.
+          </p>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Address</label>
+          <textarea
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            rows={2}
+            className={inputClass}
+            placeholder="Street, area, city and PIN code"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+          <MapPin className="w-4 h-4 text-purple-500" />
+          Shop Location <span className="text-gray-400 font-normal">(used to measure delivery distances)</span>
+        </label>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={latitude}
+            onChange={(e) => setLatitude(e.target.value)}
+            className={inputClass}
+            placeholder="Latitude, e.g. 20.296100"
+          />
+          <input
+            type="text"
+            inputMode="decimal"
+            value={longitude}
+            onChange={(e) => setLongitude(e.target.value)}
+            className={inputClass}
+            placeholder="Longitude, e.g. 85.824500"
+          />
+          <button
+            type="button"
+            onClick={fillCurrentLocation}
+            disabled={locating}
+            className="flex items-center justify-center gap-2 bg-purple-50 hover:bg-purple-100 text-purple-700 px-4 py-2 rounded-lg font-medium border border-purple-200 transition-colors disabled:opacity-50"
+          >
+            {locating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Navigation className="w-4 h-4" />}
+            Use My Current Location
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Business Hours</label>
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {WEEKDAYS.map((day, i) => {
+            const dayHours = hours[i];
+            return (
+              <div key={day} className="flex flex-wrap items-center gap-3 px-3 py-2">
+                <span className="w-28 text-sm font-medium text-gray-800">{day}</span>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={dayHours !== null}
+                    onChange={(e) => setDay(i, e.target.checked ? { open: '09:00', close: '20:00' } : null)}
+                    className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                  />
+                  Open
+                </label>
+                {dayHours ? (
+                  <div className="flex items-center gap-2 text-sm">
+                    <input
+                      type="time"
+                      value={dayHours.open}
+                      onChange={(e) => setDay(i, { ...dayHours, open: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded"
+                    />
+                    <span className="text-gray-500">to</span>
+                    <input
+                      type="time"
+                      value={dayHours.close}
+                      onChange={(e) => setDay(i, { ...dayHours, close: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded"
+                    />
+                  </div>
+                ) : (
+                  <span className="text-sm text-gray-400">Closed</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Holidays</label>
+        {holidays.length > 0 && (
+          <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100 mb-3">
+            {holidays.map((h) => (
+              <li key={h.date} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span>
+                  <span className="font-medium text-gray-800">
+                    {new Date(`${h.date}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}
+                  </span>
+                  {h.note && <span className="text-gray-500"> · {h.note}</span>}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setHolidays((prev) => prev.filter((x) => x.date !== h.date))}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  aria-label="Remove holiday"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="date"
+            value={newHoliday.date}
+            min={localDateKey(new Date())}
+            onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          />
+          <input
+            type="text"
+            value={newHoliday.note}
+            onChange={(e) => setNewHoliday({ ...newHoliday, note: e.target.value })}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
+            placeholder="Reason (optional), e.g. Diwali"
+          />
+          <button
+            type="button"
+            onClick={addHoliday}
+            disabled={!newHoliday.date}
+            className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium disabled:opacity-50"
+          >
+            Add Holiday
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">Holidays take effect when you save the settings.</p>
+      </div>
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="bg-purple-600 hover:bg-purple-700 text-white font-semibold px-6 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {saving ? 'Saving...' : 'Save Shop Settings'}
+      </button>
+    </form>
+  );
+}
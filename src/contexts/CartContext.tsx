@@ -1,5 +1,7 @@
 import { createContext, useContext, useState, ReactNode, useEffect } from 'react';
 import { CartItem } from '../lib/supabase';
+import { CouponQuote, checkCoupon, couponLinesFromCart } from '../lib/coupons';
+import { useAuth } from './AuthContext';
 
 type CartContextType = {
   cart: CartItem[];
@@ -9,6 +11,13 @@ type CartContextType = {
   clearCart: () => void;
   totalAmount: number;
   totalItems: number;
+  // Coupon entered in the cart; Checkout quotes it again and placeOrder() applies it
+  couponCode: string | null;
+  setCouponCode: (code: string | null) => void;
+  // Quote for couponCode against the current cart, or why it no longer applies
+  couponQuote: CouponQuote | null;
+  couponError: string | null;
+  discountAmount: number;
 };
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -19,10 +28,45 @@ export function CartProvider({ children }: { children: ReactNode }) {
     return saved ? JSON.parse(saved) : [];
   });
 
+  const [couponCode, setCouponCode] = useState<string | null>(() => localStorage.getItem('cart_coupon'));
+
   useEffect(() => {
     localStorage.setItem('cart', JSON.stringify(cart));
   }, [cart]);
 
+  const { user } = useAuth();
+  const [couponQuote, setCouponQuote] = useState<CouponQuote | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+
+  // Re-quote whenever the cart changes, since limits and scoping depend on it
+  useEffect(() => {
+    if (!couponCode || cart.length === 0) {
+      setCouponQuote(null);
+      setCouponError(null);
+      return;
+    }
+    let stale = false;
+    checkCoupon(couponCode, couponLinesFromCart(cart), user?.id)
+      .then((quote) => {
+        if (stale) return;
+        setCouponQuote(quote);
+        setCouponError(null);
+      })
+      .catch((err: unknown) => {
+        if (stale) return;
+        setCouponQuote(null);
+        setCouponError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      stale = true;
+    };
+  }, [couponCode, cart, user?.id]);
+
+  useEffect(() => {
+    if (couponCode) localStorage.setItem('cart_coupon', couponCode);
+    else localStorage.removeItem('cart_coupon');
+  }, [couponCode]);
+
   const addToCart = (newItem: CartItem) => {
     setCart((prev) => {
       const existing = prev.find(
@@ -69,6 +113,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
   const clearCart = () => {
     setCart([]);
+    setCouponCode(null);
   };
 
   const totalAmount = cart.reduce(
@@ -88,6 +133,11 @@ export function CartProvider({ children }: { children: ReactNode }) {
         clearCart,
         totalAmount,
         totalItems,
+        couponCode,
+        setCouponCode,
+        couponQuote,
+        couponError,
+        discountAmount: couponQuote?.discount ?? 0,
       }}
     >
       {children}
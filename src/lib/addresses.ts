@@ -0,0 +1,189 @@
+// Customer address book. Each customer keeps any number of labelled addresses
+// in `addresses`, one of them the default that Checkout starts with. Orders do
+// not point at a book entry; they carry a copy of the fields taken at checkout
+// (`delivery_address_details`) so editing or deleting an address later never
+// changes where a past order went.
+import { supabase } from './supabase';
+import { isPinCode } from './pinCodes';
+
+export const ADDRESS_LABELS = ['Home', 'Work', 'Other'] as const;
+
+export type AddressFields = {
+  house_no: string;
+  street: string;
+  area: string;
+  city: string;
+  pin_code: string;
+  nearby: string;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+export type Address = AddressFields & {
+  id: string;
+  customer_id: string;
+  label: string;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type AddressInput = AddressFields & { label: string; is_default?: boolean };
+
+// What an order keeps; address_id is informational only
+export type AddressSnapshot = AddressFields & { label?: string; address_id?: string | null };
+
+export const EMPTY_ADDRESS: AddressFields = {
+  house_no: '',
+  street: '',
+  area: '',
+  city: '',
+  pin_code: '',
+  nearby: '',
+  latitude: null,
+  longitude: null,
+};
+
+/** Returns why the address cannot be saved, or null when it is complete. */
+export function addressError(fields: AddressFields): string | null {
+  if (!fields.street.trim()) return 'Street name is required';
+  if (!fields.city.trim()) return 'Village/City name is required';
+  if (!isPinCode(fields.pin_code)) return 'Please enter a valid 6-digit PIN code';
+  return null;
+}
+
+export function hasAddressCoordinates(fields: AddressFields): boolean {
+  return typeof fields.latitude === 'number' && typeof fields.longitude === 'number';
+}
+
+/** Display lines, first line most specific; blank fields are skipped. */
+export function addressLines(fields: AddressFields): string[] {
+  return [
+    [fields.house_no, fields.street].map((s) => s.trim()).filter(Boolean).join(', '),
+    fields.area.trim(),
+    [fields.city.trim(), fields.pin_code.trim()].filter(Boolean).join(' - '),
+    fields.nearby.trim() && `Near ${fields.nearby.trim()}`,
+  ].filter(Boolean);
+}
+
+/** Plain-text form kept in orders.delivery_address for views that only show text. */
+export function formatAddress(fields: AddressFields): string {
+  return addressLines(fields).join('\n');
+}
+
+export function addressSnapshot(fields: AddressFields, source?: Pick<Address, 'id' | 'label'> | null): AddressSnapshot {
+  const { house_no, street, area, city, pin_code, nearby, latitude, longitude } = fields;
+  return {
+    house_no,
+    street,
+    area,
+    city,
+    pin_code,
+    nearby,
+    latitude,
+    longitude,
+    ...(source ? { label: source.label, address_id: source.id } : {}),
+  };
+}
+
+// Checkout used to save a single emoji-prefixed block to profiles.address;
+// this reads it back so those customers do not have to type it again.
+const LEGACY_PREFIXES: [string, keyof AddressFields][] = [
+  ['House/Flat/Shop', 'house_no'],
+  ['Street', 'street'],
+  ['Area/Landmark', 'area'],
+  ['Village/City', 'city'],
+  ['PIN', 'pin_code'],
+  ['Nearby', 'nearby'],
+];
+
+export function parseLegacyAddress(text: string | null | undefined): AddressFields | null {
+  if (!text) return null;
+  const fields: AddressFields = { ...EMPTY_ADDRESS };
+  for (const line of text.split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const key = line.slice(0, colon);
+    const value = line.slice(colon + 1).trim();
+    if (key.includes('GPS')) {
+      const [lat, lng] = value.split(',').map((v) => parseFloat(v));
+      if (Number.isFinite(lat) && Number.isFinite(lng)) {
+        fields.latitude = lat;
+        fields.longitude = lng;
+      }
+      continue;
+    }
+    const match = LEGACY_PREFIXES.find(([prefix]) => key.includes(prefix));
+    if (match) (fields[match[1]] as string) = value;
+  }
+  return fields.street || fields.city ? fields : null;
+}
+
+/** The customer's addresses, default first, then most recently used or edited. */
+export async function fetchAddresses(customerId: string): Promise<Address[]> {
+  const { data, error } = await supabase.from<Address>('addresses').select('*').eq('customer_id', customerId).get();
+  if (error) throw new Error(error.message);
+  return (data ?? []).sort(
+    (a, b) => Number(b.is_default) - Number(a.is_default) || b.updated_at.localeCompare(a.updated_at)
+  );
+}
+
+/** Clears the flag on every other address in one transaction so the book never has two defaults. */
+export async function setDefaultAddress(customerId: string, id: string): Promise<void> {
+  const others = (await fetchAddresses(customerId)).filter((a) => a.is_default && a.id !== id);
+  const now = new Date().toISOString();
+  const { error } = await supabase.transaction(async (tx) => {
+    tx.update('addresses', id, { is_default: true, updated_at: now });
+    others.forEach((a) => tx.update('addresses', a.id, { is_default: false }));
+  });
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Creates an address, or updates `id`. The customer's first address becomes
+ * the default whatever `is_default` says.
+ */
+export async function saveAddress(customerId: string, input: AddressInput, id?: string): Promise<Address> {
+  const reason = addressError(input);
+  if (reason) throw new Error(reason);
+
+  const existing = await fetchAddresses(customerId);
+  const current = id ? existing.find((a) => a.id === id) : undefined;
+  if (id && !current) throw new Error('Address not found');
+
+  const now = new Date().toISOString();
+  const wantsDefault = existing.length === 0 || (existing.length === 1 && !!current) || !!input.is_default;
+  const row = {
+    ...addressSnapshot(input),
+    customer_id: customerId,
+    label: input.label.trim() || 'Other',
+    is_default: current?.is_default ?? false,
+    updated_at: now,
+  };
+
+  let savedId = id;
+  if (current) {
+    const { error } = await supabase.from<Address>('addresses').update(row).eq('id', current.id).get();
+    if (error) throw new Error(error.message);
+  } else {
+    const { data, error } = await supabase.from<Address>('addresses').insert({ ...row, created_at: now });
+    if (error || !data?.[0]) throw new Error(error?.message || 'Failed to save address');
+    savedId = data[0].id;
+  }
+
+  if (wantsDefault && !row.is_default) await setDefaultAddress(customerId, savedId!);
+  return { ...current, ...row, id: savedId!, is_default: wantsDefault || row.is_default } as Address;
+}
+
+/** Deletes an address; if it was the default, the most recent remaining one takes over. */
+export async function deleteAddress(customerId: string, id: string): Promise<void> {
+  const existing = await fetchAddresses(customerId);
+  const target = existing.find((a) => a.id === id);
+  if (!target) return;
+
+  const { error } = await supabase.from<Address>('addresses').delete().eq('id', id).get();
+  if (error) throw new Error(error.message);
+
+  const next = existing.find((a) => a.id !== id);
+  if (target.is_default && next) await setDefaultAddress(customerId, next.id);
+}
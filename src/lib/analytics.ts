@@ -0,0 +1,184 @@
+// Owner dashboard statistics computed from `orders`, `order_items` and `items`.
+// computeShopStats() is pure so the numbers can be derived from whatever rows a
+// caller already has; fetchShopStats() loads the rows through the shim.
+import { supabase, Order, OrderItem } from './supabase';
+import { TERMINAL_STATUSES, UNPAID_STATUSES, statusHistory } from './orderStatus';
+import { roundMoney } from './money';
+import { localDateKey } from './businessHours';
+
+export type RevenuePoint = {
+  // Local calendar day, YYYY-MM-DD
+  date: string;
+  revenue: number;
+  orders: number;
+};
+
+export type TopVariant = {
+  variantId: string;
+  itemName: string;
+  quantityUnit: string;
+  quantity: number;
+  revenue: number;
+};
+
+export type ShopStats = {
+  totalItems: number;
+  totalOrders: number;
+  // Orders that are neither delivered nor cancelled
+  pendingOrders: number;
+  // Failed deliveries waiting for the owner to re-schedule or return them
+  failedDeliveries: number;
+  deliveredToday: number;
+  revenueToday: number;
+  // Rolling seven days including today
+  revenueWeek: number;
+  // Current calendar month
+  revenueMonth: number;
+  averageOrderValue: number;
+  // Oldest first, one entry per day for the last `days` days
+  revenueByDay: RevenuePoint[];
+  topVariants: TopVariant[];
+};
+
+export type ShopStatsInput = {
+  orders: (Order & { order_items?: OrderItem[] })[];
+  // Rows not embedded in an order; merged with `order.order_items`
+  orderItems?: OrderItem[];
+  itemCount: number;
+};
+
+export const EMPTY_SHOP_STATS: ShopStats = {
+  totalItems: 0,
+  totalOrders: 0,
+  pendingOrders: 0,
+  failedDeliveries: 0,
+  deliveredToday: 0,
+  revenueToday: 0,
+  revenueWeek: 0,
+  revenueMonth: 0,
+  averageOrderValue: 0,
+  revenueByDay: [],
+  topVariants: [],
+};
+
+function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// When the order was delivered: the logged event if there is one, otherwise the last update
+export function deliveredAt(order: Pick<Order, 'status' | 'created_at' | 'customer_id' | 'status_history' | 'updated_at'>): Date {
+  const event = [...statusHistory(order)].reverse().find((e) => e.type === 'status' && e.status === 'delivered');
+  return new Date(event?.at ?? order.updated_at);
+}
+
+/**
+ * Revenue counts every order that was not cancelled, on the day it was placed.
+ * Top variants are ranked by units sold across the same orders. Card orders
+ * still waiting for payment are left out entirely.
+ */
+export function computeShopStats(
+  { orders, orderItems = [], itemCount }: ShopStatsInput,
+  opts: { now?: Date; days?: number; topN?: number } = {}
+): ShopStats {
+  const now = opts.now ?? new Date();
+  const days = opts.days ?? 14;
+  const topN = opts.topN ?? 5;
+  const shopOrders = orders.filter((order) => !UNPAID_STATUSES.includes(order.status));
+
+  const today = startOfDay(now);
+  const weekStart = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6);
+  const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+  const todayKey = localDateKey(today);
+
+  const byDay = new Map<string, RevenuePoint>();
+  for (let i = days - 1; i >= 0; i--) {
+    const key = localDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - i));
+    byDay.set(key, { date: key, revenue: 0, orders: 0 });
+  }
+
+  let pendingOrders = 0;
+  let failedDeliveries = 0;
+  let deliveredToday = 0;
+  let revenueToday = 0;
+  let revenueWeek = 0;
+  let revenueMonth = 0;
+  let billedTotal = 0;
+  let billedCount = 0;
+  const billedIds = new Set<string>();
+
+  for (const order of shopOrders) {
+    if (!TERMINAL_STATUSES.includes(order.status)) pendingOrders += 1;
+    if (order.status === 'delivery_failed') failedDeliveries += 1;
+    if (order.status === 'delivered' && localDateKey(deliveredAt(order)) === todayKey) deliveredToday += 1;
+    if (order.status === 'cancelled') continue;
+
+    const amount = Number(order.total_amount) || 0;
+    const placed = new Date(order.created_at);
+    billedIds.add(order.id);
+    billedTotal += amount;
+    billedCount += 1;
+    if (placed >= today) revenueToday += amount;
+    if (placed >= weekStart) revenueWeek += amount;
+    if (placed >= monthStart) revenueMonth += amount;
+
+    const point = byDay.get(localDateKey(placed));
+    if (point) {
+      point.revenue += amount;
+      point.orders += 1;
+    }
+  }
+
+  // Embedded and standalone item rows may overlap, so de-duplicate by id
+  const items = new Map<string, OrderItem>();
+  for (const order of shopOrders) {
+    for (const row of order.order_items ?? []) items.set(row.id, row);
+  }
+  for (const row of orderItems) items.set(row.id, row);
+
+  const variants = new Map<string, TopVariant>();
+  for (const row of items.values()) {
+    if (!billedIds.has(row.order_id)) continue;
+    const key = row.variant_id || `${row.item_id}:${row.quantity_unit}`;
+    const entry = variants.get(key) ?? {
+      variantId: key,
+      itemName: row.item_name,
+      quantityUnit: row.quantity_unit,
+      quantity: 0,
+      revenue: 0,
+    };
+    entry.quantity += Number(row.quantity) || 0;
+    entry.revenue += Number(row.subtotal) || (Number(row.price) || 0) * (Number(row.quantity) || 0);
+    variants.set(key, entry);
+  }
+
+  return {
+    totalItems: itemCount,
+    totalOrders: shopOrders.length,
+    pendingOrders,
+    failedDeliveries,
+    deliveredToday,
+    revenueToday: roundMoney(revenueToday),
+    revenueWeek: roundMoney(revenueWeek),
+    revenueMonth: roundMoney(revenueMonth),
+    averageOrderValue: billedCount > 0 ? roundMoney(billedTotal / billedCount) : 0,
+    revenueByDay: [...byDay.values()].map((p) => ({ ...p, revenue: roundMoney(p.revenue) })),
+    topVariants: [...variants.values()]
+      .map((v) => ({ ...v, revenue: roundMoney(v.revenue) }))
+      .sort((a, b) => b.quantity - a.quantity || b.revenue - a.revenue)
+      .slice(0, topN),
+  };
+}
+
+export async function fetchShopStats(opts?: { now?: Date; days?: number; topN?: number }): Promise<ShopStats> {
+  const [itemsRes, ordersRes] = await Promise.all([
+    supabase.from('items').select('id'),
+    supabase.from<Order & { order_items?: OrderItem[] }>('orders').select('*, order_items(*)'),
+  ]);
+  if (itemsRes.error) throw new Error(itemsRes.error.message);
+  if (ordersRes.error) throw new Error(ordersRes.error.message);
+
+  return computeShopStats(
+    { orders: ordersRes.data ?? [], itemCount: (itemsRes.data ?? []).length },
+    opts
+  );
+}
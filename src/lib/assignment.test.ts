@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Order, supabase } from './supabase';
+import { LEAST_ACTIVE, NEAREST, ROUND_ROBIN, RiderCandidate, autoAssignOrder, loadRiderCandidates } from './assignment';
+import { installTestBackend } from './testFixtures';
+
+const available = { available: true, reason: null, shift: null };
+
+const candidate = (id: string, fields: Partial<RiderCandidate> = {}): RiderCandidate => ({
+  id,
+  name: id,
+  active_orders: 0,
+  last_assigned_at: null,
+  location: null,
+  availability: available,
+  ...fields,
+});
+
+const shop = { latitude: 20.2961, longitude: 85.8245 };
+const job = { order: {} as Order, pickup: shop };
+
+describe('assignment strategies', () => {
+  const riders = [
+    candidate('busy-near', { active_orders: 3, last_assigned_at: '2026-10-19T09:00:00Z', location: { ...shop, at: '2026-10-19T10:00:00Z' } }),
+    candidate('idle-far', { active_orders: 0, last_assigned_at: '2026-10-19T10:00:00Z', location: { latitude: 20.4, longitude: 85.9, at: '2026-10-19T10:00:00Z' } }),
+    candidate('waiting', { active_orders: 1, last_assigned_at: '2026-10-19T08:00:00Z' }),
+  ];
+
+  it('round robin picks the rider who has waited longest', () => {
+    expect(ROUND_ROBIN.pick(job, riders)?.id).toBe('waiting');
+    expect(ROUND_ROBIN.pick(job, [...riders, candidate('new')])?.id).toBe('new');
+  });
+
+  it('least busy picks the rider with the fewest open orders', () => {
+    expect(LEAST_ACTIVE.pick(job, riders)?.id).toBe('idle-far');
+  });
+
+  it('nearest picks by distance to the shop and puts riders without a location last', () => {
+    expect(NEAREST.pick(job, riders)?.id).toBe('busy-near');
+    expect(NEAREST.pick(job, [riders[2], riders[1]])?.id).toBe('idle-far');
+  });
+
+  it('nearest falls back to the least busy rider without a pickup point', () => {
+    expect(NEAREST.pick({ ...job, pickup: null }, riders)?.id).toBe('idle-far');
+  });
+
+  it('picks nobody from an empty list', () => {
+    expect(ROUND_ROBIN.pick(job, [])).toBeNull();
+  });
+});
+
+describe('autoAssignOrder', () => {
+  const owner = { role: 'owner' as const, actorId: 'owner-1' };
+
+  beforeEach(() => {
+    installTestBackend((seed) => {
+      seed.users!.push({ id: 'delivery-2', email: 'rider2@jjhandicraft.test', password: 'password123' });
+      seed.tables!.profiles.push({ id: 'delivery-2', role: 'delivery', full_name: 'Second Rider', phone: '9000000004' });
+      seed.tables!.rider_duty.push({ id: 'delivery-2', on_duty: false, shifts: null });
+      seed.tables!.orders = [
+        { id: 'order-1', order_number: 'JJ-1', customer_id: 'customer-1', status: 'confirmed', created_at: '2026-10-19T04:00:00Z' },
+      ];
+    });
+  });
+
+  it('offers only available riders and logs the strategy on the order', async () => {
+    const candidates = await loadRiderCandidates();
+    expect(candidates.map((c) => [c.id, c.availability.available])).toEqual([['delivery-1', true], ['delivery-2', false]]);
+
+    const { data: order } = await supabase.from<Order>('orders').select('*').eq('id', 'order-1').maybeSingle();
+    const rider = await autoAssignOrder(order!, ROUND_ROBIN, owner);
+    expect(rider?.id).toBe('delivery-1');
+
+    const { data: assigned } = await supabase.from<Order>('orders').select('*').eq('id', 'order-1').maybeSingle();
+    expect(assigned?.delivery_boy_id).toBe('delivery-1');
+    expect(assigned?.status_history?.slice(-1)[0]).toMatchObject({
+      type: 'assignment',
+      delivery_boy_id: 'delivery-1',
+      note: 'Assigned automatically (round robin)',
+    });
+  });
+
+  it('assigns nobody when no rider is available', async () => {
+    await supabase.from('rider_duty').update({ on_duty: false }).eq('id', 'delivery-1').get();
+    const { data: order } = await supabase.from<Order>('orders').select('*').eq('id', 'order-1').maybeSingle();
+    expect(await autoAssignOrder(order!, LEAST_ACTIVE, owner)).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+// Picking a delivery person for an order. Each strategy ranks the delivery
+// users for one order; the shop's `assignment_strategy` says which one runs
+// when the owner accepts an order, and null keeps assignment manual. Only riders
+// who are available (see lib/riderDuty) are offered to a strategy. Every
+// assignment, automatic or not, goes through assignRider() so it is logged on
+// the order with its reason.
+import { supabase, Order, Profile, ShopLocation } from './supabase';
+import { calculateDistance } from './location';
+import { TERMINAL_STATUSES, TransitionContext, assignRider } from './orderStatus';
+import { fetchShopLocation, hasShopCoordinates } from './shop';
+import { RiderAvailability, fetchRiderDuties, riderAvailability } from './riderDuty';
+import type { RiderLocation } from './riderTracking';
+
+export type RiderCandidate = {
+  id: string;
+  name: string;
+  // Orders assigned to the rider that are not delivered or cancelled yet
+  active_orders: number;
+  // When an order was last handed to them; null if never
+  last_assigned_at: string | null;
+  // Last reported position, or where they last delivered; null when unknown
+  location: { latitude: number; longitude: number; at: string } | null;
+  availability: RiderAvailability;
+};
+
+export type AssignmentJob = {
+  order: Order;
+  // Where the rider collects the order, normally the shop
+  pickup: { latitude: number; longitude: number } | null;
+};
+
+export interface AssignmentStrategy {
+  readonly id: string;
+  readonly label: string;
+  readonly description: string;
+  // The rider to give the job to, or null when none of them will do
+  pick(job: AssignmentJob, candidates: RiderCandidate[]): RiderCandidate | null;
+}
+
+// Orders the status changes on which auto-assignment runs
+export const ACCEPT_STATUSES: Order['status'][] = ['confirmed', 'accepted'];
+
+const assignedTime = (c: RiderCandidate) => (c.last_assigned_at ? new Date(c.last_assigned_at).getTime() : 0);
+
+// Longest-waiting rider first; the id keeps ties stable
+const byLeastRecentlyAssigned = (a: RiderCandidate, b: RiderCandidate) =>
+  assignedTime(a) - assignedTime(b) || a.id.localeCompare(b.id);
+
+const byActiveOrders = (a: RiderCandidate, b: RiderCandidate) =>
+  a.active_orders - b.active_orders || byLeastRecentlyAssigned(a, b);
+
+const first = (candidates: RiderCandidate[], compare: (a: RiderCandidate, b: RiderCandidate) => number) =>
+  [...candidates].sort(compare)[0] ?? null;
+
+export const ROUND_ROBIN: AssignmentStrategy = {
+  id: 'round_robin',
+  label: 'Round robin',
+  description: 'Takes turns: the rider who has waited longest since their last order gets the next one',
+  pick: (_job, candidates) => first(candidates, byLeastRecentlyAssigned),
+};
+
+export const LEAST_ACTIVE: AssignmentStrategy = {
+  id: 'least_active',
+  label: 'Least busy',
+  description: 'The rider with the fewest orders still to deliver',
+  pick: (_job, candidates) => first(candidates, byActiveOrders),
+};
+
+export const NEAREST: AssignmentStrategy = {
+  id: 'nearest',
+  label: 'Nearest',
+  description: 'The rider closest to the shop by their last known location; riders with no location come last',
+  pick: ({ pickup }, candidates) => {
+    if (!pickup) return first(candidates, byActiveOrders);
+    const distance = (c: RiderCandidate) =>
+      c.location ? calculateDistance(pickup.latitude, pickup.longitude, c.location.latitude, c.location.longitude) : Infinity;
+    return first(candidates, (a, b) => distance(a) - distance(b) || byActiveOrders(a, b));
+  },
+};
+
+const strategies = new Map<string, AssignmentStrategy>([ROUND_ROBIN, LEAST_ACTIVE, NEAREST].map((s) => [s.id, s]));
+
+// Adds a strategy, or replaces the one with the same id
+export function registerAssignmentStrategy(strategy: AssignmentStrategy) {
+  strategies.set(strategy.id, strategy);
+}
+
+export function assignmentStrategies(): AssignmentStrategy[] {
+  return [...strategies.values()];
+}
+
+/** The shop's auto-assignment strategy, or null for manual assignment. */
+export function shopAssignmentStrategy(shop: Pick<ShopLocation, 'assignment_strategy'> | null): AssignmentStrategy | null {
+  return (shop?.assignment_strategy && strategies.get(shop.assignment_strategy)) || null;
+}
+
+function lastAssignedAt(order: Order, riderId: string): string {
+  const events = (order.status_history ?? []).filter((e) => e.type === 'assignment' && e.delivery_boy_id === riderId);
+  return events[events.length - 1]?.at ?? order.created_at;
+}
+
+/** Every delivery user, available or not, with the figures the strategies rank them by. */
+export async function loadRiderCandidates(): Promise<RiderCandidate[]> {
+  const { data: riders, error } = await supabase.from<Profile>('profiles').select('*').eq('role', 'delivery').get();
+  if (error) throw new Error(error.message);
+  if (!riders?.length) return [];
+
+  const ids = riders.map((r) => r.id);
+  const [ordersRes, locationsRes, duties] = await Promise.all([
+    supabase.from<Order>('orders').select('*').in('delivery_boy_id', ids).get(),
+    supabase.from<RiderLocation>('rider_locations').select('*').in('id', ids).get(),
+    fetchRiderDuties(ids),
+  ]);
+  if (ordersRes.error) throw new Error(ordersRes.error.message);
+  if (locationsRes.error) throw new Error(locationsRes.error.message);
+  const locations = new Map((locationsRes.data ?? []).map((l) => [l.id, l]));
+
+  const now = new Date();
+  return riders.map((rider) => {
+    const orders = (ordersRes.data ?? []).filter((o) => o.delivery_boy_id === rider.id);
+    const assignedTimes = orders.map((o) => lastAssignedAt(o, rider.id)).sort();
+    const lastDrop = orders
+      .filter((o) => o.status === 'delivered')
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0];
+    const reported = locations.get(rider.id);
+    const location = reported && (!lastDrop || reported.updated_at >= lastDrop.updated_at)
+      ? { latitude: reported.latitude, longitude: reported.longitude, at: reported.updated_at }
+      : lastDrop
+        ? { latitude: lastDrop.latitude, longitude: lastDrop.longitude, at: lastDrop.updated_at }
+        : null;
+    return {
+      id: rider.id,
+      name: rider.full_name || rider.phone,
+      active_orders: orders.filter((o) => !TERMINAL_STATUSES.includes(o.status)).length,
+      last_assigned_at: assignedTimes[assignedTimes.length - 1] ?? null,
+      location,
+      availability: riderAvailability(duties.get(rider.id) ?? null, now),
+    };
+  });
+}
+
+/**
+ * Runs `strategy` over the available riders and assigns the one it picks,
+ * noting the strategy on the order. Resolves with the rider, or null when
+ * nobody is available.
+ */
+export async function autoAssignOrder(
+  order: Order,
+  strategy: AssignmentStrategy,
+  ctx: TransitionContext
+): Promise<RiderCandidate | null> {
+  const [candidates, shop] = await Promise.all([loadRiderCandidates(), fetchShopLocation()]);
+  const pickup = hasShopCoordinates(shop) ? { latitude: shop.latitude, longitude: shop.longitude } : null;
+  const eligible = candidates.filter((c) => c.availability.available && c.id !== order.delivery_boy_id);
+  const rider = strategy.pick({ order, pickup }, eligible);
+  if (!rider) return null;
+
+  const note = order.delivery_boy_id
+    ? `Reassigned automatically (${strategy.label.toLowerCase()})`
+    : `Assigned automatically (${strategy.label.toLowerCase()})`;
+  await assignRider(order.id, rider.id, ctx, note);
+  return rider;
+}
+
+/**
+ * Called after the owner accepts an order: assigns a rider with the shop's
+ * strategy unless assignment is manual or the order already has one.
+ */
+export async function assignOnAccept(order: Order, ctx: TransitionContext): Promise<RiderCandidate | null> {
+  if (order.delivery_boy_id || !ACCEPT_STATUSES.includes(order.status)) return null;
+  const strategy = shopAssignmentStrategy(await fetchShopLocation());
+  return strategy ? autoAssignOrder(order, strategy, ctx) : null;
+}
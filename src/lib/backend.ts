@@ -0,0 +1,245 @@
+// Backend contract behind the `supabase` shim. Each backend (Firebase, in-memory)
+// implements the same Supabase-like surface so pages never know which one is live.
+import type { DocumentData } from 'firebase/firestore';
+
+export type User = {
+  id: string;
+  email?: string | null;
+};
+
+export type Session = { user: User | null };
+
+export type BackendError = { code: string; message: string };
+
+export type QueryResult<T> = { data: T[] | null; error: BackendError | null };
+export type SingleResult<T> = { data: T | null; error: BackendError | null };
+
+export interface WithId extends DocumentData {
+  id?: string;
+}
+
+export type QueryFilter = { type: 'eq' | 'in'; field: string; value: unknown };
+export type QueryOperation = 'select' | 'insert' | 'update' | 'delete';
+
+export function asBackendError(err: unknown): BackendError {
+  if (err && typeof err === 'object' && 'code' in err && 'message' in err) {
+    return err as BackendError;
+  }
+  return {
+    code: 'unknown',
+    message: err instanceof Error ? err.message : String(err)
+  };
+}
+
+// Chainable query state shared by every backend. Subclasses only decide how
+// get() and insert() reach their storage; filtering by 'id' means the row key.
+export abstract class QueryBuilder<T extends WithId> {
+  protected readonly table: string;
+  protected filters: QueryFilter[] = [];
+  protected notEqualsFilters: Array<{ field: string; value: unknown }> = [];
+  protected orderBy: { field: string; ascending?: boolean } | null = null;
+  protected limitCount: number | null = null;
+  protected maybeSingleFlag = false;
+  protected selectStr = '*';
+  protected operation: QueryOperation = 'select';
+  protected payload: DocumentData | DocumentData[] | null = null;
+  protected onConflict?: string;
+
+  constructor(table: string) {
+    this.table = table;
+  }
+
+  eq(field: keyof T, value: unknown): QueryBuilder<T> {
+    this.filters.push({ type: 'eq', field: field as string, value });
+    return this;
+  }
+
+  in(field: keyof T, values: unknown[]): QueryBuilder<T> {
+    this.filters.push({ type: 'in', field: field as string, value: values });
+    return this;
+  }
+
+  neq(field: keyof T, value: unknown): QueryBuilder<T> {
+    this.notEqualsFilters.push({ field: field as string, value });
+    return this;
+  }
+
+  order(field: keyof T, opts?: { ascending?: boolean }): QueryBuilder<T> {
+    this.orderBy = { field: field as string, ascending: opts?.ascending };
+    return this;
+  }
+
+  limit(n: number): QueryBuilder<T> {
+    this.limitCount = n;
+    return this;
+  }
+
+  select(selectStr = '*'): QueryBuilder<T> {
+    this.selectStr = selectStr;
+    return this;
+  }
+
+  async single(): Promise<SingleResult<T>> {
+    this.maybeSingleFlag = true;
+    const result = await this.get();
+    if (result.error) return { data: null, error: result.error };
+    return { data: result.data?.[0] || null, error: null };
+  }
+
+  async maybeSingle(): Promise<SingleResult<T>> {
+    this.maybeSingleFlag = true;
+    const result = await this.get();
+    if (result.error) return { data: null, error: result.error };
+    return { data: result.data?.[0] ?? null, error: null };
+  }
+
+  abstract get(): Promise<QueryResult<T>>;
+
+  abstract insert(payload: Partial<T> | Partial<T>[]): Promise<QueryResult<T>>;
+
+  // Make the QueryBuilder awaitable/thenable so callers that `await` the builder
+  // receive the same shape as .get(). This helps compatibility with existing
+  // code that treated .select() as returning a promise.
+  then<TResult1 = QueryResult<T>, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult<T>) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): Promise<TResult1 | TResult2> {
+    return this.get().then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Upsert accepts a single item or an array of items. If an item has an `id` field
+   * we write it with merge, otherwise we add a new row.
+   * Optional opts supports { onConflict: 'id' } to mirror Supabase signature.
+   */
+  upsert(payload: Partial<T> | Partial<T>[], opts?: { onConflict?: string }): QueryBuilder<T> {
+    this.operation = 'update';
+    this.payload = Array.isArray(payload) ? (payload as DocumentData[]) : (payload as DocumentData);
+    if (opts?.onConflict) {
+      this.onConflict = opts.onConflict;
+    }
+    return this;
+  }
+
+  // Make update/delete chainable: store payload and perform action when get() is invoked
+  update(updates: Partial<Omit<T, 'id'>>): QueryBuilder<T> {
+    this.operation = 'update';
+    this.payload = updates as DocumentData;
+    return this;
+  }
+
+  delete(): QueryBuilder<T> {
+    this.operation = 'delete';
+    return this;
+  }
+}
+
+export type ChannelOptions = {
+  table: string;
+  filter?: string;
+  event?: string;
+  schema?: string;
+};
+
+export interface RealtimeChannel {
+  on(event: string, opts: ChannelOptions, cb: () => void): RealtimeChannel;
+  subscribe(): RealtimeChannel;
+  unsubscribe(): void;
+}
+
+export type RealtimeClause = { field: string; op: 'eq' | 'neq'; value: string };
+
+// Parse comma-separated filters like "delivery_boy_id=eq.{id},status=eq.accepted",
+// which is how Supabase's realtime filter string is commonly formatted.
+export function parseRealtimeFilter(filter?: string): RealtimeClause[] {
+  if (!filter) return [];
+  const clauses: RealtimeClause[] = [];
+  for (const part of filter.split(',').map(p => p.trim()).filter(Boolean)) {
+    if (!part.includes('=')) continue;
+    const [field, rhs] = part.split('=');
+    if (!rhs) continue;
+    const [op, ...rest] = rhs.split('.');
+    // join the rest in case value contains dots
+    const value = rest.join('.');
+    if (op === 'eq') {
+      clauses.push({ field, op: 'eq', value });
+    } else if (op === 'neq' || op === 'not') {
+      clauses.push({ field, op: 'neq', value });
+    }
+  }
+  return clauses;
+}
+
+export type PublicUrlResult = {
+  data: { publicUrl: string };
+  urlPromise?: Promise<{ publicUrl: string }>;
+};
+
+export interface StorageBucket {
+  upload(path: string, file: Blob | Uint8Array | ArrayBuffer): Promise<{ error: unknown }>;
+  getPublicUrl(path: string): PublicUrlResult;
+}
+
+export type AuthResult = { data: { user: User | null } | null; error: unknown };
+
+export interface AuthApi {
+  signUp(creds: { email: string; password: string }): Promise<AuthResult>;
+  signInWithPassword(creds: { email: string; password: string }): Promise<AuthResult>;
+  signOut(): Promise<{ error: unknown }>;
+  getSession(): Promise<{ data: { session: Session | null } | null; error: unknown }>;
+  onAuthStateChange(
+    cb: (event: string, session: Session | null) => void
+  ): { data: { subscription: { unsubscribe: () => void } } };
+  updateUser(updates: { email?: string; password?: string }): Promise<AuthResult>;
+}
+
+export type IncrementChange = { id: string; field: string; by: number };
+export type IncrementResult = {
+  data: Array<{ id: string; value: number }> | null;
+  error: BackendError | null;
+};
+
+/**
+ * Handle passed to Backend.transaction(). Reads return committed data; writes
+ * are buffered and applied together when the callback resolves. As in
+ * Firestore, do every get() before the first write.
+ */
+export interface Transaction {
+  get<T extends WithId>(table: string, id: string): Promise<T | null>;
+  // Creates or overwrites the row
+  set(table: string, id: string, data: DocumentData): void;
+  // Merges into an existing row; the commit fails with 'not-found' if it is missing
+  update(table: string, id: string, data: DocumentData): void;
+  delete(table: string, id: string): void;
+  // A fresh row id for `table`, for rows created inside the transaction
+  newId(table: string): string;
+}
+
+export type TransactionResult<R> = { data: R | null; error: BackendError | null };
+
+export type RpcResult<R> = { data: R | null; error: BackendError | null };
+
+export interface Backend {
+  name: string;
+  from<T extends WithId>(table: string): QueryBuilder<T>;
+  /**
+   * Atomically adds `by` to numeric fields on several rows of one table. Either
+   * every change lands or none does: a missing row fails with 'not-found' and
+   * a result below `opts.min` fails with 'out-of-range'. Non-numeric fields count as 0.
+   */
+  increment(table: string, changes: IncrementChange[], opts?: { min?: number }): Promise<IncrementResult>;
+  /**
+   * Runs `fn` and commits all of its writes atomically, or none of them if it
+   * throws. The callback may be re-run when rows it read change underneath it,
+   * so it must not have side effects outside the transaction.
+   */
+  transaction<R>(fn: (tx: Transaction) => Promise<R>): Promise<TransactionResult<R>>;
+  /**
+   * Runs one of the trusted handlers in serverFunctions.ts as the signed-in
+   * user: a Cloud Function in production, in-process for the memory backend.
+   */
+  rpc<R>(fn: string, params: Record<string, unknown>): Promise<RpcResult<R>>;
+  channel(): RealtimeChannel;
+  storage: { from(bucket: string): StorageBucket };
+  auth: AuthApi;
+}
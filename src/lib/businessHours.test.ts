@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { closedMessage, nextOpening, shopStatus } from './businessHours';
+import type { DayHours } from './shop';
+
+// Shut on Sundays, 9 to 8 the rest of the week. 19 Oct 2026 is a Monday.
+const weekHours: (DayHours | null)[] = [null, ...Array(6).fill({ open: '09:00', close: '20:00' })];
+const shop = { opening_hours: weekHours, holidays: [], orders_paused: false };
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 9, day, hour, minute);
+
+describe('shopStatus', () => {
+  it('is open within the day\'s hours', () => {
+    expect(shopStatus(shop, at(19, 12))).toEqual({ open: true, reason: null, nextOpen: at(19, 12) });
+  });
+
+  it('points at the next opening outside hours', () => {
+    expect(shopStatus(shop, at(19, 7))).toEqual({ open: false, reason: 'hours', nextOpen: at(19, 9) });
+    expect(shopStatus(shop, at(19, 20))).toEqual({ open: false, reason: 'hours', nextOpen: at(20, 9) });
+  });
+
+  it('skips days without hours', () => {
+    expect(shopStatus(shop, at(24, 21)).nextOpen).toEqual(at(26, 9));
+  });
+
+  it('is closed on a holiday and reopens the day after', () => {
+    const status = shopStatus({ ...shop, holidays: [{ date: '2026-10-20', note: 'Diwali' }] }, at(20, 12));
+    expect(status).toEqual({ open: false, reason: 'holiday', nextOpen: at(21, 9), holiday: { date: '2026-10-20', note: 'Diwali' } });
+    expect(closedMessage(status, at(20, 12))).toBe(
+      'The shop is closed today for Diwali. Orders placed now will be processed when it opens tomorrow at 9:00 AM.'
+    );
+  });
+
+  it('takes no orders while paused', () => {
+    const status = shopStatus({ ...shop, orders_paused: true }, at(19, 12));
+    expect(status).toEqual({ open: false, reason: 'paused', nextOpen: null });
+  });
+
+  it('treats a shop without saved hours as always open', () => {
+    expect(shopStatus({ opening_hours: undefined, holidays: [], orders_paused: false }, at(25, 3)).open).toBe(true);
+  });
+});
+
+describe('nextOpening', () => {
+  it('gives up when the shop never opens', () => {
+    expect(nextOpening({ ...shop, opening_hours: Array(7).fill(null) }, at(19, 12))).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+// Whether the shop is taking orders right now. Weekly hours and holidays are
+// read in the browser's local time, which is assumed to be the shop's. A paused
+// shop refuses orders outright; outside hours or on a holiday an order is still
+// accepted but scheduled for the next opening.
+import type { ShopLocation } from './supabase';
+import { WEEKDAYS, atTime, formatTime, openingHours, timeOfDay } from './shop';
+
+export type ShopHoliday = {
+  // Local calendar day, YYYY-MM-DD
+  date: string;
+  note?: string;
+};
+
+export type ShopClosedReason = 'paused' | 'holiday' | 'hours';
+
+export type ShopStatus = {
+  open: boolean;
+  reason: ShopClosedReason | null;
+  // When orders will next be processed; null while paused or if the shop never opens
+  nextOpen: Date | null;
+  holiday?: ShopHoliday;
+};
+
+type HoursSource = Pick<ShopLocation, 'opening_hours' | 'holidays' | 'orders_paused'> | null;
+
+// How far ahead nextOpening() looks before giving up
+const LOOKAHEAD_DAYS = 60;
+
+export function localDateKey(date: Date): string {
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+function holidayOn(shop: HoursSource, date: Date): ShopHoliday | undefined {
+  const key = localDateKey(date);
+  return (shop?.holidays ?? []).find((h) => h.date === key);
+}
+
+/**
+ * `from` itself when the shop is open then, otherwise the start of the next
+ * opening. Ignores the pause switch. A shop that never saved its hours is
+ * treated as open around the clock, as it was before hours existed.
+ */
+export function nextOpening(shop: HoursSource, from: Date): Date | null {
+  const hours = shop?.opening_hours ? openingHours(shop) : null;
+  for (let i = 0; i < LOOKAHEAD_DAYS; i++) {
+    const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + i);
+    if (holidayOn(shop, day)) continue;
+    if (!hours) return i === 0 ? from : day;
+    const today = hours[day.getDay()];
+    if (!today) continue;
+    const opens = atTime(day, today.open);
+    const closes = atTime(day, today.close);
+    if (i === 0 && from >= closes) continue;
+    return from > opens ? from : opens;
+  }
+  return null;
+}
+
+export function shopStatus(shop: HoursSource, now: Date = new Date()): ShopStatus {
+  if (shop?.orders_paused) return { open: false, reason: 'paused', nextOpen: null };
+
+  const holiday = holidayOn(shop, now);
+  const next = nextOpening(shop, now);
+  if (holiday) return { open: false, reason: 'holiday', nextOpen: next, holiday };
+  if (next && next.getTime() === now.getTime()) return { open: true, reason: null, nextOpen: now };
+  return { open: false, reason: 'hours', nextOpen: next };
+}
+
+/** "today at 9:00 AM", "tomorrow at 9:00 AM" or "Monday, 21 Oct at 9:00 AM". */
+export function formatOpening(date: Date, now: Date = new Date()): string {
+  const time = formatTime(timeOfDay(date));
+  const days = Math.round(
+    (new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() -
+      new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()) /
+      86400000
+  );
+  if (days === 0) return `today at ${time}`;
+  if (days === 1) return `tomorrow at ${time}`;
+  const label = `${WEEKDAYS[date.getDay()]}, ${date.getDate()} ${date.toLocaleString('en-IN', { month: 'short' })}`;
+  return `${label} at ${time}`;
+}
+
+/** Customer-facing sentence for a closed shop, or null when it is open. */
+export function closedMessage(status: ShopStatus, now: Date = new Date()): string | null {
+  if (status.open) return null;
+  if (status.reason === 'paused') return 'The shop is not taking orders right now. Please check back soon.';
+  const why = status.reason === 'holiday' ? `The shop is closed today${status.holiday?.note ? ` for ${status.holiday.note}` : ''}` : 'The shop is closed right now';
+  return status.nextOpen
+    ? `${why}. Orders placed now will be processed when it opens ${formatOpening(status.nextOpen, now)}.`
+    : `${why}.`;
+}
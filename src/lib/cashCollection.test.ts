@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Order, supabase } from './supabase';
+import { cashCollectionError, fetchCashBalance, fetchCashCollections, recordCashCollection, settleCash } from './cashCollection';
+import { installTestBackend } from './testFixtures';
+
+const rider = { role: 'delivery' as const, actorId: 'delivery-1' };
+const owner = { role: 'owner' as const, actorId: 'owner-1' };
+
+const delivered = (id: string, total: number, fields: Partial<Order> = {}) => ({
+  id,
+  order_number: `JJ-${id}`,
+  customer_id: 'customer-1',
+  delivery_boy_id: 'delivery-1',
+  status: 'delivered',
+  payment_method: 'cod',
+  payment_status: 'unpaid',
+  total_amount: total,
+  created_at: '2026-10-19T04:00:00Z',
+  ...fields,
+});
+
+beforeEach(() => {
+  installTestBackend((seed) => {
+    seed.tables!.orders = [
+      delivered('order-1', 1080),
+      delivered('order-2', 650),
+      delivered('order-card', 1200, { payment_method: 'card', payment_status: 'paid' }),
+      delivered('order-out', 500, { status: 'out_for_delivery' }),
+    ];
+  });
+});
+
+describe('cashCollectionError', () => {
+  it('needs a note whenever the cash is not exact', () => {
+    expect(cashCollectionError(1080, 1080, '')).toBeNull();
+    expect(cashCollectionError(1080, 1000, '')).toBe('Add a note saying why the cash is short');
+    expect(cashCollectionError(1080, 1100, '')).toBe('Add a note about the extra cash, e.g. change not returned');
+    expect(cashCollectionError(1080, 1000, 'Customer short of change')).toBeNull();
+  });
+});
+
+describe('recordCashCollection', () => {
+  it('adds the cash to the rider\'s balance and marks the order paid', async () => {
+    const collection = await recordCashCollection('order-1', { amount: 1000, note: 'Short by 80' }, rider);
+    expect(collection).toMatchObject({ amount_due: 1080, amount_collected: 1000, difference: -80, note: 'Short by 80' });
+    expect(await fetchCashBalance('delivery-1')).toMatchObject({ balance: 1000, collected_total: 1000 });
+    const { data: order } = await supabase.from<Order>('orders').select('*').eq('id', 'order-1').maybeSingle();
+    expect(order?.payment_status).toBe('paid');
+  });
+
+  it('records each order once', async () => {
+    await recordCashCollection('order-1', { amount: 1080 }, rider);
+    await expect(recordCashCollection('order-1', { amount: 1080 }, rider)).rejects.toThrow(
+      'Cash for this order has already been recorded'
+    );
+    expect((await fetchCashBalance('delivery-1'))?.balance).toBe(1080);
+  });
+
+  it('refuses orders that are paid online, not delivered or not the rider\'s', async () => {
+    await expect(recordCashCollection('order-card', { amount: 1200 }, rider)).rejects.toThrow('This order was paid online');
+    await expect(recordCashCollection('order-out', { amount: 500 }, rider)).rejects.toThrow('Confirm the delivery before recording the cash');
+    await expect(recordCashCollection('order-1', { amount: 1080 }, { role: 'delivery', actorId: 'delivery-2' })).rejects.toThrow(
+      'This order is not assigned to you'
+    );
+  });
+});
+
+describe('settleCash', () => {
+  beforeEach(async () => {
+    await recordCashCollection('order-1', { amount: 1080 }, rider);
+    await recordCashCollection('order-2', { amount: 650 }, rider);
+  });
+
+  it('closes every open collection and carries a short handover forward', async () => {
+    const settlement = await settleCash('delivery-1', { amount: 1500 }, owner);
+    expect(settlement).toMatchObject({ expected: 1730, amount: 1500, carried_forward: 230 });
+    expect([...settlement.collection_ids].sort()).toEqual(['order-1', 'order-2']);
+    expect(await fetchCashBalance('delivery-1')).toMatchObject({ balance: 230, settled_total: 1500 });
+    expect(await fetchCashCollections('delivery-1', { unsettledOnly: true })).toEqual([]);
+  });
+
+  it('refuses more than the rider holds, and riders settling themselves', async () => {
+    await expect(settleCash('delivery-1', { amount: 2000 }, owner)).rejects.toThrow('Only ₹1730.00 is due from this delivery person');
+    await expect(settleCash('delivery-1', { amount: 100 }, rider)).rejects.toThrow('Only the owner can settle cash');
+  });
+});
@@ -0,0 +1,213 @@
+// Cash on delivery. After handing over a COD order the rider records what the
+// customer actually paid in `cash_collections` (one row per order, keyed by the
+// order id), with a note when it differs from the amount due. Each rider has a
+// running cash-in-hand balance in `cash_balances`, keyed by their user id: a
+// collection adds to it and a settlement with the owner takes away what was
+// handed over, so a short handover simply stays on the balance.
+import { supabase, Order } from './supabase';
+import { paysOnDelivery } from './payments';
+import { TransitionContext, signalOrderUpdated } from './orderStatus';
+import { roundMoney } from './money';
+
+export type CashCollection = {
+  id: string;
+  order_id: string;
+  order_number: string;
+  delivery_boy_id: string;
+  amount_due: number;
+  amount_collected: number;
+  // amount_collected - amount_due; negative when the customer paid short
+  difference: number;
+  note: string | null;
+  collected_at: string;
+  // Set once the collection is included in a settlement
+  settlement_id: string | null;
+};
+
+export type CashBalance = {
+  id: string;
+  delivery_boy_id: string;
+  // Cash the rider is holding for the shop
+  balance: number;
+  collected_total: number;
+  settled_total: number;
+  updated_at: string;
+};
+
+export type CashSettlement = {
+  id: string;
+  delivery_boy_id: string;
+  // Balance when the owner settled, and what was actually handed over
+  expected: number;
+  amount: number;
+  // Left on the rider's balance afterwards
+  carried_forward: number;
+  collection_ids: string[];
+  note: string | null;
+  settled_by: string | null;
+  created_at: string;
+};
+
+/** Whether the rider still has to record the cash for this delivered order. */
+export function needsCashCollection(order: Pick<Order, 'status' | 'payment_method' | 'payment_status'>): boolean {
+  return order.status === 'delivered' && paysOnDelivery(order.payment_method) && order.payment_status !== 'paid';
+}
+
+/** Validates what the rider typed in; a note is required whenever the amount is not exact. */
+export function cashCollectionError(due: number, amount: number, note: string): string | null {
+  if (!Number.isFinite(amount) || amount < 0) return 'Enter the amount of cash collected';
+  if (roundMoney(amount) !== roundMoney(due) && !note.trim()) {
+    return amount < due ? 'Add a note saying why the cash is short' : 'Add a note about the extra cash, e.g. change not returned';
+  }
+  return null;
+}
+
+export async function fetchCashBalances(): Promise<CashBalance[]> {
+  const { data, error } = await supabase.from<CashBalance>('cash_balances').select('*').get();
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+export async function fetchCashBalance(deliveryBoyId: string): Promise<CashBalance | null> {
+  const { data, error } = await supabase.from<CashBalance>('cash_balances').select('*').eq('id', deliveryBoyId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/** A rider's collections, newest first; `unsettledOnly` leaves out those already settled. */
+export async function fetchCashCollections(deliveryBoyId: string, opts: { unsettledOnly?: boolean } = {}): Promise<CashCollection[]> {
+  const { data, error } = await supabase
+    .from<CashCollection>('cash_collections')
+    .select('*')
+    .eq('delivery_boy_id', deliveryBoyId)
+    .order('collected_at', { ascending: false })
+    .get();
+  if (error) throw new Error(error.message);
+  return (data ?? []).filter((c) => !opts.unsettledOnly || !c.settlement_id);
+}
+
+/** Settlements newest first, for one rider or everyone. */
+export async function fetchCashSettlements(deliveryBoyId?: string): Promise<CashSettlement[]> {
+  let query = supabase.from<CashSettlement>('cash_settlements').select('*');
+  if (deliveryBoyId) query = query.eq('delivery_boy_id', deliveryBoyId);
+  const { data, error } = await query.order('created_at', { ascending: false }).get();
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+const emptyBalance = (deliveryBoyId: string, now: string): CashBalance => ({
+  id: deliveryBoyId,
+  delivery_boy_id: deliveryBoyId,
+  balance: 0,
+  collected_total: 0,
+  settled_total: 0,
+  updated_at: now,
+});
+
+/**
+ * Records the cash the rider took for a delivered COD order, adds it to their
+ * balance and marks the order paid. Each order can be recorded once.
+ */
+export async function recordCashCollection(
+  orderId: string,
+  input: { amount: number; note?: string },
+  ctx: TransitionContext
+): Promise<CashCollection> {
+  const note = input.note?.trim() ?? '';
+  const riderId = ctx.actorId;
+  if (ctx.role !== 'delivery' || !riderId) throw new Error('Only the delivery person can record cash collected');
+
+  const { data, error } = await supabase.transaction<CashCollection>(async (tx) => {
+    const order = await tx.get<Order>('orders', orderId);
+    if (!order) throw new Error('Order not found');
+    if (order.delivery_boy_id !== riderId) throw new Error('This order is not assigned to you');
+    if (!paysOnDelivery(order.payment_method)) throw new Error('This order was paid online; there is no cash to collect');
+    if (order.status !== 'delivered') throw new Error('Confirm the delivery before recording the cash');
+    if (await tx.get<CashCollection>('cash_collections', orderId)) throw new Error('Cash for this order has already been recorded');
+
+    const problem = cashCollectionError(order.total_amount, input.amount, note);
+    if (problem) throw new Error(problem);
+
+    const now = new Date().toISOString();
+    const balance = (await tx.get<CashBalance>('cash_balances', riderId)) ?? emptyBalance(riderId, now);
+    const amount = roundMoney(input.amount);
+    const collection: CashCollection = {
+      id: orderId,
+      order_id: orderId,
+      order_number: order.order_number,
+      delivery_boy_id: riderId,
+      amount_due: order.total_amount,
+      amount_collected: amount,
+      difference: roundMoney(amount - order.total_amount),
+      note: note || null,
+      collected_at: now,
+      settlement_id: null,
+    };
+
+    tx.set('cash_collections', orderId, collection);
+    tx.set('cash_balances', riderId, {
+      ...balance,
+      balance: roundMoney(balance.balance + amount),
+      collected_total: roundMoney(balance.collected_total + amount),
+      updated_at: now,
+    });
+    tx.update('orders', orderId, { payment_status: 'paid', updated_at: now });
+    return collection;
+  });
+  if (error || !data) throw new Error(error?.message || 'Could not record the cash collected');
+
+  signalOrderUpdated();
+  return data;
+}
+
+/**
+ * The owner takes `amount` from the rider. Every collection not yet settled is
+ * closed by this settlement; whatever was not handed over stays on the balance.
+ */
+export async function settleCash(
+  deliveryBoyId: string,
+  input: { amount: number; note?: string },
+  ctx: TransitionContext
+): Promise<CashSettlement> {
+  if (ctx.role !== 'owner') throw new Error('Only the owner can settle cash');
+  if (!Number.isFinite(input.amount) || input.amount <= 0) throw new Error('Enter the amount of cash received');
+
+  const open = await fetchCashCollections(deliveryBoyId, { unsettledOnly: true });
+
+  const { data, error } = await supabase.transaction<CashSettlement>(async (tx) => {
+    const balance = await tx.get<CashBalance>('cash_balances', deliveryBoyId);
+    if (!balance || balance.balance <= 0) throw new Error('This delivery person has no cash to settle');
+    const amount = roundMoney(input.amount);
+    if (amount > balance.balance) throw new Error(`Only ₹${balance.balance.toFixed(2)} is due from this delivery person`);
+
+    // Re-read so a collection settled by a concurrent settlement is not claimed twice
+    const collections = (await Promise.all(open.map((c) => tx.get<CashCollection>('cash_collections', c.id))))
+      .filter((c): c is CashCollection => !!c && !c.settlement_id);
+
+    const now = new Date().toISOString();
+    const id = tx.newId('cash_settlements');
+    const settlement: CashSettlement = {
+      id,
+      delivery_boy_id: deliveryBoyId,
+      expected: balance.balance,
+      amount,
+      carried_forward: roundMoney(balance.balance - amount),
+      collection_ids: collections.map((c) => c.id),
+      note: input.note?.trim() || null,
+      settled_by: ctx.actorId ?? null,
+      created_at: now,
+    };
+
+    tx.set('cash_settlements', id, settlement);
+    tx.set('cash_balances', deliveryBoyId, {
+      ...balance,
+      balance: settlement.carried_forward,
+      settled_total: roundMoney(balance.settled_total + amount),
+      updated_at: now,
+    });
+    collections.forEach((c) => tx.update('cash_collections', c.id, { settlement_id: id }));
+    return settlement;
+  });
+  if (error || !data) throw new Error(error?.message || 'Could not settle the cash');
+  return data;
+}
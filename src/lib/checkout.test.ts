@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ItemVariant, Order, OrderItem, supabase } from './supabase';
+import { placeOrder, updateOrderQuantities } from './checkout';
+import { transitionOrder } from './orderStatus';
+import { loadCustomerPins } from './deliveryPin';
+import type { Coupon } from './coupons';
+import { checkoutInput, installTestBackend, orderLine } from './testFixtures';
+
+const customer = { role: 'customer' as const, actorId: 'customer-1' };
+
+async function stock(variantId: string) {
+  const { data } = await supabase.from<ItemVariant>('item_variants').select('*').eq('id', variantId).maybeSingle();
+  return data?.stock;
+}
+
+beforeEach(() => {
+  installTestBackend();
+});
+
+describe('placeOrder stock reservation', () => {
+  it('takes the ordered units out of stock', async () => {
+    const { order } = await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 3)]));
+    expect(order.stock_reserved).toBe(true);
+    expect(await stock('var-dokra-1')).toBe(1);
+  });
+
+  it('refuses an over-sold cart and reserves nothing from it', async () => {
+    const items = [orderLine('var-pattachitra-s', 850, 1), orderLine('var-pattachitra-l', 2200, 3)];
+    await expect(placeOrder(checkoutInput('key-1', items))).rejects.toThrow('Only 2 left of Test item (1 piece)');
+    expect(await stock('var-pattachitra-s')).toBe(12);
+    expect(await stock('var-pattachitra-l')).toBe(2);
+  });
+
+  it('never blocks variants that do not track stock', async () => {
+    await placeOrder(checkoutInput('key-1', [orderLine('var-sambalpuri-1', 650, 40)]));
+    expect(await stock('var-sambalpuri-1')).toBeUndefined();
+  });
+
+  it('puts the units back once when the order is cancelled', async () => {
+    await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 3)]));
+    const cancelled = await transitionOrder('key-1', 'cancelled', customer);
+    expect(cancelled.stock_reserved).toBe(false);
+    await expect(transitionOrder('key-1', 'cancelled', customer)).rejects.toThrow();
+    expect(await stock('var-dokra-1')).toBe(4);
+  });
+});
+
+describe('placeOrder', () => {
+  it('returns the same order when a submit is retried with its key', async () => {
+    const first = await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 1)]));
+    const retry = await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 1)]));
+    expect(first.created).toBe(true);
+    expect(retry.created).toBe(false);
+    expect(retry.order.order_number).toBe(first.order.order_number);
+    expect(retry.order.order_items).toHaveLength(1);
+    expect(retry.pin).toBe(first.pin);
+    expect(await stock('var-dokra-1')).toBe(3);
+  });
+
+  it('numbers each day\'s orders in sequence', async () => {
+    const a = await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 1)]));
+    const b = await placeOrder(checkoutInput('key-2', [orderLine('var-dokra-1', 1200, 1)]));
+    expect(Number(b.order.order_number.slice(-4))).toBe(Number(a.order.order_number.slice(-4)) + 1);
+  });
+
+  it('leaves no order or items behind when it fails', async () => {
+    await expect(placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 9)]))).rejects.toThrow();
+    const { data: orders } = await supabase.from<Order>('orders').select('*').get();
+    const { data: items } = await supabase.from<OrderItem>('order_items').select('*').get();
+    expect(orders).toEqual([]);
+    expect(items).toEqual([]);
+  });
+
+  it('keeps the PIN off the order and hands it to the customer only', async () => {
+    const { order, pin } = await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 1)]));
+    expect(pin).toMatch(/^\d{6}$/);
+    expect(order.delivery_pin).toBeUndefined();
+    expect(await loadCustomerPins('customer-1')).toEqual({ 'key-1': pin });
+  });
+});
+
+describe('updateOrderQuantities', () => {
+  it('moves stock by the difference from the stored rows, even from a stale screen', async () => {
+    const { order } = await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 3)]));
+    const itemId = order.order_items[0].id;
+    const edited = await updateOrderQuantities('key-1', { [itemId]: 2 });
+    expect(edited.order_items[0]).toMatchObject({ quantity: 2, subtotal: 2400 });
+    expect(edited.subtotal_amount).toBe(2400);
+    expect(await stock('var-dokra-1')).toBe(2);
+
+    // Saving again from the screen that still showed 3 units releases nothing more
+    await updateOrderQuantities('key-1', { [itemId]: 2 });
+    expect(await stock('var-dokra-1')).toBe(2);
+  });
+
+  it('changes nothing when the new quantities are over-sold', async () => {
+    const { order } = await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 3)]));
+    await expect(updateOrderQuantities('key-1', { [order.order_items[0].id]: 6 })).rejects.toThrow('Only 1 left');
+    const { data: item } = await supabase.from<OrderItem>('order_items').select('*').eq('id', order.order_items[0].id).maybeSingle();
+    const { data: saved } = await supabase.from<Order>('orders').select('*').eq('id', 'key-1').maybeSingle();
+    expect(item?.quantity).toBe(3);
+    expect(saved?.total_amount).toBe(order.total_amount);
+    expect(await stock('var-dokra-1')).toBe(1);
+  });
+
+  it('rounds the new totals to the paisa', async () => {
+    const { order } = await placeOrder(checkoutInput('key-1', [orderLine('var-sambalpuri-1', 0.1, 1)]));
+    const edited = await updateOrderQuantities('key-1', { [order.order_items[0].id]: 3 });
+    expect(edited.subtotal_amount).toBe(0.3);
+    expect(edited.total_amount).toBe(0.3 + (order.delivery_fee ?? 0));
+  });
+
+  it('refuses to edit a closed order', async () => {
+    const { order } = await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 3)]));
+    await transitionOrder('key-1', 'cancelled', customer);
+    await expect(updateOrderQuantities('key-1', { [order.order_items[0].id]: 1 })).rejects.toThrow('can no longer be edited');
+  });
+});
+
+describe('placeOrder coupons', () => {
+  async function usedCount(code: string) {
+    const { data } = await supabase.from<Coupon>('coupons').select('*').eq('id', code).maybeSingle();
+    return data?.used_count;
+  }
+
+  it('applies the discount and counts the redemption', async () => {
+    const { order } = await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 1)], { couponCode: 'welcome10' }));
+    expect(order).toMatchObject({ coupon_code: 'WELCOME10', subtotal_amount: 1200, discount_amount: 120, total_amount: 1080 });
+    expect(await usedCount('WELCOME10')).toBe(1);
+  });
+
+  it('holds each customer to the per-customer limit', async () => {
+    await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 1)], { couponCode: 'WELCOME10' }));
+    await expect(
+      placeOrder(checkoutInput('key-2', [orderLine('var-dokra-1', 1200, 1)], { couponCode: 'WELCOME10' }))
+    ).rejects.toThrow('Coupon WELCOME10: You have already used this coupon');
+    expect(await usedCount('WELCOME10')).toBe(1);
+  });
+
+  it('discounts only the category a scoped coupon is for', async () => {
+    const items = [orderLine('var-sambalpuri-1', 650, 1), orderLine('var-dokra-1', 1200, 1)];
+    const { order } = await placeOrder(checkoutInput('key-1', items, { couponCode: 'TEXTILE100' }));
+    expect(order.discount_amount).toBe(100);
+  });
+
+  it('gives the redemption back when the order is cancelled', async () => {
+    await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 1)], { couponCode: 'WELCOME10' }));
+    await transitionOrder('key-1', 'cancelled', customer);
+    expect(await usedCount('WELCOME10')).toBe(0);
+    await placeOrder(checkoutInput('key-2', [orderLine('var-dokra-1', 1200, 1)], { couponCode: 'WELCOME10' }));
+    expect(await usedCount('WELCOME10')).toBe(1);
+  });
+});
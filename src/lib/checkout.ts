@@ -0,0 +1,258 @@
+// Order placement. The order row, its item rows, the stock reservation and a
+// newly entered address for the customer's book are written in one transaction, so a failure part
+// way through leaves nothing behind. The checkout key doubles as the order id,
+// which makes a retried submit return the order it already created. Cash on
+// delivery orders go straight to the shop as `pending`; prepaid ones wait as
+// `awaiting_payment` until lib/payments hears that the money was taken. The
+// owner's later quantity edits are written the same all-or-nothing way.
+import { supabase, Order, OrderItem } from './supabase';
+import { prepareStockAdjustment, prepareStockReservation } from './stock';
+import { prepareCouponRedemption } from './coupons';
+import { deliveryQuote, deliveryQuoteError, fetchShopLocation, hasShopCoordinates, pinCodeQuote } from './shop';
+import { closedMessage, localDateKey, shopStatus } from './businessHours';
+import { prepareSlotBooking, slotWindows } from './deliverySlots';
+import { addressSnapshot } from './addresses';
+import { pinCodeError } from './pinCodes';
+import { CustomerPin, writeNewOrderPin } from './deliveryPin';
+import { ORDER_STATUS_LABELS, OrderStatus, TERMINAL_STATUSES, statusEvent } from './orderStatus';
+import { cardPaymentsEnabled, paidOnline, paysOnDelivery } from './payments';
+import { shopUpiVpa } from './upi';
+import { roundMoney } from './money';
+
+export type NewOrderItem = Omit<OrderItem, 'id' | 'order_id' | 'created_at'>;
+
+export type PlaceOrderInput = {
+  key: string;
+  // order_number, the delivery PIN, the distance, the amounts and the status are assigned by placeOrder()
+  order: Omit<
+    Partial<Order>,
+    | 'id'
+    | 'order_items'
+    | 'order_number'
+    | 'delivery_pin'
+    | 'distance_km'
+    | 'subtotal_amount'
+    | 'coupon_code'
+    | 'discount_amount'
+    | 'delivery_fee'
+    | 'total_amount'
+    | 'placed_outside_hours'
+    | 'process_after'
+    | 'delivery_slot'
+    | 'status'
+    | 'status_history'
+    | 'payment_status'
+  > &
+    Pick<Order, 'customer_id'>;
+  items: NewOrderItem[];
+  couponCode?: string | null;
+  // Required when the shop offers delivery slots
+  deliverySlotId?: string | null;
+  // Adds order.delivery_address_details to the customer's address book. Other
+  // defaults are not cleared here, so pass isDefault only for a first address.
+  saveAddress?: { label: string; isDefault: boolean };
+};
+
+export type PlaceOrderResult = {
+  order: Order & { order_items: OrderItem[] };
+  // Plain delivery PIN for the customer; only ever returned to the buyer
+  pin: string | null;
+  // False when `key` had already been used and the existing order was returned
+  created: boolean;
+};
+
+type OrderCounter = { id: string; date: string; last: number };
+
+// Local calendar day as YYYYMMDD; order numbers restart at 1 every day
+function dayStamp(date: Date) {
+  return localDateKey(date).replace(/-/g, '');
+}
+
+export function formatOrderNumber(day: string, seq: number): string {
+  return `ORD-${day}-${String(seq).padStart(4, '0')}`;
+}
+
+/** A fresh idempotency key; keep it for every retry of the same submit. */
+export function newCheckoutKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `chk-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function placeOrder({ key, order, items, couponCode, deliverySlotId, saveAddress }: PlaceOrderInput): Promise<PlaceOrderResult> {
+  if (items.length === 0) throw new Error('Your cart is empty');
+
+  // Without a configured shop there is nothing to measure from, so delivery is free
+  const shop = await fetchShopLocation();
+  const status = shopStatus(shop);
+  // Closed by hours or a holiday is fine, the order waits; paused or never opening is not
+  if (!status.open && !status.nextOpen) {
+    throw new Error(closedMessage(status) ?? 'The shop is not taking orders right now');
+  }
+  if (slotWindows(shop).length > 0 && !deliverySlotId) throw new Error('Please choose a delivery slot');
+  if (order.payment_method === 'upi' && !shopUpiVpa(shop)) throw new Error('This shop does not accept UPI payments yet');
+  if (order.payment_method === 'card' && !cardPaymentsEnabled()) throw new Error('This shop does not accept card payments yet');
+  if (order.delivery_address_details) {
+    const pinProblem = pinCodeError(shop, order.delivery_address_details.pin_code);
+    if (pinProblem) throw new Error(pinProblem);
+  }
+  const hasCoords = typeof order.latitude === 'number' && typeof order.longitude === 'number';
+  const pinCode = order.delivery_address_details?.pin_code;
+  // GPS when the customer shared it; shops with zones can fall back to the PIN code's town
+  const quoteFor = (orderValue: number) => {
+    if (!hasShopCoordinates(shop)) return null;
+    if (hasCoords) return deliveryQuote(shop, order.latitude!, order.longitude!, orderValue);
+    return pinCode ? pinCodeQuote(shop, pinCode, orderValue) : null;
+  };
+  if (hasShopCoordinates(shop)) {
+    const quote = quoteFor(0);
+    if (!quote) throw new Error('Please share your location so we can check that we deliver to you');
+    const problem = deliveryQuoteError(shop, quote);
+    if (problem) throw new Error(problem);
+  }
+
+  const { data, error } = await supabase.transaction(async (tx) => {
+    // All reads first: Firestore rejects reads after a transaction has written
+    const existing = await tx.get<Order>('orders', key);
+    if (existing) {
+      const pinRow = await tx.get<CustomerPin>('customer_pins', key);
+      const { data: rows } = await supabase.from<OrderItem>('order_items').select('*').eq('order_id', key).get();
+      return { order: { ...existing, order_items: rows ?? [] }, pin: pinRow?.pin ?? null, created: false };
+    }
+
+    // The counter row is part of the read set, so two checkouts on the same day
+    // conflict and one is retried with the next number
+    const day = dayStamp(new Date());
+    const counter = await tx.get<OrderCounter>('order_counters', day);
+    const seq = (counter?.last ?? 0) + 1;
+    const orderNumber = formatOrderNumber(day, seq);
+    if (await tx.get('order_numbers', orderNumber)) {
+      throw new Error(`Order number ${orderNumber} is already taken; please try again`);
+    }
+
+    const commitStock = await prepareStockReservation(tx, items);
+    const coupon = couponCode ? await prepareCouponRedemption(tx, couponCode, items, order.customer_id) : null;
+    const slot = deliverySlotId ? await prepareSlotBooking(tx, shop, deliverySlotId) : null;
+
+    const subtotal = roundMoney(items.reduce((sum, item) => sum + item.subtotal, 0));
+    const discount = coupon?.quote.discount ?? 0;
+    // The free-delivery threshold and zone minimums look at what the customer pays for the goods
+    const delivery = quoteFor(subtotal - discount);
+    const minOrderProblem = delivery && deliveryQuoteError(shop!, delivery, subtotal - discount);
+    if (minOrderProblem) throw new Error(minOrderProblem);
+    const deliveryFee = delivery?.fee ?? 0;
+
+    const now = new Date().toISOString();
+    tx.set('order_counters', day, { date: day, last: seq });
+    tx.set('order_numbers', orderNumber, { order_id: key, created_at: now });
+    const initialStatus: OrderStatus = paysOnDelivery(order.payment_method) ? 'pending' : 'awaiting_payment';
+    const orderRow = {
+      ...order,
+      order_number: orderNumber,
+      status: initialStatus,
+      status_history: [statusEvent(initialStatus, { role: 'customer', actorId: order.customer_id })],
+      payment_method: order.payment_method ?? 'cod',
+      payment_status: 'unpaid' as const,
+      ...(delivery && !delivery.approximate ? { distance_km: delivery.distanceKm } : {}),
+      subtotal_amount: subtotal,
+      coupon_code: coupon?.quote.code ?? null,
+      discount_amount: discount,
+      delivery_fee: deliveryFee,
+      total_amount: roundMoney(subtotal - discount + deliveryFee),
+      placed_outside_hours: !status.open,
+      process_after: status.open ? null : status.nextOpen!.toISOString(),
+      delivery_slot: slot?.slot ?? null,
+      stock_reserved: true,
+    };
+    tx.set('orders', key, orderRow);
+    const pin = await writeNewOrderPin(tx, key, order.customer_id);
+
+    const itemRows: OrderItem[] = items.map((item) => {
+      const id = tx.newId('order_items');
+      const row = { ...item, order_id: key, created_at: now };
+      tx.set('order_items', id, row);
+      return { ...row, id };
+    });
+
+    commitStock();
+    coupon?.commit();
+    slot?.commit();
+
+    if (saveAddress && order.delivery_address_details) {
+      tx.set('addresses', tx.newId('addresses'), {
+        ...addressSnapshot(order.delivery_address_details),
+        customer_id: order.customer_id,
+        label: saveAddress.label,
+        is_default: saveAddress.isDefault,
+        created_at: now,
+        updated_at: now,
+      });
+    }
+
+    return { order: { ...orderRow, id: key, order_items: itemRows } as Order & { order_items: OrderItem[] }, pin, created: true };
+  });
+
+  if (error || !data) throw new Error(error?.message || 'Failed to place order');
+  return data;
+}
+
+/**
+ * Saves the owner's new quantities (keyed by order item id). The stock moves by
+ * the difference from the item rows as stored, not as shown on screen, and the
+ * rows, the stock and the order totals are written in one transaction. A coupon
+ * keeps the rupee discount it gave at checkout, but never more than the new
+ * subtotal; the delivery fee stays as charged.
+ */
+export async function updateOrderQuantities(
+  orderId: string,
+  quantities: Record<string, number>
+): Promise<Order & { order_items: OrderItem[] }> {
+  // Transactions read single rows, so find the item ids first and re-read each one inside
+  const { data: rows, error: rowsError } = await supabase.from<OrderItem>('order_items').select('*').eq('order_id', orderId).get();
+  if (rowsError) throw new Error(rowsError.message);
+
+  const { data, error } = await supabase.transaction(async (tx) => {
+    const order = await tx.get<Order>('orders', orderId);
+    if (!order) throw new Error('Order not found');
+    if (TERMINAL_STATUSES.includes(order.status)) {
+      throw new Error(`This order is ${ORDER_STATUS_LABELS[order.status].toLowerCase()} and can no longer be edited`);
+    }
+    if (paidOnline(order)) {
+      throw new Error('This order was paid online, so its quantities cannot be changed. Cancel it to refund the customer instead.');
+    }
+
+    const items: OrderItem[] = [];
+    for (const row of rows ?? []) {
+      const item = await tx.get<OrderItem>('order_items', row.id);
+      if (item) items.push(item);
+    }
+    const edited = items.map((item) => {
+      const quantity = Math.max(0, Math.floor(quantities[item.id] ?? item.quantity));
+      return { ...item, quantity, subtotal: roundMoney(quantity * item.price) };
+    });
+    // A closed order's stock has already been settled
+    const commitStock = order.stock_reserved ? await prepareStockAdjustment(tx, items, edited) : null;
+
+    const subtotal = roundMoney(edited.reduce((sum, item) => sum + item.subtotal, 0));
+    const discount = Math.min(order.discount_amount ?? 0, subtotal);
+    const totals = {
+      subtotal_amount: subtotal,
+      discount_amount: discount,
+      total_amount: roundMoney(subtotal - discount + (order.delivery_fee ?? 0)),
+      updated_at: new Date().toISOString(),
+    };
+
+    commitStock?.();
+    edited.forEach((item, i) => {
+      if (item.quantity !== items[i].quantity) {
+        tx.update('order_items', item.id, { quantity: item.quantity, subtotal: item.subtotal });
+      }
+    });
+    tx.update('orders', orderId, totals);
+    return { ...order, ...totals, order_items: edited };
+  });
+
+  if (error || !data) throw new Error(error?.message || 'Failed to save the new quantities');
+  return data;
+}
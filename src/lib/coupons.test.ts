@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Coupon, couponDiscount, couponError, normalizeCouponCode } from './coupons';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const coupon = (fields: Partial<Coupon> = {}): Coupon => ({
+  id: 'DIWALI10',
+  code: 'DIWALI10',
+  type: 'percent',
+  value: 10,
+  used_count: 0,
+  active: true,
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+  ...fields,
+});
+
+const lines = [
+  { item_id: 'item-sambalpuri', category_id: 'cat-textiles', amount: 1300 },
+  { item_id: 'item-dokra', category_id: 'cat-metal', amount: 700 },
+];
+
+describe('couponError', () => {
+  it('accepts a live coupon', () => {
+    expect(couponError(coupon(), lines, { now })).toBeNull();
+  });
+
+  it('rejects missing, inactive, early and expired coupons', () => {
+    expect(couponError(null, lines, { now })).toBe('Invalid coupon code');
+    expect(couponError(coupon({ active: false }), lines, { now })).toBe('Invalid coupon code');
+    expect(couponError(coupon({ starts_at: '2026-10-20T00:00:00Z' }), lines, { now })).toBe('This coupon is not active yet');
+    expect(couponError(coupon({ expires_at: '2026-10-19T12:00:00Z' }), lines, { now })).toBe('This coupon has expired');
+  });
+
+  it('enforces the global and per-customer limits', () => {
+    expect(couponError(coupon({ usage_limit: 100, used_count: 100 }), lines, { now })).toBe('This coupon has been fully redeemed');
+    expect(couponError(coupon({ per_customer_limit: 1 }), lines, { now, customerUses: 1 })).toBe('You have already used this coupon');
+    expect(couponError(coupon({ per_customer_limit: 2 }), lines, { now, customerUses: 1 })).toBeNull();
+  });
+
+  it('says how much more to add below the minimum order', () => {
+    expect(couponError(coupon({ min_order_value: 2500 }), lines, { now })).toBe('Add ₹500.00 more to use this coupon');
+  });
+
+  it('refuses a scoped coupon when nothing in the cart matches', () => {
+    expect(couponError(coupon({ category_ids: ['cat-stone'] }), lines, { now })).toBe(
+      'This coupon does not apply to the items in your cart'
+    );
+  });
+});
+
+describe('couponDiscount', () => {
+  it('takes a percentage of the cart, up to the cap', () => {
+    expect(couponDiscount(coupon(), lines)).toBe(200);
+    expect(couponDiscount(coupon({ max_discount: 150 }), lines)).toBe(150);
+  });
+
+  it('only discounts the lines a scoped coupon applies to', () => {
+    expect(couponDiscount(coupon({ category_ids: ['cat-metal'] }), lines)).toBe(70);
+    expect(couponDiscount(coupon({ item_ids: ['item-sambalpuri'] }), lines)).toBe(130);
+  });
+
+  it('never takes off more than the eligible lines', () => {
+    expect(couponDiscount(coupon({ type: 'flat', value: 1000, item_ids: ['item-dokra'] }), lines)).toBe(700);
+  });
+});
+
+describe('normalizeCouponCode', () => {
+  it('ignores case and surrounding spaces', () => {
+    expect(normalizeCouponCode('  diwali10 ')).toBe('DIWALI10');
+  });
+});
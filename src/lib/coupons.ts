@@ -0,0 +1,212 @@
+// Coupons and promotions. Cart and Checkout quote a coupon with checkCoupon();
+// placeOrder() applies it again inside the checkout transaction, where usage is
+// counted against the global and per-customer limits, so the stored discount
+// is the only one that counts.
+import { supabase, CartItem, Item } from './supabase';
+import type { Transaction } from './backend';
+import { roundMoney } from './money';
+
+export type CouponType = 'percent' | 'flat';
+
+export type Coupon = {
+  // Upper-cased code; customers may type it in any case
+  id: string;
+  code: string;
+  description?: string;
+  type: CouponType;
+  // Percentage (0-100) for 'percent', rupees for 'flat'
+  value: number;
+  // Upper bound on a percentage discount
+  max_discount?: number | null;
+  // Compared against the whole cart subtotal
+  min_order_value?: number | null;
+  starts_at?: string | null;
+  expires_at?: string | null;
+  // Redemptions across all customers / by one customer; null means unlimited
+  usage_limit?: number | null;
+  per_customer_limit?: number | null;
+  used_count: number;
+  // When either list is non-empty only matching lines are discounted
+  category_ids?: string[];
+  item_ids?: string[];
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+// One row per coupon and customer, keyed by redemptionId()
+export type CouponRedemption = {
+  id: string;
+  coupon_id: string;
+  customer_id: string;
+  count: number;
+  updated_at: string;
+};
+
+export type CouponLine = {
+  item_id: string;
+  category_id?: string | null;
+  amount: number;
+};
+
+export type CouponQuote = {
+  code: string;
+  discount: number;
+  // Part of the subtotal the coupon applied to
+  eligibleSubtotal: number;
+};
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function redemptionId(couponId: string, customerId: string): string {
+  return `${couponId}_${customerId}`;
+}
+
+export function couponLinesFromCart(cart: CartItem[]): CouponLine[] {
+  return cart.map((c) => ({
+    item_id: c.item.id,
+    category_id: c.item.category_id,
+    amount: c.variant.price * c.quantity,
+  }));
+}
+
+function isScoped(coupon: Coupon) {
+  return (coupon.category_ids?.length ?? 0) > 0 || (coupon.item_ids?.length ?? 0) > 0;
+}
+
+function eligibleSubtotal(coupon: Coupon, lines: CouponLine[]) {
+  const applies = (line: CouponLine) =>
+    !isScoped(coupon) ||
+    (coupon.item_ids ?? []).includes(line.item_id) ||
+    (!!line.category_id && (coupon.category_ids ?? []).includes(line.category_id));
+  return lines.filter(applies).reduce((sum, line) => sum + line.amount, 0);
+}
+
+/** Rupees off for `lines`, never more than the lines the coupon applies to. */
+export function couponDiscount(coupon: Coupon, lines: CouponLine[]): number {
+  const eligible = eligibleSubtotal(coupon, lines);
+  let discount = coupon.type === 'percent' ? (eligible * coupon.value) / 100 : coupon.value;
+  if (coupon.type === 'percent' && coupon.max_discount != null) discount = Math.min(discount, coupon.max_discount);
+  return roundMoney(Math.max(0, Math.min(discount, eligible)));
+}
+
+/**
+ * Why `coupon` cannot be used on `lines`, or null when it can. `customerUses` is
+ * how many times this customer has already redeemed it.
+ */
+export function couponError(
+  coupon: Coupon | null,
+  lines: CouponLine[],
+  { customerUses = 0, now = new Date() }: { customerUses?: number; now?: Date } = {}
+): string | null {
+  if (!coupon || !coupon.active) return 'Invalid coupon code';
+  if (coupon.starts_at && new Date(coupon.starts_at) > now) return 'This coupon is not active yet';
+  if (coupon.expires_at && new Date(coupon.expires_at) <= now) return 'This coupon has expired';
+  if (coupon.usage_limit != null && coupon.used_count >= coupon.usage_limit) {
+    return 'This coupon has been fully redeemed';
+  }
+  if (coupon.per_customer_limit != null && customerUses >= coupon.per_customer_limit) {
+    return 'You have already used this coupon';
+  }
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (coupon.min_order_value != null && subtotal < coupon.min_order_value) {
+    return `Add ₹${(coupon.min_order_value - subtotal).toFixed(2)} more to use this coupon`;
+  }
+  if (eligibleSubtotal(coupon, lines) <= 0) return 'This coupon does not apply to the items in your cart';
+  return null;
+}
+
+function quote(coupon: Coupon, lines: CouponLine[]): CouponQuote {
+  return {
+    code: coupon.id,
+    discount: couponDiscount(coupon, lines),
+    eligibleSubtotal: roundMoney(eligibleSubtotal(coupon, lines)),
+  };
+}
+
+/**
+ * Validates `code` against the cart for display. Throws an Error with a
+ * user-facing message when it cannot be used. Without a customer the
+ * per-customer limit is left to placeOrder().
+ */
+export async function checkCoupon(code: string, lines: CouponLine[], customerId?: string | null): Promise<CouponQuote> {
+  const id = normalizeCouponCode(code);
+  if (!id) throw new Error('Enter a coupon code');
+
+  const { data: coupon, error } = await supabase.from<Coupon>('coupons').select('*').eq('id', id).maybeSingle();
+  if (error) throw new Error(error.message);
+
+  let customerUses = 0;
+  if (customerId && coupon) {
+    const { data: row, error: usesError } = await supabase
+      .from<CouponRedemption>('coupon_redemptions')
+      .select('*')
+      .eq('id', redemptionId(id, customerId))
+      .maybeSingle();
+    if (usesError) throw new Error(usesError.message);
+    customerUses = row?.count ?? 0;
+  }
+
+  const reason = couponError(coupon, lines, { customerUses });
+  if (reason) throw new Error(reason);
+  return quote(coupon!, lines);
+}
+
+/**
+ * Transactional counterpart of checkCoupon() used by placeOrder(). Item
+ * categories are re-read through `tx` rather than trusted from the client. The
+ * returned function queues the usage counters and must run after all other reads.
+ */
+export async function prepareCouponRedemption(
+  tx: Transaction,
+  code: string,
+  items: { item_id: string; subtotal: number }[],
+  customerId: string
+): Promise<{ quote: CouponQuote; commit: () => void }> {
+  const id = normalizeCouponCode(code);
+  const coupon = await tx.get<Coupon>('coupons', id);
+  const redemption = await tx.get<CouponRedemption>('coupon_redemptions', redemptionId(id, customerId));
+
+  const categories = new Map<string, string | null>();
+  if (coupon && isScoped(coupon)) {
+    for (const itemId of new Set(items.map((i) => i.item_id))) {
+      const item = await tx.get<Item>('items', itemId);
+      categories.set(itemId, item?.category_id ?? null);
+    }
+  }
+  const lines: CouponLine[] = items.map((i) => ({
+    item_id: i.item_id,
+    category_id: categories.get(i.item_id) ?? null,
+    amount: i.subtotal,
+  }));
+
+  const reason = couponError(coupon, lines, { customerUses: redemption?.count ?? 0 });
+  if (reason) throw new Error(`Coupon ${id}: ${reason}`);
+
+  return {
+    quote: quote(coupon!, lines),
+    commit: () => {
+      const now = new Date().toISOString();
+      tx.update('coupons', id, { used_count: coupon!.used_count + 1, updated_at: now });
+      tx.set('coupon_redemptions', redemptionId(id, customerId), {
+        coupon_id: id,
+        customer_id: customerId,
+        count: (redemption?.count ?? 0) + 1,
+        updated_at: now,
+      });
+    },
+  };
+}
+
+/** Gives a redemption back, e.g. when the order that used it is cancelled. */
+export async function releaseCouponRedemption(code: string, customerId: string): Promise<void> {
+  const id = normalizeCouponCode(code);
+  const [global, own] = await Promise.all([
+    supabase.increment('coupons', [{ id, field: 'used_count', by: -1 }], { min: 0 }),
+    supabase.increment('coupon_redemptions', [{ id: redemptionId(id, customerId), field: 'count', by: -1 }], { min: 0 }),
+  ]);
+  const error = global.error ?? own.error;
+  if (error && error.code !== 'not-found') throw new Error(error.message);
+}
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ItemVariant, Order, supabase } from './supabase';
+import { placeOrder } from './checkout';
+import { transitionOrder } from './orderStatus';
+import { DeliveryAttempt, attemptsLeft, failedAttemptError, recordFailedAttempt, rescheduleDelivery, returnToStock } from './deliveryAttempts';
+import { SlotBooking, upcomingSlots } from './deliverySlots';
+import { fetchShopLocation } from './shop';
+import { checkoutInput, installTestBackend, orderLine } from './testFixtures';
+
+const owner = { role: 'owner' as const, actorId: 'owner-1' };
+const rider = { role: 'delivery' as const, actorId: 'delivery-1' };
+
+async function order(id: string) {
+  const { data } = await supabase.from<Order>('orders').select('*').eq('id', id).maybeSingle();
+  return data!;
+}
+
+beforeEach(async () => {
+  // No GPS in tests, so attempts are recorded without a doorstep fix
+  vi.stubGlobal('navigator', {});
+  installTestBackend();
+  await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 2)]));
+  await supabase.from<Order>('orders').update({ delivery_boy_id: 'delivery-1' }).eq('id', 'key-1').get();
+  await transitionOrder('key-1', 'accepted', rider);
+  await transitionOrder('key-1', 'out_for_delivery', rider);
+});
+
+describe('failedAttemptError', () => {
+  it('needs a reason, and details for a wrong address', () => {
+    expect(failedAttemptError({ reason: '', note: '' })).toBe('Please choose why the delivery failed');
+    expect(failedAttemptError({ reason: 'wrong_address', note: ' ' })).toBe('Please describe what was wrong with the address');
+    expect(failedAttemptError({ reason: 'not_reachable', note: '' })).toBeNull();
+  });
+});
+
+describe('recordFailedAttempt', () => {
+  it('logs the attempt and moves the order to delivery failed', async () => {
+    const failed = await recordFailedAttempt('key-1', { reason: 'not_reachable', note: 'Phone switched off' }, rider);
+    expect(failed.status).toBe('delivery_failed');
+    expect(failed.delivery_attempts).toEqual([
+      expect.objectContaining({ reason: 'not_reachable', note: 'Phone switched off', rider_id: 'delivery-1', location: null }),
+    ]);
+    expect(failed.status_history?.slice(-1)[0].note).toBe('Attempt 1: Customer not reachable — Phone switched off');
+  });
+
+  it('appends to the attempts as stored when the status changes', async () => {
+    const earlier: DeliveryAttempt = { reason: 'refused', note: null, rider_id: 'delivery-1', at: '2026-10-19T04:00:00Z', location: null };
+    // Another device saves an attempt while this one waits for its GPS fix
+    vi.stubGlobal('navigator', {
+      geolocation: {
+        getCurrentPosition: (success: PositionCallback) => {
+          supabase.from<Order>('orders').update({ delivery_attempts: [earlier] }).eq('id', 'key-1').get().then(() =>
+            success({ coords: { latitude: 20.3, longitude: 85.8, accuracy: 12 }, timestamp: Date.now() } as GeolocationPosition)
+          );
+        },
+      },
+    });
+    const failed = await recordFailedAttempt('key-1', { reason: 'not_reachable', note: '' }, rider);
+    expect(failed.delivery_attempts?.map((a) => a.reason)).toEqual(['refused', 'not_reachable']);
+    expect(failed.status_history?.slice(-1)[0].note).toBe('Attempt 2: Customer not reachable');
+  });
+
+  it('is only for the assigned rider', async () => {
+    await expect(recordFailedAttempt('key-1', { reason: 'refused', note: '' }, { role: 'delivery', actorId: 'delivery-2' })).rejects.toThrow(
+      'This order is not assigned to you'
+    );
+  });
+
+  it('allows re-scheduling until the attempts run out, then only a return', async () => {
+    for (let i = 0; i < 3; i++) {
+      if (i > 0) {
+        await rescheduleDelivery('key-1', '', owner);
+        await transitionOrder('key-1', 'out_for_delivery', rider);
+      }
+      await recordFailedAttempt('key-1', { reason: 'not_reachable', note: '' }, rider);
+    }
+    expect(attemptsLeft(await order('key-1'))).toBe(0);
+    await expect(rescheduleDelivery('key-1', '', owner)).rejects.toThrow('This order has used all its delivery attempts');
+
+    await returnToStock('key-1', owner);
+    expect((await order('key-1')).status).toBe('cancelled');
+    const { data: variant } = await supabase.from<ItemVariant>('item_variants').select('*').eq('id', 'var-dokra-1').maybeSingle();
+    expect(variant?.stock).toBe(4);
+  });
+});
+
+describe('rescheduleDelivery', () => {
+  const oldSlot = { id: '2026-10-01@10:00', date: '2026-10-01', start: '10:00', end: '12:00' };
+
+  async function booked(id: string) {
+    const { data } = await supabase.from<SlotBooking>('delivery_slot_bookings').select('*').eq('id', id).maybeSingle();
+    return data?.count ?? 0;
+  }
+
+  beforeEach(async () => {
+    await supabase.from('shop_location').update({ delivery_slots: [{ start: '10:00', end: '12:00', capacity: 1 }] }).eq('id', 'owner-1').get();
+    await supabase.from('delivery_slot_bookings').upsert({ id: oldSlot.id, date: oldSlot.date, count: 1, updated_at: oldSlot.date }, { onConflict: 'id' }).get();
+    await supabase.from<Order>('orders').update({ delivery_slot: oldSlot }).eq('id', 'key-1').get();
+    await recordFailedAttempt('key-1', { reason: 'customer_rescheduled', note: '' }, rider);
+  });
+
+  it('moves the order to the slot the owner picked and frees the old one', async () => {
+    const [next] = upcomingSlots(await fetchShopLocation());
+    const order = await rescheduleDelivery('key-1', '', owner, next.id);
+    expect(order.status).toBe('ready');
+    expect(order.delivery_slot).toEqual({ id: next.id, date: next.date, start: next.start, end: next.end });
+    expect(await booked(next.id)).toBe(1);
+    expect(await booked(oldSlot.id)).toBe(0);
+  });
+
+  it('clears the slot when the owner picks none', async () => {
+    const order = await rescheduleDelivery('key-1', 'Customer will call', owner);
+    expect(order.delivery_slot).toBeNull();
+    expect(await booked(oldSlot.id)).toBe(0);
+  });
+
+  it('leaves the order alone when the picked slot is full', async () => {
+    const [next] = upcomingSlots(await fetchShopLocation());
+    await supabase.from('delivery_slot_bookings').upsert({ id: next.id, date: next.date, count: 1, updated_at: next.date }, { onConflict: 'id' }).get();
+    await expect(rescheduleDelivery('key-1', '', owner, next.id)).rejects.toThrow('has just filled up');
+    expect(await order('key-1')).toMatchObject({ status: 'delivery_failed', delivery_slot: oldSlot });
+    expect(await booked(oldSlot.id)).toBe(1);
+  });
+});
@@ -0,0 +1,147 @@
+// Failed delivery attempts. When the rider cannot hand over an order they record
+// why, and the order moves to `delivery_failed` with the attempt appended to
+// `delivery_attempts`. The owner then re-schedules it (back to `ready`, in a new
+// delivery slot or none) or returns it to stock by cancelling it, which
+// restocks the items, frees the coupon and slot and refunds a prepaid order
+// like any other cancellation.
+// After MAX_DELIVERY_ATTEMPTS failures only the return is allowed.
+import { supabase, Order } from './supabase';
+import { TransitionContext, transitionOrder } from './orderStatus';
+import { readDoorstepFix } from './deliveryProof';
+import { DeliverySlot, prepareSlotBooking, releaseSlotBooking } from './deliverySlots';
+import { fetchShopLocation } from './shop';
+import type { LocationFix } from './riderTracking';
+
+export const MAX_DELIVERY_ATTEMPTS = 3;
+
+export const FAILURE_REASONS = {
+  not_reachable: 'Customer not reachable',
+  refused: 'Customer refused the parcel',
+  wrong_address: 'Wrong address',
+  customer_rescheduled: 'Customer asked to reschedule',
+} as const;
+
+export type FailureReason = keyof typeof FAILURE_REASONS;
+
+export type DeliveryAttempt = {
+  reason: FailureReason;
+  note: string | null;
+  rider_id: string | null;
+  at: string;
+  // Where the rider was when they gave up; null without a GPS fix
+  location: LocationFix | null;
+};
+
+export function isFailureReason(value: unknown): value is FailureReason {
+  return typeof value === 'string' && value in FAILURE_REASONS;
+}
+
+export function attemptCount(order: Pick<Order, 'delivery_attempts'>): number {
+  return Array.isArray(order.delivery_attempts) ? order.delivery_attempts.length : 0;
+}
+
+export function attemptsLeft(order: Pick<Order, 'delivery_attempts'>): number {
+  return Math.max(0, MAX_DELIVERY_ATTEMPTS - attemptCount(order));
+}
+
+export function lastAttempt(order: Pick<Order, 'delivery_attempts'>): DeliveryAttempt | null {
+  return attemptCount(order) > 0 ? order.delivery_attempts![attemptCount(order) - 1] : null;
+}
+
+/** Returns why the attempt cannot be recorded, or null when it is complete. */
+export function failedAttemptError(input: { reason: string; note: string }): string | null {
+  if (!isFailureReason(input.reason)) return 'Please choose why the delivery failed';
+  if (input.reason === 'wrong_address' && !input.note.trim()) {
+    return 'Please describe what was wrong with the address';
+  }
+  return null;
+}
+
+/**
+ * Records a failed attempt by the assigned rider and moves the order to
+ * `delivery_failed`. The attempt is appended to the list as re-read inside the
+ * status change, so two recordings never overwrite each other. Throws an Error
+ * with a user-facing message otherwise.
+ */
+export async function recordFailedAttempt(
+  orderId: string,
+  input: { reason: FailureReason; note: string },
+  ctx: TransitionContext
+): Promise<Order> {
+  const invalid = failedAttemptError(input);
+  if (invalid) throw new Error(invalid);
+
+  const attempt: DeliveryAttempt = {
+    reason: input.reason,
+    note: input.note.trim() || null,
+    rider_id: ctx.actorId ?? null,
+    at: new Date().toISOString(),
+    location: await readDoorstepFix(),
+  };
+  return transitionOrder(
+    orderId,
+    'delivery_failed',
+    ctx,
+    (current) => ({ delivery_attempts: [...(current.delivery_attempts ?? []), attempt] }),
+    (current) => [`Attempt ${attemptCount(current) + 1}: ${FAILURE_REASONS[input.reason]}`, attempt.note].filter(Boolean).join(' — ')
+  );
+}
+
+/**
+ * Sends a failed order out again. Its old delivery slot has usually passed, so
+ * the booking is given up: with `slotId` the order moves to that slot, without
+ * one it goes out unscheduled. The owner may say more in the note.
+ */
+export async function rescheduleDelivery(
+  orderId: string,
+  note: string,
+  ctx: TransitionContext,
+  slotId: string | null = null
+): Promise<Order> {
+  let slot: DeliverySlot | null = null;
+  if (slotId) {
+    const shop = await fetchShopLocation();
+    const { data, error } = await supabase.transaction(async (tx) => {
+      const booking = await prepareSlotBooking(tx, shop, slotId);
+      booking.commit();
+      return booking.slot;
+    });
+    if (error || !data) throw new Error(error?.message || 'Could not book the delivery slot');
+    slot = data;
+  }
+
+  // Read inside the status change, so it is the booking the order really held
+  let previous = null as DeliverySlot | null;
+  let order: Order;
+  try {
+    order = await transitionOrder(
+      orderId,
+      'ready',
+      ctx,
+      (current) => {
+        previous = current.delivery_slot ?? null;
+        return { delivery_slot: slot };
+      },
+      note.trim() ? `Re-scheduled: ${note.trim()}` : 'Re-scheduled'
+    );
+  } catch (err) {
+    // The new slot's place goes back when the order could not be moved into it
+    if (slot) await releaseSlotBooking(slot.id).catch((releaseError) => console.error('Failed to release delivery slot', orderId, releaseError));
+    throw err;
+  }
+
+  // Like a cancellation, a failure here only leaves the old slot looking fuller
+  if (previous) {
+    try {
+      await releaseSlotBooking(previous.id);
+    } catch (err) {
+      console.error('Failed to release delivery slot for re-scheduled order', orderId, err);
+    }
+  }
+  return order;
+}
+
+/** Gives up on a failed order; cancelling puts its items back in stock. */
+export function returnToStock(orderId: string, ctx: TransitionContext): Promise<Order> {
+  return transitionOrder(orderId, 'cancelled', ctx, {}, 'Returned to stock after failed delivery');
+}
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryBackend } from './memoryBackend';
+import { seedFixtures } from './fixtures';
+import { Order, setBackend, supabase } from './supabase';
+import { DeliveryPinRecord, pinRecord } from './serverFunctions';
+import { deliverWithPin } from './deliveryPin';
+import { assignRider, transitionOrder } from './orderStatus';
+
+const rider = { role: 'delivery' as const, actorId: 'delivery-1' };
+
+async function row<T extends { id: string }>(table: string, id: string): Promise<T | null> {
+  const { data } = await supabase.from<T>(table).select('*').eq('id', id).maybeSingle();
+  return data;
+}
+
+beforeEach(async () => {
+  const seed = seedFixtures();
+  seed.signedInAs = 'rider@jjhandicraft.test';
+  seed.tables!.orders = [
+    {
+      id: 'order-1',
+      order_number: 'JJ-1001',
+      customer_id: 'customer-1',
+      delivery_boy_id: 'delivery-1',
+      status: 'out_for_delivery',
+      total_amount: 650,
+      created_at: '2026-10-19T04:00:00Z',
+    },
+  ];
+  seed.tables!.delivery_pins = [{ id: 'order-1', ...(await pinRecord('order-1', '123456')) }];
+  setBackend(createMemoryBackend(seed));
+});
+
+describe('deliverWithPin', () => {
+  it('refuses a wrong PIN, counts the attempt and never captures proof', async () => {
+    let captured = false;
+    const capture = async () => {
+      captured = true;
+      return { photo_url: 'proof.jpg', signature_url: null, location: null, captured_at: new Date().toISOString(), captured_by: 'delivery-1' };
+    };
+    await expect(deliverWithPin('order-1', '000000', rider, capture)).rejects.toThrow('Incorrect PIN. 4 attempts left.');
+    expect(captured).toBe(false);
+    expect((await row<DeliveryPinRecord>('delivery_pins', 'order-1'))?.attempts).toBe(1);
+    expect((await row<Order>('orders', 'order-1'))?.status).toBe('out_for_delivery');
+  });
+
+  it('delivers once the PIN matches', async () => {
+    const order = await deliverWithPin('order-1', '123456', rider);
+    expect(order.status).toBe('delivered');
+    expect(order.pin_verified_by).toBe('delivery-1');
+  });
+
+  it('keeps another rider out before spending an attempt', async () => {
+    await expect(deliverWithPin('order-1', '123456', { role: 'delivery', actorId: 'delivery-2' })).rejects.toThrow(
+      'This order is not assigned to you'
+    );
+    expect((await row<DeliveryPinRecord>('delivery_pins', 'order-1'))?.attempts).toBe(0);
+  });
+
+  it('cannot be skipped by marking the order delivered directly', async () => {
+    await expect(transitionOrder('order-1', 'delivered', rider)).rejects.toThrow('Delivery PIN must be verified');
+  });
+});
+
+describe('a verified PIN', () => {
+  const owner = { role: 'owner' as const, actorId: 'owner-1' };
+  const verified = { pin_verified_at: '2026-10-19T05:00:00Z', pin_verified_by: 'delivery-1' };
+
+  beforeEach(async () => {
+    await supabase.from<Order>('orders').update(verified).eq('id', 'order-1').get();
+  });
+
+  it('does not carry over to the next rider', async () => {
+    const order = await assignRider('order-1', 'delivery-2', owner);
+    expect(order).toMatchObject({ pin_verified_at: null, pin_verified_by: null });
+    await expect(transitionOrder('order-1', 'delivered', { role: 'delivery', actorId: 'delivery-2' })).rejects.toThrow(
+      'Delivery PIN must be verified'
+    );
+  });
+
+  it('is kept when the same rider is assigned again', async () => {
+    expect(await assignRider('order-1', 'delivery-1', owner)).toMatchObject(verified);
+  });
+
+  it('does not carry over to the next run after a failed attempt', async () => {
+    await transitionOrder('order-1', 'delivery_failed', rider);
+    await transitionOrder('order-1', 'ready', owner);
+    await transitionOrder('order-1', 'out_for_delivery', rider);
+    expect((await row<Order>('orders', 'order-1'))?.pin_verified_at).toBeNull();
+    await expect(transitionOrder('order-1', 'delivered', rider)).rejects.toThrow('Delivery PIN must be verified');
+  });
+});
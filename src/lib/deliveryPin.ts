@@ -0,0 +1,70 @@
+// Delivery PINs. The order document never carries the PIN: a salted SHA-256 hash
+// plus the attempt counter lives in `delivery_pins`, and the customer's own copy
+// in `customer_pins`. The hash is only ever read by the verify_delivery_pin
+// server function (lib/serverFunctions), which also keeps the attempt counter;
+// firestore.rules keeps `delivery_pins` away from every client and lets only
+// the customer read their `customer_pins`.
+import { supabase, Order } from './supabase';
+import { TransitionContext, handoverError, transitionOrder } from './orderStatus';
+import { VerifyPinOutcome, pinRecord } from './serverFunctions';
+import type { Transaction } from './backend';
+import type { DeliveryProof } from './deliveryProof';
+
+export const PIN_LENGTH = 6;
+
+export type CustomerPin = {
+  id: string;
+  order_id: string;
+  customer_id: string;
+  pin: string;
+};
+
+export function generatePin(): string {
+  const buf = new Uint32Array(1);
+  crypto.getRandomValues(buf);
+  return (buf[0] % 10 ** PIN_LENGTH).toString().padStart(PIN_LENGTH, '0');
+}
+
+/**
+ * Queues the PIN rows for a new order inside a checkout transaction and returns
+ * the plain PIN so it can be shown to the customer once.
+ */
+export async function writeNewOrderPin(tx: Transaction, orderId: string, customerId: string): Promise<string> {
+  const pin = generatePin();
+  tx.set('delivery_pins', orderId, await pinRecord(orderId, pin));
+  tx.set('customer_pins', orderId, { order_id: orderId, customer_id: customerId, pin });
+  return pin;
+}
+
+/** The signed-in customer's PINs keyed by order id. */
+export async function loadCustomerPins(customerId: string): Promise<Record<string, string>> {
+  const { data, error } = await supabase.from<CustomerPin>('customer_pins').select('*').eq('customer_id', customerId).get();
+  if (error) throw new Error(error.message);
+  return Object.fromEntries((data ?? []).map((p) => [p.order_id, p.pin]));
+}
+
+/**
+ * Has the server check the customer's PIN and, once it matches, marks the
+ * order delivered. `captureProof` runs only after the PIN is accepted, so a
+ * wrong guess uploads no photo or signature. Throws an Error with a
+ * user-facing message otherwise.
+ */
+export async function deliverWithPin(
+  orderId: string,
+  pin: string,
+  ctx: TransitionContext,
+  captureProof?: () => Promise<DeliveryProof>
+): Promise<Order> {
+  const { data: order, error: readError } = await supabase.from<Order>('orders').select('*').eq('id', orderId).maybeSingle();
+  if (readError) throw new Error(readError.message);
+  if (!order) throw new Error('Order not found');
+  // Check role and assignment before spending one of the customer's attempts
+  const notAllowed = handoverError(order, ctx);
+  if (notAllowed) throw new Error(notAllowed);
+
+  const { data: outcome, error } = await supabase.rpc<VerifyPinOutcome>('verify_delivery_pin', { order_id: orderId, pin });
+  if (error || !outcome) throw new Error(error?.message || 'Could not verify the PIN');
+  if (!outcome.ok) throw new Error(outcome.message);
+  const proof = captureProof ? await captureProof() : null;
+  return transitionOrder(orderId, 'delivered', ctx, proof ? { delivery_proof: proof } : {});
+}
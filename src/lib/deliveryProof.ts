@@ -0,0 +1,129 @@
+// Proof of delivery. Before a rider can mark an order delivered they take a
+// doorstep photo and may have the customer sign on screen. Both are uploaded to
+// the `delivery-proofs` storage bucket and the URLs, together with the GPS fix
+// and time at the door, are written to `delivery_proof` on the order in the
+// same update that marks it delivered. Nothing is uploaded until the
+// customer's PIN has been accepted (see deliverWithPin).
+import { supabase, Order } from './supabase';
+import { calculateDistance } from './location';
+import type { LocationFix } from './riderTracking';
+
+export const PROOF_BUCKET = 'delivery-proofs';
+
+export type DeliveryProof = {
+  photo_url: string;
+  signature_url: string | null;
+  // Null when the device could not get a fix at the door
+  location: LocationFix | null;
+  captured_at: string;
+  captured_by: string;
+};
+
+// Photos are scaled down so a phone camera shot uploads quickly on mobile data
+const MAX_PHOTO_DIMENSION = 1280;
+const PHOTO_QUALITY = 0.7;
+const MAX_SOURCE_BYTES = 15 * 1024 * 1024;
+const FIX_TIMEOUT_MS = 15_000;
+
+function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('That file could not be read as a photo'));
+    };
+    img.src = url;
+  });
+}
+
+function canvasBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), type, quality);
+  });
+}
+
+/** Re-encodes a camera photo as a JPEG no larger than MAX_PHOTO_DIMENSION on its long side. */
+export async function compressPhoto(file: File): Promise<Blob> {
+  if (!file.type.startsWith('image/')) throw new Error('Please choose a photo');
+  if (file.size > MAX_SOURCE_BYTES) throw new Error('Photo is too large; please take it again');
+
+  const img = await loadImage(file);
+  const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not process the photo');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvasBlob(canvas, 'image/jpeg', PHOTO_QUALITY);
+}
+
+/** The signature pad's drawing as a PNG. */
+export function signatureBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return canvasBlob(canvas, 'image/png');
+}
+
+/** One position reading for the doorstep; resolves to null rather than failing the delivery. */
+export function readDoorstepFix(): Promise<LocationFix | null> {
+  if (!navigator.geolocation) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy_m: Number.isFinite(position.coords.accuracy) ? Math.round(position.coords.accuracy) : null,
+          at: new Date(position.timestamp || Date.now()).toISOString(),
+        }),
+      (error) => {
+        console.error('Could not read the doorstep location:', error);
+        resolve(null);
+      },
+      { enableHighAccuracy: true, maximumAge: 30_000, timeout: FIX_TIMEOUT_MS }
+    );
+  });
+}
+
+/** How far from the delivery address the doorstep fix was taken, when there is one. */
+export function proofDistanceKm(order: Pick<Order, 'latitude' | 'longitude' | 'delivery_proof'>): number | null {
+  const fix = order.delivery_proof?.location;
+  if (!fix || !Number.isFinite(order.latitude) || !Number.isFinite(order.longitude)) return null;
+  return calculateDistance(fix.latitude, fix.longitude, order.latitude, order.longitude);
+}
+
+async function uploadProofFile(path: string, file: Blob): Promise<string> {
+  const bucket = supabase.storage.from(PROOF_BUCKET);
+  const { error } = await bucket.upload(path, file);
+  if (error) {
+    console.error('Error uploading delivery proof:', error);
+    throw new Error('Could not upload the delivery proof. Check your connection and try again.');
+  }
+  const result = bucket.getPublicUrl(path);
+  // Firebase resolves the real download URL asynchronously
+  return result.urlPromise ? (await result.urlPromise).publicUrl : result.data.publicUrl;
+}
+
+/**
+ * Uploads the photo and optional signature for an order and returns the proof
+ * to store with the delivery. deliverWithPin() only calls it once the PIN has
+ * been accepted, so wrong guesses leave no files behind. Files are named by
+ * time, so a retried upload never overwrites an earlier one.
+ */
+export async function captureDeliveryProof(
+  orderId: string,
+  riderId: string,
+  input: { photo: Blob; signature: Blob | null }
+): Promise<DeliveryProof> {
+  const stamp = Date.now();
+  const [photo_url, signature_url, location] = await Promise.all([
+    uploadProofFile(`${orderId}/photo-${stamp}.jpg`, input.photo),
+    input.signature ? uploadProofFile(`${orderId}/signature-${stamp}.png`, input.signature) : Promise.resolve(null),
+    readDoorstepFix(),
+  ]);
+  return { photo_url, signature_url, location, captured_at: new Date().toISOString(), captured_by: riderId };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { slotWindows, slotWindowsError, upcomingSlots } from './deliverySlots';
+import type { DayHours } from './shop';
+
+const windows = [
+  { start: '14:00', end: '16:00', capacity: null },
+  { start: '10:00', end: '12:00', capacity: 5 },
+];
+// Shut on Sundays. 19 Oct 2026 is a Monday.
+const weekHours: (DayHours | null)[] = [null, ...Array(6).fill({ open: '09:00', close: '20:00' })];
+const shop = { delivery_slots: windows, opening_hours: weekHours, holidays: [] };
+
+describe('upcomingSlots', () => {
+  it('lists the windows of the next three days, earliest first, from the next one to start', () => {
+    const slots = upcomingSlots(shop, new Date(2026, 9, 19, 11));
+    expect(slots.map((s) => s.id)).toEqual([
+      '2026-10-19_1400',
+      '2026-10-20_1000',
+      '2026-10-20_1400',
+      '2026-10-21_1000',
+      '2026-10-21_1400',
+    ]);
+    expect(slots[1]).toEqual({ id: '2026-10-20_1000', date: '2026-10-20', start: '10:00', end: '12:00', capacity: 5 });
+  });
+
+  it('offers nothing on holidays or days without hours', () => {
+    const slots = upcomingSlots({ ...shop, holidays: [{ date: '2026-10-23' }] }, new Date(2026, 9, 23, 8));
+    expect(slots.map((s) => s.date)).toEqual(['2026-10-24', '2026-10-24']);
+  });
+
+  it('is empty when the shop has slots turned off', () => {
+    expect(upcomingSlots({ ...shop, delivery_slots: [] }, new Date(2026, 9, 19, 8))).toEqual([]);
+  });
+});
+
+describe('slotWindows', () => {
+  it('drops malformed windows', () => {
+    const shopWindows = [...windows, { start: '18:00', end: '17:00', capacity: 1 }, { start: '9am', end: '10:00', capacity: 1 }];
+    expect(slotWindows({ delivery_slots: shopWindows }).map((w) => w.start)).toEqual(['10:00', '14:00']);
+  });
+});
+
+describe('slotWindowsError', () => {
+  it('accepts separate windows and rejects overlapping ones', () => {
+    expect(slotWindowsError(windows)).toBeNull();
+    expect(slotWindowsError([...windows, { start: '11:00', end: '13:00', capacity: null }])).toBe(
+      'The 10:00 AM and 11:00 AM slots overlap'
+    );
+  });
+
+  it('needs a cap of at least one order', () => {
+    expect(slotWindowsError([{ start: '10:00', end: '12:00', capacity: 0 }])).toBe(
+      'The 10:00 AM slot needs a cap of at least 1 order, or no cap'
+    );
+  });
+});
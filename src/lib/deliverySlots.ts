@@ -0,0 +1,167 @@
+// Scheduled delivery slots. The owner keeps a list of daily windows on the shop
+// record, each with an optional cap on how many orders it takes. Bookings are
+// counted per window and day in `delivery_slot_bookings`; placeOrder() claims
+// one inside the checkout transaction, so two customers cannot both take the
+// last place.
+import { supabase, Order, ShopLocation } from './supabase';
+import type { Transaction } from './backend';
+import { TIME_RE, atTime, formatTime, openingHours } from './shop';
+import { formatOpening, localDateKey } from './businessHours';
+
+// A daily window, 24-hour "HH:MM" local times; capacity null means no cap
+export type SlotWindow = { start: string; end: string; capacity: number | null };
+
+// One window on one day, as stored on the order
+export type DeliverySlot = { id: string; date: string; start: string; end: string };
+
+export type SlotAvailability = {
+  slot: DeliverySlot;
+  capacity: number | null;
+  booked: number;
+};
+
+export type SlotBooking = { id: string; date: string; count: number; updated_at: string };
+
+// How many days, today included, customers can book ahead
+export const SLOT_DAYS_AHEAD = 3;
+
+export const DEFAULT_SLOT_WINDOW: SlotWindow = { start: '10:00', end: '12:00', capacity: 10 };
+
+/** The shop's windows, earliest first, with malformed entries dropped. An empty list means slots are off. */
+export function slotWindows(shop: Pick<ShopLocation, 'delivery_slots'> | null): SlotWindow[] {
+  const windows = Array.isArray(shop?.delivery_slots) ? shop!.delivery_slots : [];
+  return windows
+    .filter((w) => TIME_RE.test(w.start) && TIME_RE.test(w.end) && w.start < w.end)
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/** Returns why the windows cannot be saved, or null when they are fine. */
+export function slotWindowsError(windows: SlotWindow[]): string | null {
+  for (const w of windows) {
+    if (!TIME_RE.test(w.start) || !TIME_RE.test(w.end)) return 'Every slot needs a start and end time';
+    if (w.start >= w.end) return `The ${formatTime(w.start)} slot must end after it starts`;
+    if (w.capacity !== null && (!Number.isInteger(w.capacity) || w.capacity < 1)) {
+      return `The ${formatTime(w.start)} slot needs a cap of at least 1 order, or no cap`;
+    }
+  }
+  const sorted = [...windows].sort((a, b) => a.start.localeCompare(b.start));
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].start < sorted[i - 1].end) {
+      return `The ${formatTime(sorted[i - 1].start)} and ${formatTime(sorted[i].start)} slots overlap`;
+    }
+  }
+  return null;
+}
+
+export function slotId(date: string, start: string): string {
+  return `${date}_${start.replace(':', '')}`;
+}
+
+export function slotStart(slot: Pick<DeliverySlot, 'date' | 'start'>): Date {
+  return atTime(slot.date, slot.start);
+}
+
+// Days the shop is shut (a holiday, or a weekday without hours) offer no slots.
+// Like nextOpening(), a shop that never saved its hours counts as open every day.
+function shopOpenOn(shop: Pick<ShopLocation, 'opening_hours' | 'holidays'> | null, day: Date) {
+  const key = localDateKey(day);
+  if ((shop?.holidays ?? []).some((h) => h.date === key)) return false;
+  return !shop?.opening_hours || openingHours(shop)[day.getDay()] !== null;
+}
+
+/** Every slot from `now` over the next SLOT_DAYS_AHEAD days that has not started yet. */
+export function upcomingSlots(
+  shop: Pick<ShopLocation, 'delivery_slots' | 'opening_hours' | 'holidays'> | null,
+  now: Date = new Date()
+): (DeliverySlot & { capacity: number | null })[] {
+  const windows = slotWindows(shop);
+  const slots: (DeliverySlot & { capacity: number | null })[] = [];
+  for (let i = 0; i < SLOT_DAYS_AHEAD; i++) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + i);
+    if (!shopOpenOn(shop, day)) continue;
+    const date = localDateKey(day);
+    for (const w of windows) {
+      if (atTime(date, w.start) <= now) continue;
+      slots.push({ id: slotId(date, w.start), date, start: w.start, end: w.end, capacity: w.capacity });
+    }
+  }
+  return slots;
+}
+
+/** Upcoming slots with their booking counts; full slots are left out. */
+export async function fetchAvailableSlots(
+  shop: Pick<ShopLocation, 'delivery_slots' | 'opening_hours' | 'holidays'> | null,
+  now: Date = new Date()
+): Promise<SlotAvailability[]> {
+  const slots = upcomingSlots(shop, now);
+  if (slots.length === 0) return [];
+
+  const dates = [...new Set(slots.map((s) => s.date))];
+  const { data, error } = await supabase.from<SlotBooking>('delivery_slot_bookings').select('*').in('date', dates).get();
+  if (error) throw new Error(error.message);
+  const booked = new Map((data ?? []).map((b) => [b.id, b.count]));
+
+  return slots
+    .map(({ capacity, ...slot }) => ({ slot, capacity, booked: booked.get(slot.id) ?? 0 }))
+    .filter((a) => a.capacity === null || a.booked < a.capacity);
+}
+
+/**
+ * Transactional check used by placeOrder(): the slot must be one the shop
+ * offers right now and have room left. The returned function queues the
+ * booking and must run after all other reads.
+ */
+export async function prepareSlotBooking(
+  tx: Transaction,
+  shop: Pick<ShopLocation, 'delivery_slots' | 'opening_hours' | 'holidays'> | null,
+  id: string
+): Promise<{ slot: DeliverySlot; commit: () => void }> {
+  const offered = upcomingSlots(shop).find((s) => s.id === id);
+  if (!offered) throw new Error('That delivery slot is no longer available; please pick another');
+  const booking = await tx.get<SlotBooking>('delivery_slot_bookings', id);
+  const count = booking?.count ?? 0;
+  if (offered.capacity !== null && count >= offered.capacity) {
+    throw new Error(`The slot ${formatSlot(offered)} has just filled up; please pick another`);
+  }
+
+  const slot: DeliverySlot = { id: offered.id, date: offered.date, start: offered.start, end: offered.end };
+  return {
+    slot,
+    commit: () => {
+      tx.set('delivery_slot_bookings', id, { date: slot.date, count: count + 1, updated_at: new Date().toISOString() });
+    },
+  };
+}
+
+/** Frees the place an order held, e.g. when it is cancelled. */
+export async function releaseSlotBooking(id: string): Promise<void> {
+  const { error } = await supabase.increment('delivery_slot_bookings', [{ id, field: 'count', by: -1 }], { min: 0 });
+  if (error && error.code !== 'not-found') throw new Error(error.message);
+}
+
+/** "today at 10:00 AM – 12:00 PM", "tomorrow at …" or "Monday, 21 Oct at …". */
+export function formatSlot(slot: Pick<DeliverySlot, 'date' | 'start' | 'end'>, now: Date = new Date()): string {
+  return `${formatOpening(slotStart(slot), now)} – ${formatTime(slot.end)}`;
+}
+
+/** "Today", "Tomorrow" or "Monday, 21 Oct", for headings above a day's slots. */
+export function formatSlotDay(date: string, now: Date = new Date()): string {
+  const label = formatOpening(atTime(date, '00:00'), now).replace(/ at .*$/, '');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Orders with a slot first, earliest slot first; orders without one after
+ * them. Within a group the newest order comes first, as before slots existed.
+ */
+export function sortOrdersBySlot<T extends Pick<Order, 'delivery_slot' | 'created_at'>>(orders: T[]): T[] {
+  const slotTime = (o: T) => (o.delivery_slot ? slotStart(o.delivery_slot).getTime() : Infinity);
+  return [...orders].sort(
+    (a, b) => slotTime(a) - slotTime(b) || new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
+
+/** Heading for an order's group in slot-sorted lists. */
+export function slotGroupLabel(order: Pick<Order, 'delivery_slot'>, now: Date = new Date()): string {
+  return order.delivery_slot ? `Deliver ${formatSlot(order.delivery_slot, now)}` : 'No delivery slot';
+}
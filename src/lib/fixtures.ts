@@ -0,0 +1,48 @@
+// Seed data for the in-memory backend. Every page can be exercised locally with
+// these accounts (password for all of them: "password123").
+import type { MemorySeed } from './memoryBackend';
+
+const SEEDED_AT = '2024-01-01T09:00:00.000Z';
+
+export function seedFixtures(): MemorySeed {
+  return {
+    users: [
+      { id: 'owner-1', email: 'owner@jjhandicraft.test', password: 'password123' },
+      { id: 'customer-1', email: 'customer@jjhandicraft.test', password: 'password123' },
+      { id: 'delivery-1', email: 'rider@jjhandicraft.test', password: 'password123' },
+    ],
+    tables: {
+      profiles: [
+        { id: 'owner-1', role: 'owner', full_name: 'Shop Owner', phone: '9000000001', email: 'owner@jjhandicraft.test', created_at: SEEDED_AT, updated_at: SEEDED_AT },
+        { id: 'customer-1', role: 'customer', full_name: 'Test Customer', phone: '9000000002', email: 'customer@jjhandicraft.test', created_at: SEEDED_AT, updated_at: SEEDED_AT },
+        { id: 'delivery-1', role: 'delivery', full_name: 'Test Rider', phone: '9000000003', email: 'rider@jjhandicraft.test', created_at: SEEDED_AT, updated_at: SEEDED_AT },
+      ],
+      shop_location: [
+        { id: 'owner-1', owner_id: 'owner-1', shop_name: 'JJ Handicraft', phone: '9000000001', latitude: 20.2961, longitude: 85.8245, address: 'Main Road, Bhubaneswar', delivery_radius_km: 10, free_delivery_within_km: 3, delivery_fee_per_km: 10, free_delivery_above: 1500, delivery_slots: [{ start: '10:00', end: '12:00', capacity: 5 }, { start: '14:00', end: '16:00', capacity: 5 }, { start: '17:00', end: '19:00', capacity: null }], created_at: SEEDED_AT },
+      ],
+      categories: [
+        { id: 'cat-handicraft', name: 'Handicraft', created_at: SEEDED_AT },
+        { id: 'cat-textiles', name: 'Textiles', created_at: SEEDED_AT },
+      ],
+      items: [
+        { id: 'item-pattachitra', name: 'Pattachitra Painting', description: 'Hand-painted cloth scroll', category_id: 'cat-handicraft', image_url: '', in_stock: true, created_at: SEEDED_AT, updated_at: SEEDED_AT },
+        { id: 'item-dokra', name: 'Dokra Elephant', description: 'Lost-wax brass casting', category_id: 'cat-handicraft', image_url: '', in_stock: true, created_at: SEEDED_AT, updated_at: SEEDED_AT },
+        { id: 'item-sambalpuri', name: 'Sambalpuri Stole', description: 'Handwoven ikat stole', category_id: 'cat-textiles', image_url: '', in_stock: true, created_at: SEEDED_AT, updated_at: SEEDED_AT },
+      ],
+      item_variants: [
+        { id: 'var-pattachitra-s', item_id: 'item-pattachitra', quantity_unit: 'Small (12 in)', price: 850, stock: 12, created_at: SEEDED_AT },
+        { id: 'var-pattachitra-l', item_id: 'item-pattachitra', quantity_unit: 'Large (24 in)', price: 2200, stock: 2, created_at: SEEDED_AT },
+        { id: 'var-dokra-1', item_id: 'item-dokra', quantity_unit: '1 piece', price: 1200, stock: 4, created_at: SEEDED_AT },
+        { id: 'var-sambalpuri-1', item_id: 'item-sambalpuri', quantity_unit: '1 piece', price: 650, created_at: SEEDED_AT },
+      ],
+      coupons: [
+        { id: 'WELCOME10', code: 'WELCOME10', description: '10% off your first order', type: 'percent', value: 10, max_discount: null, min_order_value: null, starts_at: null, expires_at: null, usage_limit: null, per_customer_limit: 1, used_count: 0, category_ids: [], item_ids: [], active: true, created_at: SEEDED_AT, updated_at: SEEDED_AT },
+        { id: 'TEXTILE100', code: 'TEXTILE100', description: '₹100 off textiles over ₹500', type: 'flat', value: 100, max_discount: null, min_order_value: 500, starts_at: null, expires_at: null, usage_limit: 50, per_customer_limit: null, used_count: 0, category_ids: ['cat-textiles'], item_ids: [], active: true, created_at: SEEDED_AT, updated_at: SEEDED_AT },
+      ],
+      // The test rider starts on duty so orders can be assigned straight away
+      rider_duty: [{ id: 'delivery-1', on_duty: true, shifts: null, updated_at: SEEDED_AT }],
+      orders: [],
+      order_items: [],
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDistance, pointInPolygon, polygonsFromGeoJSON } from './location';
+
+// A square around central Bhubaneswar
+const square = [
+  { lat: 20.2, lng: 85.7 },
+  { lat: 20.2, lng: 85.9 },
+  { lat: 20.4, lng: 85.9 },
+  { lat: 20.4, lng: 85.7 },
+];
+
+// An L shape whose notch is outside
+const ell = [
+  { lat: 0, lng: 0 },
+  { lat: 0, lng: 2 },
+  { lat: 1, lng: 2 },
+  { lat: 1, lng: 1 },
+  { lat: 2, lng: 1 },
+  { lat: 2, lng: 0 },
+];
+
+describe('calculateDistance', () => {
+  it('is zero for the same point and about 111 km per degree of latitude', () => {
+    expect(calculateDistance(20.3, 85.8, 20.3, 85.8)).toBe(0);
+    expect(calculateDistance(20, 85.8, 21, 85.8)).toBeCloseTo(111.19, 1);
+  });
+});
+
+describe('pointInPolygon', () => {
+  it('finds points inside and outside a square', () => {
+    expect(pointInPolygon(20.3, 85.8, square)).toBe(true);
+    expect(pointInPolygon(20.5, 85.8, square)).toBe(false);
+    expect(pointInPolygon(20.3, 86, square)).toBe(false);
+  });
+
+  it('leaves out the notch of a concave polygon', () => {
+    expect(pointInPolygon(0.5, 1.5, ell)).toBe(true);
+    expect(pointInPolygon(1.5, 0.5, ell)).toBe(true);
+    expect(pointInPolygon(1.5, 1.5, ell)).toBe(false);
+  });
+
+  it('treats a polygon with too few corners as empty', () => {
+    expect(pointInPolygon(0, 0, [])).toBe(false);
+  });
+});
+
+describe('polygonsFromGeoJSON', () => {
+  it('reads outer rings as open lat/lng polygons', () => {
+    const feature = {
+      type: 'Feature',
+      properties: { name: 'Old Town' },
+      geometry: { type: 'Polygon', coordinates: [[[85.7, 20.2], [85.9, 20.2], [85.9, 20.4], [85.7, 20.2]]] },
+    };
+    expect(polygonsFromGeoJSON(JSON.stringify(feature))).toEqual([
+      { name: 'Old Town', polygon: [{ lat: 20.2, lng: 85.7 }, { lat: 20.2, lng: 85.9 }, { lat: 20.4, lng: 85.9 }] },
+    ]);
+  });
+
+  it('rejects rings with fewer than three corners', () => {
+    const line = { type: 'Polygon', coordinates: [[[85.7, 20.2], [85.9, 20.2], [85.7, 20.2]]] };
+    expect(() => polygonsFromGeoJSON(line)).toThrow('A polygon needs at least three corners');
+  });
+});
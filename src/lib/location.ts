@@ -1,3 +1,9 @@
+// Polygon vertices are objects rather than [lng, lat] pairs because Firestore
+// cannot store nested arrays
+export type GeoPoint = { lat: number; lng: number };
+
+export type ImportedPolygon = { name: string | null; polygon: GeoPoint[] };
+
 export function calculateDistance(
   lat1: number,
   lon1: number,
@@ -21,6 +27,74 @@ function toRad(degrees: number): number {
   return degrees * (Math.PI / 180);
 }
 
+/**
+ * Ray-casting test; a point exactly on an edge may land either way. Fine for
+ * town-sized polygons, where treating lat/lng as planar is accurate enough.
+ */
+export function pointInPolygon(lat: number, lng: number, polygon: GeoPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.lat > lat !== b.lat > lat && lng < ((b.lng - a.lng) * (lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function ringToPoints(ring: unknown): GeoPoint[] {
+  if (!Array.isArray(ring)) throw new Error('A polygon ring must be a list of coordinates');
+  const points = ring.map((pos) => {
+    if (!Array.isArray(pos) || typeof pos[0] !== 'number' || typeof pos[1] !== 'number') {
+      throw new Error('Coordinates must be [longitude, latitude] numbers');
+    }
+    return { lat: pos[1], lng: pos[0] };
+  });
+  // GeoJSON repeats the first vertex at the end; we keep rings open
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first.lat === last.lat && first.lng === last.lng) points.pop();
+  if (points.length < 3) throw new Error('A polygon needs at least three corners');
+  return points;
+}
+
+/**
+ * Outer rings of every Polygon and MultiPolygon in a GeoJSON geometry,
+ * Feature or FeatureCollection. Holes are ignored. Throws on anything else.
+ */
+export function polygonsFromGeoJSON(input: unknown): ImportedPolygon[] {
+  const value = typeof input === 'string' ? JSON.parse(input) : input;
+  const found: ImportedPolygon[] = [];
+
+  const visit = (node: unknown, name: string | null) => {
+    if (!node || typeof node !== 'object') throw new Error('Not a GeoJSON object');
+    const obj = node as { type?: string; features?: unknown[]; geometry?: unknown; properties?: { name?: unknown }; coordinates?: unknown };
+    switch (obj.type) {
+      case 'FeatureCollection':
+        (obj.features ?? []).forEach((f) => visit(f, null));
+        break;
+      case 'Feature':
+        visit(obj.geometry, typeof obj.properties?.name === 'string' ? obj.properties.name : name);
+        break;
+      case 'Polygon':
+        found.push({ name, polygon: ringToPoints((obj.coordinates as unknown[])?.[0]) });
+        break;
+      case 'MultiPolygon':
+        ((obj.coordinates as unknown[]) ?? []).forEach((rings) => {
+          found.push({ name, polygon: ringToPoints((rings as unknown[])?.[0]) });
+        });
+        break;
+      default:
+        throw new Error(`Unsupported GeoJSON type "${String(obj.type)}"; use Polygon or MultiPolygon`);
+    }
+  };
+
+  visit(value, null);
+  if (found.length === 0) throw new Error('No polygons found in the GeoJSON');
+  return found;
+}
+
 export function getCurrentPosition(): Promise<GeolocationPosition> {
   return new Promise((resolve, reject) => {
     if (!navigator.geolocation) {
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryBackend } from './memoryBackend';
+
+type Variant = { id: string; item_id: string; stock: number };
+
+const seeded = () =>
+  createMemoryBackend({
+    tables: {
+      item_variants: [
+        { id: 'var-1', item_id: 'item-1', stock: 3 },
+        { id: 'var-2', item_id: 'item-1', stock: 0 },
+        { id: 'var-3', item_id: 'item-2', stock: 5 },
+      ],
+    },
+  });
+
+describe('memory backend queries', () => {
+  it('filters and orders rows', async () => {
+    const backend = seeded();
+    const { data } = await backend.from<Variant>('item_variants').select('*').eq('item_id', 'item-1').order('stock', { ascending: true }).get();
+    expect(data?.map((v) => v.id)).toEqual(['var-2', 'var-1']);
+  });
+
+  it('returns nothing when no row matches', async () => {
+    const { data } = await seeded().from<Variant>('item_variants').select('*').eq('item_id', 'item-9').get();
+    expect(data).toEqual([]);
+  });
+
+  it('refuses to delete without a filter', async () => {
+    const { error } = await seeded().from<Variant>('item_variants').delete().get();
+    expect(error?.message).toBe('Refusing to delete without filters');
+  });
+});
+
+describe('memory backend transactions', () => {
+  it('writes nothing when one of the updates fails', async () => {
+    const backend = seeded();
+    const { error } = await backend.transaction(async (tx) => {
+      tx.update('item_variants', 'var-1', { stock: 2 });
+      tx.update('item_variants', 'missing', { stock: 1 });
+    });
+    expect(error?.message).toBe('item_variants/missing does not exist');
+    expect(backend.store.read('item_variants', 'var-1')?.stock).toBe(3);
+  });
+
+  it('re-runs the callback when a row it read changed meanwhile', async () => {
+    const backend = seeded();
+    let runs = 0;
+    const { data } = await backend.transaction(async (tx) => {
+      runs += 1;
+      const variant = await tx.get<Variant>('item_variants', 'var-1');
+      if (runs === 1) await backend.from<Variant>('item_variants').update({ stock: 10 }).eq('id', 'var-1').get();
+      tx.update('item_variants', 'var-1', { stock: variant!.stock - 1 });
+      return variant!.stock;
+    });
+    expect(runs).toBe(2);
+    expect(data).toBe(10);
+    expect(backend.store.read('item_variants', 'var-1')?.stock).toBe(9);
+  });
+
+  it('applies no increment when one would drop below the minimum', async () => {
+    const backend = seeded();
+    const { error } = await backend.increment(
+      'item_variants',
+      [{ id: 'var-1', field: 'stock', by: -1 }, { id: 'var-2', field: 'stock', by: -1 }],
+      { min: 0 }
+    );
+    expect(error?.code).toBe('out-of-range');
+    expect(backend.store.read('item_variants', 'var-1')?.stock).toBe(3);
+  });
+});
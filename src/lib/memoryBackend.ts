@@ -0,0 +1,528 @@
+// In-memory backend for the `supabase` shim. Mirrors the Firebase backend's
+// behaviour (joins, upsert rules, realtime callbacks, email/password auth) so
+// pages can run locally and in unit tests against seeded fixture data.
+import type { DocumentData } from 'firebase/firestore';
+import {
+  Backend,
+  BackendError,
+  ChannelOptions,
+  IncrementChange,
+  QueryBuilder,
+  QueryFilter,
+  Transaction,
+  QueryResult,
+  RealtimeChannel,
+  RealtimeClause,
+  Session,
+  User,
+  WithId,
+  asBackendError,
+  parseRealtimeFilter,
+} from './backend';
+import { SERVER_FUNCTIONS } from './serverFunctions';
+
+type Row = DocumentData & { id: string };
+
+export type MemoryUser = { id: string; email: string; password: string };
+
+export type MemorySeed = {
+  tables?: Record<string, DocumentData[]>;
+  users?: MemoryUser[];
+  // Email of a seeded user to start signed in as
+  signedInAs?: string;
+};
+
+export type MemoryBackendOptions = {
+  // When set, tables, users and the session are mirrored to localStorage under
+  // this key so a local dev session survives page reloads.
+  persistKey?: string;
+};
+
+type Listener = { table: string; clauses: RealtimeClause[]; cb: () => void };
+
+type Snapshot = {
+  tables: Record<string, Row[]>;
+  users: MemoryUser[];
+  currentUserId: string | null;
+  seq: number;
+};
+
+function authError(code: string, message: string): BackendError {
+  return { code, message };
+}
+
+function clone<V>(value: V): V {
+  return JSON.parse(JSON.stringify(value)) as V;
+}
+
+export class MemoryStore {
+  private tables = new Map<string, Map<string, Row>>();
+  private listeners = new Set<Listener>();
+  private seq = 0;
+  readonly users = new Map<string, MemoryUser>();
+  readonly files = new Map<string, Blob>();
+  currentUserId: string | null = null;
+  private persistKey?: string;
+
+  constructor(seed: MemorySeed = {}, opts: MemoryBackendOptions = {}) {
+    this.persistKey = opts.persistKey;
+    if (this.restore()) return;
+
+    for (const [table, rows] of Object.entries(seed.tables ?? {})) {
+      for (const row of rows) this.write(table, { ...row, id: row.id ?? this.nextId() });
+    }
+    for (const u of seed.users ?? []) this.users.set(u.id, { ...u });
+    if (seed.signedInAs) {
+      this.currentUserId = this.findUserByEmail(seed.signedInAs)?.id ?? null;
+    }
+  }
+
+  nextId(): string {
+    this.seq += 1;
+    return `mem-${this.seq.toString().padStart(6, '0')}`;
+  }
+
+  rows(table: string): Row[] {
+    return Array.from(this.tables.get(table)?.values() ?? []).map(clone);
+  }
+
+  read(table: string, id: string): Row | null {
+    const row = this.tables.get(table)?.get(id);
+    return row ? clone(row) : null;
+  }
+
+  write(table: string, row: Row): Row {
+    let rows = this.tables.get(table);
+    if (!rows) {
+      rows = new Map();
+      this.tables.set(table, rows);
+    }
+    const stored = clone(row);
+    rows.set(row.id, stored);
+    return clone(stored);
+  }
+
+  remove(table: string, id: string): Row | null {
+    const row = this.tables.get(table)?.get(id) ?? null;
+    this.tables.get(table)?.delete(id);
+    return row;
+  }
+
+  findUserByEmail(email: string): MemoryUser | undefined {
+    const needle = email.trim().toLowerCase();
+    return Array.from(this.users.values()).find((u) => u.email.toLowerCase() === needle);
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Fire realtime callbacks for a table once a write has landed. A listener
+  // with a filter fires when either the old or the new version of a row matches.
+  notify(table: string, changed: Array<Row | null>) {
+    this.persist();
+    for (const listener of Array.from(this.listeners)) {
+      if (listener.table !== table) continue;
+      const matches = listener.clauses.length === 0 || changed.some((row) => row && listener.clauses.every((c) => {
+        const value = String(row[c.field] ?? '');
+        return c.op === 'eq' ? value === c.value : value !== c.value;
+      }));
+      if (!matches) continue;
+      try {
+        listener.cb();
+      } catch (err) {
+        console.error('Channel callback error:', err);
+      }
+    }
+  }
+
+  persist() {
+    if (!this.persistKey || typeof localStorage === 'undefined') return;
+    const snapshot: Snapshot = {
+      tables: Object.fromEntries(Array.from(this.tables.entries()).map(([t, rows]) => [t, Array.from(rows.values())])),
+      users: Array.from(this.users.values()),
+      currentUserId: this.currentUserId,
+      seq: this.seq,
+    };
+    try {
+      localStorage.setItem(this.persistKey, JSON.stringify(snapshot));
+    } catch {
+      // quota or serialisation errors; the in-memory copy stays authoritative
+    }
+  }
+
+  private restore(): boolean {
+    if (!this.persistKey || typeof localStorage === 'undefined') return false;
+    try {
+      const raw = localStorage.getItem(this.persistKey);
+      if (!raw) return false;
+      const snapshot = JSON.parse(raw) as Snapshot;
+      for (const [table, rows] of Object.entries(snapshot.tables)) {
+        for (const row of rows) this.write(table, row);
+      }
+      snapshot.users.forEach((u) => this.users.set(u.id, u));
+      this.currentUserId = snapshot.currentUserId;
+      this.seq = snapshot.seq;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function matchesFilters(row: Row, filters: QueryFilter[]): boolean {
+  return filters.every((f) => {
+    if (f.type === 'eq') return row[f.field] === f.value;
+    return Array.isArray(f.value) && f.value.includes(row[f.field]);
+  });
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+class MemoryQueryBuilder<T extends WithId> extends QueryBuilder<T> {
+  private store: MemoryStore;
+  // Previous versions of rows overwritten by this query, for realtime filters
+  private replaced: Row[] = [];
+
+  constructor(store: MemoryStore, table: string) {
+    super(table);
+    this.store = store;
+  }
+
+  private matchedRows(): Row[] {
+    let rows = this.store.rows(this.table).filter((row) =>
+      matchesFilters(row, this.filters) &&
+      this.notEqualsFilters.every((nf) => row[nf.field] !== nf.value)
+    );
+
+    if (this.orderBy) {
+      const { field, ascending } = this.orderBy;
+      rows = rows.sort((a, b) => compareValues(a[field], b[field]) * (ascending ? 1 : -1));
+    }
+    if (this.limitCount !== null) {
+      rows = rows.slice(0, this.limitCount);
+    }
+    return rows;
+  }
+
+  private addRow(data: DocumentData, id?: string): Row {
+    return this.store.write(this.table, { ...data, id: id || this.store.nextId() });
+  }
+
+  private mergeRow(id: string, data: DocumentData): Row {
+    const existing = this.store.read(this.table, id);
+    if (existing) this.replaced.push(existing);
+    return this.store.write(this.table, { ...(existing ?? {}), ...data, id });
+  }
+
+  private applyUpdate(): Row[] {
+    const payload = this.payload;
+    if (Array.isArray(payload)) {
+      return payload.map((item) => {
+        const id = (item as WithId).id;
+        return typeof id === 'string' && id ? this.mergeRow(id, item) : this.addRow(item);
+      });
+    }
+    if (!payload) return [];
+
+    if (this.onConflict) {
+      // Mirrors the Firebase backend: the onConflict value becomes the row key
+      const conflictVal = payload[this.onConflict];
+      return [conflictVal ? this.mergeRow(String(conflictVal), payload) : this.addRow(payload)];
+    }
+
+    const matched = this.matchedRows();
+    if (matched.length === 0) {
+      // no matched rows -> create a new one
+      return [this.addRow(payload)];
+    }
+    return matched.map((row) => this.mergeRow(row.id, payload));
+  }
+
+  private joinRows(rows: Row[]): Row[] {
+    if (this.table === 'orders' && this.selectStr.includes('order_items(*)')) {
+      const items = this.store.rows('order_items');
+      return rows.map((order) => ({ ...order, order_items: items.filter((it) => it.order_id === order.id) }));
+    }
+
+    const wantsCategory = this.selectStr.includes('category:categories(*)');
+    const wantsVariants = this.selectStr.includes('variants:item_variants(*)');
+    if (this.table === 'items' && (wantsCategory || wantsVariants)) {
+      const variants = wantsVariants ? this.store.rows('item_variants') : [];
+      return rows.map((it) => ({
+        ...it,
+        category: wantsCategory && it.category_id ? this.store.read('categories', it.category_id) ?? undefined : undefined,
+        variants: variants.filter((v) => v.item_id === it.id),
+      }));
+    }
+
+    return rows;
+  }
+
+  async get(): Promise<QueryResult<T>> {
+    try {
+      let rows: Row[];
+
+      if (this.operation === 'update' && this.payload) {
+        rows = this.applyUpdate();
+        this.store.notify(this.table, [...rows, ...this.replaced]);
+      } else if (this.operation === 'delete') {
+        // Safety: refuse to delete everything when no filters were applied
+        if (this.filters.length === 0 && this.notEqualsFilters.length === 0) {
+          const err = { code: 'FORBIDDEN', message: 'Refusing to delete without filters' };
+          console.error('Refusing delete without filters', err);
+          return { data: null, error: err };
+        }
+        const removed = this.matchedRows().map((row) => this.store.remove(this.table, row.id));
+        this.store.notify(this.table, removed);
+        return { data: [], error: null };
+      } else {
+        rows = this.matchedRows();
+      }
+
+      const joined = this.joinRows(rows) as unknown as T[];
+      return { data: this.maybeSingleFlag ? [joined[0]] : joined, error: null };
+    } catch (err) {
+      console.error('QueryBuilder execute error:', err);
+      return { data: null, error: asBackendError(err) };
+    }
+  }
+
+  async insert(payload: Partial<T> | Partial<T>[]): Promise<QueryResult<T>> {
+    try {
+      const items = Array.isArray(payload) ? payload : [payload];
+      const rows = items.map((item) => {
+        const id = (item as WithId).id;
+        return this.addRow(item as DocumentData, typeof id === 'string' ? id : undefined);
+      });
+      this.store.notify(this.table, rows);
+      return { data: rows as unknown as T[], error: null };
+    } catch (err) {
+      console.error('QueryBuilder insert error:', err);
+      return { data: null, error: asBackendError(err) };
+    }
+  }
+}
+
+class MemoryChannel implements RealtimeChannel {
+  private store: MemoryStore;
+  private unsubscribeFns: Array<() => void> = [];
+
+  constructor(store: MemoryStore) {
+    this.store = store;
+  }
+
+  on(_event: string, opts: ChannelOptions, cb: () => void) {
+    if (!opts.table) return this;
+    this.unsubscribeFns.push(this.store.subscribe({
+      table: opts.table,
+      clauses: parseRealtimeFilter(opts.filter),
+      cb,
+    }));
+    return this;
+  }
+
+  subscribe() {
+    return this;
+  }
+
+  unsubscribe() {
+    this.unsubscribeFns.forEach((fn) => fn());
+    this.unsubscribeFns = [];
+  }
+}
+
+export function createMemoryBackend(seed: MemorySeed = {}, opts: MemoryBackendOptions = {}): Backend & { store: MemoryStore } {
+  const store = new MemoryStore(seed, opts);
+  const authListeners = new Set<(event: string, session: Session | null) => void>();
+
+  const currentUser = (): User | null => {
+    const u = store.currentUserId ? store.users.get(store.currentUserId) : undefined;
+    return u ? { id: u.id, email: u.email } : null;
+  };
+
+  const emitAuth = (event: string) => {
+    store.persist();
+    const user = currentUser();
+    authListeners.forEach((cb) => cb(event, user ? { user } : null));
+  };
+
+  return {
+    name: 'memory',
+    store,
+
+    from: <T extends WithId>(table: string): QueryBuilder<T> => new MemoryQueryBuilder<T>(store, table),
+
+    channel: () => new MemoryChannel(store),
+
+    // Optimistic concurrency like Firestore: remember every row that was read and
+    // re-run the callback if any of them changed before the buffered writes land.
+    async transaction<R>(fn: (tx: Transaction) => Promise<R>) {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const reads = new Map<string, { table: string; id: string; json: string }>();
+        const writes: Array<{ op: 'set' | 'update' | 'delete'; table: string; id: string; data?: DocumentData }> = [];
+        const tx: Transaction = {
+          async get<T extends WithId>(table: string, id: string) {
+            const row = store.read(table, id);
+            reads.set(`${table}/${id}`, { table, id, json: JSON.stringify(row) });
+            return row as T | null;
+          },
+          set: (table, id, data) => { writes.push({ op: 'set', table, id, data }); },
+          update: (table, id, data) => { writes.push({ op: 'update', table, id, data }); },
+          delete: (table, id) => { writes.push({ op: 'delete', table, id }); },
+          newId: () => store.nextId(),
+        };
+
+        let data: R;
+        try {
+          data = await fn(tx);
+        } catch (err) {
+          return { data: null, error: asBackendError(err) };
+        }
+
+        const stale = Array.from(reads.values()).some((r) => JSON.stringify(store.read(r.table, r.id)) !== r.json);
+        if (stale) continue;
+
+        // Stage every write first so a failing update leaves the store untouched
+        const staged = new Map<string, { table: string; id: string; before: Row | null; after: Row | null }>();
+        for (const w of writes) {
+          const key = `${w.table}/${w.id}`;
+          const entry = staged.get(key) ?? { table: w.table, id: w.id, before: store.read(w.table, w.id), after: store.read(w.table, w.id) };
+          if (w.op === 'delete') {
+            entry.after = null;
+          } else if (w.op === 'set') {
+            entry.after = { ...w.data, id: w.id };
+          } else {
+            if (!entry.after) return { data: null, error: { code: 'not-found', message: `${w.table}/${w.id} does not exist` } };
+            entry.after = { ...entry.after, ...w.data, id: w.id };
+          }
+          staged.set(key, entry);
+        }
+
+        const changedByTable = new Map<string, Array<Row | null>>();
+        for (const entry of staged.values()) {
+          if (entry.after) store.write(entry.table, entry.after);
+          else store.remove(entry.table, entry.id);
+          changedByTable.set(entry.table, [...(changedByTable.get(entry.table) ?? []), entry.before, entry.after]);
+        }
+        changedByTable.forEach((changed, table) => store.notify(table, changed));
+        return { data, error: null };
+      }
+      return { data: null, error: { code: 'aborted', message: 'Transaction kept conflicting with concurrent writes' } };
+    },
+
+    // Stands in for the deployed Cloud Functions: the same handler, run as the signed-in user
+    async rpc<R>(fn: string, params: Record<string, unknown>) {
+      const handler = SERVER_FUNCTIONS[fn];
+      if (!handler) return { data: null, error: { code: 'not-found', message: `No server function "${fn}"` } };
+      const caller = currentUser();
+      return this.transaction((tx) => handler(tx, caller, params) as Promise<R>);
+    },
+
+    // Single-threaded, so validating every change before writing any is atomic
+    async increment(table: string, changes: IncrementChange[], opts: { min?: number } = {}) {
+      const totals = new Map<string, Row>();
+      for (const c of changes) {
+        const row = totals.get(c.id) ?? store.read(table, c.id);
+        if (!row) return { data: null, error: { code: 'not-found', message: `${table}/${c.id} does not exist` } };
+        const value = (typeof row[c.field] === 'number' ? (row[c.field] as number) : 0) + c.by;
+        if (opts.min !== undefined && value < opts.min) {
+          return { data: null, error: { code: 'out-of-range', message: `${table}/${c.id}.${c.field} would drop below ${opts.min}` } };
+        }
+        totals.set(c.id, { ...row, [c.field]: value });
+      }
+      const before = Array.from(totals.keys()).map((id) => store.read(table, id));
+      const written = Array.from(totals.values()).map((row) => store.write(table, row));
+      store.notify(table, [...before, ...written]);
+      return { data: changes.map((c) => ({ id: c.id, value: totals.get(c.id)![c.field] as number })), error: null };
+    },
+
+    storage: {
+      from(bucket: string) {
+        return {
+          async upload(path: string, file: Blob | Uint8Array | ArrayBuffer) {
+            const blob = file instanceof Blob ? file : new Blob([file]);
+            store.files.set(`${bucket}/${path}`, blob);
+            return { error: null };
+          },
+          getPublicUrl(path: string) {
+            const blob = store.files.get(`${bucket}/${path}`);
+            const publicUrl = blob && typeof URL.createObjectURL === 'function'
+              ? URL.createObjectURL(blob)
+              : `memory://${bucket}/${path}`;
+            return { data: { publicUrl } };
+          }
+        };
+      }
+    },
+
+    auth: {
+      async signUp({ email, password }: { email: string; password: string }) {
+        if (store.findUserByEmail(email)) {
+          return { data: null, error: authError('auth/email-already-in-use', 'User already registered') };
+        }
+        if (password.length < 6) {
+          return { data: null, error: authError('auth/weak-password', 'Password should be at least 6 characters') };
+        }
+        const user: MemoryUser = { id: store.nextId(), email: email.trim(), password };
+        store.users.set(user.id, user);
+        // Firebase signs the new account in immediately; keep that behaviour
+        store.currentUserId = user.id;
+        emitAuth('SIGNED_IN');
+        return { data: { user: { id: user.id, email: user.email } }, error: null };
+      },
+
+      async signInWithPassword({ email, password }: { email: string; password: string }) {
+        const user = store.findUserByEmail(email);
+        if (!user || user.password !== password) {
+          return { data: null, error: authError('auth/invalid-credential', 'Invalid email or password') };
+        }
+        store.currentUserId = user.id;
+        emitAuth('SIGNED_IN');
+        return { data: { user: { id: user.id, email: user.email } }, error: null };
+      },
+
+      async signOut() {
+        store.currentUserId = null;
+        emitAuth('SIGNED_OUT');
+        return { error: null };
+      },
+
+      async getSession() {
+        const user = currentUser();
+        return { data: { session: user ? { user } : null }, error: null };
+      },
+
+      onAuthStateChange(cb: (event: string, session: Session | null) => void) {
+        authListeners.add(cb);
+        // Firebase reports the restored session asynchronously on subscribe
+        setTimeout(() => {
+          if (!authListeners.has(cb)) return;
+          const user = currentUser();
+          cb('INITIAL_SESSION', user ? { user } : null);
+        }, 0);
+        return { data: { subscription: { unsubscribe: () => { authListeners.delete(cb); } } } };
+      },
+
+      async updateUser({ email, password }: { email?: string; password?: string }) {
+        const user = store.currentUserId ? store.users.get(store.currentUserId) : undefined;
+        if (!user) {
+          return { data: null, error: authError('auth/no-current-user', 'No user logged in') };
+        }
+        if (email) user.email = email.trim();
+        if (password) user.password = password;
+        emitAuth('USER_UPDATED');
+        return { data: { user: { id: user.id, email: user.email } }, error: null };
+      }
+    }
+  };
+}
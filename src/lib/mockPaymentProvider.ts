@@ -0,0 +1,98 @@
+// Local stand-in for a card gateway so the whole prepaid flow runs offline and
+// in tests. Nothing is charged and every outcome depends only on the card
+// entered, like a gateway's test mode:
+//   4242 4242 4242 4242  succeeds
+//   4000 0000 0000 0002  declined
+//   4000 0000 0000 9995  declined, insufficient funds
+//   4000 0000 0000 3220  authorized only (the money is held, not taken)
+// Any other number that passes the Luhn check succeeds. An expired date or a
+// bad CVC is declined the way a real gateway would.
+import type { CardDetails, PaymentEvent, PaymentEventType, PaymentIntent, PaymentProvider } from './payments';
+
+export const MOCK_PROVIDER_ID = 'mock';
+
+const DECLINES: Record<string, string> = {
+  '4000000000000002': 'Your card was declined',
+  '4000000000009995': 'Your card has insufficient funds',
+};
+
+const AUTHORIZE_ONLY = '4000000000003220';
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/** Why the card would be refused before reaching the bank, or null. */
+export function cardDetailsError(details: CardDetails, now = new Date()): string | null {
+  const digits = details.number.replace(/[\s-]/g, '');
+  if (!/^\d{12,19}$/.test(digits) || !passesLuhn(digits)) return 'Your card number is incorrect';
+  const match = /^(\d{2})\s*\/\s*(\d{2})$/.exec(details.expiry.trim());
+  const month = match ? Number(match[1]) : 0;
+  if (!match || month < 1 || month > 12) return 'Enter the expiry date as MM/YY';
+  // Cards are valid until the end of their expiry month
+  if (new Date(2000 + Number(match[2]), month, 1) <= now) return 'Your card has expired';
+  if (!/^\d{3,4}$/.test(details.cvc.trim())) return "Your card's security code is incorrect";
+  return null;
+}
+
+export function createMockPaymentProvider(): PaymentProvider {
+  // Ids are derived from the order and the card so a replayed attempt produces
+  // the same event, which handlePaymentEvent() then ignores
+  const event = (intent: PaymentIntent, type: PaymentEventType, ref: string, failure_reason?: string): PaymentEvent => ({
+    id: `evt_${intent.id}_${type.replace('payment.', '')}_${ref}`,
+    type,
+    intent_id: intent.id,
+    order_id: intent.order_id,
+    amount: intent.amount,
+    at: new Date().toISOString(),
+    ...(failure_reason ? { failure_reason } : {}),
+  });
+
+  return {
+    id: MOCK_PROVIDER_ID,
+
+    async createIntent({ orderId, amount }) {
+      if (!(amount > 0)) throw new Error('Nothing to pay for this order');
+      return { id: `mock_pi_${orderId}`, provider: MOCK_PROVIDER_ID, order_id: orderId, amount, currency: 'INR' };
+    },
+
+    async confirm(intent, details) {
+      const digits = details.number.replace(/[\s-]/g, '');
+      const ref = digits.slice(-4) || 'none';
+      const invalid = cardDetailsError(details) ?? DECLINES[digits];
+      if (invalid) {
+        const reason = invalid.toLowerCase().replace(/[^a-z]+/g, '_');
+        return event(intent, 'payment.failed', `${ref}_${reason}`, invalid);
+      }
+      return event(intent, digits === AUTHORIZE_ONLY ? 'payment.authorized' : 'payment.succeeded', ref);
+    },
+
+    async refund(intent) {
+      return event(intent, 'payment.refunded', 'full');
+    },
+
+    parseCallback(body) {
+      const value = typeof body === 'string' ? JSON.parse(body) : body;
+      const candidate = (value as { provider?: unknown; event?: Partial<PaymentEvent> } | null)?.event;
+      if ((value as { provider?: unknown } | null)?.provider !== MOCK_PROVIDER_ID || !candidate) {
+        throw new Error('Invalid payment callback');
+      }
+      if (typeof candidate.id !== 'string' || typeof candidate.intent_id !== 'string' || typeof candidate.order_id !== 'string') {
+        throw new Error('Invalid payment callback');
+      }
+      if (!['payment.authorized', 'payment.succeeded', 'payment.failed', 'payment.refunded'].includes(candidate.type ?? '')) {
+        throw new Error(`Unknown payment event "${String(candidate.type)}"`);
+      }
+      return candidate as PaymentEvent;
+    },
+  };
+}
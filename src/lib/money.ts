@@ -0,0 +1,6 @@
+// Rupee amounts are stored as plain numbers; every total, discount, fee and
+// payout is rounded to paise with roundMoney() before it is saved or compared.
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryBackend } from './memoryBackend';
+import { seedFixtures } from './fixtures';
+import { Order, setBackend, supabase } from './supabase';
+import { TransitionContext, assignRider, handoverError, nextStatuses, transitionError, transitionOrder } from './orderStatus';
+
+const owner: TransitionContext = { role: 'owner', actorId: 'owner-1' };
+const customer: TransitionContext = { role: 'customer', actorId: 'customer-1' };
+const rider: TransitionContext = { role: 'delivery', actorId: 'delivery-1' };
+const otherRider: TransitionContext = { role: 'delivery', actorId: 'delivery-2' };
+
+type Guarded = Parameters<typeof transitionError>[0];
+
+const order = (fields: Partial<Order> = {}): Guarded => ({
+  status: 'pending',
+  customer_id: 'customer-1',
+  delivery_boy_id: null,
+  payment_status: 'unpaid',
+  delivery_attempts: [],
+  pin_verified_at: null,
+  ...fields,
+});
+
+describe('transitionError', () => {
+  it('rejects moves the table does not list', () => {
+    expect(transitionError(order(), 'delivered', owner)).toBe('Cannot change an order from Pending to Delivered');
+    expect(transitionError(order({ status: 'delivered' }), 'cancelled', owner)).toBe(
+      'Cannot change an order from Delivered to Cancelled'
+    );
+  });
+
+  it('rejects roles the rule does not allow', () => {
+    expect(transitionError(order(), 'confirmed', customer)).toBe('A customer cannot mark an order Confirmed');
+    expect(transitionError(order({ status: 'preparing' }), 'cancelled', customer)).toBe(
+      'A customer cannot mark an order Cancelled'
+    );
+  });
+
+  it('lets customers cancel only their own orders', () => {
+    expect(transitionError(order(), 'cancelled', customer)).toBeNull();
+    expect(transitionError(order({ customer_id: 'customer-2' }), 'cancelled', customer)).toBe('This is not your order');
+    expect(transitionError(order({ customer_id: 'customer-2' }), 'cancelled', owner)).toBeNull();
+  });
+
+  it('keeps riders to the orders assigned to them', () => {
+    const assigned = order({ status: 'ready', delivery_boy_id: 'delivery-1' });
+    expect(transitionError(assigned, 'out_for_delivery', rider)).toBeNull();
+    expect(transitionError(assigned, 'out_for_delivery', otherRider)).toBe('This order is not assigned to you');
+    expect(transitionError(order({ status: 'ready' }), 'out_for_delivery', owner)).toBe('Assign a delivery person first');
+  });
+});
+
+describe('handover', () => {
+  const outForDelivery = order({ status: 'out_for_delivery', delivery_boy_id: 'delivery-1' });
+
+  it('needs a verified PIN to deliver an assigned order', () => {
+    expect(transitionError(outForDelivery, 'delivered', rider)).toBe('Delivery PIN must be verified');
+    expect(transitionError(outForDelivery, 'delivered', owner)).toBe('Delivery PIN must be verified');
+    const verified = { ...outForDelivery, pin_verified_at: '2026-10-19T10:00:00Z' };
+    expect(transitionError(verified, 'delivered', rider)).toBeNull();
+    expect(transitionError(verified, 'delivered', otherRider)).toBe('This order is not assigned to you');
+  });
+
+  it('lets the owner deliver an order that never had a rider', () => {
+    expect(transitionError(order({ status: 'ready' }), 'delivered', owner)).toBeNull();
+  });
+
+  it('checks who may deliver before the PIN is entered', () => {
+    expect(handoverError(outForDelivery, rider)).toBeNull();
+    expect(handoverError(outForDelivery, otherRider)).toBe('This order is not assigned to you');
+    expect(nextStatuses(outForDelivery, rider)).toEqual(['delivered', 'delivery_failed']);
+  });
+});
+
+describe('nextStatuses', () => {
+  it('offers each actor only the moves they may make', () => {
+    expect(nextStatuses(order(), customer)).toEqual(['cancelled']);
+    expect(nextStatuses(order(), owner)).toEqual(['confirmed', 'accepted', 'cancelled']);
+    expect(nextStatuses(order({ status: 'confirmed', delivery_boy_id: 'delivery-2' }), rider)).toEqual([]);
+  });
+});
+
+function installOrder() {
+  const seed = seedFixtures();
+  seed.tables!.orders = [{ id: 'order-1', order_number: 'JJ-1001', customer_id: 'customer-1', status: 'pending', created_at: '2026-10-19T04:00:00Z' }];
+  setBackend(createMemoryBackend(seed));
+}
+
+describe('transitionOrder', () => {
+  beforeEach(() => {
+    installOrder();
+  });
+
+  it('lets only the first of two racing changes land', async () => {
+    const results = await Promise.allSettled([
+      transitionOrder('order-1', 'cancelled', customer),
+      transitionOrder('order-1', 'confirmed', owner),
+    ]);
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe('Cannot change an order from Cancelled to Confirmed');
+  });
+
+  it('refuses a customer cancelling someone else\'s order', async () => {
+    await expect(transitionOrder('order-1', 'cancelled', { role: 'customer', actorId: 'customer-2' })).rejects.toThrow(
+      'This is not your order'
+    );
+  });
+});
+
+describe('assignRider', () => {
+  it('does not reassign an order cancelled after the owner opened it', async () => {
+    installOrder();
+    const results = await Promise.allSettled([
+      transitionOrder('order-1', 'cancelled', customer),
+      assignRider('order-1', 'delivery-1', owner),
+    ]);
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe('Cannot reassign an order that is Cancelled');
+  });
+
+  it('keeps the history entry of a status change racing the assignment', async () => {
+    installOrder();
+    await Promise.all([transitionOrder('order-1', 'confirmed', owner), assignRider('order-1', 'delivery-1', owner)]);
+    const { data: saved } = await supabase.from<Order>('orders').select('*').eq('id', 'order-1').maybeSingle();
+    expect(saved?.status).toBe('confirmed');
+    expect(saved?.delivery_boy_id).toBe('delivery-1');
+    expect(saved?.status_history?.map((e) => e.type ?? 'status')).toEqual(['status', 'assignment']);
+  });
+});
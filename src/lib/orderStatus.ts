@@ -0,0 +1,401 @@
+// Order lifecycle state machine shared by the owner, delivery and customer views.
+// Every status write goes through transitionOrder() so illegal jumps such as
+// delivered → pending are rejected in one place.
+import { supabase, Order, OrderItem, Profile } from './supabase';
+import { releaseStock } from './stock';
+import { releaseCouponRedemption } from './coupons';
+import { releaseSlotBooking } from './deliverySlots';
+import { isPaymentSettled, refundPayment } from './payments';
+import { attemptsLeft } from './deliveryAttempts';
+
+export const ORDER_STATUSES = [
+  'awaiting_payment',
+  'pending',
+  'confirmed',
+  'accepted',
+  'preparing',
+  'ready',
+  'out_for_delivery',
+  'delivery_failed',
+  'delivered',
+  'cancelled',
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export type OrderActorRole = Profile['role'];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  awaiting_payment: 'Awaiting Payment',
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  accepted: 'Accepted',
+  preparing: 'Preparing',
+  ready: 'Ready for Pickup',
+  out_for_delivery: 'Out for Delivery',
+  delivery_failed: 'Delivery Failed',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+export const TERMINAL_STATUSES: OrderStatus[] = ['delivered', 'cancelled'];
+
+// Prepaid orders the customer has not paid for yet
+export const UNPAID_STATUSES: OrderStatus[] = ['awaiting_payment'];
+
+/**
+ * Whether the owner's order list should include the order. Unpaid orders are
+ * hidden, except UPI ones with a reference for the owner to verify.
+ */
+export function visibleToShop(order: Pick<Order, 'status' | 'payment_reference'>): boolean {
+  return !UNPAID_STATUSES.includes(order.status) || !!order.payment_reference;
+}
+
+export type TransitionContext = {
+  role: OrderActorRole;
+  actorId?: string | null;
+};
+
+// One entry of the append-only log kept on each order in `status_history`.
+// Assignment changes are logged too so the owner can see who handed an order
+// to which rider; their `status` is the order's status at that moment.
+export type OrderStatusEvent = {
+  type: 'status' | 'assignment';
+  status: OrderStatus;
+  actor_id: string | null;
+  actor_role: OrderActorRole;
+  at: string;
+  note?: string;
+  delivery_boy_id?: string | null;
+};
+
+/** Builds a log entry; used for the initial `pending` event when an order is placed. */
+export function statusEvent(
+  status: OrderStatus,
+  ctx: TransitionContext,
+  fields: Partial<Pick<OrderStatusEvent, 'type' | 'note' | 'delivery_boy_id'>> = {}
+): OrderStatusEvent {
+  const event: OrderStatusEvent = {
+    type: fields.type ?? 'status',
+    status,
+    actor_id: ctx.actorId ?? null,
+    actor_role: ctx.role,
+    at: new Date().toISOString(),
+  };
+  if (fields.note) event.note = fields.note;
+  if (fields.delivery_boy_id !== undefined) event.delivery_boy_id = fields.delivery_boy_id;
+  return event;
+}
+
+/** The order's log, oldest first. Orders placed before the log existed get a synthetic `created` entry. */
+export function statusHistory(order: Pick<Order, 'status' | 'created_at' | 'customer_id' | 'status_history'>): OrderStatusEvent[] {
+  const history = Array.isArray(order.status_history) ? [...order.status_history] : [];
+  if (history.length === 0 && order.created_at) {
+    history.push({ type: 'status', status: 'pending', actor_id: order.customer_id ?? null, actor_role: 'customer', at: order.created_at });
+  }
+  return history.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
+
+type GuardedOrder = Pick<Order, 'customer_id' | 'delivery_boy_id' | 'payment_status' | 'delivery_attempts' | 'pin_verified_at'>;
+
+type TransitionRule = {
+  roles: OrderActorRole[];
+  guard?: (order: GuardedOrder, ctx: TransitionContext) => string | null;
+};
+
+// Riders may only move orders that are assigned to them
+const assignedRider: TransitionRule['guard'] = (order, ctx) => {
+  if (ctx.role !== 'delivery') return null;
+  return order.delivery_boy_id && order.delivery_boy_id === ctx.actorId
+    ? null
+    : 'This order is not assigned to you';
+};
+
+// Customers may only move their own orders
+const ownOrder: TransitionRule['guard'] = (order, ctx) => {
+  if (ctx.role !== 'customer') return null;
+  return order.customer_id && order.customer_id === ctx.actorId ? null : 'This is not your order';
+};
+
+const needsRider: TransitionRule['guard'] = (order, ctx) => {
+  if (!order.delivery_boy_id) return 'Assign a delivery person first';
+  return assignedRider(order, ctx);
+};
+
+// Handing over requires the customer's PIN unless the owner delivers an
+// order that never had a rider assigned. Only the verify_delivery_pin server
+// function stamps `pin_verified_at`; see deliverWithPin().
+const handover: TransitionRule['guard'] = (order, ctx) => {
+  const riderError = assignedRider(order, ctx);
+  if (riderError) return riderError;
+  if (order.pin_verified_at) return null;
+  if (ctx.role === 'owner' && !order.delivery_boy_id) return null;
+  return 'Delivery PIN must be verified';
+};
+
+// A prepaid order is released by the payment callback or, for UPI, by the
+// owner verifying the reference; either way only once it is paid. On Firebase,
+// firestore.rules enforces the same for writes that skip this client
+const paymentSettled: TransitionRule['guard'] = (order, ctx) =>
+  ownOrder(order, ctx) ?? (isPaymentSettled(order.payment_status) ? null : 'This order has not been paid yet');
+
+// A failed order goes out again only while it has attempts left; after that it is returned
+const canRetry: TransitionRule['guard'] = (order) =>
+  attemptsLeft(order) > 0 ? null : 'This order has used all its delivery attempts; return it to stock instead';
+
+// Only the rider records a failed attempt, with a reason, through recordFailedAttempt()
+const RIDER: OrderActorRole[] = ['delivery'];
+const OWNER: OrderActorRole[] = ['owner'];
+const OWNER_OR_RIDER: OrderActorRole[] = ['owner', 'delivery'];
+
+const TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, TransitionRule>>> = {
+  awaiting_payment: {
+    pending: { roles: ['customer', 'owner'], guard: paymentSettled },
+    cancelled: { roles: ['owner', 'customer'], guard: ownOrder },
+  },
+  pending: {
+    confirmed: { roles: OWNER },
+    accepted: { roles: OWNER_OR_RIDER, guard: assignedRider },
+    cancelled: { roles: ['owner', 'customer'], guard: ownOrder },
+  },
+  confirmed: {
+    accepted: { roles: OWNER_OR_RIDER, guard: assignedRider },
+    preparing: { roles: OWNER },
+    cancelled: { roles: ['owner', 'customer'], guard: ownOrder },
+  },
+  accepted: {
+    preparing: { roles: OWNER },
+    ready: { roles: OWNER },
+    out_for_delivery: { roles: OWNER_OR_RIDER, guard: needsRider },
+    delivered: { roles: OWNER_OR_RIDER, guard: handover },
+    delivery_failed: { roles: RIDER, guard: needsRider },
+    cancelled: { roles: OWNER },
+  },
+  preparing: {
+    ready: { roles: OWNER },
+    cancelled: { roles: OWNER },
+  },
+  ready: {
+    out_for_delivery: { roles: OWNER_OR_RIDER, guard: needsRider },
+    delivered: { roles: OWNER_OR_RIDER, guard: handover },
+    delivery_failed: { roles: RIDER, guard: needsRider },
+    cancelled: { roles: OWNER },
+  },
+  out_for_delivery: {
+    delivered: { roles: OWNER_OR_RIDER, guard: handover },
+    delivery_failed: { roles: RIDER, guard: needsRider },
+    cancelled: { roles: OWNER },
+  },
+  // The parcel is back at the shop: the owner re-schedules it or returns it to stock
+  delivery_failed: {
+    ready: { roles: OWNER, guard: canRetry },
+    cancelled: { roles: OWNER },
+  },
+  delivered: {},
+  cancelled: {},
+};
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+/** Returns why `order` may not move to `to`, or null when the transition is allowed. */
+export function transitionError(
+  order: Pick<Order, 'status'> & GuardedOrder,
+  to: OrderStatus,
+  ctx: TransitionContext
+): string | null {
+  const from = order.status;
+  if (!isOrderStatus(from)) return `Unknown order status "${String(from)}"`;
+  const rule = TRANSITIONS[from][to];
+  if (!rule) return `Cannot change an order from ${ORDER_STATUS_LABELS[from]} to ${ORDER_STATUS_LABELS[to]}`;
+  if (!rule.roles.includes(ctx.role)) return `A ${ctx.role} cannot mark an order ${ORDER_STATUS_LABELS[to]}`;
+  return rule.guard ? rule.guard(order, ctx) : null;
+}
+
+export function canTransition(
+  order: Pick<Order, 'status'> & GuardedOrder,
+  to: OrderStatus,
+  ctx: TransitionContext
+): boolean {
+  return transitionError(order, to, ctx) === null;
+}
+
+/** Why the actor could not mark the order delivered even once the customer's PIN checks out. */
+export function handoverError(order: Pick<Order, 'status'> & GuardedOrder, ctx: TransitionContext): string | null {
+  return transitionError({ ...order, pin_verified_at: order.pin_verified_at ?? new Date().toISOString() }, 'delivered', ctx);
+}
+
+/** Statuses the actor could move the order to next, ignoring guards that need a PIN. */
+export function nextStatuses(order: Pick<Order, 'status'> & GuardedOrder, ctx: TransitionContext): OrderStatus[] {
+  if (!isOrderStatus(order.status)) return [];
+  return (Object.keys(TRANSITIONS[order.status]) as OrderStatus[])
+    .filter((to) => (to === 'delivered' ? handoverError(order, ctx) : transitionError(order, to, ctx)) === null);
+}
+
+type FromCurrent<T> = T | ((current: Order) => T);
+
+// Written whenever a verified PIN stops vouching for the next handover
+const PIN_UNVERIFIED: Partial<Order> = { pin_verified_at: null, pin_verified_by: null };
+
+/**
+ * Validates and writes a status change. The order is re-read inside a
+ * transaction so a stale copy in the UI cannot resurrect an order another user
+ * already closed, and of two racing changes only the first lands; the
+ * cancellation side effects run only for the change that committed. `extra`
+ * and `note` may be functions of the re-read order, for fields that build on it.
+ * Throws an Error with a user-facing message when the transition is illegal.
+ */
+export async function transitionOrder(
+  orderId: string,
+  to: OrderStatus,
+  ctx: TransitionContext,
+  extra: FromCurrent<Partial<Order>> = {},
+  note?: FromCurrent<string>,
+  // Refuse unless the order is still in this status, for sweeps working from a list read earlier
+  expected?: OrderStatus
+): Promise<Order> {
+  const { data, error } = await supabase.transaction(async (tx) => {
+    const current = await tx.get<Order>('orders', orderId);
+    if (!current) throw new Error('Order not found');
+    if (expected && current.status !== expected) {
+      throw new Error(`This order is already ${ORDER_STATUS_LABELS[current.status] ?? current.status}`);
+    }
+
+    const reason = transitionError(current, to, ctx);
+    if (reason) throw new Error(reason);
+
+    const payload: Partial<Order> = {
+      ...(typeof extra === 'function' ? extra(current) : extra),
+      status: to,
+      updated_at: new Date().toISOString(),
+      status_history: [
+        ...(current.status_history ?? []),
+        statusEvent(to, ctx, { note: typeof note === 'function' ? note(current) : note }),
+      ],
+    };
+    // cancelled orders are unassigned so they drop off the rider's list, and
+    // their stock is released below, so it must not be moved again by an edit
+    if (to === 'cancelled') {
+      payload.delivery_boy_id = null;
+      if (current.stock_reserved) payload.stock_reserved = false;
+    }
+    // A failed handover has to be proven again with the PIN on the next run
+    if (to === 'delivery_failed') Object.assign(payload, PIN_UNVERIFIED);
+
+    tx.update('orders', orderId, payload);
+    return { current, payload };
+  });
+  if (error || !data) throw new Error(error?.message || 'Could not update the order');
+  const { current, payload } = data;
+
+  if (to === 'cancelled' && current.stock_reserved) {
+    await restoreOrderStock(orderId);
+  }
+  if (to === 'cancelled' && current.coupon_code) {
+    await restoreCouponUse(current);
+  }
+  if (to === 'cancelled' && current.delivery_slot) {
+    await freeDeliverySlot(current);
+  }
+  const refundError = to === 'cancelled' && isPaymentSettled(current.payment_status) ? await refundCancelledOrder(current) : null;
+
+  signalOrderUpdated();
+  return { ...current, ...payload, ...(refundError ? { refund_error: refundError } : {}) } as Order;
+}
+
+// The status change has already landed, so a failed restock is logged for the
+// owner to fix by hand rather than surfaced as a failed cancellation.
+async function restoreOrderStock(orderId: string) {
+  try {
+    const { data, error } = await supabase.from<OrderItem>('order_items').select('*').eq('order_id', orderId).get();
+    if (error) throw new Error(error.message);
+    await releaseStock(data ?? []);
+  } catch (err) {
+    console.error('Failed to restore stock for cancelled order', orderId, err);
+  }
+}
+
+// Like restocking: the cancellation stands even if the coupon counters cannot be updated
+async function restoreCouponUse(order: Order) {
+  try {
+    await releaseCouponRedemption(order.coupon_code!, order.customer_id);
+  } catch (err) {
+    console.error('Failed to release coupon for cancelled order', order.id, err);
+  }
+}
+
+// The slot's place goes back to other customers; a failure only leaves the slot looking fuller
+async function freeDeliverySlot(order: Order) {
+  try {
+    await releaseSlotBooking(order.delivery_slot!.id);
+  } catch (err) {
+    console.error('Failed to release delivery slot for cancelled order', order.id, err);
+  }
+}
+
+// Money taken for a cancelled order goes back. A failed refund is recorded on
+// the order as `refund_error`, which OrdersManagement shows until the owner has
+// refunded by hand, and returned so the caller can say so straight away.
+async function refundCancelledOrder(order: Order): Promise<string | null> {
+  try {
+    await refundPayment(order.id);
+    return null;
+  } catch (err) {
+    console.error('Failed to refund cancelled order', order.id, err);
+    const message = err instanceof Error ? err.message : 'The payment could not be refunded';
+    const { error } = await supabase.from<Order>('orders').update({ refund_error: message }).eq('id', order.id).get();
+    if (error) console.error('Failed to flag the refund on cancelled order', order.id, error);
+    return message;
+  }
+}
+
+/**
+ * Assigns (or with null, unassigns) a rider and logs who did it. Like
+ * transitionOrder() it re-reads the order in a transaction, so an order closed
+ * in the meantime is not reassigned and a racing status change keeps its
+ * history entry.
+ */
+export async function assignRider(
+  orderId: string,
+  deliveryBoyId: string | null,
+  ctx: TransitionContext,
+  note?: string
+): Promise<Order> {
+  const { data, error } = await supabase.transaction(async (tx) => {
+    const current = await tx.get<Order>('orders', orderId);
+    if (!current) throw new Error('Order not found');
+    if (!isOrderStatus(current.status) || TERMINAL_STATUSES.includes(current.status)) {
+      throw new Error(`Cannot reassign an order that is ${ORDER_STATUS_LABELS[current.status] ?? current.status}`);
+    }
+
+    const payload: Partial<Order> = {
+      delivery_boy_id: deliveryBoyId,
+      updated_at: new Date().toISOString(),
+      status_history: [
+        ...(current.status_history ?? []),
+        statusEvent(current.status, ctx, { type: 'assignment', delivery_boy_id: deliveryBoyId, note }),
+      ],
+    };
+
+    // The PIN was checked for the previous rider, not for whoever takes over
+    if (deliveryBoyId !== (current.delivery_boy_id ?? null)) Object.assign(payload, PIN_UNVERIFIED);
+
+    tx.update('orders', orderId, payload);
+    return { ...current, ...payload } as Order;
+  });
+  if (error || !data) throw new Error(error?.message || 'Could not assign the order');
+
+  signalOrderUpdated();
+  return data;
+}
+
+// notify other tabs/components that an order changed
+export function signalOrderUpdated() {
+  try {
+    localStorage.setItem('order_updated_at', Date.now().toString());
+    window.dispatchEvent(new CustomEvent('order_updated'));
+  } catch {
+    // ignore signaling errors
+  }
+}
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ItemVariant, Order, supabase } from './supabase';
+import { placeOrder } from './checkout';
+import { transitionOrder } from './orderStatus';
+import { createMockPaymentProvider } from './mockPaymentProvider';
+import {
+  PAYMENT_WINDOW_MINUTES,
+  confirmPayment,
+  expireUnpaidOrders,
+  fetchPayment,
+  handlePaymentEvent,
+  paymentExpired,
+  setPaymentProvider,
+  startPayment,
+} from './payments';
+import { checkoutInput, installTestBackend, orderLine } from './testFixtures';
+
+const owner = { role: 'owner' as const, actorId: 'owner-1' };
+const card = { number: '4242 4242 4242 4242', expiry: '12/40', cvc: '123' };
+const declined = { ...card, number: '4000 0000 0000 0002' };
+
+async function order(id: string) {
+  const { data } = await supabase.from<Order>('orders').select('*').eq('id', id).maybeSingle();
+  return data!;
+}
+
+async function placeCardOrder(key: string, createdAt = new Date()) {
+  const { order: placed } = await placeOrder(
+    checkoutInput(key, [orderLine('var-dokra-1', 1200, 1)], { order: { payment_method: 'card', created_at: createdAt.toISOString() } })
+  );
+  return placed;
+}
+
+beforeEach(() => {
+  installTestBackend();
+  setPaymentProvider(createMockPaymentProvider());
+});
+
+describe('mock card payments', () => {
+  it('holds a card order back from the shop until it is paid', async () => {
+    const placed = await placeCardOrder('key-1');
+    expect(placed).toMatchObject({ status: 'awaiting_payment', payment_status: 'unpaid' });
+
+    await startPayment(placed);
+    const record = await confirmPayment('key-1', card);
+    expect(record.status).toBe('paid');
+    expect(await order('key-1')).toMatchObject({ status: 'pending', payment_status: 'paid' });
+  });
+
+  it('leaves the order waiting after a declined card, for another try', async () => {
+    const placed = await placeCardOrder('key-1');
+    await startPayment(placed);
+    await expect(confirmPayment('key-1', declined)).rejects.toThrow('Your card was declined');
+    expect(await order('key-1')).toMatchObject({ status: 'awaiting_payment', payment_status: 'failed' });
+
+    await startPayment(await order('key-1'));
+    await confirmPayment('key-1', card);
+    expect((await order('key-1')).status).toBe('pending');
+  });
+
+  it('ignores a redelivered event', async () => {
+    const placed = await placeCardOrder('key-1');
+    const record = await startPayment(placed);
+    const event = { id: 'evt-1', type: 'payment.succeeded' as const, intent_id: record.intent_id, order_id: 'key-1', amount: 1200, at: new Date().toISOString() };
+    await handlePaymentEvent(event);
+    const again = await handlePaymentEvent(event);
+    expect(again.event_ids).toEqual(['evt-1']);
+  });
+
+  it('refunds a paid order when the owner cancels it', async () => {
+    await startPayment(await placeCardOrder('key-1'));
+    await confirmPayment('key-1', card);
+    await transitionOrder('key-1', 'cancelled', owner);
+    expect((await fetchPayment('key-1'))?.status).toBe('refunded');
+    expect((await order('key-1')).payment_status).toBe('refunded');
+  });
+
+  it('will not release an unpaid order to the shop', async () => {
+    await placeCardOrder('key-1');
+    await expect(transitionOrder('key-1', 'pending', { role: 'customer', actorId: 'customer-1' })).rejects.toThrow(
+      'This order has not been paid yet'
+    );
+  });
+});
+
+describe('unpaid order expiry', () => {
+  const longAgo = () => new Date(Date.now() - (PAYMENT_WINDOW_MINUTES + 1) * 60000);
+
+  it('cancels orders left unpaid past the window and gives their stock back', async () => {
+    await placeCardOrder('key-old', longAgo());
+    await placeCardOrder('key-new');
+    const orders = [await order('key-old'), await order('key-new')];
+    expect(orders.map((o) => paymentExpired(o))).toEqual([true, false]);
+
+    expect(await expireUnpaidOrders(orders, owner)).toBe(1);
+    expect((await order('key-old')).status).toBe('cancelled');
+    expect((await order('key-new')).status).toBe('awaiting_payment');
+    const { data: variant } = await supabase.from<ItemVariant>('item_variants').select('*').eq('id', 'var-dokra-1').maybeSingle();
+    expect(variant?.stock).toBe(3);
+  });
+
+  it('refunds money that arrives after the order expired', async () => {
+    const record = await startPayment(await placeCardOrder('key-1'));
+    await transitionOrder('key-1', 'cancelled', owner, {}, 'Not paid in time');
+    const event = { id: 'evt-late', type: 'payment.succeeded' as const, intent_id: record.intent_id, order_id: 'key-1', amount: 1200, at: new Date().toISOString() };
+    expect((await handlePaymentEvent(event)).status).toBe('refunded');
+    expect((await order('key-1')).status).toBe('cancelled');
+  });
+});
@@ -0,0 +1,342 @@
+// Online payments. Prepaid orders are placed as `awaiting_payment`; the shop
+// only sees them once the provider reports the money as taken. Every outcome
+// reaches the app as a PaymentEvent through handlePaymentEvent(), the same path
+// a gateway's webhook would take, which records it in `payments` (one row per
+// order, keyed by order id), copies the result to orders.payment_status and
+// releases the order to the shop. Cash on delivery never touches a provider.
+import { supabase, Order } from './supabase';
+import { createMockPaymentProvider } from './mockPaymentProvider';
+import { TransitionContext, signalOrderUpdated, transitionOrder } from './orderStatus';
+
+export const PAYMENT_STATUSES = ['unpaid', 'authorized', 'paid', 'refunded', 'failed'] as const;
+
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  authorized: 'Authorized',
+  paid: 'Paid',
+  refunded: 'Refunded',
+  failed: 'Payment failed',
+};
+
+// UPI goes straight to the shop's VPA and is verified by hand; see lib/upi
+export type PaymentMethod = 'cod' | 'card' | 'upi';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cod: 'Cash on Delivery',
+  card: 'Card',
+  upi: 'UPI',
+};
+
+// The money is held or taken, so the shop can start on the order
+export const SETTLED_PAYMENT_STATUSES: PaymentStatus[] = ['authorized', 'paid'];
+
+// An unpaid prepaid order holds stock, a coupon use and a slot place; after this long it is cancelled
+export const PAYMENT_WINDOW_MINUTES = 30;
+
+export type PaymentIntent = {
+  id: string;
+  provider: string;
+  order_id: string;
+  // Rupees, as on the order
+  amount: number;
+  currency: 'INR';
+};
+
+export type PaymentEventType = 'payment.authorized' | 'payment.succeeded' | 'payment.failed' | 'payment.refunded';
+
+export type PaymentEvent = {
+  // Unique per event; a redelivered event is ignored
+  id: string;
+  type: PaymentEventType;
+  intent_id: string;
+  order_id: string;
+  amount: number;
+  at: string;
+  failure_reason?: string | null;
+};
+
+export type CardDetails = {
+  number: string;
+  // "MM/YY"
+  expiry: string;
+  cvc: string;
+  name?: string;
+};
+
+export interface PaymentProvider {
+  readonly id: string;
+  createIntent(request: { orderId: string; amount: number }): Promise<PaymentIntent>;
+  // Resolves with the outcome event; a declined card is an event, not a rejection
+  confirm(intent: PaymentIntent, details: CardDetails): Promise<PaymentEvent>;
+  refund(intent: PaymentIntent): Promise<PaymentEvent>;
+  // Decodes a callback body posted by the provider; throws on anything it cannot verify
+  parseCallback(body: unknown): PaymentEvent;
+}
+
+// One per order in `payments`, keyed by the order id
+export type PaymentRecord = {
+  id: string;
+  order_id: string;
+  provider: string;
+  intent_id: string;
+  amount: number;
+  currency: 'INR';
+  status: PaymentStatus;
+  failure_reason: string | null;
+  // Ids of the events already applied, oldest first
+  event_ids: string[];
+  created_at: string;
+  updated_at: string;
+};
+
+const EVENT_STATUS: Record<PaymentEventType, PaymentStatus> = {
+  'payment.authorized': 'authorized',
+  'payment.succeeded': 'paid',
+  'payment.failed': 'failed',
+  'payment.refunded': 'refunded',
+};
+
+// No real gateway is integrated yet. The mock accepts its test cards without
+// charging anyone, so it only runs when VITE_PAYMENT_PROVIDER=mock asks for it
+// or alongside the memory backend; otherwise card payments are switched off.
+function createDefaultProvider(): PaymentProvider | null {
+  const wanted = import.meta.env.VITE_PAYMENT_PROVIDER || (import.meta.env.VITE_BACKEND === 'memory' ? 'mock' : '');
+  if (wanted === 'mock') return createMockPaymentProvider();
+  if (wanted) console.error(`Unknown payment provider "${wanted}"; card payments are switched off`);
+  return null;
+}
+
+let activeProvider: PaymentProvider | null = createDefaultProvider();
+
+// Swap the provider at runtime, e.g. tests installing a fresh mock
+export function setPaymentProvider(provider: PaymentProvider | null) {
+  activeProvider = provider;
+}
+
+export function paymentProviderId(): string | null {
+  return activeProvider?.id ?? null;
+}
+
+/** Whether checkout may offer card payments at all. */
+export function cardPaymentsEnabled(): boolean {
+  return activeProvider !== null;
+}
+
+function provider(): PaymentProvider {
+  if (!activeProvider) throw new Error('Card payments are not available right now; please choose another payment method');
+  return activeProvider;
+}
+
+/** Cash on delivery, and orders placed before payments existed, go straight to the shop. */
+export function paysOnDelivery(method: PaymentMethod | null | undefined): boolean {
+  return !method || method === 'cod';
+}
+
+export function isPaymentSettled(status: PaymentStatus | null | undefined): boolean {
+  return !!status && SETTLED_PAYMENT_STATUSES.includes(status);
+}
+
+/**
+ * Whether money has already been taken online for the order, or the customer
+ * says they sent it by UPI. Its total must not change then: nothing would
+ * charge the difference or refund part of it.
+ */
+export function paidOnline(order: Pick<Order, 'payment_method' | 'payment_status' | 'payment_reference'>): boolean {
+  if (paysOnDelivery(order.payment_method)) return false;
+  return isPaymentSettled(order.payment_status) || !!order.payment_reference;
+}
+
+/** "Card · Paid", "Cash on Delivery" and so on; null for orders placed before payments existed. */
+export function describePayment(order: Pick<Order, 'payment_method' | 'payment_status'>): string | null {
+  if (!order.payment_method) return null;
+  const method = PAYMENT_METHOD_LABELS[order.payment_method] ?? order.payment_method;
+  if (order.payment_method === 'cod' && order.payment_status !== 'paid') return method;
+  return order.payment_status ? `${method} · ${PAYMENT_STATUS_LABELS[order.payment_status]}` : method;
+}
+
+export async function fetchPayment(orderId: string): Promise<PaymentRecord | null> {
+  const { data, error } = await supabase.from<PaymentRecord>('payments').select('*').eq('id', orderId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/**
+ * Whether the customer has run out of time to pay. UPI orders with a reference
+ * are waiting on the owner, not the customer, so they never expire; once the
+ * owner rejects a reference the customer gets a fresh window to pay again.
+ */
+export function paymentExpired(
+  order: Pick<Order, 'status' | 'created_at' | 'payment_reference' | 'payment_rejected_at'>,
+  now: Date = new Date()
+): boolean {
+  if (order.status !== 'awaiting_payment' || order.payment_reference) return false;
+  const since = new Date(order.payment_rejected_at ?? order.created_at);
+  return now.getTime() - since.getTime() > PAYMENT_WINDOW_MINUTES * 60000;
+}
+
+/**
+ * Cancels the expired orders among `orders`, which gives back their stock,
+ * coupon use and slot place. Resolves with how many were cancelled.
+ */
+export async function expireUnpaidOrders(orders: Order[], ctx: TransitionContext, now: Date = new Date()): Promise<number> {
+  let cancelled = 0;
+  for (const order of orders.filter((o) => paymentExpired(o, now))) {
+    try {
+      await transitionOrder(order.id, 'cancelled', ctx, {}, 'Not paid in time', 'awaiting_payment');
+      cancelled++;
+    } catch (err) {
+      // Most likely paid in the meantime
+      console.error('Failed to expire unpaid order', order.id, err);
+    }
+  }
+  return cancelled;
+}
+
+/**
+ * Opens a payment for a prepaid order, or returns the one already open so a
+ * customer retrying after a declined card keeps the same intent.
+ */
+export async function startPayment(
+  order: Pick<Order, 'id' | 'total_amount' | 'status' | 'created_at' | 'payment_reference' | 'payment_rejected_at'>
+): Promise<PaymentRecord> {
+  if (order.status !== 'awaiting_payment') throw new Error('This order is not waiting for payment');
+  if (paymentExpired(order)) throw new Error('The time to pay for this order has run out; please order again');
+
+  const existing = await fetchPayment(order.id);
+  if (existing && isPaymentSettled(existing.status)) throw new Error('This order has already been paid');
+  if (existing && existing.status !== 'refunded' && existing.amount === order.total_amount) return existing;
+
+  const intent = await provider().createIntent({ orderId: order.id, amount: order.total_amount });
+  const now = new Date().toISOString();
+  const record: PaymentRecord = {
+    id: order.id,
+    order_id: order.id,
+    provider: intent.provider,
+    intent_id: intent.id,
+    amount: intent.amount,
+    currency: intent.currency,
+    status: 'unpaid',
+    failure_reason: null,
+    event_ids: [],
+    created_at: existing?.created_at ?? now,
+    updated_at: now,
+  };
+  const { error } = await supabase.from<PaymentRecord>('payments').upsert(record, { onConflict: 'id' }).get();
+  if (error) throw new Error(error.message);
+  return record;
+}
+
+const intentOf = (record: PaymentRecord): PaymentIntent => ({
+  id: record.intent_id,
+  provider: record.provider,
+  order_id: record.order_id,
+  amount: record.amount,
+  currency: record.currency,
+});
+
+/**
+ * Charges the card for an order opened with startPayment(). Resolves once the
+ * order has been handed to the shop; throws with the provider's reason when
+ * the card is declined, leaving the order waiting for another attempt.
+ */
+export async function confirmPayment(orderId: string, details: CardDetails): Promise<PaymentRecord> {
+  const record = await fetchPayment(orderId);
+  if (!record) throw new Error('Payment not started for this order');
+  if (isPaymentSettled(record.status)) {
+    await releaseToShop(orderId);
+    return record;
+  }
+
+  const event = await provider().confirm(intentOf(record), details);
+  const updated = await handlePaymentEvent(event);
+  if (!isPaymentSettled(updated.status)) throw new Error(updated.failure_reason || 'Payment failed');
+  return updated;
+}
+
+/** Entry point for callbacks posted by the provider. */
+export async function receivePaymentCallback(body: unknown): Promise<PaymentRecord> {
+  return handlePaymentEvent(provider().parseCallback(body));
+}
+
+/**
+ * Applies a provider event: records it, copies the status to the order and,
+ * once the money is settled, moves an `awaiting_payment` order to `pending`.
+ * Redelivered events and events for a refunded payment change nothing.
+ */
+export async function handlePaymentEvent(event: PaymentEvent): Promise<PaymentRecord> {
+  const record = await fetchPayment(event.order_id);
+  if (!record || record.intent_id !== event.intent_id) throw new Error('Payment not found for this event');
+  if (record.event_ids.includes(event.id) || record.status === 'refunded') return record;
+
+  const status = EVENT_STATUS[event.type];
+  const now = new Date().toISOString();
+  const updated: PaymentRecord = {
+    ...record,
+    status,
+    failure_reason: status === 'failed' ? event.failure_reason ?? 'Payment failed' : null,
+    event_ids: [...record.event_ids, event.id],
+    updated_at: now,
+  };
+
+  const { data: order, error } = await supabase.transaction(async (tx) => {
+    const order = await tx.get<Order>('orders', event.order_id);
+    if (!order) throw new Error('Order not found');
+    tx.set('payments', record.id, updated);
+    tx.update('orders', order.id, { payment_status: status, updated_at: now });
+    return order;
+  });
+  if (error || !order) throw new Error(error?.message || 'Could not record the payment');
+
+  // Money that arrives after the order expired goes straight back
+  if (isPaymentSettled(status) && order.status === 'cancelled') return (await refundPayment(event.order_id)) ?? updated;
+  if (isPaymentSettled(status)) await releaseToShop(event.order_id);
+  return updated;
+}
+
+// Safe to repeat: confirmPayment() calls it again for a payment that was
+// recorded but whose order never made it to the shop.
+async function releaseToShop(orderId: string) {
+  const { data: order, error } = await supabase.from<Order>('orders').select('*').eq('id', orderId).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (order?.status !== 'awaiting_payment') return;
+  await transitionOrder(orderId, 'pending', { role: 'customer', actorId: order.customer_id }, {}, 'Payment received');
+}
+
+/**
+ * Refunds a settled payment in full; does nothing when nothing was taken.
+ * Payments the active provider did not take, such as UPI to the shop's own
+ * VPA, have to be refunded by hand.
+ */
+export async function refundPayment(orderId: string): Promise<PaymentRecord | null> {
+  const record = await fetchPayment(orderId);
+  if (!record || !isPaymentSettled(record.status)) return record;
+  if (!activeProvider || record.provider !== activeProvider.id) {
+    throw new Error(`This ${record.provider.toUpperCase()} payment must be refunded by hand`);
+  }
+  return handlePaymentEvent(await activeProvider.refund(intentOf(record)));
+}
+
+/**
+ * Records that the owner refunded a cancelled order by hand after the
+ * automatic refund failed, clearing the order's `refund_error`.
+ */
+export async function markRefundedByHand(orderId: string): Promise<Order> {
+  const { data, error } = await supabase.transaction(async (tx) => {
+    const order = await tx.get<Order>('orders', orderId);
+    if (!order) throw new Error('Order not found');
+    if (!order.refund_error) throw new Error('There is no refund due on this order');
+    const record = await tx.get<PaymentRecord>('payments', orderId);
+
+    const now = new Date().toISOString();
+    const fields: Partial<Order> = { payment_status: 'refunded', refund_error: null, updated_at: now };
+    if (record) tx.update('payments', orderId, { status: 'refunded', updated_at: now });
+    tx.update('orders', orderId, fields);
+    return { ...order, ...fields };
+  });
+  if (error || !data) throw new Error(error?.message || 'Could not record the refund');
+
+  signalOrderUpdated();
+  return data;
+}
@@ -0,0 +1,107 @@
+// Offline PIN-code lookup. A small bundled table covers the towns around the
+// shop closely enough to fill in the city and place the PIN roughly on the map;
+// any other PIN still resolves to its postal circle from the first two digits.
+// Nothing here calls a geocoding service. The owner's list of serviceable PINs
+// lives on the shop record.
+import type { ShopLocation } from './supabase';
+import type { GeoPoint } from './location';
+
+export type PinCodeInfo = {
+  pin: string;
+  // Null when only the postal circle is known
+  city: string | null;
+  district: string | null;
+  state: string;
+  // Approximate town centre, for delivery zones when there is no GPS fix
+  centre: GeoPoint | null;
+};
+
+type PinRange = { from: number; to: number; city: string; district: string; state: string; centre: GeoPoint };
+
+// Town-level entries, kept sorted by PIN
+const PIN_RANGES: PinRange[] = [
+  { from: 751001, to: 751031, city: 'Bhubaneswar', district: 'Khordha', state: 'Odisha', centre: { lat: 20.2961, lng: 85.8245 } },
+  { from: 752001, to: 752002, city: 'Puri', district: 'Puri', state: 'Odisha', centre: { lat: 19.8135, lng: 85.8312 } },
+  { from: 752050, to: 752050, city: 'Jatni', district: 'Khordha', state: 'Odisha', centre: { lat: 20.1597, lng: 85.7071 } },
+  { from: 752055, to: 752055, city: 'Khordha', district: 'Khordha', state: 'Odisha', centre: { lat: 20.1824, lng: 85.6161 } },
+  { from: 753001, to: 753015, city: 'Cuttack', district: 'Cuttack', state: 'Odisha', centre: { lat: 20.4625, lng: 85.883 } },
+  { from: 754021, to: 754021, city: 'Choudwar', district: 'Cuttack', state: 'Odisha', centre: { lat: 20.5253, lng: 85.8437 } },
+  { from: 756001, to: 756003, city: 'Balasore', district: 'Balasore', state: 'Odisha', centre: { lat: 21.4942, lng: 86.9317 } },
+  { from: 759001, to: 759001, city: 'Dhenkanal', district: 'Dhenkanal', state: 'Odisha', centre: { lat: 20.6505, lng: 85.5981 } },
+  { from: 760001, to: 760010, city: 'Berhampur', district: 'Ganjam', state: 'Odisha', centre: { lat: 19.315, lng: 84.7941 } },
+  { from: 768001, to: 768006, city: 'Sambalpur', district: 'Sambalpur', state: 'Odisha', centre: { lat: 21.4669, lng: 83.9812 } },
+  { from: 769001, to: 769016, city: 'Rourkela', district: 'Sundargarh', state: 'Odisha', centre: { lat: 22.2604, lng: 84.8536 } },
+];
+
+// Postal circles by the first two digits. Where a circle shares a prefix with
+// its neighbour the larger one is named.
+const PIN_CIRCLES: [number, number, string][] = [
+  [11, 11, 'Delhi'],
+  [12, 13, 'Haryana'],
+  [14, 15, 'Punjab'],
+  [16, 16, 'Chandigarh'],
+  [17, 17, 'Himachal Pradesh'],
+  [18, 19, 'Jammu & Kashmir'],
+  [20, 28, 'Uttar Pradesh'],
+  [30, 34, 'Rajasthan'],
+  [36, 39, 'Gujarat'],
+  [40, 44, 'Maharashtra'],
+  [45, 48, 'Madhya Pradesh'],
+  [49, 49, 'Chhattisgarh'],
+  [50, 50, 'Telangana'],
+  [51, 53, 'Andhra Pradesh'],
+  [56, 59, 'Karnataka'],
+  [60, 64, 'Tamil Nadu'],
+  [67, 69, 'Kerala'],
+  [70, 74, 'West Bengal'],
+  [75, 77, 'Odisha'],
+  [78, 78, 'Assam'],
+  [79, 79, 'North Eastern states'],
+  [80, 85, 'Bihar'],
+];
+
+const PIN_RE = /^[1-9][0-9]{5}$/;
+
+export function isPinCode(value: string): boolean {
+  return PIN_RE.test(value.trim());
+}
+
+/** What the bundled data knows about `pin`, or null for a malformed or unassigned PIN. */
+export function lookupPinCode(value: string): PinCodeInfo | null {
+  const pin = value.trim();
+  if (!isPinCode(pin)) return null;
+  const n = Number(pin);
+  const range = PIN_RANGES.find((r) => n >= r.from && n <= r.to);
+  if (range) return { pin, city: range.city, district: range.district, state: range.state, centre: range.centre };
+  const prefix = Math.floor(n / 10000);
+  const circle = PIN_CIRCLES.find(([from, to]) => prefix >= from && prefix <= to);
+  return circle ? { pin, city: null, district: null, state: circle[2], centre: null } : null;
+}
+
+/** "Bhubaneswar, Khordha, Odisha" or just the state when that is all that is known. */
+export function describePinCode(info: PinCodeInfo): string {
+  return [info.city, info.district !== info.city ? info.district : null, info.state].filter(Boolean).join(', ');
+}
+
+/** The owner's list, or an empty list when every PIN is served. */
+export function serviceablePinCodes(shop: Pick<ShopLocation, 'serviceable_pin_codes'> | null): string[] {
+  return Array.isArray(shop?.serviceable_pin_codes) ? shop!.serviceable_pin_codes : [];
+}
+
+/** Returns why `pin` cannot be delivered to, or null when it can. */
+export function pinCodeError(shop: Pick<ShopLocation, 'serviceable_pin_codes'> | null, value: string): string | null {
+  const pin = value.trim();
+  if (!isPinCode(pin)) return 'Please enter a valid 6-digit PIN code';
+  if (!lookupPinCode(pin)) return `${pin} is not an Indian PIN code`;
+  const served = serviceablePinCodes(shop);
+  if (served.length > 0 && !served.includes(pin)) return `Sorry, we don't deliver to PIN ${pin} yet`;
+  return null;
+}
+
+/** Splits free text into unique valid PINs, sorted, plus whatever could not be read. */
+export function parsePinCodeList(text: string): { pins: string[]; invalid: string[] } {
+  const tokens = text.split(/[\s,;]+/).map((t) => t.trim()).filter(Boolean);
+  const pins = [...new Set(tokens.filter((t) => lookupPinCode(t)))].sort();
+  const invalid = tokens.filter((t) => !lookupPinCode(t));
+  return { pins, invalid };
+}
@@ -0,0 +1,86 @@
+// Whether a delivery person can take orders. Each rider has a row in
+// `rider_duty`, keyed by their user id, with an on/off-duty switch they flip
+// from the delivery app and an optional weekly shift schedule. They are
+// available while on duty and, if they keep a schedule, inside today's shift.
+// Riders without a row have never gone on duty and are not available.
+import { supabase } from './supabase';
+import { DayHours, WEEKDAYS, formatDayHours, minutesOf } from './shop';
+
+export type RiderDuty = {
+  id: string;
+  on_duty: boolean;
+  // Sunday first, null for a day off; a missing or null schedule means "whenever on duty"
+  shifts?: (DayHours | null)[] | null;
+  updated_at: string;
+};
+
+export type RiderAvailability = {
+  available: boolean;
+  reason: 'off_duty' | 'outside_shift' | null;
+  // Today's shift, if the rider keeps a schedule
+  shift: DayHours | null;
+};
+
+export const DEFAULT_SHIFT: DayHours = { open: '09:00', close: '18:00' };
+
+export function hasSchedule(duty: Pick<RiderDuty, 'shifts'> | null): boolean {
+  return Array.isArray(duty?.shifts) && duty!.shifts.length === 7;
+}
+
+export function riderAvailability(duty: RiderDuty | null, now: Date = new Date()): RiderAvailability {
+  const shift = hasSchedule(duty) ? duty!.shifts![now.getDay()] : null;
+  if (!duty?.on_duty) return { available: false, reason: 'off_duty', shift };
+  if (hasSchedule(duty)) {
+    const at = now.getHours() * 60 + now.getMinutes();
+    if (!shift || at < minutesOf(shift.open) || at >= minutesOf(shift.close)) {
+      return { available: false, reason: 'outside_shift', shift };
+    }
+  }
+  return { available: true, reason: null, shift };
+}
+
+/** "Available", "Off duty" or "Outside shift (9:00 AM – 6:00 PM)". */
+export function describeAvailability(availability: RiderAvailability): string {
+  if (availability.available) return 'Available';
+  if (availability.reason === 'off_duty') return 'Off duty';
+  return availability.shift ? `Outside shift (${formatDayHours(availability.shift)})` : 'Day off';
+}
+
+/** Why the schedule cannot be saved, or null. */
+export function shiftsError(shifts: (DayHours | null)[]): string | null {
+  const bad = shifts.findIndex((s) => s && minutesOf(s.close) <= minutesOf(s.open));
+  return bad >= 0 ? `${WEEKDAYS[bad]}: the shift must end after it starts` : null;
+}
+
+export async function fetchRiderDuty(riderId: string): Promise<RiderDuty | null> {
+  const { data, error } = await supabase.from<RiderDuty>('rider_duty').select('*').eq('id', riderId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/** Duty rows keyed by rider id; riders without one are missing from the map. */
+export async function fetchRiderDuties(riderIds: string[]): Promise<Map<string, RiderDuty>> {
+  if (riderIds.length === 0) return new Map();
+  const { data, error } = await supabase.from<RiderDuty>('rider_duty').select('*').in('id', riderIds).get();
+  if (error) throw new Error(error.message);
+  return new Map((data ?? []).map((d) => [d.id, d]));
+}
+
+async function saveRiderDuty(riderId: string, fields: Partial<RiderDuty>): Promise<RiderDuty> {
+  const current = await fetchRiderDuty(riderId);
+  const row: RiderDuty = { on_duty: false, ...current, ...fields, id: riderId, updated_at: new Date().toISOString() };
+  const { error } = await supabase.from<RiderDuty>('rider_duty').upsert(row, { onConflict: 'id' }).get();
+  if (error) throw new Error(error.message);
+  return row;
+}
+
+export async function setOnDuty(riderId: string, onDuty: boolean): Promise<RiderDuty> {
+  return saveRiderDuty(riderId, { on_duty: onDuty });
+}
+
+/** Saves the weekly schedule; null drops it so only the duty switch counts. */
+export async function saveShifts(riderId: string, shifts: (DayHours | null)[] | null): Promise<RiderDuty> {
+  const problem = shifts ? shiftsError(shifts) : null;
+  if (problem) throw new Error(problem);
+  return saveRiderDuty(riderId, { shifts });
+}
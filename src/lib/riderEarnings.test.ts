@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Order } from './supabase';
+import { RiderPay, deliveryEarning, fetchRiderEarnings, markPayoutPaid, riderPay, summarizeEarnings } from './riderEarnings';
+import { installTestBackend, withOrdersFallback } from './testFixtures';
+
+const pay: RiderPay = { per_delivery: 30, per_km: 5, peak_bonus: 20, peak_windows: [{ start: '18:00', end: '21:00' }] };
+
+const delivered = (fields: Partial<Order> & { deliveredAt: Date }): Order => {
+  const { deliveredAt, ...rest } = fields;
+  return {
+    id: 'order-1',
+    order_number: 'JJ-1001',
+    customer_id: 'customer-1',
+    delivery_boy_id: 'delivery-1',
+    distance_km: 4.25,
+    status: 'delivered',
+    status_history: [
+      { type: 'status', status: 'pending', actor_id: 'customer-1', actor_role: 'customer', at: '2026-10-19T04:00:00Z' },
+      { type: 'status', status: 'delivered', actor_id: 'delivery-1', actor_role: 'delivery', at: deliveredAt.toISOString() },
+    ],
+    created_at: '2026-10-19T04:00:00Z',
+    updated_at: '2026-10-21T00:00:00Z',
+    ...rest,
+  } as Order;
+};
+
+describe('deliveryEarning', () => {
+  it('pays the flat rate plus the distance', () => {
+    const line = deliveryEarning(delivered({ deliveredAt: new Date(2026, 9, 19, 12) }), pay);
+    expect(line).toMatchObject({ base: 30, distance_pay: 21.25, peak_bonus: 0, total: 51.25, distance_km: 4.25 });
+    expect(line.delivered_at).toBe(new Date(2026, 9, 19, 12).toISOString());
+  });
+
+  it('adds the bonus when delivered inside a peak window, end exclusive', () => {
+    expect(deliveryEarning(delivered({ deliveredAt: new Date(2026, 9, 19, 18, 30) }), pay).peak_bonus).toBe(20);
+    expect(deliveryEarning(delivered({ deliveredAt: new Date(2026, 9, 19, 21) }), pay).peak_bonus).toBe(0);
+  });
+
+  it('judges a booked order by its slot rather than the delivery time', () => {
+    const order = delivered({
+      deliveredAt: new Date(2026, 9, 19, 12),
+      delivery_slot: { id: '2026-10-19_1800', date: '2026-10-19', start: '18:00', end: '20:00' },
+    });
+    expect(deliveryEarning(order, pay).peak_bonus).toBe(20);
+  });
+
+  it('pays no distance for orders without one', () => {
+    const order = delivered({ deliveredAt: new Date(2026, 9, 19, 12), distance_km: Number.NaN });
+    expect(deliveryEarning(order, pay).total).toBe(30);
+  });
+});
+
+describe('riderPay', () => {
+  it('falls back to the defaults for missing or malformed rates', () => {
+    expect(riderPay({ rider_pay: { per_km: -1, peak_windows: [{ start: '21:00', end: '18:00' }] } })).toEqual({
+      per_delivery: 30,
+      per_km: 5,
+      peak_bonus: 0,
+      peak_windows: [],
+    });
+  });
+});
+
+describe('summarizeEarnings', () => {
+  it('adds up deliveries, kilometres, bonuses and pay', () => {
+    const lines = [
+      deliveryEarning(delivered({ deliveredAt: new Date(2026, 9, 19, 12) }), pay),
+      deliveryEarning(delivered({ deliveredAt: new Date(2026, 9, 19, 19) }), pay),
+    ];
+    expect(summarizeEarnings(lines)).toEqual({ deliveries: 2, km: 8.5, peakBonus: 20, total: 122.5 });
+  });
+});
+
+describe('fetchRiderEarnings', () => {
+  const owner = { role: 'owner' as const, actorId: 'owner-1' };
+  const row = (id: string, fields: Partial<Order>) => ({ ...delivered({ deliveredAt: new Date(2026, 9, 19, 12) }), id, ...fields });
+
+  beforeEach(() => {
+    withOrdersFallback(
+      installTestBackend((seed) => {
+        seed.tables!.orders = [
+          row('order-other-rider', { delivery_boy_id: 'delivery-2' }),
+          row('order-undelivered', { status: 'out_for_delivery', delivery_boy_id: 'delivery-1' }),
+        ];
+      })
+    );
+  });
+
+  it('finds nothing for a rider with no deliveries, even when the backend returns other orders', async () => {
+    expect(await fetchRiderEarnings('delivery-1', pay)).toEqual({ unpaid: [], paid: [] });
+  });
+
+  it('moves paid deliveries from unpaid to paid', async () => {
+    installTestBackend((seed) => {
+      seed.tables!.orders = [row('order-1', {}), row('order-2', { distance_km: 0 }), row('order-other-rider', { delivery_boy_id: 'delivery-2' })];
+    });
+    expect((await fetchRiderEarnings('delivery-1', pay)).unpaid.map((l) => l.order_id).sort()).toEqual(['order-1', 'order-2']);
+
+    await markPayoutPaid('delivery-1', ['order-1'], { pay }, owner);
+    const earnings = await fetchRiderEarnings('delivery-1', pay);
+    expect(earnings.unpaid.map((l) => l.order_id)).toEqual(['order-2']);
+    expect(earnings.paid.map((l) => l.order_id)).toEqual(['order-1']);
+    await expect(markPayoutPaid('delivery-1', ['order-1'], { pay }, owner)).rejects.toThrow('Order #JJ-1001 has already been paid');
+  });
+});
@@ -0,0 +1,261 @@
+// What riders earn. The owner sets the pay on the shop record (`rider_pay`): a
+// flat amount per delivery, an amount per km of the order's `distance_km`, and
+// a bonus for orders in peak windows. Earnings are worked out from delivered
+// orders with the current rates until the owner pays them; a payout in
+// `rider_payouts` then freezes the lines it paid and stamps each order with
+// `rider_payout_id`, so no delivery is paid twice.
+import { supabase, Order, ShopLocation } from './supabase';
+import { TransitionContext, signalOrderUpdated } from './orderStatus';
+import { deliveredAt } from './analytics';
+import { localDateKey } from './businessHours';
+import { TIME_RE, formatTime, timeOfDay } from './shop';
+import { roundMoney } from './money';
+
+// 24-hour "HH:MM" local times, end exclusive
+export type PeakWindow = { start: string; end: string };
+
+export type RiderPay = {
+  per_delivery: number;
+  per_km: number;
+  peak_bonus: number;
+  peak_windows: PeakWindow[];
+};
+
+export type DeliveryEarning = {
+  order_id: string;
+  order_number: string;
+  delivered_at: string;
+  distance_km: number;
+  base: number;
+  distance_pay: number;
+  peak_bonus: number;
+  total: number;
+};
+
+export type RiderPayout = {
+  id: string;
+  delivery_boy_id: string;
+  lines: DeliveryEarning[];
+  deliveries: number;
+  total: number;
+  note: string | null;
+  paid_by: string | null;
+  paid_at: string;
+};
+
+export type EarningsSummary = {
+  deliveries: number;
+  km: number;
+  peakBonus: number;
+  total: number;
+};
+
+export const DEFAULT_RIDER_PAY: RiderPay = {
+  per_delivery: 30,
+  per_km: 5,
+  peak_bonus: 0,
+  peak_windows: [],
+};
+
+/** The shop's rates, with missing or malformed fields taken from the defaults. */
+export function riderPay(shop: Pick<ShopLocation, 'rider_pay'> | null): RiderPay {
+  const pay = shop?.rider_pay;
+  const amount = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+  return {
+    per_delivery: amount(pay?.per_delivery, DEFAULT_RIDER_PAY.per_delivery),
+    per_km: amount(pay?.per_km, DEFAULT_RIDER_PAY.per_km),
+    peak_bonus: amount(pay?.peak_bonus, DEFAULT_RIDER_PAY.peak_bonus),
+    peak_windows: (Array.isArray(pay?.peak_windows) ? pay!.peak_windows : []).filter(
+      (w) => TIME_RE.test(w.start) && TIME_RE.test(w.end) && w.start < w.end
+    ),
+  };
+}
+
+/** Returns why the rates cannot be saved, or null when they are fine. */
+export function riderPayError(pay: RiderPay): string | null {
+  for (const [label, value] of [
+    ['Pay per delivery', pay.per_delivery],
+    ['Pay per km', pay.per_km],
+    ['Peak bonus', pay.peak_bonus],
+  ] as const) {
+    if (!Number.isFinite(value) || value < 0) return `${label} must be zero or more`;
+  }
+  for (const w of pay.peak_windows) {
+    if (!TIME_RE.test(w.start) || !TIME_RE.test(w.end)) return 'Every peak window needs a start and end time';
+    if (w.start >= w.end) return `The ${formatTime(w.start)} peak window must end after it starts`;
+  }
+  return null;
+}
+
+/** A booked order is peak by its slot's start; one without a slot by when it was delivered. */
+export function isPeakDelivery(order: Pick<Order, 'delivery_slot'>, delivered: Date, pay: RiderPay): boolean {
+  const time = order.delivery_slot?.start ?? timeOfDay(delivered);
+  return pay.peak_windows.some((w) => time >= w.start && time < w.end);
+}
+
+export function deliveryEarning(order: Order, pay: RiderPay): DeliveryEarning {
+  const delivered = deliveredAt(order);
+  const distance = Number.isFinite(order.distance_km) ? Math.max(0, order.distance_km) : 0;
+  const base = roundMoney(pay.per_delivery);
+  const distancePay = roundMoney(distance * pay.per_km);
+  const bonus = isPeakDelivery(order, delivered, pay) ? roundMoney(pay.peak_bonus) : 0;
+  return {
+    order_id: order.id,
+    order_number: order.order_number,
+    delivered_at: delivered.toISOString(),
+    distance_km: Math.round(distance * 100) / 100,
+    base,
+    distance_pay: distancePay,
+    peak_bonus: bonus,
+    total: roundMoney(base + distancePay + bonus),
+  };
+}
+
+export function summarizeEarnings(lines: DeliveryEarning[]): EarningsSummary {
+  return lines.reduce<EarningsSummary>(
+    (sum, line) => ({
+      deliveries: sum.deliveries + 1,
+      km: Math.round((sum.km + line.distance_km) * 100) / 100,
+      peakBonus: roundMoney(sum.peakBonus + line.peak_bonus),
+      total: roundMoney(sum.total + line.total),
+    }),
+    { deliveries: 0, km: 0, peakBonus: 0, total: 0 }
+  );
+}
+
+/** Lines delivered on local days `from` to `to` inclusive, both YYYY-MM-DD. */
+export function earningsBetween(lines: DeliveryEarning[], from: string, to: string): DeliveryEarning[] {
+  return lines.filter((line) => {
+    const day = localDateKey(new Date(line.delivered_at));
+    return day >= from && day <= to;
+  });
+}
+
+export type EarningsPeriod = {
+  // Local days, YYYY-MM-DD, inclusive
+  from: string;
+  to: string;
+  summary: EarningsSummary;
+};
+
+/**
+ * The last `count` days or weeks up to `now`, newest first, each with its
+ * earnings. Weeks run Monday to Sunday.
+ */
+export function earningsByPeriod(
+  lines: DeliveryEarning[],
+  unit: 'day' | 'week',
+  count: number,
+  now: Date = new Date()
+): EarningsPeriod[] {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const start = unit === 'day' ? today : new Date(today.getFullYear(), today.getMonth(), today.getDate() - ((today.getDay() + 6) % 7));
+  const length = unit === 'day' ? 1 : 7;
+  return Array.from({ length: count }, (_, i) => {
+    const first = new Date(start.getFullYear(), start.getMonth(), start.getDate() - i * length);
+    const last = new Date(first.getFullYear(), first.getMonth(), first.getDate() + length - 1);
+    const from = localDateKey(first);
+    const to = localDateKey(last);
+    return { from, to, summary: summarizeEarnings(earningsBetween(lines, from, to)) };
+  });
+}
+
+async function fetchDeliveredOrders(deliveryBoyId: string): Promise<Order[]> {
+  const { data, error } = await supabase
+    .from<Order>('orders')
+    .select('*')
+    .eq('delivery_boy_id', deliveryBoyId)
+    .eq('status', 'delivered')
+    .get();
+  if (error) throw new Error(error.message);
+  // Client-side safety filter: on Firebase an orders query that matches nothing returns every order
+  return (data ?? []).filter((o) => o.delivery_boy_id === deliveryBoyId && o.status === 'delivered');
+}
+
+/**
+ * Every delivery the rider made, newest first, split by whether it has been
+ * paid. Paid lines come from their payouts, so they keep the rates paid.
+ */
+export async function fetchRiderEarnings(
+  deliveryBoyId: string,
+  pay: RiderPay
+): Promise<{ unpaid: DeliveryEarning[]; paid: DeliveryEarning[] }> {
+  const [orders, payouts] = await Promise.all([fetchDeliveredOrders(deliveryBoyId), fetchRiderPayouts(deliveryBoyId)]);
+  const newestFirst = (a: DeliveryEarning, b: DeliveryEarning) => b.delivered_at.localeCompare(a.delivered_at);
+  return {
+    unpaid: orders.filter((o) => !o.rider_payout_id).map((o) => deliveryEarning(o, pay)).sort(newestFirst),
+    paid: payouts.flatMap((p) => p.lines).sort(newestFirst),
+  };
+}
+
+/** Payouts newest first, for one rider or everyone. */
+export async function fetchRiderPayouts(deliveryBoyId?: string): Promise<RiderPayout[]> {
+  let query = supabase.from<RiderPayout>('rider_payouts').select('*');
+  if (deliveryBoyId) query = query.eq('delivery_boy_id', deliveryBoyId);
+  const { data, error } = await query.order('paid_at', { ascending: false }).get();
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+/**
+ * The owner pays the rider for the given delivered orders at `pay`'s rates.
+ * Orders paid in the meantime by another payout are refused rather than paid twice.
+ */
+export async function markPayoutPaid(
+  deliveryBoyId: string,
+  orderIds: string[],
+  input: { pay: RiderPay; note?: string },
+  ctx: TransitionContext
+): Promise<RiderPayout> {
+  if (ctx.role !== 'owner') throw new Error('Only the owner can pay delivery staff');
+  if (orderIds.length === 0) throw new Error('There are no deliveries to pay');
+
+  const { data, error } = await supabase.transaction<RiderPayout>(async (tx) => {
+    const orders = await Promise.all(orderIds.map((id) => tx.get<Order>('orders', id)));
+    for (const order of orders) {
+      if (!order || order.status !== 'delivered' || order.delivery_boy_id !== deliveryBoyId) {
+        throw new Error('Some of these deliveries changed; reload the statement and try again');
+      }
+      if (order.rider_payout_id) throw new Error(`Order #${order.order_number} has already been paid`);
+    }
+
+    const lines = (orders as Order[]).map((o) => deliveryEarning(o, input.pay));
+    const id = tx.newId('rider_payouts');
+    const payout: RiderPayout = {
+      id,
+      delivery_boy_id: deliveryBoyId,
+      lines,
+      deliveries: lines.length,
+      total: summarizeEarnings(lines).total,
+      note: input.note?.trim() || null,
+      paid_by: ctx.actorId ?? null,
+      paid_at: new Date().toISOString(),
+    };
+    tx.set('rider_payouts', id, payout);
+    orderIds.forEach((orderId) => tx.update('orders', orderId, { rider_payout_id: id }));
+    return payout;
+  });
+  if (error || !data) throw new Error(error?.message || 'Could not record the payout');
+
+  signalOrderUpdated();
+  return data;
+}
+
+/** Rows for a CSV statement: a header, one line per delivery and a total. */
+export function statementRows(lines: DeliveryEarning[]): (string | number)[][] {
+  const summary = summarizeEarnings(lines);
+  return [
+    ['Order', 'Delivered', 'Distance (km)', 'Base', 'Distance pay', 'Peak bonus', 'Total'],
+    ...lines.map((l) => [
+      l.order_number,
+      new Date(l.delivered_at).toLocaleString(),
+      l.distance_km.toFixed(2),
+      l.base.toFixed(2),
+      l.distance_pay.toFixed(2),
+      l.peak_bonus.toFixed(2),
+      l.total.toFixed(2),
+    ]),
+    ['Total', `${summary.deliveries} deliveries`, summary.km.toFixed(2), '', '', summary.peakBonus.toFixed(2), summary.total.toFixed(2)],
+  ];
+}
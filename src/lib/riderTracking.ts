@@ -0,0 +1,130 @@
+// Live rider location. While a rider has orders on their round the delivery app
+// watches the device position and, at most every SHARE_INTERVAL_MS, writes it
+// to `rider_locations` (keyed by rider id, used for assignment) and to
+// `rider_location` on each of those orders, so a customer only ever reads the
+// position through their own order. Distances and ETAs are straight-line
+// estimates from calculateDistance(); there is no maps API.
+import { supabase, Order } from './supabase';
+import { calculateDistance } from './location';
+import { ROUTE_STATUSES } from './routePlanner';
+
+export type LocationFix = {
+  latitude: number;
+  longitude: number;
+  // Metres, as reported by the device
+  accuracy_m: number | null;
+  at: string;
+};
+
+export type RiderLocation = {
+  id: string;
+  latitude: number;
+  longitude: number;
+  accuracy_m?: number | null;
+  updated_at: string;
+};
+
+export type TrackingEstimate = {
+  distanceKm: number;
+  minutes: number;
+  // The last fix is too old to trust
+  stale: boolean;
+};
+
+// Orders on the rider's round are the ones the customer can track
+export const TRACKED_STATUSES = ROUTE_STATUSES;
+
+const SHARE_INTERVAL_MS = 20_000;
+// Below this the rider is treated as standing still and only a heartbeat is sent
+const MIN_MOVE_KM = 0.03;
+const HEARTBEAT_MS = 120_000;
+const STALE_AFTER_MS = 5 * 60_000;
+
+// Straight-line distance is shorter than the road; speed is a town two-wheeler's
+const ROAD_FACTOR = 1.3;
+const AVERAGE_SPEED_KMH = 20;
+
+export function isTracked(order: Pick<Order, 'status' | 'delivery_boy_id'>): boolean {
+  return !!order.delivery_boy_id && TRACKED_STATUSES.includes(order.status);
+}
+
+export function trackingEstimate(
+  order: Pick<Order, 'latitude' | 'longitude'>,
+  fix: LocationFix,
+  now: Date = new Date()
+): TrackingEstimate {
+  const distanceKm = calculateDistance(fix.latitude, fix.longitude, order.latitude, order.longitude);
+  return {
+    distanceKm,
+    minutes: Math.max(1, Math.round(((distanceKm * ROAD_FACTOR) / AVERAGE_SPEED_KMH) * 60)),
+    stale: now.getTime() - new Date(fix.at).getTime() > STALE_AFTER_MS,
+  };
+}
+
+/**
+ * Writes one fix for the rider and each of the given orders. The ids come from
+ * the rider's list, which may be stale, so orders that were deleted, handed to
+ * someone else or left the round since are skipped rather than written to.
+ */
+export async function publishRiderLocation(riderId: string, orderIds: string[], fix: LocationFix): Promise<void> {
+  const { error } = await supabase.transaction(async (tx) => {
+    const orders = await Promise.all(orderIds.map((id) => tx.get<Order>('orders', id)));
+    tx.set('rider_locations', riderId, { latitude: fix.latitude, longitude: fix.longitude, accuracy_m: fix.accuracy_m, updated_at: fix.at });
+    for (const order of orders) {
+      if (order && order.delivery_boy_id === riderId && isTracked(order)) {
+        tx.update('orders', order.id, { rider_location: fix });
+      }
+    }
+  });
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Starts watching the device position and sharing it for the orders returned
+ * by `orderIds()` at the time of each fix. Returns a function that stops it.
+ */
+export function startLocationSharing(
+  riderId: string,
+  orderIds: () => string[],
+  onError: (error: Error) => void
+): () => void {
+  if (!navigator.geolocation) {
+    onError(new Error('Geolocation is not supported by your browser'));
+    return () => {};
+  }
+
+  let last: LocationFix | null = null;
+  let sending = false;
+
+  const watchId = navigator.geolocation.watchPosition(
+    (position) => {
+      const fix: LocationFix = {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy_m: Number.isFinite(position.coords.accuracy) ? Math.round(position.coords.accuracy) : null,
+        at: new Date(position.timestamp || Date.now()).toISOString(),
+      };
+      const ids = orderIds();
+      if (sending || ids.length === 0) return;
+      if (last) {
+        const elapsed = new Date(fix.at).getTime() - new Date(last.at).getTime();
+        const moved = calculateDistance(last.latitude, last.longitude, fix.latitude, fix.longitude);
+        if (elapsed < SHARE_INTERVAL_MS || (moved < MIN_MOVE_KM && elapsed < HEARTBEAT_MS)) return;
+      }
+
+      sending = true;
+      publishRiderLocation(riderId, ids, fix)
+        .then(() => {
+          last = fix;
+        })
+        .catch((error: unknown) => onError(error instanceof Error ? error : new Error(String(error))))
+        .finally(() => {
+          sending = false;
+        });
+    },
+    (error) => onError(new Error(error.message || 'Could not read your location')),
+    { enableHighAccuracy: true, maximumAge: 10_000, timeout: 30_000 }
+  );
+
+  return () => navigator.geolocation.clearWatch(watchId);
+}
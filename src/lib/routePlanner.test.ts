@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { applyStopOrder, measureRoute, planRoute } from './routePlanner';
+
+const shop = { latitude: 0, longitude: 0 };
+const stop = (id: string, latitude: number, longitude: number) => ({ id, latitude, longitude });
+
+describe('planRoute', () => {
+  it('returns no stops for an empty round', () => {
+    expect(planRoute(shop, [])).toEqual([]);
+  });
+
+  it('visits stops along a road in order of distance', () => {
+    const stops = [stop('far', 0, 0.03), stop('near', 0, 0.01), stop('middle', 0, 0.02)];
+    expect(planRoute(shop, stops).map((s) => s.id)).toEqual(['near', 'middle', 'far']);
+  });
+
+  it('uncrosses the path nearest-neighbour alone would take', () => {
+    // Nearest-neighbour goes b, d, a, c and doubles back across its own path
+    const stops = [stop('a', 0.03, 0.09), stop('b', 0.05, 0.05), stop('c', 0.09, 0.01), stop('d', 0.08, 0.08)];
+    const route = planRoute(shop, stops);
+    expect(route.map((s) => s.id)).toEqual(['c', 'b', 'd', 'a']);
+    const greedy = [stops[1], stops[3], stops[0], stops[2]];
+    expect(measureRoute(shop, route).totalKm).toBeLessThan(measureRoute(shop, greedy).totalKm);
+  });
+});
+
+describe('measureRoute', () => {
+  it('measures each leg from the previous stop', () => {
+    const route = measureRoute(shop, [stop('a', 0, 0.01), stop('b', 0, 0.03)]);
+    expect(route.legs[0].distanceKm).toBeCloseTo(1.11, 2);
+    expect(route.legs[1].distanceKm).toBeCloseTo(2.22, 2);
+    expect(route.totalKm).toBeCloseTo(3.34, 2);
+  });
+});
+
+describe('applyStopOrder', () => {
+  const stops = [stop('a', 0, 0.01), stop('b', 0, 0.02)];
+
+  it('keeps the order the rider arranged', () => {
+    expect(applyStopOrder(stops, ['b', 'a'])?.map((s) => s.id)).toEqual(['b', 'a']);
+  });
+
+  it('gives up once the stops have changed', () => {
+    expect(applyStopOrder(stops, ['a'])).toBeNull();
+    expect(applyStopOrder(stops, ['a', 'c'])).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+// Orders a rider's stops into a short route from the shop, without a maps API:
+// a nearest-neighbour tour is tidied up with 2-opt, both over straight-line
+// distances from calculateDistance(). Routes are open paths; the rider does not
+// need to come back to the shop at the end.
+import { Order } from './supabase';
+import { calculateDistance } from './location';
+
+export type RoutePoint = { latitude: number; longitude: number };
+
+export type RouteStop = RoutePoint & { id: string };
+
+export type RouteLeg<S extends RouteStop> = {
+  stop: S;
+  // From the previous stop, or from the start for the first one
+  distanceKm: number;
+};
+
+export type Route<S extends RouteStop> = {
+  legs: RouteLeg<S>[];
+  totalKm: number;
+};
+
+// Statuses in which an order is still on the rider's round
+export const ROUTE_STATUSES: Order['status'][] = ['accepted', 'preparing', 'ready', 'out_for_delivery'];
+
+// Guards against cycling on floating-point ties
+const MAX_2OPT_PASSES = 50;
+
+const distance = (a: RoutePoint, b: RoutePoint) => calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+
+export function hasCoordinates(point: Partial<RoutePoint>): point is RoutePoint {
+  return Number.isFinite(point.latitude) && Number.isFinite(point.longitude);
+}
+
+function nearestNeighbour<S extends RouteStop>(start: RoutePoint, stops: S[]): S[] {
+  const left = [...stops];
+  const path: S[] = [];
+  let at: RoutePoint = start;
+  while (left.length > 0) {
+    let best = 0;
+    for (let i = 1; i < left.length; i++) {
+      if (distance(at, left[i]) < distance(at, left[best])) best = i;
+    }
+    at = left[best];
+    path.push(...left.splice(best, 1));
+  }
+  return path;
+}
+
+// Reverses stretches of the path while doing so makes it shorter. The start is
+// fixed and the end is open, so the last stop has no outgoing edge to count.
+function twoOpt<S extends RouteStop>(start: RoutePoint, path: S[]): S[] {
+  const p: RoutePoint[] = [start, ...path];
+  for (let pass = 0; pass < MAX_2OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 1; i < p.length - 1; i++) {
+      for (let k = i + 1; k < p.length; k++) {
+        const after = k + 1 < p.length ? p[k + 1] : null;
+        const before = distance(p[i - 1], p[i]) + (after ? distance(p[k], after) : 0);
+        const reversed = distance(p[i - 1], p[k]) + (after ? distance(p[i], after) : 0);
+        if (reversed < before - 1e-9) {
+          p.splice(i, k - i + 1, ...p.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return p.slice(1) as S[];
+}
+
+/** The stops in a short visiting order starting from `start`. */
+export function planRoute<S extends RouteStop>(start: RoutePoint, stops: S[]): S[] {
+  return twoOpt(start, nearestNeighbour(start, stops));
+}
+
+/** Leg and total distances for visiting `stops` in the order given. */
+export function measureRoute<S extends RouteStop>(start: RoutePoint, stops: S[]): Route<S> {
+  let at = start;
+  const legs = stops.map((stop) => {
+    const leg = { stop, distanceKm: distance(at, stop) };
+    at = stop;
+    return leg;
+  });
+  return { legs, totalKm: legs.reduce((sum, leg) => sum + leg.distanceKm, 0) };
+}
+
+/**
+ * Puts `stops` in the order of `ids`, a sequence the rider arranged earlier.
+ * Returns null once the set of stops has changed, so the route is planned afresh.
+ */
+export function applyStopOrder<S extends RouteStop>(stops: S[], ids: string[]): S[] | null {
+  if (ids.length !== stops.length) return null;
+  const byId = new Map(stops.map((s) => [s.id, s]));
+  const ordered = ids.map((id) => byId.get(id));
+  return ordered.every(Boolean) ? (ordered as S[]) : null;
+}
@@ -0,0 +1,131 @@
+// Trusted handlers reached through supabase.rpc(). They touch rows the caller's
+// own client may not read or write (see firestore.rules), so in production
+// they run as Cloud Functions: functions/src/index.ts wraps each one around an
+// Admin SDK transaction. The memory backend runs them in-process. This module
+// must not import client code so the functions build can bundle it.
+import type { Transaction, User } from './backend';
+
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MINUTES = 15;
+
+export type DeliveryPinRecord = {
+  id: string;
+  order_id: string;
+  pin_hash: string;
+  salt: string;
+  // Wrong guesses since the last lockout or success
+  attempts: number;
+  locked_until: string | null;
+  updated_at: string;
+};
+
+export type VerifyPinOutcome = { ok: true } | { ok: false; message: string };
+
+export type ServerFunction = (tx: Transaction, caller: User | null, params: Record<string, unknown>) => Promise<unknown>;
+
+// The order and profile fields the handlers read
+type PinOrder = { id: string; status: string; delivery_boy_id: string | null; delivery_pin?: string | null };
+type CallerProfile = { id: string; role: string };
+
+// Statuses an order can be delivered from; mirrors TRANSITIONS in orderStatus.ts
+const DELIVERABLE_STATUSES = ['accepted', 'ready', 'out_for_delivery'];
+
+function randomHex(bytes: number) {
+  const buf = new Uint8Array(bytes);
+  crypto.getRandomValues(buf);
+  return Array.from(buf, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hashPin(pin: string, salt: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin.trim()}`));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function pinRecord(orderId: string, pin: string): Promise<Omit<DeliveryPinRecord, 'id'>> {
+  const salt = randomHex(16);
+  return {
+    order_id: orderId,
+    pin_hash: await hashPin(pin, salt),
+    salt,
+    attempts: 0,
+    locked_until: null,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+// Row fields without the key, since Firestore rejects an `id: undefined` field
+function storedFields(r: DeliveryPinRecord): Omit<DeliveryPinRecord, 'id'> {
+  return {
+    order_id: r.order_id,
+    pin_hash: r.pin_hash,
+    salt: r.salt,
+    attempts: r.attempts,
+    locked_until: r.locked_until,
+    updated_at: r.updated_at,
+  };
+}
+
+/**
+ * Checks the customer's delivery PIN for the assigned rider or the owner.
+ * Wrong guesses are counted and after MAX_PIN_ATTEMPTS the order is locked for
+ * PIN_LOCKOUT_MINUTES. A match stamps `pin_verified_at` on the order, which is
+ * what lets transitionOrder() mark it delivered; reassigning the order or a
+ * failed attempt clears the stamp again. Failed guesses must be committed, so
+ * the outcome is returned rather than thrown.
+ */
+async function verifyDeliveryPin(tx: Transaction, caller: User | null, params: Record<string, unknown>): Promise<VerifyPinOutcome> {
+  const orderId = typeof params.order_id === 'string' ? params.order_id : '';
+  const pin = typeof params.pin === 'string' ? params.pin : '';
+  if (!caller) return { ok: false, message: 'Sign in to confirm deliveries' };
+  if (!orderId || !pin.trim()) return { ok: false, message: 'Enter the delivery PIN' };
+
+  const profile = await tx.get<CallerProfile>('profiles', caller.id);
+  const order = await tx.get<PinOrder>('orders', orderId);
+  let record = await tx.get<DeliveryPinRecord>('delivery_pins', orderId);
+  if (!order) return { ok: false, message: 'Order not found' };
+  if (profile?.role === 'delivery' ? order.delivery_boy_id !== caller.id : profile?.role !== 'owner') {
+    return { ok: false, message: 'This order is not assigned to you' };
+  }
+  if (!DELIVERABLE_STATUSES.includes(order.status)) {
+    return { ok: false, message: 'This order cannot be delivered now' };
+  }
+
+  const now = new Date();
+  // Orders placed before PINs were hashed still carry the plain PIN; move it over
+  if (!record && order.delivery_pin) {
+    record = { id: orderId, ...(await pinRecord(orderId, order.delivery_pin)) };
+    tx.set('delivery_pins', orderId, storedFields(record));
+    tx.update('orders', orderId, { delivery_pin: null });
+  }
+  if (!record) return { ok: false, message: 'This order has no delivery PIN' };
+
+  if (record.locked_until && new Date(record.locked_until) > now) {
+    const minutes = Math.ceil((new Date(record.locked_until).getTime() - now.getTime()) / 60000);
+    return { ok: false, message: `Too many wrong PINs. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.` };
+  }
+
+  if ((await hashPin(pin, record.salt)) === record.pin_hash) {
+    tx.set('delivery_pins', orderId, { ...storedFields(record), attempts: 0, locked_until: null, updated_at: now.toISOString() });
+    tx.update('orders', orderId, { pin_verified_at: now.toISOString(), pin_verified_by: caller.id });
+    return { ok: true };
+  }
+
+  const attempts = record.attempts + 1;
+  const locked = attempts >= MAX_PIN_ATTEMPTS;
+  tx.set('delivery_pins', orderId, {
+    ...storedFields(record),
+    attempts: locked ? 0 : attempts,
+    locked_until: locked ? new Date(now.getTime() + PIN_LOCKOUT_MINUTES * 60000).toISOString() : null,
+    updated_at: now.toISOString(),
+  });
+  return {
+    ok: false,
+    message: locked
+      ? `Incorrect PIN. Too many attempts; PIN entry is locked for ${PIN_LOCKOUT_MINUTES} minutes.`
+      : `Incorrect PIN. ${MAX_PIN_ATTEMPTS - attempts} attempt${MAX_PIN_ATTEMPTS - attempts === 1 ? '' : 's'} left.`,
+  };
+}
+
+export const SERVER_FUNCTIONS: Record<string, ServerFunction> = {
+  verify_delivery_pin: verifyDeliveryPin,
+};
@@ -0,0 +1,242 @@
+// The shop's own record (`shop_location`): its details, opening hours and the
+// delivery rules stored on it. Checkout quotes the delivery fee with
+// deliveryQuote() for display; placeOrder() re-reads the shop and quotes again,
+// so the radius or zones cannot be skipped.
+import { supabase, ShopLocation } from './supabase';
+import { GeoPoint, calculateDistance, formatDistance, pointInPolygon } from './location';
+import { lookupPinCode } from './pinCodes';
+import { roundMoney } from './money';
+
+// 24-hour "HH:MM" local times; close may not be earlier than open
+export type DayHours = { open: string; close: string };
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_OPENING_HOURS: (DayHours | null)[] = WEEKDAYS.map(() => ({ open: '09:00', close: '20:00' }));
+
+export type DeliverySettings = {
+  // Orders further than this are refused; null means no limit
+  radiusKm: number | null;
+  // Delivery is free up to this distance
+  freeWithinKm: number;
+  // Charged for every started km beyond freeWithinKm
+  feePerKm: number;
+  // Orders worth at least this much (after discounts) ship free; null disables it
+  freeAboveAmount: number | null;
+};
+
+// What the storefront promised before the owner could change it: free within 5 km
+export const DEFAULT_DELIVERY_SETTINGS: DeliverySettings = {
+  radiusKm: 5,
+  freeWithinKm: 5,
+  feePerKm: 0,
+  freeAboveAmount: null,
+};
+
+// An area drawn or imported by the owner. When a shop has zones they replace
+// the radius and per-km fee: an address must fall inside one, and pays its fee.
+export type DeliveryZone = {
+  id: string;
+  name: string;
+  polygon: GeoPoint[];
+  // Flat charge, waived like the distance fee once free_delivery_above is reached
+  fee: number;
+  min_order: number | null;
+};
+
+export type DeliveryQuote = {
+  distanceKm: number;
+  fee: number;
+  // Inside the radius, or inside a zone when the shop has zones
+  serviceable: boolean;
+  zone: DeliveryZone | null;
+  // Located from the PIN code's town centre because there was no GPS fix
+  approximate: boolean;
+};
+
+export async function fetchShopLocation(): Promise<ShopLocation | null> {
+  const { data, error } = await supabase.from<ShopLocation>('shop_location').select('*').maybeSingle();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/**
+ * Merges `fields` into the one shop record, creating it under the owner's id
+ * when it does not exist yet. Returns the saved record.
+ */
+export async function saveShopLocation(ownerId: string, fields: Partial<ShopLocation>): Promise<ShopLocation> {
+  const current = await fetchShopLocation();
+  const now = new Date().toISOString();
+  const row: Partial<ShopLocation> = current
+    ? { ...fields, id: current.id, updated_at: now }
+    : { address: '', ...fields, id: ownerId, owner_id: ownerId, created_at: now, updated_at: now };
+  const { error } = await supabase.from<ShopLocation>('shop_location').upsert(row, { onConflict: 'id' }).get();
+  if (error) throw new Error(error.message);
+  return { ...(current ?? {}), ...row } as ShopLocation;
+}
+
+/** Seven entries, Sunday first; shops saved before hours existed get the defaults. */
+export function openingHours(shop: Pick<ShopLocation, 'opening_hours'> | null): (DayHours | null)[] {
+  const hours = shop?.opening_hours;
+  return Array.isArray(hours) && hours.length === 7 ? hours : DEFAULT_OPENING_HOURS;
+}
+
+// A 24-hour "HH:MM" time as stored in hours, slots, shifts and peak windows
+export const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Minutes since midnight for an "HH:MM" time. */
+export function minutesOf(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/** The local "HH:MM" of a date. */
+export function timeOfDay(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/** The given local day, a Date or a YYYY-MM-DD key, at an "HH:MM" time. */
+export function atTime(day: Date | string, hhmm: string): Date {
+  const [y, mo, d] = typeof day === 'string'
+    ? day.split('-').map(Number)
+    : [day.getFullYear(), day.getMonth() + 1, day.getDate()];
+  const [h, m] = hhmm.split(':').map(Number);
+  return new Date(y, mo - 1, d, h, m);
+}
+
+export function formatTime(hhmm: string): string {
+  const [h, m] = hhmm.split(':').map(Number);
+  const suffix = h >= 12 ? 'PM' : 'AM';
+  return `${h % 12 || 12}:${String(m).padStart(2, '0')} ${suffix}`;
+}
+
+export function formatDayHours(hours: DayHours | null): string {
+  return hours ? `${formatTime(hours.open)} – ${formatTime(hours.close)}` : 'Closed';
+}
+
+// A record saved before the coordinates were set cannot be used for distances
+export function hasShopCoordinates(shop: ShopLocation | null): shop is ShopLocation {
+  return !!shop && Number.isFinite(shop.latitude) && Number.isFinite(shop.longitude);
+}
+
+export function deliverySettings(shop: Partial<ShopLocation> | null): DeliverySettings {
+  const num = (value: unknown, fallback: number | null) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+  return {
+    radiusKm: shop?.delivery_radius_km === null ? null : num(shop?.delivery_radius_km, DEFAULT_DELIVERY_SETTINGS.radiusKm),
+    freeWithinKm: num(shop?.free_delivery_within_km, DEFAULT_DELIVERY_SETTINGS.freeWithinKm) ?? 0,
+    feePerKm: num(shop?.delivery_fee_per_km, DEFAULT_DELIVERY_SETTINGS.feePerKm) ?? 0,
+    freeAboveAmount: num(shop?.free_delivery_above, DEFAULT_DELIVERY_SETTINGS.freeAboveAmount),
+  };
+}
+
+export function deliveryFee(distanceKm: number, orderValue: number, settings: DeliverySettings): number {
+  if (settings.freeAboveAmount !== null && orderValue >= settings.freeAboveAmount) return 0;
+  const billableKm = Math.ceil(Math.max(0, distanceKm - settings.freeWithinKm));
+  return roundMoney(billableKm * settings.feePerKm);
+}
+
+/** The shop's zones, with any that are not a usable polygon left out. */
+export function deliveryZones(shop: Pick<ShopLocation, 'delivery_zones'> | null): DeliveryZone[] {
+  return (Array.isArray(shop?.delivery_zones) ? shop!.delivery_zones : []).filter(
+    (z) => Array.isArray(z.polygon) && z.polygon.length >= 3
+  );
+}
+
+/** Returns why the zones cannot be saved, or null when they are all usable. */
+export function deliveryZonesError(zones: DeliveryZone[]): string | null {
+  for (const zone of zones) {
+    if (!zone.name.trim()) return 'Every delivery zone needs a name';
+    const label = zone.name.trim();
+    if (zone.polygon.length < 3) return `${label} needs at least three corners`;
+    if (zone.polygon.some((p) => !Number.isFinite(p.lat) || !Number.isFinite(p.lng) || Math.abs(p.lat) > 90 || Math.abs(p.lng) > 180)) {
+      return `${label} has a corner that is not a valid latitude, longitude`;
+    }
+    if (!Number.isFinite(zone.fee) || zone.fee < 0) return `${label} needs a delivery fee of ₹0 or more`;
+    if (zone.min_order !== null && (!Number.isFinite(zone.min_order) || zone.min_order < 0)) {
+      return `${label} has an invalid minimum order`;
+    }
+  }
+  return null;
+}
+
+/** The first zone, in the owner's order, that contains the point. */
+export function findDeliveryZone(shop: Pick<ShopLocation, 'delivery_zones'> | null, latitude: number, longitude: number) {
+  return deliveryZones(shop).find((z) => pointInPolygon(latitude, longitude, z.polygon)) ?? null;
+}
+
+export function deliveryQuote(
+  shop: ShopLocation,
+  latitude: number,
+  longitude: number,
+  orderValue: number,
+  approximate = false
+): DeliveryQuote {
+  const settings = deliverySettings(shop);
+  const distanceKm = calculateDistance(shop.latitude, shop.longitude, latitude, longitude);
+  if (deliveryZones(shop).length > 0) {
+    const zone = findDeliveryZone(shop, latitude, longitude);
+    const waived = settings.freeAboveAmount !== null && orderValue >= settings.freeAboveAmount;
+    return { distanceKm, fee: zone && !waived ? zone.fee : 0, serviceable: !!zone, zone, approximate };
+  }
+  return {
+    distanceKm,
+    fee: deliveryFee(distanceKm, orderValue, settings),
+    serviceable: settings.radiusKm === null || distanceKm <= settings.radiusKm,
+    zone: null,
+    approximate,
+  };
+}
+
+/**
+ * Fallback when the customer has not shared GPS: place the PIN code at its
+ * town centre. Only zone shops get one, since their fees do not depend on the
+ * exact distance; null otherwise or for a PIN the bundled data cannot place.
+ */
+export function pinCodeQuote(shop: ShopLocation, pin: string, orderValue: number): DeliveryQuote | null {
+  const centre = lookupPinCode(pin)?.centre;
+  if (!centre || deliveryZones(shop).length === 0) return null;
+  return deliveryQuote(shop, centre.lat, centre.lng, orderValue, true);
+}
+
+/**
+ * Returns why the quoted address cannot be delivered to, or null when it can.
+ * The zone's minimum order is only checked when `orderValue` is given.
+ */
+export function deliveryQuoteError(shop: ShopLocation, quote: DeliveryQuote, orderValue?: number): string | null {
+  if (!quote.serviceable) {
+    if (deliveryZones(shop).length > 0) {
+      return quote.approximate
+        ? "Sorry, we don't deliver to that PIN code. Share your location if you are near the shop"
+        : "Sorry, we don't deliver to your location";
+    }
+    return `Sorry, you are ${formatDistance(quote.distanceKm)} away; we only deliver within ${deliverySettings(shop).radiusKm} km`;
+  }
+  const minOrder = quote.zone?.min_order ?? null;
+  if (orderValue !== undefined && minOrder !== null && orderValue < minOrder) {
+    return `Orders delivered to ${quote.zone!.name} need at least ₹${minOrder} of items`;
+  }
+  return null;
+}
+
+/** One-line summary of the fee schedule for the storefront. */
+export function describeDeliverySettings(settings: DeliverySettings): string {
+  const parts = [
+    settings.feePerKm > 0
+      ? `Free delivery within ${settings.freeWithinKm} km, then ₹${settings.feePerKm}/km`
+      : 'Free delivery',
+  ];
+  if (settings.feePerKm > 0 && settings.freeAboveAmount !== null) {
+    parts.push(`free on orders over ₹${settings.freeAboveAmount}`);
+  }
+  if (settings.radiusKm !== null) parts.push(`we deliver up to ${settings.radiusKm} km`);
+  return parts.join('; ');
+}
+
+/** Zone counterpart of describeDeliverySettings(), e.g. "Old Town ₹20, Patia free (min ₹300)". */
+export function describeDeliveryZones(zones: DeliveryZone[]): string {
+  const list = zones
+    .map((z) => `${z.name} ${z.fee > 0 ? `₹${z.fee}` : 'free'}${z.min_order ? ` (min ₹${z.min_order})` : ''}`)
+    .join(', ');
+  return `We deliver to: ${list}`;
+}
@@ -0,0 +1,185 @@
+// Per-variant stock bookkeeping. Reservations go through supabase.increment() so
+// two checkouts racing for the last unit cannot both succeed. Variants whose
+// `stock` is null or missing are not tracked and never block a sale.
+import { supabase, ItemVariant, OrderItem } from './supabase';
+import type { Transaction } from './backend';
+
+// At or below this many units ItemsList shows "Only N left"
+export const LOW_STOCK_THRESHOLD = 5;
+
+export type StockLine = Pick<OrderItem, 'variant_id' | 'quantity'> &
+  Partial<Pick<OrderItem, 'item_name' | 'quantity_unit'>>;
+
+export function isStockTracked(variant: Pick<ItemVariant, 'stock'>): boolean {
+  return typeof variant.stock === 'number';
+}
+
+/** Units available, or null when the variant does not track stock. */
+export function availableStock(variant: Pick<ItemVariant, 'stock'>): number | null {
+  return typeof variant.stock === 'number' ? Math.max(0, variant.stock) : null;
+}
+
+/** Short badge text for the storefront, or null when nothing needs saying. */
+export function stockLabel(variant: Pick<ItemVariant, 'stock'>): string | null {
+  const left = availableStock(variant);
+  if (left === null) return null;
+  if (left === 0) return 'Out of stock';
+  if (left <= LOW_STOCK_THRESHOLD) return `Only ${left} left`;
+  return null;
+}
+
+function describe(line: StockLine) {
+  return [line.item_name, line.quantity_unit && `(${line.quantity_unit})`].filter(Boolean).join(' ') || 'this item';
+}
+
+// Sum quantities per variant so a cart holding the same variant twice is checked once
+function totalsByVariant(lines: StockLine[]) {
+  const totals = new Map<string, StockLine>();
+  for (const line of lines) {
+    if (!line.variant_id) continue;
+    const prev = totals.get(line.variant_id);
+    totals.set(line.variant_id, { ...line, quantity: (prev?.quantity ?? 0) + line.quantity });
+  }
+  return totals;
+}
+
+async function loadVariants(ids: string[]): Promise<Map<string, ItemVariant>> {
+  const variants = new Map<string, ItemVariant>();
+  // Firestore caps `in` filters, so fetch in small chunks
+  for (let i = 0; i < ids.length; i += 10) {
+    const { data, error } = await supabase
+      .from<ItemVariant>('item_variants')
+      .select('*')
+      .in('id', ids.slice(i, i + 10))
+      .get();
+    if (error) throw new Error(error.message);
+    (data ?? []).forEach((v) => variants.set(v.id, v));
+  }
+  return variants;
+}
+
+function shortageMessage(lines: StockLine[], variants: Map<string, ItemVariant>): string | null {
+  const problems: string[] = [];
+  for (const line of lines) {
+    const variant = variants.get(line.variant_id);
+    if (!variant) {
+      problems.push(`${describe(line)} is no longer available`);
+      continue;
+    }
+    const left = availableStock(variant);
+    if (left !== null && left < line.quantity) {
+      problems.push(left === 0 ? `${describe(line)} is out of stock` : `Only ${left} left of ${describe(line)}`);
+    }
+  }
+  return problems.length > 0 ? problems.join('\n') : null;
+}
+
+/**
+ * Takes `lines` out of stock in one atomic write and returns the lines that were
+ * actually reserved (tracked variants only) so a caller can release them again.
+ * Throws an Error listing every over-sold line when there is not enough stock.
+ */
+export async function reserveStock(lines: StockLine[]): Promise<StockLine[]> {
+  const totals = Array.from(totalsByVariant(lines).values()).filter((l) => l.quantity > 0);
+  if (totals.length === 0) return [];
+
+  const variants = await loadVariants(totals.map((l) => l.variant_id));
+  const shortage = shortageMessage(totals, variants);
+  if (shortage) throw new Error(shortage);
+
+  const tracked = totals.filter((l) => isStockTracked(variants.get(l.variant_id)!));
+  if (tracked.length === 0) return [];
+
+  const { error } = await supabase.increment(
+    'item_variants',
+    tracked.map((l) => ({ id: l.variant_id, field: 'stock', by: -l.quantity })),
+    { min: 0 }
+  );
+  if (error) {
+    // Someone else bought the last units between our read and the write
+    if (error.code === 'out-of-range' || error.code === 'not-found') {
+      const fresh = await loadVariants(tracked.map((l) => l.variant_id));
+      throw new Error(shortageMessage(tracked, fresh) ?? 'Some items just sold out');
+    }
+    throw new Error(error.message);
+  }
+  return tracked;
+}
+
+/**
+ * Transactional counterpart of reserveStock(). Reads the variants through `tx`
+ * and throws when anything is over-sold; the returned function queues the stock
+ * writes and must be called only after the transaction's other reads.
+ */
+export async function prepareStockReservation(tx: Transaction, lines: StockLine[]): Promise<() => void> {
+  const totals = Array.from(totalsByVariant(lines).values()).filter((l) => l.quantity > 0);
+  const variants = new Map<string, ItemVariant>();
+  for (const line of totals) {
+    const variant = await tx.get<ItemVariant>('item_variants', line.variant_id);
+    if (variant) variants.set(line.variant_id, variant);
+  }
+
+  const shortage = shortageMessage(totals, variants);
+  if (shortage) throw new Error(shortage);
+
+  return () => {
+    for (const line of totals) {
+      const variant = variants.get(line.variant_id)!;
+      if (!isStockTracked(variant)) continue;
+      tx.update('item_variants', line.variant_id, { stock: (variant.stock as number) - line.quantity });
+    }
+  };
+}
+
+/** Puts units back, e.g. when an order is cancelled. Deleted or untracked variants are skipped. */
+export async function releaseStock(lines: StockLine[]): Promise<void> {
+  const totals = Array.from(totalsByVariant(lines).values()).filter((l) => l.quantity > 0);
+  if (totals.length === 0) return;
+
+  const variants = await loadVariants(totals.map((l) => l.variant_id));
+  const tracked = totals.filter((l) => {
+    const variant = variants.get(l.variant_id);
+    return variant && isStockTracked(variant);
+  });
+  if (tracked.length === 0) return;
+
+  const { error } = await supabase.increment(
+    'item_variants',
+    tracked.map((l) => ({ id: l.variant_id, field: 'stock', by: l.quantity }))
+  );
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Transactional stock move for an edited order: the difference between two
+ * versions of its lines is reserved (throwing when over-sold) or released. Like
+ * prepareStockReservation(), call the returned function after the other reads.
+ */
+export async function prepareStockAdjustment(tx: Transaction, before: StockLine[], after: StockLine[]): Promise<() => void> {
+  const old = totalsByVariant(before);
+  const next = totalsByVariant(after);
+  const deltas: StockLine[] = [];
+  for (const id of new Set([...old.keys(), ...next.keys()])) {
+    const line = next.get(id) ?? old.get(id)!;
+    const delta = (next.get(id)?.quantity ?? 0) - (old.get(id)?.quantity ?? 0);
+    if (delta !== 0) deltas.push({ ...line, quantity: delta });
+  }
+
+  const variants = new Map<string, ItemVariant>();
+  for (const line of deltas) {
+    const variant = await tx.get<ItemVariant>('item_variants', line.variant_id);
+    if (variant) variants.set(line.variant_id, variant);
+  }
+
+  // Only added units need checking; units handed back to a deleted variant are dropped
+  const shortage = shortageMessage(deltas.filter((l) => l.quantity > 0), variants);
+  if (shortage) throw new Error(shortage);
+
+  return () => {
+    for (const line of deltas) {
+      const variant = variants.get(line.variant_id);
+      if (!variant || !isStockTracked(variant)) continue;
+      tx.update('item_variants', line.variant_id, { stock: (variant.stock as number) - line.quantity });
+    }
+  };
+}
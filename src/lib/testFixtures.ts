@@ -0,0 +1,80 @@
+// Helpers shared by the *.test.ts suites: a fresh memory backend seeded from
+// fixtures.ts for every test, and checkout input for the seeded customer.
+import { createMemoryBackend, MemorySeed } from './memoryBackend';
+import { seedFixtures } from './fixtures';
+import { setBackend } from './supabase';
+import type { Backend, WithId } from './backend';
+import type { NewOrderItem, PlaceOrderInput } from './checkout';
+
+/**
+ * Installs a fresh memory backend. Delivery slots are switched off so checkout
+ * does not need one; `tweak` can change the seed before it is loaded.
+ */
+export function installTestBackend(tweak?: (seed: MemorySeed) => void) {
+  const seed = seedFixtures();
+  seed.tables!.shop_location[0].delivery_slots = [];
+  tweak?.(seed);
+  const backend = createMemoryBackend(seed);
+  setBackend(backend);
+  return backend;
+}
+
+/**
+ * Makes `orders` queries that match nothing return every order, as the
+ * Firebase backend's collectionGroup fallback does, and installs the result.
+ */
+export function withOrdersFallback(backend: Backend): Backend {
+  const fallback: Backend = {
+    ...backend,
+    from: <T extends WithId>(table: string) => {
+      const query = backend.from<T>(table);
+      if (table !== 'orders') return query;
+      const get = query.get.bind(query);
+      query.get = async () => {
+        const result = await get();
+        return result.data?.length ? result : backend.from<T>(table).select('*').get();
+      };
+      return query;
+    },
+  };
+  setBackend(fallback);
+  return fallback;
+}
+
+/** A cart line for a seeded variant, e.g. `orderLine('var-dokra-1', 1200, 2)`. */
+export function orderLine(variantId: string, price: number, quantity: number): NewOrderItem {
+  return {
+    item_id: variantId.replace(/^var-(\w+)-.*$/, 'item-$1'),
+    variant_id: variantId,
+    item_name: 'Test item',
+    quantity_unit: '1 piece',
+    quantity,
+    price,
+    subtotal: price * quantity,
+  };
+}
+
+/** placeOrder() input for customer-1, delivered at the shop's door so delivery is free. */
+export function checkoutInput(
+  key: string,
+  items: NewOrderItem[],
+  fields: Partial<Omit<PlaceOrderInput, 'order'>> & { order?: Partial<PlaceOrderInput['order']> } = {}
+): PlaceOrderInput {
+  const { order, ...rest } = fields;
+  return {
+    key,
+    order: {
+      customer_id: 'customer-1',
+      customer_name: 'Test Customer',
+      customer_phone: '9000000002',
+      delivery_address: 'Main Road, Bhubaneswar',
+      latitude: 20.2961,
+      longitude: 85.8245,
+      payment_method: 'cod',
+      created_at: new Date().toISOString(),
+      ...order,
+    },
+    items,
+    ...rest,
+  };
+}
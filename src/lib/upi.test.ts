@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Order, supabase } from './supabase';
+import { placeOrder } from './checkout';
+import { PAYMENT_WINDOW_MINUTES, expireUnpaidOrders, fetchPayment, markRefundedByHand } from './payments';
+import { transitionOrder } from './orderStatus';
+import { normalizeUtr, rejectUpiPayment, submitUpiReference, upiPayLink, verifyUpiPayment } from './upi';
+import { checkoutInput, installTestBackend, orderLine, withOrdersFallback } from './testFixtures';
+
+const owner = { role: 'owner' as const, actorId: 'owner-1' };
+
+async function order(id: string) {
+  const { data } = await supabase.from<Order>('orders').select('*').eq('id', id).maybeSingle();
+  return data!;
+}
+
+const placeUpiOrder = (key: string, createdAt = new Date()) =>
+  placeOrder(
+    checkoutInput(key, [orderLine('var-dokra-1', 1200, 1)], { order: { payment_method: 'upi', created_at: createdAt.toISOString() } })
+  );
+
+beforeEach(() => {
+  installTestBackend((seed) => {
+    seed.tables!.shop_location[0].upi_vpa = 'jjhandicraft@okbank';
+  });
+});
+
+describe('upiPayLink', () => {
+  it('fills in the payee, amount and order', () => {
+    expect(upiPayLink({ vpa: 'jjhandicraft@okbank', payeeName: 'JJ Handicraft', amount: 1200, orderNumber: 'ORD-20261019-0001' })).toBe(
+      'upi://pay?pa=jjhandicraft%40okbank&pn=JJ%20Handicraft&am=1200.00&cu=INR&tn=Order%20ORD-20261019-0001&tr=ORD-20261019-0001'
+    );
+  });
+});
+
+describe('normalizeUtr', () => {
+  it('accepts 12 digits with pasted spaces only', () => {
+    expect(normalizeUtr('4123 4567 8901')).toBe('412345678901');
+    expect(normalizeUtr('41234567890')).toBeNull();
+  });
+});
+
+describe('UPI reference verification', () => {
+  it('waits for the owner once the customer gives a UTR, then releases the order', async () => {
+    await placeUpiOrder('key-1');
+    await submitUpiReference('key-1', '412345678901');
+    expect(await order('key-1')).toMatchObject({ status: 'awaiting_payment', payment_reference: '412345678901' });
+
+    await verifyUpiPayment('key-1', owner);
+    expect(await order('key-1')).toMatchObject({ status: 'pending', payment_status: 'paid' });
+    expect((await fetchPayment('key-1'))?.intent_id).toBe('412345678901');
+  });
+
+  it('refuses a UTR already given for another order', async () => {
+    await placeUpiOrder('key-1');
+    await placeUpiOrder('key-2');
+    await submitUpiReference('key-1', '412345678901');
+    await expect(submitUpiReference('key-2', '412345678901')).rejects.toThrow(
+      'This reference number has already been used for another order'
+    );
+  });
+
+  it('accepts a new UTR when the backend returns unmatched orders', async () => {
+    withOrdersFallback(
+      installTestBackend((seed) => {
+        seed.tables!.shop_location[0].upi_vpa = 'jjhandicraft@okbank';
+      })
+    );
+    await placeUpiOrder('key-1');
+    await placeUpiOrder('key-2');
+    await submitUpiReference('key-1', '412345678901');
+    await expect(submitUpiReference('key-2', '498765432109')).resolves.toMatchObject({ payment_reference: '498765432109' });
+    await expect(submitUpiReference('key-2', '412345678901')).rejects.toThrow('already been used');
+  });
+
+  it('clears a rejected reference so the customer can try again', async () => {
+    await placeUpiOrder('key-1');
+    await submitUpiReference('key-1', '412345678901');
+    await rejectUpiPayment('key-1');
+    expect(await order('key-1')).toMatchObject({ status: 'awaiting_payment', payment_reference: null, payment_status: 'failed' });
+  });
+
+  it('refuses a reference for an order that is not paid by UPI', async () => {
+    await placeOrder(checkoutInput('key-1', [orderLine('var-dokra-1', 1200, 1)]));
+    await expect(submitUpiReference('key-1', '412345678901')).rejects.toThrow('This order is not waiting for a UPI payment');
+  });
+
+  it('gives the customer a fresh window to pay after a rejection', async () => {
+    const placed = new Date(Date.now() - 2 * PAYMENT_WINDOW_MINUTES * 60000);
+    await placeUpiOrder('key-1', placed);
+    await submitUpiReference('key-1', '412345678901');
+    await rejectUpiPayment('key-1');
+
+    // The owner's list refreshes straight after the rejection
+    expect(await expireUnpaidOrders([await order('key-1')], owner)).toBe(0);
+    await submitUpiReference('key-1', '498765432109');
+    await verifyUpiPayment('key-1', owner);
+    expect(await order('key-1')).toMatchObject({ status: 'pending', payment_status: 'paid', payment_reference: '498765432109' });
+
+    const later = new Date(Date.now() + (PAYMENT_WINDOW_MINUTES + 1) * 60000);
+    await placeUpiOrder('key-2', placed);
+    await submitUpiReference('key-2', '411111111111');
+    await rejectUpiPayment('key-2');
+    expect(await expireUnpaidOrders([await order('key-2')], owner, later)).toBe(1);
+  });
+});
+
+describe('cancelling a verified UPI order', () => {
+  beforeEach(async () => {
+    await placeUpiOrder('key-1');
+    await submitUpiReference('key-1', '412345678901');
+    await verifyUpiPayment('key-1', owner);
+  });
+
+  it('tells the owner the refund has to be made by hand', async () => {
+    const cancelled = await transitionOrder('key-1', 'cancelled', owner);
+    expect(cancelled).toMatchObject({ status: 'cancelled', refund_error: 'This UPI payment must be refunded by hand' });
+    expect((await order('key-1')).refund_error).toBe('This UPI payment must be refunded by hand');
+  });
+
+  it('clears the flag once the owner has refunded by hand', async () => {
+    await expect(markRefundedByHand('key-1')).rejects.toThrow('There is no refund due on this order');
+    await transitionOrder('key-1', 'cancelled', owner);
+    await markRefundedByHand('key-1');
+    expect(await order('key-1')).toMatchObject({ payment_status: 'refunded', refund_error: null });
+    expect((await fetchPayment('key-1'))?.status).toBe('refunded');
+  });
+});
@@ -0,0 +1,149 @@
+// UPI payments straight to the shop's own VPA. There is no gateway to confirm
+// them: the customer pays from their UPI app using the intent link or QR code,
+// types in the UTR their app shows, and the owner checks it against the bank
+// statement. Until then the order stays `awaiting_payment`, but unlike an
+// unpaid card order it is visible to the shop once a reference is submitted.
+import { supabase, Order, ShopLocation } from './supabase';
+import { PaymentRecord } from './payments';
+import { TransitionContext, signalOrderUpdated, transitionOrder } from './orderStatus';
+
+const VPA_RE = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9.]{1,63}$/;
+
+// UPI apps show the bank's 12-digit reference (UTR / RRN)
+const UTR_RE = /^\d{12}$/;
+
+export function isUpiVpa(value: string): boolean {
+  return VPA_RE.test(value.trim());
+}
+
+/** The shop's VPA, or null when it has not set one and UPI is not offered. */
+export function shopUpiVpa(shop: Pick<ShopLocation, 'upi_vpa'> | null): string | null {
+  const vpa = shop?.upi_vpa?.trim();
+  return vpa && isUpiVpa(vpa) ? vpa : null;
+}
+
+/** Strips the spaces people paste in; returns null when it is not a UTR. */
+export function normalizeUtr(value: string): string | null {
+  const utr = value.replace(/\s+/g, '');
+  return UTR_RE.test(utr) ? utr : null;
+}
+
+/**
+ * `upi://pay` intent for the order. Opening it on a phone launches the UPI app
+ * with the payee, amount and note filled in; the same string is put in the QR.
+ */
+export function upiPayLink(params: { vpa: string; payeeName?: string | null; amount: number; orderNumber: string }): string {
+  const query = [
+    ['pa', params.vpa.trim()],
+    ['pn', params.payeeName?.trim() || params.vpa.trim()],
+    ['am', params.amount.toFixed(2)],
+    ['cu', 'INR'],
+    ['tn', `Order ${params.orderNumber}`],
+    ['tr', params.orderNumber],
+  ];
+  return `upi://pay?${query.map(([k, v]) => `${k}=${encodeURIComponent(v)}`).join('&')}`;
+}
+
+/** Whether the order is a UPI order still waiting for the customer's reference. */
+export function awaitingUpiReference(order: Pick<Order, 'status' | 'payment_method' | 'payment_reference'>): boolean {
+  return order.status === 'awaiting_payment' && order.payment_method === 'upi' && !order.payment_reference;
+}
+
+/** Whether the owner has a UPI reference to check for this order. */
+export function awaitingUpiVerification(order: Pick<Order, 'status' | 'payment_method' | 'payment_reference'>): boolean {
+  return order.status === 'awaiting_payment' && order.payment_method === 'upi' && !!order.payment_reference;
+}
+
+async function readOrder(orderId: string): Promise<Order> {
+  const { data, error } = await supabase.from<Order>('orders').select('*').eq('id', orderId).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error('Order not found');
+  return data;
+}
+
+/**
+ * Records the UTR the customer entered. A UTR already given for another
+ * order is refused, since one bank transfer cannot pay for two orders.
+ */
+export async function submitUpiReference(orderId: string, value: string): Promise<Order> {
+  const utr = normalizeUtr(value);
+  if (!utr) throw new Error('Enter the 12-digit UTR / reference number from your UPI app');
+
+  const order = await readOrder(orderId);
+  if (order.payment_method !== 'upi' || order.status !== 'awaiting_payment') {
+    throw new Error('This order is not waiting for a UPI payment');
+  }
+
+  const { data: others, error: lookupError } = await supabase
+    .from<Order>('orders')
+    .select('*')
+    .eq('payment_reference', utr)
+    .get();
+  if (lookupError) throw new Error(lookupError.message);
+  // Client-side safety filter: on Firebase an orders query that matches nothing returns every order
+  if ((others ?? []).some((o) => o.id !== orderId && o.payment_reference === utr)) {
+    throw new Error('This reference number has already been used for another order');
+  }
+
+  const now = new Date().toISOString();
+  const fields: Partial<Order> = { payment_reference: utr, payment_reference_at: now, payment_status: 'unpaid', updated_at: now };
+  const { error } = await supabase.from<Order>('orders').update(fields).eq('id', orderId).get();
+  if (error) throw new Error(error.message);
+  signalOrderUpdated();
+  return { ...order, ...fields };
+}
+
+/**
+ * The owner found the money: the payment is recorded against the UTR and the
+ * order goes to the shop as `pending`.
+ */
+export async function verifyUpiPayment(orderId: string, ctx: TransitionContext): Promise<Order> {
+  const order = await readOrder(orderId);
+  if (!awaitingUpiVerification(order)) throw new Error('There is no UPI payment to verify on this order');
+
+  const now = new Date().toISOString();
+  const utr = order.payment_reference!;
+  const record: PaymentRecord = {
+    id: order.id,
+    order_id: order.id,
+    provider: 'upi',
+    intent_id: utr,
+    amount: order.total_amount,
+    currency: 'INR',
+    status: 'paid',
+    failure_reason: null,
+    event_ids: [`upi_verified_${utr}`],
+    created_at: now,
+    updated_at: now,
+  };
+  const { error } = await supabase.transaction(async (tx) => {
+    tx.set('payments', order.id, record);
+    tx.update('orders', order.id, { payment_status: 'paid', updated_at: now });
+  });
+  if (error) throw new Error(error.message);
+
+  return transitionOrder(orderId, 'pending', ctx, {}, `UPI payment verified (UTR ${utr})`);
+}
+
+/**
+ * The owner could not find the payment. The reference is cleared so the
+ * customer can pay again or correct it, with a fresh PAYMENT_WINDOW_MINUTES to
+ * do so; the order drops back off the shop's list.
+ */
+export async function rejectUpiPayment(orderId: string): Promise<Order> {
+  const order = await readOrder(orderId);
+  if (!awaitingUpiVerification(order)) throw new Error('There is no UPI payment to verify on this order');
+
+  const now = new Date().toISOString();
+  const fields: Partial<Order> = {
+    payment_reference: null,
+    payment_reference_at: null,
+    payment_rejected_at: now,
+    payment_status: 'failed',
+    updated_at: now,
+  };
+  const { error } = await supabase.from<Order>('orders').update(fields).eq('id', orderId).get();
+  if (error) throw new Error(error.message);
+  signalOrderUpdated();
+  return { ...order, ...fields };
+}
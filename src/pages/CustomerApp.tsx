@@ -17,6 +17,7 @@ import { ItemsList } from '../components/customer/ItemsList';
 import { Cart } from '../components/customer/Cart';
 import { Checkout } from '../components/customer/Checkout';
 import { OrderHistory } from '../components/customer/OrderHistory';
+import { ShopInfo } from '../components/customer/ShopInfo';
 
 type TabType = 'shop' | 'cart' | 'orders';
 
@@ -317,6 +318,8 @@ export function CustomerApp() {
       }`}>
         {activeTab === 'shop' && (
           <>
+            {!loading && <ShopInfo shop={shopLocation} />}
+
             {/* Search & Filters Section */}
             <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-4 mb-6">
               {/* Search Bar */}
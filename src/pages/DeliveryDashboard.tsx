@@ -1,6 +1,22 @@
-import { useEffect, useState, useCallback } from 'react';
+import { Fragment, useEffect, useState, useCallback, useRef } from 'react';
 import { supabase, Order, OrderItem } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { ORDER_STATUS_LABELS, canTransition, handoverError, transitionOrder } from '../lib/orderStatus';
+import { OrderTimeline } from '../components/OrderTimeline';
+import { AddressDetails } from '../components/AddressDetails';
+import { deliverWithPin } from '../lib/deliveryPin';
+import { formatSlot, slotGroupLabel, sortOrdersBySlot } from '../lib/deliverySlots';
+import { paysOnDelivery } from '../lib/payments';
+import { fetchCashBalance, needsCashCollection, recordCashCollection } from '../lib/cashCollection';
+import { RiderDuty, describeAvailability, fetchRiderDuty, riderAvailability, setOnDuty } from '../lib/riderDuty';
+import { ShiftsForm } from '../components/delivery/ShiftsForm';
+import { RoutePlanner } from '../components/delivery/RoutePlanner';
+import { EarningsPanel } from '../components/delivery/EarningsPanel';
+import { isTracked, startLocationSharing } from '../lib/riderTracking';
+import { captureDeliveryProof } from '../lib/deliveryProof';
+import { ProofInput, ProofOfDeliveryForm } from '../components/delivery/ProofOfDeliveryForm';
+import { FailedAttemptForm } from '../components/delivery/FailedAttemptForm';
+import { FailureReason, attemptsLeft, recordFailedAttempt } from '../lib/deliveryAttempts';
 import { 
   Package, 
   Phone, 
@@ -28,23 +44,36 @@ import {
   Award,
   Star,
   Timer,
-  XCircle
+  Wallet,
+  Power,
+  Radio,
+  XCircle,
+  AlertTriangle
 } from 'lucide-react';
 
 type OrderWithItems = Order & { order_items: OrderItem[] };
 type PinFeedback = Record<string, { type: 'success' | 'error'; message: string }>;
+type CashForm = { amount: string; note: string; saving?: boolean };
 
 const STATUS_CONFIG = {
   pending: {
-    label: 'Pending',
+    label: ORDER_STATUS_LABELS.pending,
     icon: Timer,
     color: 'text-yellow-600',
     bg: 'bg-yellow-100',
     border: 'border-yellow-200',
     progress: 'w-1/4'
   },
+  confirmed: {
+    label: ORDER_STATUS_LABELS.confirmed,
+    icon: ClipboardCheck,
+    color: 'text-blue-600',
+    bg: 'bg-blue-100',
+    border: 'border-blue-200',
+    progress: 'w-1/4'
+  },
   accepted: {
-    label: 'Accepted',
+    label: ORDER_STATUS_LABELS.accepted,
     icon: CheckCircle,
     color: 'text-blue-600',
     bg: 'bg-blue-100',
@@ -52,7 +81,7 @@ const STATUS_CONFIG = {
     progress: 'w-1/2'
   },
   preparing: {
-    label: 'Preparing',
+    label: ORDER_STATUS_LABELS.preparing,
     icon: Package,
     color: 'text-purple-600',
     bg: 'bg-purple-100',
@@ -60,15 +89,31 @@ const STATUS_CONFIG = {
     progress: 'w-3/4'
   },
   ready: {
-    label: 'Ready for Pickup',
-    icon: Truck,
+    label: ORDER_STATUS_LABELS.ready,
+    icon: Package,
     color: 'text-emerald-600',
     bg: 'bg-emerald-100',
     border: 'border-emerald-200',
-    progress: 'w-full'
+    progress: 'w-3/4'
+  },
+  out_for_delivery: {
+    label: ORDER_STATUS_LABELS.out_for_delivery,
+    icon: Truck,
+    color: 'text-indigo-600',
+    bg: 'bg-indigo-100',
+    border: 'border-indigo-200',
+    progress: 'w-5/6'
+  },
+  delivery_failed: {
+    label: ORDER_STATUS_LABELS.delivery_failed,
+    icon: AlertTriangle,
+    color: 'text-orange-600',
+    bg: 'bg-orange-100',
+    border: 'border-orange-200',
+    progress: 'w-5/6'
   },
   delivered: {
-    label: 'Delivered',
+    label: ORDER_STATUS_LABELS.delivered,
     icon: CheckCircle,
     color: 'text-green-600',
     bg: 'bg-green-100',
@@ -76,7 +121,7 @@ const STATUS_CONFIG = {
     progress: 'w-full'
   },
   cancelled: {
-    label: 'Cancelled',
+    label: ORDER_STATUS_LABELS.cancelled,
     icon: XCircle,
     color: 'text-red-600',
     bg: 'bg-red-100',
@@ -95,6 +140,16 @@ export default function DeliveryDashboard() {
   const [expandedOrders, setExpandedOrders] = useState<Record<string, boolean>>({});
   const [searchQuery, setSearchQuery] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [cashInHand, setCashInHand] = useState(0);
+  const [cashForms, setCashForms] = useState<Record<string, CashForm>>({});
+  const [duty, setDuty] = useState<RiderDuty | null>(null);
+  const [dutyLoaded, setDutyLoaded] = useState(false);
+  const [showShifts, setShowShifts] = useState(false);
+  const [sharingError, setSharingError] = useState<string | null>(null);
+  const [proofOrderId, setProofOrderId] = useState<string | null>(null);
+  const [failOrderId, setFailOrderId] = useState<string | null>(null);
+  // Read by the location watcher at each fix, so it always shares for the current orders
+  const trackedIdsRef = useRef<string[]>([]);
   const [stats, setStats] = useState({
     total: 0,
     pending: 0,
@@ -136,10 +191,13 @@ export default function DeliveryDashboard() {
       const statsData = {
         total: sortedAssigned.length,
         pending: sortedAssigned.filter(o => o.status === 'pending').length,
-        accepted: sortedAssigned.filter(o => o.status === 'accepted').length,
+        accepted: sortedAssigned.filter(o => ['accepted', 'preparing', 'ready', 'out_for_delivery'].includes(o.status)).length,
         delivered: sortedAssigned.filter(o => o.status === 'delivered').length
       };
       setStats(statsData);
+
+      const balance = await fetchCashBalance(user.id);
+      setCashInHand(balance?.balance ?? 0);
     } catch (err) {
       console.error('Failed loading assigned orders', err);
     } finally {
@@ -177,6 +235,43 @@ export default function DeliveryDashboard() {
     };
   }, [user, loadAssigned]);
 
+  useEffect(() => {
+    if (!user) return;
+    (async () => {
+      try {
+        setDuty(await fetchRiderDuty(user.id));
+      } catch (err) {
+        console.error('Failed loading duty status', err);
+      } finally {
+        setDutyLoaded(true);
+      }
+    })();
+  }, [user]);
+
+  const trackedIds = orders.filter((o) => o.delivery_boy_id === user?.id && isTracked(o)).map((o) => o.id);
+  trackedIdsRef.current = trackedIds;
+  const sharingLocation = trackedIds.length > 0;
+
+  // Share the position only while there is an order the customer can track
+  useEffect(() => {
+    if (!user || !sharingLocation) return;
+    setSharingError(null);
+    return startLocationSharing(user.id, () => trackedIdsRef.current, (err) => {
+      console.error('Failed to share location', err);
+      setSharingError(err.message);
+    });
+  }, [user, sharingLocation]);
+
+  const toggleDuty = async () => {
+    if (!user) return;
+    try {
+      setDuty(await setOnDuty(user.id, !duty?.on_duty));
+    } catch (err) {
+      console.error('Failed to change duty status', err);
+      alert(err instanceof Error ? err.message : 'Failed to change duty status');
+    }
+  };
+
   // Client-side safety filter
   useEffect(() => {
     if (!user) return;
@@ -190,44 +285,26 @@ export default function DeliveryDashboard() {
     }
   }, [orders, user]);
 
-  const confirmDelivery = async (orderId: string, expectedPin?: string | null) => {
-    const pin = window.prompt('🔑 Enter the delivery PIN shared by the customer:');
-    if (pin === null) return;
-
-    if (expectedPin && pin.trim() !== String(expectedPin)) {
-      setPinFeedback((prev) => ({
-        ...prev,
-        [orderId]: { 
-          type: 'error', 
-          message: '❌ Incorrect PIN. Please ask the customer for the correct PIN.' 
-        }
-      }));
-      return;
-    }
+  const riderContext = { role: 'delivery' as const, actorId: user?.id };
 
+  const confirmDelivery = async (orderId: string, { pin, photo, signature }: ProofInput) => {
+    if (!user) return;
     try {
-      const { error } = await supabase
-        .from('orders')
-        .update({ status: 'delivered' })
-        .eq('id', orderId);
-
-      if (error) throw error;
+      const delivered = await deliverWithPin(orderId, pin, riderContext, () =>
+        captureDeliveryProof(orderId, user.id, { photo, signature })
+      );
+      setProofOrderId(null);
 
       setPinFeedback((prev) => ({
         ...prev,
         [orderId]: { 
           type: 'success', 
-          message: '✅ Delivery confirmed successfully! 🎉' 
+          message: needsCashCollection(delivered)
+            ? '✅ Delivery confirmed! Now record the cash you collected.'
+            : '✅ Delivery confirmed successfully! 🎉'
         }
       }));
 
-      try {
-        localStorage.setItem('order_updated_at', Date.now().toString());
-        window.dispatchEvent(new CustomEvent('order_updated'));
-      } catch {
-        // ignore
-      }
-      
       await loadAssigned();
     } catch (err) {
       console.error('Failed to confirm delivery', err);
@@ -235,12 +312,42 @@ export default function DeliveryDashboard() {
         ...prev,
         [orderId]: { 
           type: 'error', 
-          message: '❌ Unable to confirm delivery. Please try again.' 
+          message: `❌ ${err instanceof Error ? err.message : 'Unable to confirm delivery. Please try again.'}` 
         }
       }));
     }
   };
 
+  const cashForm = (order: Order): CashForm =>
+    cashForms[order.id] ?? { amount: order.total_amount.toFixed(2), note: '' };
+
+  const updateCashForm = (order: Order, changes: Partial<CashForm>) => {
+    setCashForms((prev) => ({ ...prev, [order.id]: { ...cashForm(order), ...changes } }));
+  };
+
+  const recordCash = async (order: Order) => {
+    const form = cashForm(order);
+    if (form.saving) return;
+    updateCashForm(order, { saving: true });
+    try {
+      const collection = await recordCashCollection(order.id, { amount: Number(form.amount), note: form.note }, riderContext);
+      setPinFeedback((prev) => ({
+        ...prev,
+        [order.id]: { type: 'success', message: `💵 ₹${collection.amount_collected.toFixed(2)} recorded as collected.` }
+      }));
+      setCashForms((prev) => {
+        const next = { ...prev };
+        delete next[order.id];
+        return next;
+      });
+      await loadAssigned();
+    } catch (err) {
+      console.error('Failed to record cash collected', err);
+      updateCashForm(order, { saving: false });
+      alert(err instanceof Error ? err.message : 'Failed to record cash collected');
+    }
+  };
+
   const copyPhone = async (phone?: string | null) => {
     if (!phone) return;
     try {
@@ -254,25 +361,36 @@ export default function DeliveryDashboard() {
 
   const acceptOrder = async (orderId: string) => {
     try {
-      const { error } = await supabase
-        .from('orders')
-        .update({ status: 'accepted' })
-        .eq('id', orderId)
-        .eq('delivery_boy_id', user?.id);
-
-      if (error) throw error;
+      await transitionOrder(orderId, 'accepted', riderContext);
+      await loadAssigned();
+    } catch (err) {
+      console.error('Failed to accept order', err);
+      alert(err instanceof Error ? err.message : 'Failed to accept order');
+    }
+  };
 
-      try {
-        localStorage.setItem('order_updated_at', Date.now().toString());
-        window.dispatchEvent(new CustomEvent('order_updated'));
-      } catch {
-        // ignore
-      }
+  const startDelivery = async (orderId: string) => {
+    try {
+      await transitionOrder(orderId, 'out_for_delivery', riderContext);
+      await loadAssigned();
+    } catch (err) {
+      console.error('Failed to start delivery', err);
+      alert(err instanceof Error ? err.message : 'Failed to start delivery');
+    }
+  };
 
+  const recordFailure = async (orderId: string, input: { reason: FailureReason; note: string }) => {
+    try {
+      await recordFailedAttempt(orderId, input, riderContext);
+      setFailOrderId(null);
+      setPinFeedback((prev) => ({
+        ...prev,
+        [orderId]: { type: 'success', message: '📝 Attempt recorded. Please bring the parcel back to the shop.' }
+      }));
       await loadAssigned();
     } catch (err) {
-      console.error('Failed to accept order', err);
-      alert('Failed to accept order');
+      console.error('Failed to record delivery attempt', err);
+      alert(err instanceof Error ? err.message : 'Failed to record the delivery attempt');
     }
   };
 
@@ -303,7 +421,8 @@ export default function DeliveryDashboard() {
     return STATUS_CONFIG[status as keyof typeof STATUS_CONFIG] || STATUS_CONFIG.pending;
   };
 
-  const filteredOrders = orders.filter(order => {
+  // Grouped by delivery slot, earliest first, so the next run is at the top
+  const filteredOrders = sortOrdersBySlot(orders.filter(order => {
     const matchesSearch = searchQuery === '' ||
       order.order_number.toLowerCase().includes(searchQuery.toLowerCase()) ||
       order.customer_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -312,7 +431,8 @@ export default function DeliveryDashboard() {
     const matchesFilter = filterStatus === 'all' || order.status === filterStatus;
     
     return matchesSearch && matchesFilter;
-  });
+  }));
+  const showSlotHeadings = filteredOrders.some((order) => order.delivery_slot);
 
   if (loading) {
     return (
@@ -356,6 +476,39 @@ export default function DeliveryDashboard() {
                 <RefreshCw className={`w-5 h-5 ${refreshing ? 'animate-spin' : ''}`} />
               </button>
               
+              {sharingLocation && (
+                <div
+                  className={`hidden md:flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium ${
+                    sharingError ? 'bg-red-50 text-red-700' : 'bg-emerald-50 text-emerald-700'
+                  }`}
+                  title={sharingError ?? 'Customers can see where you are while their order is on the way'}
+                >
+                  <Radio className={`w-4 h-4 ${sharingError ? '' : 'animate-pulse'}`} />
+                  {sharingError ? 'Location off' : 'Sharing location'}
+                </div>
+              )}
+
+              <button
+                onClick={toggleDuty}
+                disabled={!dutyLoaded}
+                className={`flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-semibold transition-colors disabled:opacity-50 ${
+                  duty?.on_duty
+                    ? 'bg-emerald-600 hover:bg-emerald-700 text-white'
+                    : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+                }`}
+                title={duty?.on_duty ? 'Go off duty' : 'Go on duty'}
+              >
+                <Power className="w-4 h-4" />
+                {duty?.on_duty ? 'On duty' : 'Off duty'}
+              </button>
+
+              <div className="flex items-center gap-2 px-3 py-2 bg-amber-50 border border-amber-200 rounded-xl" title="Cash you are holding for the shop">
+                <Wallet className="w-4 h-4 text-amber-600" />
+                <span className="text-sm font-medium text-amber-800">
+                  ₹{cashInHand.toFixed(2)}<span className="hidden sm:inline"> in hand</span>
+                </span>
+              </div>
+
               <div className="flex items-center gap-2 px-3 py-2 bg-gray-100 rounded-xl">
                 <Bell className="w-4 h-4 text-gray-600" />
                 <span className="text-sm font-medium text-gray-700">
@@ -427,6 +580,34 @@ export default function DeliveryDashboard() {
           </div>
         </div>
 
+        {/* Availability */}
+        <div className="bg-white rounded-2xl shadow-md border border-gray-100 p-4 mb-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-center gap-2 text-sm">
+              <Calendar className="w-4 h-4 text-emerald-600" />
+              <span className="font-medium text-gray-900">{describeAvailability(riderAvailability(duty))}</span>
+              <span className="text-gray-500">
+                {riderAvailability(duty).available ? '· the shop can assign you new orders' : '· you will not be assigned new orders'}
+              </span>
+            </div>
+            <button
+              onClick={() => setShowShifts((v) => !v)}
+              className="text-sm font-medium text-emerald-700 hover:text-emerald-800"
+            >
+              {showShifts ? 'Hide shifts' : 'My shifts'}
+            </button>
+          </div>
+          {showShifts && user && (
+            <div className="mt-4 pt-4 border-t border-gray-100">
+              <ShiftsForm riderId={user.id} duty={duty} onSaved={setDuty} />
+            </div>
+          )}
+        </div>
+
+        {user && <RoutePlanner riderId={user.id} orders={orders} />}
+
+        {user && <EarningsPanel riderId={user.id} />}
+
         {/* Filters */}
         <div className="bg-white rounded-2xl shadow-md border border-gray-100 p-4 mb-6">
           <div className="flex flex-col sm:flex-row gap-4">
@@ -484,246 +665,344 @@ export default function DeliveryDashboard() {
           </div>
         ) : (
           <div className="space-y-4">
-            {filteredOrders.map((order) => {
+            {filteredOrders.map((order, index) => {
               const totalItems = order.order_items.reduce((sum, item) => sum + item.quantity, 0);
-              const totalAmount = order.order_items.reduce((sum, item) => sum + item.subtotal, 0);
               const feedback = pinFeedback[order.id];
               const statusConfig = getStatusConfig(order.status);
               const StatusIcon = statusConfig.icon;
               const isExpanded = expandedOrders[order.id] || false;
 
+              const startsSlotGroup =
+                showSlotHeadings && (index === 0 || filteredOrders[index - 1].delivery_slot?.id !== order.delivery_slot?.id);
+
               return (
-                <div
-                  key={order.id}
-                  className="bg-white rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 border border-gray-100 overflow-hidden"
-                >
-                  {/* Order Header */}
-                  <div 
-                    className="p-5 cursor-pointer hover:bg-gray-50/50 transition-colors"
-                    onClick={() => toggleOrderExpand(order.id)}
-                  >
-                    <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
-                      <div className="flex items-start gap-4 flex-1">
-                        <div className={`p-3 rounded-xl ${statusConfig.bg} flex-shrink-0`}>
-                          <StatusIcon className={`w-5 h-5 ${statusConfig.color}`} />
-                        </div>
+                <Fragment key={order.id}>
+                  {startsSlotGroup && (
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700 pt-2">
+                      <Clock3 className="w-4 h-4 text-emerald-600" />
+                      {slotGroupLabel(order)}
+                    </h3>
+                  )}
+                  <div className="bg-white rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 border border-gray-100 overflow-hidden">
+                    {/* Order Header */}
+                    <div 
+                      className="p-5 cursor-pointer hover:bg-gray-50/50 transition-colors"
+                      onClick={() => toggleOrderExpand(order.id)}
+                    >
+                      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+                        <div className="flex items-start gap-4 flex-1">
+                          <div className={`p-3 rounded-xl ${statusConfig.bg} flex-shrink-0`}>
+                            <StatusIcon className={`w-5 h-5 ${statusConfig.color}`} />
+                          </div>
                         
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-3 flex-wrap">
-                            <span className="font-mono font-bold text-gray-900 text-sm">
-                              #{order.order_number}
-                            </span>
-                            <span className={`text-xs font-medium px-2.5 py-1 rounded-full ${statusConfig.bg} ${statusConfig.color}`}>
-                              {statusConfig.label}
-                            </span>
-                            {order.status === 'pending' && order.delivery_boy_id === user?.id && (
-                              <span className="text-xs font-medium text-blue-600 bg-blue-50 px-2.5 py-1 rounded-full border border-blue-200 animate-pulse">
-                                Action Required
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-3 flex-wrap">
+                              <span className="font-mono font-bold text-gray-900 text-sm">
+                                #{order.order_number}
                               </span>
-                            )}
-                          </div>
-                          <div className="flex items-center gap-3 mt-1 text-xs text-gray-500 flex-wrap">
-                            <span className="flex items-center gap-1">
-                              <User className="w-3.5 h-3.5" />
-                              {order.customer_name}
-                            </span>
-                            <span>•</span>
-                            <span className="flex items-center gap-1">
-                              <Calendar className="w-3.5 h-3.5" />
-                              {formatDate(order.created_at)}
-                            </span>
-                            <span>•</span>
-                            <span>{totalItems} items</span>
+                              <span className={`text-xs font-medium px-2.5 py-1 rounded-full ${statusConfig.bg} ${statusConfig.color}`}>
+                                {statusConfig.label}
+                              </span>
+                              {order.status === 'pending' && order.delivery_boy_id === user?.id && (
+                                <span className="text-xs font-medium text-blue-600 bg-blue-50 px-2.5 py-1 rounded-full border border-blue-200 animate-pulse">
+                                  Action Required
+                                </span>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-3 mt-1 text-xs text-gray-500 flex-wrap">
+                              <span className="flex items-center gap-1">
+                                <User className="w-3.5 h-3.5" />
+                                {order.customer_name}
+                              </span>
+                              <span>•</span>
+                              <span className="flex items-center gap-1">
+                                <Calendar className="w-3.5 h-3.5" />
+                                {formatDate(order.created_at)}
+                              </span>
+                              {order.delivery_slot && (
+                                <>
+                                  <span>•</span>
+                                  <span className="flex items-center gap-1 font-medium text-emerald-700">
+                                    <Clock3 className="w-3.5 h-3.5" />
+                                    {formatSlot(order.delivery_slot)}
+                                  </span>
+                                </>
+                              )}
+                              <span>•</span>
+                              <span>{totalItems} items</span>
+                            </div>
                           </div>
                         </div>
-                      </div>
 
-                      <div className="flex items-center gap-3 ml-auto lg:ml-0">
-                        <div className="text-right">
-                          <p className="text-xs text-gray-500">Total</p>
-                          <p className="text-xl font-bold text-emerald-600">
-                            ₹{totalAmount.toFixed(2)}
-                          </p>
+                        <div className="flex items-center gap-3 ml-auto lg:ml-0">
+                          <div className="text-right">
+                            <p className="text-xs text-gray-500">Total</p>
+                            <p className="text-xl font-bold text-emerald-600">
+                              ₹{order.total_amount.toFixed(2)}
+                            </p>
+                          </div>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleOrderExpand(order.id);
+                            }}
+                            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                          >
+                            {isExpanded ? (
+                              <ChevronUp className="w-5 h-5 text-gray-500" />
+                            ) : (
+                              <ChevronDown className="w-5 h-5 text-gray-500" />
+                            )}
+                          </button>
                         </div>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            toggleOrderExpand(order.id);
-                          }}
-                          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-                        >
-                          {isExpanded ? (
-                            <ChevronUp className="w-5 h-5 text-gray-500" />
-                          ) : (
-                            <ChevronDown className="w-5 h-5 text-gray-500" />
-                          )}
-                        </button>
                       </div>
-                    </div>
 
-                    {/* Progress Bar */}
-                    <div className="mt-3">
-                      <div className="w-full h-1.5 bg-gray-100 rounded-full overflow-hidden">
-                        <div 
-                          className={`h-full rounded-full transition-all duration-1000 ease-out ${
-                            order.status === 'cancelled' 
-                              ? 'bg-red-500' 
-                              : 'bg-gradient-to-r from-emerald-500 to-blue-500'
-                          } ${statusConfig.progress}`}
-                        />
+                      {/* Progress Bar */}
+                      <div className="mt-3">
+                        <div className="w-full h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                          <div 
+                            className={`h-full rounded-full transition-all duration-1000 ease-out ${
+                              order.status === 'cancelled' 
+                                ? 'bg-red-500' 
+                                : 'bg-gradient-to-r from-emerald-500 to-blue-500'
+                            } ${statusConfig.progress}`}
+                          />
+                        </div>
                       </div>
                     </div>
-                  </div>
 
-                  {/* Expanded Content */}
-                  {isExpanded && (
-                    <div className="border-t border-gray-100 p-5 bg-gradient-to-br from-gray-50 to-white">
-                      {/* Feedback */}
-                      {feedback && (
-                        <div className={`mb-4 p-4 rounded-xl border ${
-                          feedback.type === 'success' 
-                            ? 'border-emerald-200 bg-emerald-50' 
-                            : 'border-red-200 bg-red-50'
-                        }`}>
-                          <div className="flex items-start gap-2">
-                            {feedback.type === 'success' ? (
-                              <CheckCircle className="w-5 h-5 text-emerald-600 flex-shrink-0 mt-0.5" />
-                            ) : (
-                              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
-                            )}
-                            <span className={`text-sm font-medium ${
-                              feedback.type === 'success' ? 'text-emerald-800' : 'text-red-800'
-                            }`}>
-                              {feedback.message}
-                            </span>
-                          </div>
-                        </div>
-                      )}
-
-                      <div className="grid lg:grid-cols-2 gap-6">
-                        {/* Left Column - Items & Details */}
-                        <div>
-                          <div className="flex items-center gap-2 mb-3">
-                            <Package className="w-4 h-4 text-emerald-600" />
-                            <h4 className="font-semibold text-gray-900">Order Items</h4>
+                    {/* Expanded Content */}
+                    {isExpanded && (
+                      <div className="border-t border-gray-100 p-5 bg-gradient-to-br from-gray-50 to-white">
+                        {/* Feedback */}
+                        {feedback && (
+                          <div className={`mb-4 p-4 rounded-xl border ${
+                            feedback.type === 'success' 
+                              ? 'border-emerald-200 bg-emerald-50' 
+                              : 'border-red-200 bg-red-50'
+                          }`}>
+                            <div className="flex items-start gap-2">
+                              {feedback.type === 'success' ? (
+                                <CheckCircle className="w-5 h-5 text-emerald-600 flex-shrink-0 mt-0.5" />
+                              ) : (
+                                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                              )}
+                              <span className={`text-sm font-medium ${
+                                feedback.type === 'success' ? 'text-emerald-800' : 'text-red-800'
+                              }`}>
+                                {feedback.message}
+                              </span>
+                            </div>
                           </div>
-                          <div className="space-y-2 max-h-60 overflow-y-auto pr-2">
-                            {order.order_items.map((item) => (
-                              <div 
-                                key={item.id} 
-                                className="flex items-center justify-between rounded-xl border border-gray-100 bg-white px-4 py-2.5 shadow-sm hover:shadow-md transition-shadow"
-                              >
-                                <div className="flex items-center gap-3">
-                                  <span className="text-sm font-semibold text-gray-900 bg-gray-100 px-2.5 py-0.5 rounded-lg">
-                                    {item.quantity}×
+                        )}
+
+                        <div className="grid lg:grid-cols-2 gap-6">
+                          {/* Left Column - Items & Details */}
+                          <div>
+                            <div className="flex items-center gap-2 mb-3">
+                              <Package className="w-4 h-4 text-emerald-600" />
+                              <h4 className="font-semibold text-gray-900">Order Items</h4>
+                            </div>
+                            <div className="space-y-2 max-h-60 overflow-y-auto pr-2">
+                              {order.order_items.map((item) => (
+                                <div 
+                                  key={item.id} 
+                                  className="flex items-center justify-between rounded-xl border border-gray-100 bg-white px-4 py-2.5 shadow-sm hover:shadow-md transition-shadow"
+                                >
+                                  <div className="flex items-center gap-3">
+                                    <span className="text-sm font-semibold text-gray-900 bg-gray-100 px-2.5 py-0.5 rounded-lg">
+                                      {item.quantity}×
+                                    </span>
+                                    <span className="text-sm text-gray-700">{item.item_name}</span>
+                                  </div>
+                                  <span className="text-sm font-medium text-gray-900">
+                                    ₹{item.subtotal.toFixed(2)}
                                   </span>
-                                  <span className="text-sm text-gray-700">{item.item_name}</span>
                                 </div>
-                                <span className="text-sm font-medium text-gray-900">
-                                  ₹{item.subtotal.toFixed(2)}
-                                </span>
-                              </div>
-                            ))}
-                          </div>
+                              ))}
+                            </div>
 
-                          {/* Customer Details */}
-                          <div className="mt-4 p-4 bg-white rounded-xl border border-gray-100 shadow-sm">
-                            <h4 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
-                              <User className="w-4 h-4 text-emerald-600" />
-                              Customer Details
-                            </h4>
-                            <div className="space-y-2 text-sm">
-                              <div className="flex items-center justify-between">
-                                <span className="text-gray-600">Name</span>
-                                <span className="font-medium text-gray-900">{order.customer_name}</span>
-                              </div>
-                              <div className="flex items-center justify-between">
-                                <span className="text-gray-600">Phone</span>
-                                <div className="flex items-center gap-2">
-                                  <span className="font-medium text-gray-900">
-                                    {order.customer_phone || 'Not provided'}
-                                  </span>
-                                  {order.customer_phone && (
-                                    <button 
-                                      onClick={() => copyPhone(order.customer_phone)} 
-                                      className="p-1 text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50 rounded-lg transition-colors"
-                                    >
-                                      {copiedPhone === order.customer_phone ? (
-                                        <Check className="w-4 h-4" />
-                                      ) : (
-                                        <Copy className="w-4 h-4" />
-                                      )}
-                                    </button>
-                                  )}
+                            {/* Customer Details */}
+                            <div className="mt-4 p-4 bg-white rounded-xl border border-gray-100 shadow-sm">
+                              <h4 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                                <User className="w-4 h-4 text-emerald-600" />
+                                Customer Details
+                              </h4>
+                              <div className="space-y-2 text-sm">
+                                <div className="flex items-center justify-between">
+                                  <span className="text-gray-600">Name</span>
+                                  <span className="font-medium text-gray-900">{order.customer_name}</span>
+                                </div>
+                                <div className="flex items-center justify-between">
+                                  <span className="text-gray-600">Phone</span>
+                                  <div className="flex items-center gap-2">
+                                    <span className="font-medium text-gray-900">
+                                      {order.customer_phone || 'Not provided'}
+                                    </span>
+                                    {order.customer_phone && (
+                                      <button 
+                                        onClick={() => copyPhone(order.customer_phone)} 
+                                        className="p-1 text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50 rounded-lg transition-colors"
+                                      >
+                                        {copiedPhone === order.customer_phone ? (
+                                          <Check className="w-4 h-4" />
+                                        ) : (
+                                          <Copy className="w-4 h-4" />
+                                        )}
+                                      </button>
+                                    )}
+                                  </div>
+                                </div>
+                                <div className="flex items-start gap-2 pt-2 border-t border-gray-100">
+                                  <MapPin className="w-4 h-4 text-emerald-600 mt-0.5 flex-shrink-0" />
+                                  <AddressDetails order={order} className="text-gray-700 text-xs" />
                                 </div>
-                              </div>
-                              <div className="flex items-start gap-2 pt-2 border-t border-gray-100">
-                                <MapPin className="w-4 h-4 text-emerald-600 mt-0.5 flex-shrink-0" />
-                                <span className="text-gray-700 whitespace-pre-line text-xs">
-                                  {order.delivery_address}
-                                </span>
                               </div>
                             </div>
-                          </div>
-                        </div>
 
-                        {/* Right Column - Actions */}
-                        <div className="space-y-3">
-                          <div className="bg-gradient-to-br from-emerald-50 to-blue-50 rounded-xl border border-gray-200 p-4 shadow-sm">
-                            <div className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-3">
-                              <Truck className="w-4 h-4 text-emerald-600" />
-                              Delivery Actions
+                            <div className="mt-4">
+                              <OrderTimeline
+                                order={order}
+                                names={{
+                                  [order.customer_id]: order.customer_name,
+                                  ...(user ? { [user.id]: 'You' } : {}),
+                                }}
+                              />
                             </div>
+                          </div>
+
+                          {/* Right Column - Actions */}
+                          <div className="space-y-3">
+                            <div className="bg-gradient-to-br from-emerald-50 to-blue-50 rounded-xl border border-gray-200 p-4 shadow-sm">
+                              <div className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-3">
+                                <Truck className="w-4 h-4 text-emerald-600" />
+                                Delivery Actions
+                              </div>
+                            
+                              {canTransition(order, 'accepted', riderContext) && (
+                                <button 
+                                  onClick={() => acceptOrder(order.id)} 
+                                  className="w-full bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white px-4 py-2.5 rounded-xl font-semibold transition-all duration-200 hover:shadow-lg transform hover:scale-[1.02] mb-3"
+                                >
+                                  Accept Order
+                                </button>
+                              )}
+
+                              {canTransition(order, 'out_for_delivery', riderContext) && (
+                                <button 
+                                  onClick={() => startDelivery(order.id)} 
+                                  className="w-full bg-gradient-to-r from-indigo-500 to-indigo-600 hover:from-indigo-600 hover:to-indigo-700 text-white px-4 py-2.5 rounded-xl font-semibold transition-all duration-200 hover:shadow-lg transform hover:scale-[1.02] mb-3"
+                                >
+                                  Start Delivery
+                                </button>
+                              )}
                             
-                            {order.status === 'pending' && order.delivery_boy_id === user?.id && (
                               <button 
-                                onClick={() => acceptOrder(order.id)} 
-                                className="w-full bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white px-4 py-2.5 rounded-xl font-semibold transition-all duration-200 hover:shadow-lg transform hover:scale-[1.02] mb-3"
+                                onClick={() => setProofOrderId(proofOrderId === order.id ? null : order.id)} 
+                                disabled={!!handoverError(order, riderContext)}
+                                className={`w-full px-4 py-2.5 rounded-xl font-semibold transition-all duration-200 ${
+                                  handoverError(order, riderContext)
+                                    ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
+                                    : 'bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700 text-white hover:shadow-lg transform hover:scale-[1.02]'
+                                }`}
                               >
-                                Accept Order
+                                {order.status === 'delivered' ? '✓ Delivered' : order.status === 'delivery_failed' ? 'Waiting for the shop to re-schedule' : !handoverError(order, riderContext) ? 'Confirm Delivery' : 'Accept the order first'}
                               </button>
-                            )}
-                            
-                            <button 
-                              onClick={() => confirmDelivery(order.id, order.delivery_pin)} 
-                              disabled={order.status === 'delivered'}
-                              className={`w-full px-4 py-2.5 rounded-xl font-semibold transition-all duration-200 ${
-                                order.status === 'delivered'
-                                  ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
-                                  : 'bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700 text-white hover:shadow-lg transform hover:scale-[1.02]'
-                              }`}
-                            >
-                              {order.status === 'delivered' ? '✓ Delivered' : 'Confirm Delivery'}
-                            </button>
-                          </div>
 
-                          <div className="bg-white rounded-xl border border-gray-200 p-4 shadow-sm">
-                            <div className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-2">
-                              <ClipboardCheck className="w-4 h-4 text-emerald-600" />
-                              Order Summary
+                              {proofOrderId === order.id && order.status !== 'delivered' && (
+                                <ProofOfDeliveryForm
+                                  onConfirm={(input) => confirmDelivery(order.id, input)}
+                                  onCancel={() => setProofOrderId(null)}
+                                />
+                              )}
+
+                              {canTransition(order, 'delivery_failed', riderContext) && failOrderId !== order.id && (
+                                <button
+                                  onClick={() => {
+                                    setFailOrderId(order.id);
+                                    setProofOrderId(null);
+                                  }}
+                                  className="w-full mt-3 flex items-center justify-center gap-2 px-4 py-2 rounded-xl border-2 border-orange-200 text-orange-700 font-semibold hover:bg-orange-50 transition-colors"
+                                >
+                                  <AlertTriangle className="w-4 h-4" />
+                                  Delivery Failed
+                                </button>
+                              )}
+
+                              {failOrderId === order.id && canTransition(order, 'delivery_failed', riderContext) && (
+                                <FailedAttemptForm
+                                  attemptsLeft={attemptsLeft(order)}
+                                  onSubmit={(input) => recordFailure(order.id, input)}
+                                  onCancel={() => setFailOrderId(null)}
+                                />
+                              )}
+
+                              {needsCashCollection(order) && order.delivery_boy_id === user?.id && (
+                                <div className="mt-3 p-3 rounded-xl bg-amber-50 border border-amber-200 space-y-2">
+                                  <div className="flex items-center gap-2 text-sm font-semibold text-amber-800">
+                                    <Wallet className="w-4 h-4" />
+                                    Cash collected (due ₹{order.total_amount.toFixed(2)})
+                                  </div>
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={cashForm(order).amount}
+                                    onChange={(e) => updateCashForm(order, { amount: e.target.value })}
+                                    className="w-full px-3 py-2 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                                  />
+                                  <input
+                                    type="text"
+                                    value={cashForm(order).note}
+                                    onChange={(e) => updateCashForm(order, { note: e.target.value })}
+                                    placeholder="Note if short or extra, e.g. no change for ₹500"
+                                    className="w-full px-3 py-2 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm"
+                                  />
+                                  <button
+                                    onClick={() => recordCash(order)}
+                                    disabled={cashForm(order).saving}
+                                    className="w-full bg-amber-500 hover:bg-amber-600 text-white px-4 py-2 rounded-xl font-semibold transition-colors disabled:opacity-50"
+                                  >
+                                    {cashForm(order).saving ? 'Saving...' : 'Record Cash'}
+                                  </button>
+                                </div>
+                              )}
                             </div>
-                            <div className="space-y-1 text-sm">
-                              <div className="flex justify-between">
-                                <span className="text-gray-600">Items</span>
-                                <span className="font-medium text-gray-900">{totalItems}</span>
-                              </div>
-                              <div className="flex justify-between">
-                                <span className="text-gray-600">Total Amount</span>
-                                <span className="font-bold text-emerald-600">₹{totalAmount.toFixed(2)}</span>
+
+                            <div className="bg-white rounded-xl border border-gray-200 p-4 shadow-sm">
+                              <div className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-2">
+                                <ClipboardCheck className="w-4 h-4 text-emerald-600" />
+                                Order Summary
                               </div>
-                              <div className="flex justify-between pt-2 border-t border-gray-100">
-                                <span className="text-gray-600">Status</span>
-                                <span className={`font-medium ${statusConfig.color}`}>
-                                  {statusConfig.label}
-                                </span>
+                              <div className="space-y-1 text-sm">
+                                <div className="flex justify-between">
+                                  <span className="text-gray-600">Items</span>
+                                  <span className="font-medium text-gray-900">{totalItems}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                  <span className="text-gray-600">Total Amount</span>
+                                  <span className="font-bold text-emerald-600">₹{order.total_amount.toFixed(2)}</span>
+                                </div>
+                                {paysOnDelivery(order.payment_method) && order.status !== 'delivered' && (
+                                  <div className="flex justify-between">
+                                    <span className="text-gray-600">Cash to Collect</span>
+                                    <span className="font-bold text-amber-600">₹{order.total_amount.toFixed(2)}</span>
+                                  </div>
+                                )}
+                                <div className="flex justify-between pt-2 border-t border-gray-100">
+                                  <span className="text-gray-600">Status</span>
+                                  <span className={`font-medium ${statusConfig.color}`}>
+                                    {statusConfig.label}
+                                  </span>
+                                </div>
                               </div>
                             </div>
                           </div>
                         </div>
                       </div>
-                    </div>
-                  )}
-                </div>
+                    )}
+                  </div>
+                </Fragment>
               );
             })}
           </div>
@@ -1,5 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { EMPTY_SHOP_STATS, ShopStats, fetchShopStats } from '../lib/analytics';
 import { 
   LogOut, 
   Package, 
@@ -17,36 +19,69 @@ import {
   Sparkles,
   Zap,
   Clock,
-  CheckCircle
+  CheckCircle,
+  MapPin,
+  Hexagon,
+  Wallet,
+  IndianRupee
 } from 'lucide-react';
 import { ItemsManagement } from '../components/owner/ItemsManagement';
 import { OrdersManagement } from '../components/owner/OrdersManagement';
+import { CouponsManagement } from '../components/owner/CouponsManagement';
 import DeliveryUserForm from '../components/owner/DeliveryUserForm';
+import { DeliverySettingsForm } from '../components/owner/DeliverySettingsForm';
+import { DeliveryZonesForm } from '../components/owner/DeliveryZonesForm';
+import { DeliverySlotsForm } from '../components/owner/DeliverySlotsForm';
+import { ServiceAreaForm } from '../components/owner/ServiceAreaForm';
+import { ShopSettings } from '../components/owner/ShopSettings';
+import { CashReconciliation } from '../components/owner/CashReconciliation';
+import { RiderPayForm } from '../components/owner/RiderPayForm';
+import { RiderPayouts } from '../components/owner/RiderPayouts';
 
-type TabType = 'items' | 'orders' | 'delivery';
+type TabType = 'items' | 'orders' | 'coupons' | 'delivery' | 'settings';
 
 export function OwnerDashboard() {
   const { signOut, profile } = useAuth();
   const [activeTab, setActiveTab] = useState<TabType>('items');
   const [userMenuOpen, setUserMenuOpen] = useState(false);
-  const [stats, setStats] = useState({
-    totalItems: 0,
-    totalOrders: 0,
-    pendingOrders: 0,
-    deliveredToday: 0
-  });
-
-  // Simulate stats (in real app, fetch from API)
-  useEffect(() => {
-    // This would be replaced with actual API calls
-    setStats({
-      totalItems: 156,
-      totalOrders: 89,
-      pendingOrders: 12,
-      deliveredToday: 7
-    });
+  const [stats, setStats] = useState<ShopStats>(EMPTY_SHOP_STATS);
+  // Bumped when the shop record is saved so the delivery charges panel reloads it
+  const [shopSavedAt, setShopSavedAt] = useState(0);
+
+  const loadStats = useCallback(async () => {
+    try {
+      setStats(await fetchShopStats());
+    } catch (error) {
+      console.error('Error loading dashboard stats:', error);
+    }
   }, []);
 
+  // Recompute whenever orders, their items or the catalogue change
+  useEffect(() => {
+    loadStats();
+
+    const channel = supabase
+      .channel()
+      .on('postgres_changes', { table: 'orders' }, () => loadStats())
+      .on('postgres_changes', { table: 'order_items' }, () => loadStats())
+      .on('postgres_changes', { table: 'items' }, () => loadStats())
+      .subscribe();
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === 'order_updated_at' || e.key === 'order_placed_at') loadStats();
+    };
+    window.addEventListener('order_updated', loadStats);
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      supabase.removeChannel(channel);
+      window.removeEventListener('order_updated', loadStats);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [loadStats]);
+
+  const maxDayRevenue = Math.max(1, ...stats.revenueByDay.map((d) => d.revenue));
+
   const handleSignOut = async () => {
     await signOut();
     setUserMenuOpen(false);
@@ -55,7 +90,9 @@ export function OwnerDashboard() {
   const tabs = [
     { id: 'items', label: 'Manage Items', icon: Package, color: 'from-emerald-500 to-teal-500' },
     { id: 'orders', label: 'View Orders', icon: ShoppingBag, color: 'from-purple-500 to-pink-500' },
-    { id: 'delivery', label: 'Delivery Users', icon: Truck, color: 'from-blue-500 to-indigo-500' }
+    { id: 'coupons', label: 'Coupons', icon: Gift, color: 'from-orange-500 to-pink-500' },
+    { id: 'delivery', label: 'Delivery Users', icon: Truck, color: 'from-blue-500 to-indigo-500' },
+    { id: 'settings', label: 'Shop Settings', icon: Settings, color: 'from-gray-600 to-purple-600' }
   ];
 
   return (
@@ -87,10 +124,22 @@ export function OwnerDashboard() {
             </div>
 
             <div className="flex items-center gap-3">
-              {/* Notification Bell */}
-              <button className="p-2 hover:bg-gradient-to-r hover:from-purple-100 hover:to-pink-100 rounded-xl transition-all duration-300 relative">
+              {/* Notification Bell: failed deliveries waiting for a decision */}
+              <button
+                onClick={() => stats.failedDeliveries > 0 && setActiveTab('orders')}
+                title={
+                  stats.failedDeliveries > 0
+                    ? `${stats.failedDeliveries} failed deliver${stats.failedDeliveries === 1 ? 'y needs' : 'ies need'} your attention`
+                    : 'No new notifications'
+                }
+                className="p-2 hover:bg-gradient-to-r hover:from-purple-100 hover:to-pink-100 rounded-xl transition-all duration-300 relative"
+              >
                 <Bell className="w-5 h-5 text-gray-600" />
-                <span className="absolute top-1 right-1 w-2 h-2 bg-gradient-to-r from-red-500 to-orange-500 rounded-full animate-ping" />
+                {stats.failedDeliveries > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 bg-gradient-to-r from-red-500 to-orange-500 text-white text-xs font-bold rounded-full flex items-center justify-center">
+                    {stats.failedDeliveries}
+                  </span>
+                )}
               </button>
 
               {/* User Menu */}
@@ -182,6 +231,70 @@ export function OwnerDashboard() {
           </div>
         </div>
 
+        {/* Revenue & Top Sellers */}
+        <div className="grid lg:grid-cols-3 gap-4 mb-8">
+          <div className="lg:col-span-2 bg-white/80 backdrop-blur-sm rounded-2xl p-5 shadow-xl border border-white/20">
+            <div className="flex items-center gap-2 mb-4">
+              <BarChart3 className="w-5 h-5 text-purple-600" />
+              <h3 className="font-semibold text-gray-900">Revenue</h3>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-5">
+              {[
+                { label: 'Today', value: stats.revenueToday },
+                { label: 'Last 7 Days', value: stats.revenueWeek },
+                { label: 'This Month', value: stats.revenueMonth },
+                { label: 'Avg. Order', value: stats.averageOrderValue },
+              ].map((card) => (
+                <div key={card.label} className="rounded-xl bg-gradient-to-br from-purple-50 to-pink-50 p-3">
+                  <p className="text-xs text-gray-500 font-medium uppercase tracking-wider">{card.label}</p>
+                  <p className="text-lg font-bold text-gray-900 mt-1">₹{card.value.toFixed(2)}</p>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-end gap-1 h-28">
+              {stats.revenueByDay.map((day) => (
+                <div key={day.date} className="flex-1 flex flex-col items-center justify-end h-full" title={`${day.date}: ₹${day.revenue.toFixed(2)} (${day.orders} orders)`}>
+                  <div
+                    className="w-full rounded-t-md bg-gradient-to-t from-purple-500 to-pink-400"
+                    style={{ height: `${(day.revenue / maxDayRevenue) * 100}%`, minHeight: day.revenue > 0 ? 4 : 0 }}
+                  />
+                  <span className="text-[10px] text-gray-400 mt-1">{day.date.slice(8)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-5 shadow-xl border border-white/20">
+            <div className="flex items-center gap-2 mb-4">
+              <TrendingUp className="w-5 h-5 text-emerald-600" />
+              <h3 className="font-semibold text-gray-900">Top Sellers</h3>
+            </div>
+            {stats.topVariants.length === 0 ? (
+              <p className="text-sm text-gray-500">No sales yet</p>
+            ) : (
+              <ol className="space-y-3">
+                {stats.topVariants.map((variant, index) => (
+                  <li key={variant.variantId} className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="w-6 h-6 flex-shrink-0 rounded-full bg-emerald-100 text-emerald-700 text-xs font-bold flex items-center justify-center">
+                        {index + 1}
+                      </span>
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{variant.itemName}</p>
+                        <p className="text-xs text-gray-500">{variant.quantityUnit}</p>
+                      </div>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <p className="text-sm font-semibold text-gray-900">{variant.quantity} sold</p>
+                      <p className="text-xs text-gray-500">₹{variant.revenue.toFixed(2)}</p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+
         {/* Tabs */}
         <div className="flex gap-3 mb-8 overflow-x-auto pb-2">
           {tabs.map((tab) => {
@@ -255,18 +368,143 @@ export function OwnerDashboard() {
             </div>
           )}
 
-          {activeTab === 'delivery' && (
+          {activeTab === 'coupons' && (
             <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
               <div className="flex items-center gap-3 mb-6">
-                <div className="p-2 bg-gradient-to-br from-blue-500 to-indigo-500 rounded-xl">
-                  <Truck className="w-5 h-5 text-white" />
+                <div className="p-2 bg-gradient-to-br from-orange-500 to-pink-500 rounded-xl">
+                  <Gift className="w-5 h-5 text-white" />
                 </div>
                 <div>
-                  <h2 className="text-xl font-bold text-gray-900">Delivery Management</h2>
-                  <p className="text-sm text-gray-500">Create and manage delivery personnel accounts</p>
+                  <h2 className="text-xl font-bold text-gray-900">Coupons & Promotions</h2>
+                  <p className="text-sm text-gray-500">Create discount codes and control how often they can be used</p>
+                </div>
+              </div>
+              <CouponsManagement />
+            </div>
+          )}
+
+          {activeTab === 'settings' && (
+            <div className="space-y-6">
+              <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="p-2 bg-gradient-to-br from-gray-600 to-purple-600 rounded-xl">
+                    <Settings className="w-5 h-5 text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">Shop Settings</h2>
+                    <p className="text-sm text-gray-500">Your shop's details, location and business hours</p>
+                  </div>
+                </div>
+                <ShopSettings onSaved={() => setShopSavedAt(Date.now())} />
+              </div>
+
+              <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="p-2 bg-gradient-to-br from-blue-500 to-indigo-500 rounded-xl">
+                    <Truck className="w-5 h-5 text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">Delivery Charges</h2>
+                    <p className="text-sm text-gray-500">How far you deliver and what customers pay for it</p>
+                  </div>
+                </div>
+                <DeliverySettingsForm key={shopSavedAt} />
+              </div>
+
+              <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="p-2 bg-gradient-to-br from-indigo-500 to-purple-500 rounded-xl">
+                    <Hexagon className="w-5 h-5 text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">Delivery Zones</h2>
+                    <p className="text-sm text-gray-500">Areas you deliver to, each with its own fee and minimum order</p>
+                  </div>
+                </div>
+                <DeliveryZonesForm key={shopSavedAt} />
+              </div>
+
+              <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="p-2 bg-gradient-to-br from-purple-500 to-pink-500 rounded-xl">
+                    <MapPin className="w-5 h-5 text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">Service Area</h2>
+                    <p className="text-sm text-gray-500">PIN codes you deliver to</p>
+                  </div>
+                </div>
+                <ServiceAreaForm />
+              </div>
+
+              <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="p-2 bg-gradient-to-br from-emerald-500 to-teal-500 rounded-xl">
+                    <Clock className="w-5 h-5 text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">Delivery Slots</h2>
+                    <p className="text-sm text-gray-500">Time windows customers can book, and how many orders each takes</p>
+                  </div>
+                </div>
+                <DeliverySlotsForm />
+              </div>
+
+              <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="p-2 bg-gradient-to-br from-emerald-500 to-teal-500 rounded-xl">
+                    <IndianRupee className="w-5 h-5 text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">Rider Pay</h2>
+                    <p className="text-sm text-gray-500">What delivery staff earn per delivery, per km and in peak hours</p>
+                  </div>
+                </div>
+                <RiderPayForm />
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'delivery' && (
+            <div className="space-y-6">
+              <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="p-2 bg-gradient-to-br from-blue-500 to-indigo-500 rounded-xl">
+                    <Truck className="w-5 h-5 text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">Delivery Management</h2>
+                    <p className="text-sm text-gray-500">Create and manage delivery personnel accounts</p>
+                  </div>
+                </div>
+                <DeliveryUserForm />
+              </div>
+
+              <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="p-2 bg-gradient-to-br from-amber-500 to-orange-500 rounded-xl">
+                    <Wallet className="w-5 h-5 text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">Cash Reconciliation</h2>
+                    <p className="text-sm text-gray-500">Cash collected on delivery, and settling it with your delivery staff</p>
+                  </div>
+                </div>
+                <CashReconciliation />
+              </div>
+
+              <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl border border-white/20 p-6">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="p-2 bg-gradient-to-br from-emerald-500 to-teal-500 rounded-xl">
+                    <IndianRupee className="w-5 h-5 text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">Rider Payouts</h2>
+                    <p className="text-sm text-gray-500">Earnings statements for your delivery staff, and recording what you paid</p>
+                  </div>
                 </div>
+                <RiderPayouts />
               </div>
-              <DeliveryUserForm />
             </div>
           )}
         </div>
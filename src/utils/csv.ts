@@ -0,0 +1,22 @@
+// Quote a CSV field when it contains a separator, quote or line break
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n');
+}
+
+// Save the rows as a file through a temporary link
+export function downloadCsv(filename: string, rows: (string | number)[][]) {
+  const blob = new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'memory' runs against the in-memory backend instead of Firebase
+  readonly VITE_BACKEND?: string;
+  // Card gateway; only 'mock' exists so far. See lib/payments
+  readonly VITE_PAYMENT_PROVIDER?: string;
+}